@@ -1,9 +1,12 @@
 import express from 'express';
-import { Pool } from 'pg';
+import { Pool, PoolClient, types } from 'pg';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import multer from 'multer';
 import xlsx from 'xlsx';
+import { stream as excelStream } from 'exceljs';
+import { createHash, randomBytes } from 'crypto';
+import { Readable } from 'stream';
 
 const app = express();
 
@@ -11,7 +14,7 @@ const app = express();
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-API-Key');
 
   // Handle preflight requests
   if (req.method === 'OPTIONS') {
@@ -23,19 +26,37 @@ app.use((req, res, next) => {
 
 app.use(express.json());
 
+// Vercel rejects request bodies over 4.5 MB before they reach this function, so a bigger limit here would never apply.
+// Bigger files are sent in chunks to /api/imports/uploads and read back from the database as a stream
+const IMPORT_MAX_FILE_SIZE = 4.5 * 1024 * 1024;
+// Size of each chunk of a stored upload; one chunk per request keeps every request under the Vercel limit
+const IMPORT_UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+const IMPORT_UPLOAD_MAX_SIZE = 200 * 1024 * 1024;
+
+// Helper function to accept Excel, CSV/TSV and JSON files; browsers report CSV with several mimetypes, so the extension also counts
+function isAllowedImportFile(fileName: string, mimetype?: string): boolean {
+  const allowedMimetypes = [
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-excel',
+    'text/csv',
+    'text/tab-separated-values',
+    'text/plain',
+    'application/json',
+  ];
+  return (mimetype !== undefined && allowedMimetypes.includes(mimetype)) || /\.(xlsx|xls|csv|tsv|txt|json)$/i.test(fileName);
+}
+
 // Setup multer for file uploads
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
+    fileSize: IMPORT_MAX_FILE_SIZE,
   },
   fileFilter: (req, file, cb) => {
-    // Accept Excel files
-    if (file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
-      file.mimetype === 'application/vnd.ms-excel') {
+    if (isAllowedImportFile(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Only Excel files are allowed (.xlsx, .xls)'));
+      cb(new Error('Only Excel, CSV, TSV or JSON files are allowed'));
     }
   }
 });
@@ -45,6 +66,9 @@ const pool = new Pool({
   ssl: { rejectUnauthorized: false }
 });
 
+// Keep DATE columns (e.g. vigente_desde) as plain YYYY-MM-DD strings instead of JS Dates
+types.setTypeParser(1082, (value: string) => value);
+
 const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret';
 
 // Define JWT payload interface
@@ -220,8 +244,67 @@ app.post('/api/setup/admin', async (req, res) => {
   }
 });
 
-// Middleware to verify JWT token
+const API_KEY_PREFIX = 'bok_';
+const API_KEY_READ_PATHS = ['/api/catalogs', '/api/catalog-releases', '/api/geography', '/api/cabys'];
+// Read-only endpoints that take their input in a POST body
+const API_KEY_READ_POST_PATHS = ['/api/catalogs/lookup'];
+
+// Helper function to hash API keys; only the hash is stored
+function hashApiKey(key: string) {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// Helper function to read an API key from the X-API-Key header or a Bearer token
+function extractApiKey(req: express.Request): string | null {
+  const headerKey = req.headers['x-api-key'];
+  if (typeof headerKey === 'string' && headerKey.trim()) {
+    return headerKey.trim();
+  }
+
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return authHeader.substring(7).trim();
+  }
+
+  return null;
+}
+
+// Middleware helper to authenticate read-only machine-to-machine requests with an API key
+async function authenticateApiKey(key: string, req: express.Request & { user?: JwtPayload }, res: express.Response, next: express.NextFunction) {
+  try {
+    const result = await pool.query(
+      `UPDATE api_keys SET last_used_at = NOW()
+       WHERE key_hash = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())
+       RETURNING id, name`,
+      [hashApiKey(key)]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(401).json({ message: 'Invalid or expired API key' });
+    }
+
+    const readable = req.method === 'GET'
+      ? API_KEY_READ_PATHS.some(prefix => req.path === prefix || req.path.startsWith(`${prefix}/`))
+      : req.method === 'POST' && API_KEY_READ_POST_PATHS.includes(req.path);
+    if (!readable) {
+      return res.status(403).json({ message: 'API keys only allow read access to catalogs and geography' });
+    }
+
+    req.user = { sub: result.rows[0].id, username: `api-key:${result.rows[0].name}`, role: 'API_KEY' };
+    next();
+  } catch (error) {
+    console.error('API key authentication error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+}
+
+// Middleware to verify JWT token or API key
 function authenticateToken(req: express.Request & { user?: JwtPayload }, res: express.Response, next: express.NextFunction) {
+  const apiKey = extractApiKey(req);
+  if (apiKey) {
+    return authenticateApiKey(apiKey, req, res, next);
+  }
+
   const authHeader = req.headers.authorization;
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return res.status(401).json({ message: 'Token required' });
@@ -253,7 +336,7 @@ const catalogDefinitions: any[] = [
     tableName: 'tipos_documento',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -264,7 +347,7 @@ const catalogDefinitions: any[] = [
     tableName: 'situaciones_presentacion',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'int', required: true },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 1, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -274,7 +357,7 @@ const catalogDefinitions: any[] = [
     label: 'Actividades Económicas',
     tableName: 'actividades_economicas',
     fields: [
-      { name: 'codigo', type: 'string', required: true, length: 255 },
+      { name: 'codigo', type: 'string', required: true, length: 255, codeFormat: { width: 6, padding: '0', numeric: true } },
       { name: 'nombre', type: 'string', required: true, length: 1024 },
     ],
     uniqueBy: ['codigo'],
@@ -286,7 +369,7 @@ const catalogDefinitions: any[] = [
     tableName: 'condiciones_venta',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -297,7 +380,7 @@ const catalogDefinitions: any[] = [
     tableName: 'tipos_identificacion',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -308,7 +391,7 @@ const catalogDefinitions: any[] = [
     tableName: 'formas_farmaceuticas',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'int', required: true },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -319,7 +402,7 @@ const catalogDefinitions: any[] = [
     tableName: 'tipos_codigo_ps',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -357,7 +440,7 @@ const catalogDefinitions: any[] = [
     tableName: 'tipos_transaccion',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -368,7 +451,7 @@ const catalogDefinitions: any[] = [
     tableName: 'tipos_descuento',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -379,7 +462,7 @@ const catalogDefinitions: any[] = [
     tableName: 'tipos_impuestos',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -390,7 +473,7 @@ const catalogDefinitions: any[] = [
     tableName: 'tarifas_iva',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -401,7 +484,7 @@ const catalogDefinitions: any[] = [
     tableName: 'tipos_documento_exoneracion',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -412,7 +495,7 @@ const catalogDefinitions: any[] = [
     tableName: 'instituciones_exoneracion',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -423,7 +506,7 @@ const catalogDefinitions: any[] = [
     tableName: 'tipos_otros_cargos',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -435,7 +518,16 @@ const catalogDefinitions: any[] = [
     fields: [
       { name: 'pais', type: 'string', required: true, length: 1024 },
       { name: 'moneda', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 3 },
+      {
+        name: 'codigo',
+        type: 'string',
+        required: true,
+        length: 3,
+        validation: {
+          pattern: '^[A-Z]{3}$',
+          messages: { pattern: 'El campo "codigo" debe ser un código ISO 4217 de tres letras mayúsculas' },
+        },
+      },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['pais', 'moneda', 'codigo'],
@@ -446,7 +538,7 @@ const catalogDefinitions: any[] = [
     tableName: 'medios_pago',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -457,7 +549,7 @@ const catalogDefinitions: any[] = [
     tableName: 'tipos_documento_referencia',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -468,7 +560,7 @@ const catalogDefinitions: any[] = [
     tableName: 'codigos_referencia',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -479,7 +571,7 @@ const catalogDefinitions: any[] = [
     tableName: 'mensajes_recepcion',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'int', required: true },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 1, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -490,7 +582,7 @@ const catalogDefinitions: any[] = [
     tableName: 'condiciones_impuesto',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'string', required: true, length: 50 },
+      { name: 'codigo', type: 'string', required: true, length: 50, codeFormat: { width: 2, padding: '0', numeric: true } },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -500,9 +592,18 @@ const catalogDefinitions: any[] = [
     label: 'Catálogo de Bienes y Servicios',
     tableName: 'cabys',
     fields: [
-      { name: 'categoria', type: 'string', required: true, length: 1024 },
+      {
+        name: 'categoria',
+        type: 'string',
+        required: true,
+        length: 1024,
+        validation: {
+          pattern: '^(\\d{1,5}|\\d{7}|\\d{9}|\\d{11}|\\d{13})$',
+          messages: { pattern: 'El campo "categoria" debe ser un código CABYS de 13 dígitos o uno de sus niveles jerárquicos' },
+        },
+      },
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'impuesto', type: 'numeric', required: false, precision: 2, scale: 0 },
+      { name: 'impuesto', type: 'reference', required: false, reference: { catalog: 'tarifas-iva', field: 'codigo' } },
       { name: 'incluye', type: 'string', required: false, length: 1024 },
       { name: 'excluye', type: 'string', required: false, length: 1024 },
     ],
@@ -515,6 +616,168 @@ const catalogDefinitionsMap = new Map(
   catalogDefinitions.map((def) => [def.key, def]),
 );
 
+// Catalogs defined in code; the rest are loaded from catalog_definitions and can be edited at runtime
+const builtInCatalogKeys = new Set(catalogDefinitions.map((def) => def.key));
+
+// Helper function to resolve the target field of a reference field; the reference column takes the target's type
+function resolveReferencedField(field: any): any {
+  const target = catalogDefinitionsMap.get(field.reference?.catalog)
+    ?.fields.find((candidate: any) => candidate.name === field.reference?.field);
+  if (!target || target.type === 'reference') {
+    throw new Error(`Field ${field.name} references an unknown field: ${field.reference?.catalog}.${field.reference?.field}`);
+  }
+  return { ...target, name: field.name, required: field.required };
+}
+
+// Helper function to turn a code into its canonical zero-padded string; returns null when a numeric code has other characters
+function formatCatalogCode(format: any, value: any): string | null {
+  let text = String(value).trim();
+  if (format.numeric) {
+    if (!/^\d+(\.0*)?$/.test(text)) {
+      return null;
+    }
+    text = text.replace(/\.0*$/, '').replace(/^0+(?=\d)/, '');
+  }
+  return text.padStart(format.width, format.padding);
+}
+
+// Helper function to rewrite the coded fields of a create/update body in their canonical form; returns an error message or null
+function canonicalizeCatalogCodes(definition: any, body: any): string | null {
+  for (const definitionField of definition.fields) {
+    const field = definitionField.type === 'reference' ? resolveReferencedField(definitionField) : definitionField;
+    const value = body?.[definitionField.name];
+    if (!field.codeFormat || value === undefined || value === null || String(value).trim() === '') {
+      continue;
+    }
+    const code = formatCatalogCode(field.codeFormat, value);
+    if (code === null) {
+      return `${definitionField.name} must be a numeric code`;
+    }
+    body[definitionField.name] = code;
+  }
+  return null;
+}
+
+// Helper function to load the active values of every catalog a definition references, keyed by reference field
+async function loadCatalogReferenceValues(db: Pool | PoolClient, definition: any): Promise<Map<string, Set<string>>> {
+  const referenceValues = new Map<string, Set<string>>();
+  for (const field of definition.fields.filter((candidate: any) => candidate.type === 'reference')) {
+    const target = catalogDefinitionsMap.get(field.reference.catalog);
+    const result = await db.query(
+      `SELECT DISTINCT ${toCatalogColumnName(field.reference.field)} AS value FROM ${target.tableName} WHERE is_active = TRUE`
+    );
+    referenceValues.set(field.name, new Set(result.rows.map(row => String(normalizeImportValue(field, row.value)))));
+  }
+  return referenceValues;
+}
+
+// Helper function to check the reference fields of a create/update body; returns an error message or null
+async function findMissingCatalogReference(definition: any, body: any): Promise<string | null> {
+  for (const field of definition.fields.filter((candidate: any) => candidate.type === 'reference')) {
+    const value = normalizeImportValue(field, body?.[field.name]);
+    if (value === null) {
+      continue;
+    }
+    const target = catalogDefinitionsMap.get(field.reference.catalog);
+    const result = await pool.query(
+      `SELECT 1 FROM ${target.tableName} WHERE ${toCatalogColumnName(field.reference.field)} = $1 AND is_active = TRUE LIMIT 1`,
+      [value]
+    );
+    if (result.rows.length === 0) {
+      return `Value "${value}" of ${field.name} does not exist in ${target.label}`;
+    }
+  }
+  return null;
+}
+
+// Helper function to check a field value against the field's validation rules; returns an error message or null
+function findCatalogFieldRuleViolation(definitionField: any, value: any): string | null {
+  const field = definitionField.type === 'reference' ? resolveReferencedField(definitionField) : definitionField;
+  const rules = field.validation;
+  if (!rules || value === undefined || value === null || String(value).trim() === '') {
+    return null;
+  }
+  const messages = rules.messages ?? {};
+  const text = String(value).trim();
+
+  if (rules.pattern && !new RegExp(rules.pattern).test(text)) {
+    return messages.pattern ?? `${field.name} does not match the format ${rules.pattern}`;
+  }
+  if (field.type !== 'string') {
+    const numeric = Number(text);
+    if (rules.min !== undefined && numeric < rules.min) {
+      return messages.min ?? `${field.name} must be greater than or equal to ${rules.min}`;
+    }
+    if (rules.max !== undefined && numeric > rules.max) {
+      return messages.max ?? `${field.name} must be less than or equal to ${rules.max}`;
+    }
+  }
+  if (rules.allowedValues?.length && !rules.allowedValues.some((allowed: any) => String(allowed) === text)) {
+    return messages.allowedValues ?? `${field.name} must be one of: ${rules.allowedValues.join(', ')}`;
+  }
+  return null;
+}
+
+// Helper function to check every field of a create/update body against its validation rules
+function findCatalogRuleViolation(definition: any, body: any): string | null {
+  for (const field of definition.fields) {
+    const violation = findCatalogFieldRuleViolation(field, body?.[field.name]);
+    if (violation) {
+      return violation;
+    }
+  }
+  return null;
+}
+
+// Helper function to list the reference fields of other catalogs that point at this catalog
+function findReferencingFields(definition: any): { source: any; field: any }[] {
+  return catalogDefinitions.flatMap(source => source.fields
+    .filter((field: any) => field.type === 'reference' && field.reference.catalog === definition.key)
+    .map((field: any) => ({ source, field })));
+}
+
+// Helper function to load the values other catalogs actively reference, keyed by the referenced field of this catalog
+async function loadReferencedCatalogValues(db: Pool | PoolClient, definition: any): Promise<Map<string, Set<string>>> {
+  const referencedValues = new Map<string, Set<string>>();
+  for (const { source, field } of findReferencingFields(definition)) {
+    const column = toCatalogColumnName(field.name);
+    const result = await db.query(
+      `SELECT DISTINCT ${column} AS value FROM ${source.tableName} WHERE is_active = TRUE AND ${column} IS NOT NULL`
+    );
+    const values = referencedValues.get(field.reference.field) ?? new Set<string>();
+    result.rows.forEach(row => values.add(String(normalizeImportValue(field, row.value))));
+    referencedValues.set(field.reference.field, values);
+  }
+  return referencedValues;
+}
+
+// Helper function to warn about rows a replace import keeps active because they are still referenced
+function referencedRowsWarning(plan: CatalogImportPlan): CatalogImportError[] {
+  return plan.referenced > 0
+    ? [{ row: 0, message: `${plan.referenced} rows missing from the file were kept active because other catalogs reference them` }]
+    : [];
+}
+
+// Helper function to explain why an entry cannot be deactivated or re-keyed; returns null when nothing active references it
+async function findCatalogEntryReference(db: Pool | PoolClient, definition: any, row: any, changedFields?: string[]): Promise<string | null> {
+  for (const { source, field } of findReferencingFields(definition)) {
+    const targetField = field.reference.field;
+    const value = row[toCatalogColumnName(targetField)];
+    if ((changedFields && !changedFields.includes(targetField)) || value === null || value === undefined) {
+      continue;
+    }
+    const result = await db.query(
+      `SELECT COUNT(*) FROM ${source.tableName} WHERE ${toCatalogColumnName(field.name)} = $1 AND is_active = TRUE`,
+      [value]
+    );
+    const references = Number(result.rows[0].count);
+    if (references > 0) {
+      return `Entry is referenced by ${references} active entries of ${source.label} (${field.name})`;
+    }
+  }
+  return null;
+}
+
 // Helper function to transform database column names to camelCase
 function toCamelCase(str: string): string {
   // Handle snake_case: tipo_unidad -> tipoUnidad
@@ -570,23 +833,385 @@ function transformRowKeys(row: any): any {
   return transformed;
 }
 
-// Helper function to create catalog tables
-async function createCatalogTable(definition: any) {
+interface ListOrderColumn {
+  expression: string;
+  direction: 'ASC' | 'DESC';
+}
+
+interface ListPageOptions {
+  columns: string;
+  from: string;
+  conditions: string[];
+  params: any[];
+  // The last column must be unique (usually id) so every row has a distinct position
+  order: ListOrderColumn[];
+  limit: number;
+}
+
+// Helper function to render ORDER BY terms; nulls always sort last when walking forward
+function formatListOrder(order: ListOrderColumn[], backwards = false): string {
+  return order
+    .map(({ expression, direction }) => {
+      const effective = backwards ? (direction === 'ASC' ? 'DESC' : 'ASC') : direction;
+      return `${expression} ${effective} NULLS ${backwards ? 'FIRST' : 'LAST'}`;
+    })
+    .join(', ');
+}
+
+function encodeListCursor(direction: 'next' | 'prev', values: (string | null)[]): string {
+  return Buffer.from(JSON.stringify([direction, ...values])).toString('base64url');
+}
+
+function decodeListCursor(cursor: string, size: number): { direction: 'next' | 'prev'; values: (string | null)[] } | null {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== size + 1 ||
+    (decoded[0] !== 'next' && decoded[0] !== 'prev') ||
+    decoded.slice(1).some(value => value !== null && typeof value !== 'string')
+  ) {
+    return null;
+  }
+  return { direction: decoded[0], values: decoded.slice(1) };
+}
+
+// Helper function to build the keyset condition "rows after (or before) the cursor position" for the given order
+function buildKeysetCondition(
+  order: ListOrderColumn[],
+  cursor: { direction: 'next' | 'prev'; values: (string | null)[] },
+  params: any[]
+): string {
+  const backwards = cursor.direction === 'prev';
+  const placeholders = cursor.values.map(value => {
+    if (value === null) {
+      return null;
+    }
+    params.push(value);
+    return `$${params.length}`;
+  });
+
+  const branches = order.map((_, index) => {
+    const terms = order.slice(0, index).map(({ expression }, position) =>
+      placeholders[position] === null ? `${expression} IS NULL` : `${expression} = ${placeholders[position]}`
+    );
+    const { expression, direction } = order[index];
+    const placeholder = placeholders[index];
+    const operator = (direction === 'ASC') !== backwards ? '>' : '<';
+    if (placeholder === null) {
+      terms.push(backwards ? `${expression} IS NOT NULL` : 'FALSE');
+    } else {
+      terms.push(backwards
+        ? `${expression} ${operator} ${placeholder}`
+        : `(${expression} ${operator} ${placeholder} OR ${expression} IS NULL)`);
+    }
+    return `(${terms.join(' AND ')})`;
+  });
+
+  return `(${branches.join(' OR ')})`;
+}
+
+// Helper function to run one page of a list query. By default it uses page/limit with COUNT(*); with
+// pagination=cursor (or a cursor) it walks the ORDER BY columns with a keyset condition instead, which stays
+// fast on deep pages and does not skip or repeat rows while the table changes. includeTotal=true adds the count
+async function queryListPage(
+  query: express.Request['query'],
+  options: ListPageOptions
+): Promise<{ rows: any[]; meta: Record<string, any> } | { error: string }> {
+  const { columns, from, conditions, params, order, limit } = options;
+  const { page = 1, pagination, cursor, includeTotal } = query;
+
+  if (pagination !== undefined && pagination !== 'offset' && pagination !== 'cursor') {
+    return { error: 'pagination must be one of: offset, cursor' };
+  }
+
+  const whereClause = (extra: string[] = []) => {
+    const all = [...conditions, ...extra];
+    return all.length > 0 ? ` WHERE ${all.join(' AND ')}` : '';
+  };
+  const countQuery = () => pool.query(`SELECT COUNT(*) FROM ${from}${whereClause()}`, params);
+
+  if (pagination !== 'cursor' && !cursor) {
+    const pageNumber = Math.max(Number(page) || 1, 1);
+    const [itemsResult, countResult] = await Promise.all([
+      pool.query(
+        `SELECT ${columns} FROM ${from}${whereClause()} ORDER BY ${formatListOrder(order)} LIMIT ${limit} OFFSET ${(pageNumber - 1) * limit}`,
+        params
+      ),
+      countQuery(),
+    ]);
+    return {
+      rows: itemsResult.rows,
+      meta: { total: Number(countResult.rows[0].count), page: pageNumber, limit },
+    };
+  }
+
+  const position = typeof cursor === 'string' && cursor ? decodeListCursor(cursor, order.length) : null;
+  if (cursor && !position) {
+    return { error: 'cursor is not valid for this list; start again from the first page' };
+  }
+  const backwards = position?.direction === 'prev';
+  const keysetParams = [...params];
+  const keysetConditions = position ? [buildKeysetCondition(order, position, keysetParams)] : [];
+  const keysetSelect = `ARRAY[${order.map(({ expression }) => `(${expression})::text`).join(', ')}] AS keyset_cursor`;
+
+  const [itemsResult, countResult] = await Promise.all([
+    pool.query(
+      `SELECT ${columns}, ${keysetSelect} FROM ${from}${whereClause(keysetConditions)} ORDER BY ${formatListOrder(order, backwards)} LIMIT ${limit + 1}`,
+      keysetParams
+    ),
+    includeTotal === 'true' ? countQuery() : Promise.resolve(null),
+  ]);
+
+  const hasMore = itemsResult.rows.length > limit;
+  const rows = itemsResult.rows.slice(0, limit);
+  if (backwards) {
+    rows.reverse();
+  }
+  const keys = rows.map(({ keyset_cursor }) => keyset_cursor as (string | null)[]);
+  rows.forEach(row => delete row.keyset_cursor);
+
+  const hasNext = backwards || hasMore;
+  const hasPrev = backwards ? hasMore : Boolean(position);
+  return {
+    rows,
+    meta: {
+      limit,
+      nextCursor: hasNext && keys.length > 0 ? encodeListCursor('next', keys[keys.length - 1]) : null,
+      prevCursor: hasPrev && keys.length > 0 ? encodeListCursor('prev', keys[0]) : null,
+      ...(countResult ? { total: Number(countResult.rows[0].count) } : {}),
+    },
+  };
+}
+
+// Helper function to run several queries in a single transaction
+async function withTransaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await callback(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+type CatalogAuditAction = 'create' | 'update' | 'deactivate' | 'restore' | 'delete' | 'import' | 'rollback';
+
+interface CatalogAuditChange {
+  recordId: string;
+  before?: any;
+  after?: any;
+}
+
+// Helper function to write catalog_audit_log entries; before/after are stored in camelCase like the API responses.
+// Entries written by an import carry its job id so rolling the import back can revert exactly those rows
+async function recordCatalogAudit(
+  db: Pool | PoolClient,
+  catalogKey: string,
+  action: CatalogAuditAction,
+  user: Pick<JwtPayload, 'sub' | 'username'> | undefined,
+  changes: CatalogAuditChange[],
+  importJobId?: string
+) {
+  if (changes.length === 0) {
+    return;
+  }
+
+  const entries = changes.map(change => ({
+    recordId: change.recordId,
+    before: change.before ? transformRowKeys(change.before) : null,
+    after: change.after ? transformRowKeys(change.after) : null,
+  }));
+
+  await db.query(
+    `INSERT INTO catalog_audit_log (catalog_key, record_id, action, user_id, username, before_data, after_data, import_job_id)
+     SELECT $1, (entry->>'recordId')::uuid, $2, $3, $4, entry->'before', entry->'after', $6
+     FROM jsonb_array_elements($5::jsonb) AS entry`,
+    [catalogKey, action, user?.sub ?? null, user?.username ?? null, JSON.stringify(entries), importJobId ?? null]
+  );
+}
+
+// Helper function to activate or deactivate a catalog entry; returns the row or null when it does not exist
+async function setCatalogEntryActive(definition: any, id: string, isActive: boolean, user: JwtPayload | undefined) {
+  return withTransaction(client => changeCatalogEntryActive(client, definition, id, isActive, user));
+}
+
+async function changeCatalogEntryActive(client: PoolClient, definition: any, id: string, isActive: boolean, user: JwtPayload | undefined) {
+  const previous = await client.query(
+    `SELECT * FROM ${definition.tableName} WHERE id = $1 FOR UPDATE`,
+    [id]
+  );
+  if (previous.rows.length === 0) {
+    return null;
+  }
+  if (previous.rows[0].is_active === isActive) {
+    return previous.rows[0];
+  }
+
+  const updated = await client.query(
+    `UPDATE ${definition.tableName} SET is_active = $1, updated_at = NOW() WHERE id = $2 RETURNING *`,
+    [isActive, id]
+  );
+  await recordCatalogAudit(client, definition.key, isActive ? 'restore' : 'deactivate', user, [
+    { recordId: id, before: previous.rows[0], after: updated.rows[0] }
+  ]);
+  return updated.rows[0];
+}
+
+// Helper function to compute the sha256 checksum stored with catalog releases
+function computeChecksum(value: any): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
+
+// Helper function to read the active entries of a catalog in the stable order used by release snapshots
+async function loadReleaseEntries(client: PoolClient, definition: any) {
+  const orderBy = [...definition.uniqueBy.map(toCatalogColumnName), 'id'].join(', ');
+  const result = await client.query(
+    `SELECT * FROM ${definition.tableName} WHERE is_active = TRUE ORDER BY ${orderBy}`
+  );
+
+  return result.rows.map(row => {
+    const transformed = transformRowKeys(row);
+    const entry: any = { id: transformed.id };
+    definition.fields.forEach((field: any) => {
+      entry[field.name] = transformed[field.name] ?? null;
+    });
+    catalogValidityColumns.forEach(({ name }) => {
+      entry[name] = transformed[name] ?? null;
+    });
+    return entry;
+  });
+}
+
+// Helper function to list releases (optionally a single version) with their catalog snapshots
+async function fetchReleaseSummaries(version?: string) {
+  const result = await pool.query(
+    `SELECT r.*,
+       COALESCE(
+         json_agg(
+           json_build_object('catalogKey', s.catalog_key, 'checksum', s.checksum, 'entryCount', s.entry_count)
+           ORDER BY s.catalog_key
+         ) FILTER (WHERE s.id IS NOT NULL),
+         '[]'
+       ) AS catalogs
+     FROM catalog_releases r
+     LEFT JOIN catalog_release_snapshots s ON s.release_id = r.id
+     ${version ? 'WHERE r.version = $1' : ''}
+     GROUP BY r.id
+     ORDER BY r.created_at DESC`,
+    version ? [version] : []
+  );
+
+  return result.rows.map(row => ({
+    id: row.id,
+    version: row.version,
+    checksum: row.checksum,
+    notes: row.notes,
+    publishedBy: row.published_by,
+    createdAt: row.created_at,
+    catalogs: row.catalogs,
+  }));
+}
+
+// Helper function to find the snapshot of a catalog that applies to a release (the latest one published up to it)
+async function findReleaseSnapshot(catalogKey: string, releaseCreatedAt: Date, inclusive: boolean) {
+  const result = await pool.query(
+    `SELECT s.id, r.version
+     FROM catalog_release_snapshots s
+     JOIN catalog_releases r ON r.id = s.release_id
+     WHERE s.catalog_key = $1 AND r.created_at ${inclusive ? '<=' : '<'} $2
+     ORDER BY r.created_at DESC
+     LIMIT 1`,
+    [catalogKey, releaseCreatedAt]
+  );
+  return result.rows[0] ?? null;
+}
+
+// Validity window shared by every catalog: an entry applies between vigente_desde and vigente_hasta (inclusive)
+const catalogValidityColumns = [
+  { name: 'vigenteDesde', column: 'vigente_desde' },
+  { name: 'vigenteHasta', column: 'vigente_hasta' },
+];
+
+// Helper function to map a catalog field name to its column: camelCase names are stored in snake_case,
+// the same rule the Nest API uses, so both backends read and write the same columns
+function toCatalogColumnName(name: string): string {
+  return name.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+}
+
+// Helper function to map an import field name to its column (validity fields included)
+function toImportColumn(name: string): string {
+  return catalogValidityColumns.find(validity => validity.name === name)?.column ?? toCatalogColumnName(name);
+}
+
+function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+}
+
+// Helper function to read vigenteDesde/vigenteHasta from a payload; empty values clear the bound
+function parseValidityWindow(body: any): { values: (string | null)[]; error?: string } {
+  const values: (string | null)[] = [];
+
+  for (const { name } of catalogValidityColumns) {
+    const rawValue = body[name];
+    if (rawValue === undefined || rawValue === null || rawValue === '') {
+      values.push(null);
+      continue;
+    }
+
+    const value = String(rawValue).trim().slice(0, 10);
+    if (!isIsoDate(value)) {
+      return { values, error: `Field "${name}" must be a date in YYYY-MM-DD format` };
+    }
+    values.push(value);
+  }
+
+  const [desde, hasta] = values;
+  if (desde && hasta && desde > hasta) {
+    return { values, error: 'Field "vigenteDesde" cannot be later than "vigenteHasta"' };
+  }
+
+  return { values };
+}
+
+// Helper function to build the SQL type of a catalog field; reference fields take the type of their target
+function buildCatalogColumnType(definitionField: any): string {
+  const field = definitionField.type === 'reference' ? resolveReferencedField(definitionField) : definitionField;
+  if (field.type === 'string') {
+    return `VARCHAR(${field.length || 1024})`;
+  }
+  if (field.type === 'int') {
+    return 'INTEGER';
+  }
+  return `NUMERIC(${field.precision || 12}, ${field.scale || 4})`;
+}
+
+// Helper function to build the CREATE TABLE statement of a catalog
+function buildCatalogTableSql(definition: any): string {
   const columns: string[] = [
     'id UUID PRIMARY KEY DEFAULT gen_random_uuid()',
     'created_at TIMESTAMPTZ DEFAULT NOW()',
     'updated_at TIMESTAMPTZ DEFAULT NOW()',
+    'vigente_desde DATE',
+    'vigente_hasta DATE',
+    'is_active BOOLEAN NOT NULL DEFAULT TRUE',
   ];
 
   definition.fields.forEach((field: any) => {
-    let columnDef = '';
-    if (field.type === 'string') {
-      columnDef = `${field.name} VARCHAR(${field.length || 1024})`;
-    } else if (field.type === 'int') {
-      columnDef = `${field.name} INTEGER`;
-    } else if (field.type === 'numeric') {
-      columnDef = `${field.name} NUMERIC(${field.precision || 12}, ${field.scale || 4})`;
-    }
+    let columnDef = `${toCatalogColumnName(field.name)} ${buildCatalogColumnType(field)}`;
 
     if (field.required) {
       columnDef += ' NOT NULL';
@@ -596,29 +1221,187 @@ async function createCatalogTable(definition: any) {
   });
 
   const uniqueConstraint = definition.uniqueBy.length > 0
-    ? `, UNIQUE (${definition.uniqueBy.join(', ')})`
+    ? `, UNIQUE (${definition.uniqueBy.map(toCatalogColumnName).join(', ')})`
     : '';
 
-  const createTableSQL = `
+  return `
     CREATE TABLE IF NOT EXISTS ${definition.tableName} (
       ${columns.join(', ')}
       ${uniqueConstraint}
     )
   `;
+}
 
+// Helper function to create catalog tables
+async function createCatalogTable(definition: any) {
   try {
-    await pool.query(createTableSQL);
+    await pool.query(buildCatalogTableSql(definition));
     console.log(`Table ${definition.tableName} created successfully`);
   } catch (error) {
     console.error(`Error creating table ${definition.tableName}:`, error);
   }
 }
 
+// Add the shared catalog columns (validity window, active flag) to tables created before they existed,
+// plus the index used by the delta sync endpoint
+async function ensureCatalogColumns(definition: any) {
+  try {
+    await pool.query(`
+      ALTER TABLE ${definition.tableName}
+        ADD COLUMN IF NOT EXISTS vigente_desde DATE,
+        ADD COLUMN IF NOT EXISTS vigente_hasta DATE,
+        ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE
+    `);
+    await pool.query(
+      `CREATE INDEX IF NOT EXISTS ${definition.tableName}_updated_at_idx ON ${definition.tableName} (updated_at, id)`
+    );
+    await pool.query(
+      `CREATE INDEX IF NOT EXISTS ${definition.tableName}_search_idx ON ${definition.tableName} USING gin (catalog_search_vector(${buildCatalogSearchDocument(definition)}))`
+    );
+  } catch (error) {
+    console.error(`Error adding shared columns to ${definition.tableName}:`, error);
+  }
+}
+
+// Rename the columns of camelCase fields created before they were stored in snake_case (tipoUnidad was tipounidad)
+async function renameLegacyCatalogColumns(definition: any) {
+  for (const field of definition.fields.filter((candidate: any) => /[A-Z]/.test(candidate.name))) {
+    const legacy = field.name.toLowerCase();
+    const column = toCatalogColumnName(field.name);
+    try {
+      const existing = await pool.query(
+        'SELECT column_name FROM information_schema.columns WHERE table_name = $1 AND column_name = ANY($2::text[])',
+        [definition.tableName, [legacy, column]]
+      );
+      const names = existing.rows.map(row => row.column_name);
+      if (names.includes(legacy) && !names.includes(column)) {
+        await pool.query(`ALTER TABLE ${definition.tableName} RENAME COLUMN ${legacy} TO ${column}`);
+      }
+    } catch (error) {
+      console.error(`Error renaming ${definition.tableName}.${legacy}:`, error);
+    }
+  }
+}
+
+// Convert coded fields stored as numbers (or without padding) to their canonical zero-padded string form
+async function ensureCatalogCodeColumns(definition: any) {
+  for (const field of definition.fields.filter((candidate: any) => candidate.codeFormat)) {
+    const { width, padding, numeric } = field.codeFormat;
+    const column = toCatalogColumnName(field.name);
+    try {
+      await withTransaction(async (client) => {
+        const columnType = await client.query(
+          'SELECT data_type FROM information_schema.columns WHERE table_name = $1 AND column_name = $2',
+          [definition.tableName, column]
+        );
+        if (columnType.rows[0] && columnType.rows[0].data_type !== 'character varying') {
+          const invalid = await client.query(
+            `SELECT COUNT(*)::int AS count FROM ${definition.tableName} WHERE ${column}::numeric <> trunc(${column}::numeric) OR ${column} < 0`
+          );
+          if (invalid.rows[0].count > 0) {
+            throw new Error(`${invalid.rows[0].count} codes are not non-negative integers`);
+          }
+          await client.query(
+            `ALTER TABLE ${definition.tableName} ALTER COLUMN ${column} TYPE ${buildCatalogColumnType(field)} USING trunc(${column}::numeric)::bigint::text`
+          );
+        }
+        if (numeric) {
+          // Codes longer than the width keep their digits; lpad would truncate them
+          const digits = `coalesce(nullif(ltrim(split_part(${column}, '.', 1), '0'), ''), '0')`;
+          await client.query(
+            `UPDATE ${definition.tableName}
+             SET ${column} = lpad(${digits}, greatest(length(${digits}), $1), $2)
+             WHERE ${column} ~ '^[0-9]+([.]0*)?$'
+               AND ${column} <> lpad(${digits}, greatest(length(${digits}), $1), $2)`,
+            [width, padding]
+          );
+        }
+      });
+    } catch (error) {
+      console.error(`Error formatting codes of ${definition.tableName}.${field.name}:`, error);
+    }
+  }
+}
+
+// Initialize the accent-insensitive full-text search functions used by the catalog search indexes
+async function initializeCatalogSearchFunctions() {
+  try {
+    await pool.query('CREATE EXTENSION IF NOT EXISTS unaccent');
+    await pool.query(`
+      CREATE OR REPLACE FUNCTION catalog_search_vector(document text)
+      RETURNS tsvector LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT AS $$
+        SELECT to_tsvector('simple'::regconfig, public.unaccent('public.unaccent'::regdictionary, document))
+      $$
+    `);
+    await pool.query(`
+      CREATE OR REPLACE FUNCTION catalog_search_query(terms text)
+      RETURNS tsquery LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT AS $$
+        SELECT to_tsquery('simple'::regconfig, public.unaccent('public.unaccent'::regdictionary, terms))
+      $$
+    `);
+  } catch (error) {
+    console.error('Error creating catalog search functions:', error);
+  }
+}
+
+// Hacienda code of the tarifas-iva entry for each percentage CABYS publishes
+const cabysTaxRates = [
+  { percentage: 0, code: '01', description: 'Tarifa 0% (Exento)' },
+  { percentage: 1, code: '02', description: 'Tarifa reducida 1%' },
+  { percentage: 2, code: '03', description: 'Tarifa reducida 2%' },
+  { percentage: 4, code: '04', description: 'Tarifa reducida 4%' },
+  { percentage: 8, code: '07', description: 'Tarifa transitoria 8%' },
+  { percentage: 13, code: '08', description: 'Tarifa general 13%' },
+];
+
+// Convert cabys.impuesto from the percentage it used to store to the code of its tarifas-iva entry, adding the entries it needs
+async function convertCabysTaxRates() {
+  const field = catalogDefinitionsMap.get('cabys')?.fields.find((candidate: any) => candidate.name === 'impuesto');
+  try {
+    await withTransaction(async (client) => {
+      const columnType = await client.query(
+        "SELECT data_type FROM information_schema.columns WHERE table_name = 'cabys' AND column_name = 'impuesto'"
+      );
+      if (columnType.rows[0]?.data_type !== 'numeric') {
+        return;
+      }
+
+      const unmapped = await client.query(
+        'SELECT DISTINCT impuesto AS value FROM cabys WHERE impuesto IS NOT NULL AND impuesto <> ALL($1::numeric[]) ORDER BY 1 LIMIT 5',
+        [cabysTaxRates.map(rate => rate.percentage)]
+      );
+      if (unmapped.rows.length > 0) {
+        throw new Error(`percentages without a matching tax rate: ${unmapped.rows.map(row => row.value).join(', ')}`);
+      }
+
+      await client.query(
+        `INSERT INTO tarifas_iva (descripcion, codigo)
+         SELECT rate.description, rate.code
+         FROM jsonb_to_recordset($1::jsonb) AS rate(percentage NUMERIC, code VARCHAR, description VARCHAR)
+         WHERE EXISTS (SELECT 1 FROM cabys WHERE impuesto = rate.percentage)
+           AND NOT EXISTS (SELECT 1 FROM tarifas_iva WHERE codigo = rate.code)`,
+        [JSON.stringify(cabysTaxRates)]
+      );
+      const toCode = cabysTaxRates.map(rate => `WHEN ${rate.percentage} THEN '${rate.code}'`).join(' ');
+      await client.query(`ALTER TABLE cabys ALTER COLUMN impuesto TYPE ${buildCatalogColumnType(field)} USING CASE impuesto ${toCode} END`);
+      // The stored value changed, so clients syncing by updated_at pick the entries up again
+      await client.query('UPDATE cabys SET updated_at = NOW() WHERE impuesto IS NOT NULL');
+    });
+  } catch (error) {
+    console.error('Error converting cabys.impuesto to tarifas-iva codes:', error);
+  }
+}
+
 // Initialize catalog tables
 async function initializeCatalogTables() {
+  await initializeCatalogSearchFunctions();
   for (const definition of catalogDefinitions) {
     await createCatalogTable(definition);
+    await renameLegacyCatalogColumns(definition);
+    await ensureCatalogColumns(definition);
+    await ensureCatalogCodeColumns(definition);
   }
+  await convertCabysTaxRates();
 }
 
 // Initialize geography tables
@@ -691,22 +1474,301 @@ async function initializeGeographyTables() {
   }
 }
 
-// Initialize all tables on startup
-async function initializeAllTables() {
-  await initializeCatalogTables();
-  await initializeGeographyTables();
-  await initializeApiDocsTable();
-  await seedApiDocumentation();
-}
-
-// Initialize api_documents table
-async function initializeApiDocsTable() {
+// Initialize catalog_audit_log table
+async function initializeCatalogAuditTable() {
   try {
     await pool.query(`
-      CREATE TABLE IF NOT EXISTS api_documents (
+      CREATE TABLE IF NOT EXISTS catalog_audit_log (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        title VARCHAR(160) NOT NULL,
-        version VARCHAR(32) NOT NULL,
+        catalog_key VARCHAR(80) NOT NULL,
+        record_id UUID NOT NULL,
+        action VARCHAR(16) NOT NULL,
+        user_id UUID,
+        username VARCHAR(120),
+        before_data JSONB,
+        after_data JSONB,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS catalog_audit_log_record_idx
+        ON catalog_audit_log (catalog_key, record_id, created_at)
+    `);
+    await pool.query('ALTER TABLE catalog_audit_log ADD COLUMN IF NOT EXISTS import_job_id UUID');
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS catalog_audit_log_import_job_idx
+        ON catalog_audit_log (import_job_id, record_id)
+    `);
+    console.log('Table catalog_audit_log created successfully');
+  } catch (error) {
+    console.error('Error creating catalog_audit_log table:', error);
+  }
+}
+
+// Initialize catalog_releases and catalog_release_snapshots tables
+async function initializeCatalogReleaseTables() {
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS catalog_releases (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        version VARCHAR(20) NOT NULL UNIQUE,
+        checksum VARCHAR(64) NOT NULL,
+        notes VARCHAR(500),
+        published_by_id UUID,
+        published_by VARCHAR(120),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS catalog_release_snapshots (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        release_id UUID NOT NULL REFERENCES catalog_releases (id) ON DELETE CASCADE,
+        catalog_key VARCHAR(80) NOT NULL,
+        checksum VARCHAR(64) NOT NULL,
+        entry_count INTEGER NOT NULL,
+        data JSONB NOT NULL,
+        UNIQUE (release_id, catalog_key)
+      )
+    `);
+    console.log('Tables catalog_releases and catalog_release_snapshots created successfully');
+  } catch (error) {
+    console.error('Error creating catalog release tables:', error);
+  }
+}
+
+// Initialize import_jobs table (background catalog imports; import_job_rows holds the rows still to be applied)
+async function initializeImportJobsTable() {
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS import_jobs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        catalog_key VARCHAR(80) NOT NULL,
+        mode VARCHAR(16) NOT NULL,
+        status VARCHAR(16) NOT NULL DEFAULT 'pending',
+        file_name VARCHAR(255),
+        total_rows INTEGER NOT NULL DEFAULT 0,
+        processed_rows INTEGER NOT NULL DEFAULT 0,
+        inserted_rows INTEGER NOT NULL DEFAULT 0,
+        updated_rows INTEGER NOT NULL DEFAULT 0,
+        unchanged_rows INTEGER NOT NULL DEFAULT 0,
+        deactivated_rows INTEGER NOT NULL DEFAULT 0,
+        errors JSONB NOT NULL DEFAULT '[]',
+        user_id UUID,
+        username VARCHAR(120),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        started_at TIMESTAMPTZ,
+        finished_at TIMESTAMPTZ,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    // Staged rows moved from a pending_rows JSONB array to import_job_rows
+    await pool.query('ALTER TABLE import_jobs DROP COLUMN IF EXISTS pending_rows');
+    await pool.query('ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS resume_position INTEGER NOT NULL DEFAULT 0');
+    // Validated rows of an import waiting to be written, applied in position order from resume_position
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS import_job_rows (
+        job_id UUID NOT NULL REFERENCES import_jobs (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        row_number INTEGER NOT NULL,
+        import_key TEXT NOT NULL,
+        data JSONB NOT NULL,
+        PRIMARY KEY (job_id, position)
+      )
+    `);
+    await pool.query('CREATE UNIQUE INDEX IF NOT EXISTS import_job_rows_job_key_uq ON import_job_rows (job_id, import_key)');
+    await pool.query(`
+      ALTER TABLE import_jobs
+        ADD COLUMN IF NOT EXISTS checksum VARCHAR(64),
+        ADD COLUMN IF NOT EXISTS rolled_back_at TIMESTAMPTZ,
+        ADD COLUMN IF NOT EXISTS rolled_back_by VARCHAR(120)
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS import_jobs_catalog_created_idx
+        ON import_jobs (catalog_key, created_at)
+    `);
+    await pool.query('CREATE INDEX IF NOT EXISTS import_jobs_created_idx ON import_jobs (created_at)');
+    // Column mapping remembered per catalog for uploads whose headers don't match the field names
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS catalog_import_mappings (
+        catalog_key VARCHAR(80) PRIMARY KEY,
+        mapping JSONB NOT NULL DEFAULT '{}',
+        updated_by VARCHAR(120),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    // Files sent in chunks because they exceed the request size Vercel accepts; read back one chunk at a time
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS import_uploads (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        file_name VARCHAR(255) NOT NULL,
+        mimetype VARCHAR(120),
+        size BIGINT NOT NULL,
+        created_by VARCHAR(120),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS import_upload_chunks (
+        upload_id UUID NOT NULL REFERENCES import_uploads (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        data BYTEA NOT NULL,
+        PRIMARY KEY (upload_id, position)
+      )
+    `);
+    console.log('Tables import_jobs, import_job_rows, catalog_import_mappings and import_uploads created successfully');
+  } catch (error) {
+    console.error('Error creating import_jobs table:', error);
+  }
+}
+
+// Initialize catalog_definitions table (catalogs created from the admin UI)
+async function initializeCatalogDefinitionsTable() {
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS catalog_definitions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        key VARCHAR(80) NOT NULL UNIQUE,
+        label VARCHAR(200) NOT NULL,
+        table_name VARCHAR(63) NOT NULL UNIQUE,
+        fields JSONB NOT NULL DEFAULT '[]',
+        unique_by JSONB NOT NULL DEFAULT '[]',
+        search_fields JSONB NOT NULL DEFAULT '[]',
+        updated_by VARCHAR(120),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    console.log('Table catalog_definitions created successfully');
+  } catch (error) {
+    console.error('Error creating catalog_definitions table:', error);
+  }
+}
+
+// Helper function to map a catalog_definitions row to a catalog definition
+function formatCatalogDefinitionRow(row: any) {
+  return {
+    key: row.key,
+    label: row.label,
+    tableName: row.table_name,
+    fields: row.fields,
+    uniqueBy: row.unique_by,
+    searchFields: row.search_fields,
+  };
+}
+
+// Helper function to add or replace a catalog definition in the in-memory registry
+function registerCatalogDefinition(definition: any) {
+  const index = catalogDefinitions.findIndex((candidate) => candidate.key === definition.key);
+  if (index >= 0) {
+    catalogDefinitions.splice(index, 1, definition);
+  } else {
+    catalogDefinitions.push(definition);
+  }
+  catalogDefinitionsMap.set(definition.key, definition);
+}
+
+// updated_at of each runtime definition as this instance last loaded it
+const loadedCatalogDefinitionVersions = new Map<string, number>();
+let catalogDefinitionsRefresh: Promise<void> | null = null;
+
+// Helper function to load the runtime definitions saved since this instance last read them
+async function reloadChangedCatalogDefinitions() {
+  const versions = await pool.query('SELECT key, updated_at FROM catalog_definitions');
+  const changed = versions.rows
+    .filter(row => !builtInCatalogKeys.has(row.key))
+    .filter(row => loadedCatalogDefinitionVersions.get(row.key) !== new Date(row.updated_at).getTime())
+    .map(row => row.key);
+  if (changed.length === 0) {
+    return;
+  }
+
+  const result = await pool.query(
+    'SELECT * FROM catalog_definitions WHERE key = ANY($1::text[]) ORDER BY created_at',
+    [changed]
+  );
+  result.rows.forEach((row) => {
+    registerCatalogDefinition(formatCatalogDefinitionRow(row));
+    loadedCatalogDefinitionVersions.set(row.key, new Date(row.updated_at).getTime());
+  });
+}
+
+// Helper function to refresh the runtime definitions; concurrent requests share the same reload
+function refreshCatalogDefinitions(): Promise<void> {
+  if (!catalogDefinitionsRefresh) {
+    catalogDefinitionsRefresh = reloadChangedCatalogDefinitions().finally(() => {
+      catalogDefinitionsRefresh = null;
+    });
+  }
+  return catalogDefinitionsRefresh;
+}
+
+// Load the runtime catalog definitions so their tables are initialized with the built-in ones
+async function loadStoredCatalogDefinitions() {
+  try {
+    await refreshCatalogDefinitions();
+  } catch (error) {
+    console.error('Error loading catalog definitions:', error);
+  }
+}
+
+// Definitions can be saved through any instance, so catalog requests first compare the stored updated_at
+// values with the ones loaded here and reload the definitions that changed elsewhere
+app.use(
+  ['/api/catalogs', '/api/catalog-definitions', '/api/catalog-releases', '/api/import-jobs', '/api/schemas', '/api/clear-all'],
+  async (req, res, next) => {
+    try {
+      await refreshCatalogDefinitions();
+    } catch (error) {
+      console.error('Error refreshing catalog definitions:', error);
+    }
+    next();
+  }
+);
+
+async function initializeApiKeysTable() {
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(120) NOT NULL,
+        key_prefix VARCHAR(16) NOT NULL,
+        key_hash VARCHAR(64) NOT NULL,
+        expires_at TIMESTAMPTZ,
+        last_used_at TIMESTAMPTZ,
+        revoked_at TIMESTAMPTZ,
+        created_by VARCHAR(120),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await pool.query('CREATE UNIQUE INDEX IF NOT EXISTS api_keys_key_hash_uq ON api_keys (key_hash)');
+    console.log('Table api_keys created successfully');
+  } catch (error) {
+    console.error('Error creating api_keys table:', error);
+  }
+}
+
+// Initialize all tables on startup
+async function initializeAllTables() {
+  await initializeCatalogDefinitionsTable();
+  await loadStoredCatalogDefinitions();
+  await initializeCatalogTables();
+  await initializeCatalogAuditTable();
+  await initializeCatalogReleaseTables();
+  await initializeImportJobsTable();
+  await initializeApiKeysTable();
+  await initializeGeographyTables();
+  await initializeApiDocsTable();
+  await seedApiDocumentation();
+}
+
+// Initialize api_documents table
+async function initializeApiDocsTable() {
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS api_documents (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        title VARCHAR(160) NOT NULL,
+        version VARCHAR(32) NOT NULL,
         summary VARCHAR(255) NOT NULL,
         content TEXT NOT NULL,
         created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -1200,170 +2262,460 @@ async function seedApiDocumentation() {
 
 initializeAllTables();
 
+const defaultCatalogFieldLabels: Record<string, string> = {
+  descripcion: 'Descripción',
+  codigo: 'Código',
+  simbolo: 'Símbolo',
+  tipoUnidad: 'Tipo de unidad',
+  pais: 'País',
+  categoria: 'Categoría',
+};
+
+// Helper function to describe a catalog field for clients (label, limits of the underlying column)
+function describeCatalogField(field: any) {
+  const column = field.type === 'reference' ? resolveReferencedField(field) : field;
+  const words = field.name.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return {
+    name: field.name,
+    label: field.label || defaultCatalogFieldLabels[field.name] || words.charAt(0).toUpperCase() + words.slice(1),
+    type: field.type,
+    required: Boolean(field.required),
+    ...(column.type === 'string' ? { maxLength: column.length || 1024 } : {}),
+    ...(column.type === 'numeric' ? { precision: column.precision ?? 12, scale: column.scale ?? 4 } : {}),
+    ...(field.reference ? { reference: field.reference } : {}),
+    ...(column.validation ? { validation: column.validation } : {}),
+    ...(column.codeFormat ? { codeFormat: column.codeFormat } : {}),
+  };
+}
+
 // Catalog endpoints
 app.get('/api/catalogs', authenticateToken, async (req, res) => {
   try {
-    res.json(catalogDefinitions);
+    res.json(catalogDefinitions.map((definition) => ({
+      key: definition.key,
+      label: definition.label,
+      fields: definition.fields.map(describeCatalogField),
+      uniqueBy: definition.uniqueBy,
+      searchFields: definition.searchFields,
+    })));
   } catch (error) {
     console.error('List catalogs error:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
+// Helper function to send JSON with ETag/Last-Modified headers, answering 304 when the client copy is current
+function sendConditionalJson(req: express.Request, res: express.Response, body: any, lastModified?: Date | null) {
+  const etag = `"${createHash('sha1').update(JSON.stringify(body)).digest('base64url')}"`;
+  res.set('ETag', etag);
+  if (lastModified) {
+    res.set('Last-Modified', new Date(lastModified).toUTCString());
+  }
+
+  const ifNoneMatch = req.headers['if-none-match'];
+  const candidates = ifNoneMatch ? ifNoneMatch.split(',').map(value => value.trim().replace(/^W\//, '')) : [];
+  if (candidates.includes('*') || candidates.includes(etag)) {
+    return res.status(304).end();
+  }
+
+  res.json(body);
+}
+
+// Helper function to get the most recent updated_at of a set of catalog rows
+function latestUpdatedAt(rows: any[]): Date | null {
+  const timestamps = rows.map(row => new Date(row.updated_at).getTime()).filter(time => !Number.isNaN(time));
+  return timestamps.length > 0 ? new Date(Math.max(...timestamps)) : null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Helper function to parse the since parameter of the delta sync endpoint: an ISO timestamp or a cursor from a previous response
+function parseChangesSince(since: string): { timestamp: string; id?: string } | null {
+  if (/^\d{4}-\d{2}-\d{2}/.test(since)) {
+    return Number.isNaN(Date.parse(since)) ? null : { timestamp: since };
+  }
+
+  const [timestamp, id] = Buffer.from(since, 'base64url').toString('utf-8').split('|');
+  if (!id || !UUID_PATTERN.test(id) || Number.isNaN(Date.parse(timestamp))) {
+    return null;
+  }
+  return { timestamp, id };
+}
+
+// Helper function to build the text document indexed for catalog search; it must match the expression of the search index
+function buildCatalogSearchDocument(definition: any): string {
+  return definition.searchFields
+    .map((field: string) => `coalesce(CAST(${toCatalogColumnName(field)} AS TEXT), '')`)
+    .join(` || ' ' || `);
+}
+
+// Helper function to turn a search string into prefix-matching tsquery terms (accents are removed by catalog_search_query)
+function buildCatalogSearchTerms(search: unknown): string | null {
+  const tokens = typeof search === 'string' ? search.match(/[\p{L}\p{N}]+/gu) : null;
+  return tokens ? tokens.map(token => `${token}:*`).join(' & ') : null;
+}
+
+const catalogFilterOperators: Record<string, string> = { eq: '=', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+// Helper function to resolve a sortable/filterable list field to its column and definition (validity and audit dates included)
+function findCatalogListColumn(definition: any, name: string): { column: string; field: any } | null {
+  const field = definition.fields.find((candidate: any) => candidate.name === name);
+  if (field) {
+    return { column: toCatalogColumnName(name), field };
+  }
+  const validity = catalogValidityColumns.find(candidate => candidate.name === name);
+  if (validity) {
+    return { column: validity.column, field: { name, type: 'date' } };
+  }
+  if (name === 'createdAt' || name === 'updatedAt') {
+    return { column: name === 'createdAt' ? 'created_at' : 'updated_at', field: { name, type: 'timestamp' } };
+  }
+  return null;
+}
+
+// Helper function to parse a filter value with the same rules used when saving the field
+function parseCatalogFilterValue(field: any, rawValue: unknown): { value: any } | { error: string } {
+  if (field.type === 'reference') {
+    return parseCatalogFilterValue(resolveReferencedField(field), rawValue);
+  }
+  const text = typeof rawValue === 'string' ? rawValue.trim() : '';
+  if (!text) {
+    return { error: `Filter for ${field.name} requires a value` };
+  }
+  if (field.type === 'date' && !isIsoDate(text)) {
+    return { error: `Filter for ${field.name} must be a date in YYYY-MM-DD format` };
+  }
+  if (field.type === 'int' || field.type === 'numeric') {
+    const numericValue = Number(text.replace(/,/g, '.'));
+    if (Number.isNaN(numericValue) || (field.type === 'int' && !Number.isInteger(numericValue))) {
+      return { error: `Invalid value "${text}" for ${field.name}` };
+    }
+    return { value: numericValue };
+  }
+  if (field.codeFormat) {
+    const code = formatCatalogCode(field.codeFormat, text);
+    return code === null ? { error: `Invalid value "${text}" for ${field.name}` } : { value: code };
+  }
+  return { value: text };
+}
+
+// Helper function to turn filter[field]=value and filter[field][op]=value into SQL conditions
+function buildCatalogFieldFilters(
+  definition: any,
+  filter: unknown,
+  params: any[]
+): { conditions: string[] } | { error: string } {
+  if (filter === undefined) {
+    return { conditions: [] };
+  }
+  if (filter === null || typeof filter !== 'object' || Array.isArray(filter)) {
+    return { error: 'filter must use the form filter[field]=value or filter[field][operator]=value' };
+  }
+
+  const conditions: string[] = [];
+  for (const [name, condition] of Object.entries(filter)) {
+    const target = findCatalogListColumn(definition, name);
+    if (!target || target.field.type === 'timestamp') {
+      return { error: `Cannot filter by field "${name}"` };
+    }
+    const operators = condition !== null && typeof condition === 'object' && !Array.isArray(condition)
+      ? Object.entries(condition)
+      : [['eq', condition]];
+
+    for (const [operator, rawValue] of operators) {
+      if (Array.isArray(rawValue)) {
+        if (operator !== 'eq') {
+          return { error: `Filter operator "${operator}" on ${name} accepts a single value` };
+        }
+        const values: any[] = [];
+        for (const item of rawValue) {
+          const parsed = parseCatalogFilterValue(target.field, item);
+          if ('error' in parsed) {
+            return parsed;
+          }
+          values.push(parsed.value);
+        }
+        params.push(values);
+        conditions.push(`${target.column} = ANY($${params.length})`);
+        continue;
+      }
+
+      if (operator === 'prefix') {
+        const resolved = target.field.type === 'reference' ? resolveReferencedField(target.field) : target.field;
+        if (resolved.type !== 'string' || typeof rawValue !== 'string') {
+          return { error: `Filter operator "prefix" only applies to text fields (${name})` };
+        }
+        params.push(`${rawValue.trim().replace(/[\\%_]/g, '\\$&')}%`);
+        conditions.push(`${target.column} LIKE $${params.length}`);
+        continue;
+      }
+
+      const sqlOperator = catalogFilterOperators[operator];
+      if (!sqlOperator) {
+        return { error: `Unknown filter operator "${operator}"; use eq, gt, gte, lt, lte or prefix` };
+      }
+      const parsed = parseCatalogFilterValue(target.field, rawValue);
+      if ('error' in parsed) {
+        return parsed;
+      }
+      params.push(parsed.value);
+      conditions.push(`${target.column} ${sqlOperator} $${params.length}`);
+    }
+  }
+
+  return { conditions };
+}
+
+// Helper function to parse sort=field:asc|desc (comma separated or repeated) into ORDER BY terms
+function buildCatalogListOrder(definition: any, sort: unknown): { orderBy: ListOrderColumn[] } | { error: string } {
+  const entries = (Array.isArray(sort) ? sort : [sort])
+    .filter(entry => entry !== undefined)
+    .flatMap(entry => String(entry).split(','))
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '');
+
+  const orderBy: ListOrderColumn[] = [];
+  for (const entry of entries) {
+    const match = /^([a-zA-Z][a-zA-Z0-9]*)(?::(asc|desc))?$/i.exec(entry);
+    if (!match) {
+      return { error: 'sort must use the form field:asc|desc' };
+    }
+    const target = findCatalogListColumn(definition, match[1]);
+    if (!target) {
+      return { error: `Cannot sort by field "${match[1]}"` };
+    }
+    orderBy.push({ expression: target.column, direction: match[2]?.toLowerCase() === 'desc' ? 'DESC' : 'ASC' });
+  }
+
+  return { orderBy };
+}
+
+// Helper function to build the WHERE clause shared by the catalog list and export endpoints
+function buildCatalogListFilter(
+  definition: any,
+  query: express.Request['query']
+): { conditions: string[]; whereClause: string; params: any[]; searchRank: string | null } | { error: string } {
+  const { search, asOf, includeInactive, filter } = query;
+  const conditions: string[] = [];
+  const params: any[] = [];
+  let searchRank: string | null = null;
+
+  if (includeInactive !== 'true') {
+    conditions.push('is_active = TRUE');
+  }
+
+  const searchTerms = buildCatalogSearchTerms(search);
+  if (searchTerms && definition.searchFields.length > 0) {
+    params.push(searchTerms);
+    const searchVector = `catalog_search_vector(${buildCatalogSearchDocument(definition)})`;
+    conditions.push(`${searchVector} @@ catalog_search_query($${params.length})`);
+    searchRank = `ts_rank(${searchVector}, catalog_search_query($${params.length}))`;
+  }
+
+  if (asOf) {
+    params.push(asOf);
+    conditions.push(
+      `(vigente_desde IS NULL OR vigente_desde <= $${params.length}::date) AND (vigente_hasta IS NULL OR vigente_hasta >= $${params.length}::date)`
+    );
+  }
+
+  const fieldFilters = buildCatalogFieldFilters(definition, filter, params);
+  if ('error' in fieldFilters) {
+    return fieldFilters;
+  }
+  conditions.push(...fieldFilters.conditions);
+
+  return { conditions, whereClause: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '', params, searchRank };
+}
+
 app.get('/api/catalogs/:catalogKey', authenticateToken, async (req, res) => {
   try {
     const { catalogKey } = req.params;
-    const { search, page = 1, limit = 50 } = req.query;
+    const { limit = 50, asOf, release } = req.query;
 
     const definition = catalogDefinitionsMap.get(catalogKey);
     if (!definition) {
       return res.status(404).json({ message: 'Catalog not found' });
     }
 
-    const pageNumber = Number(page);
-    const limitNumber = Math.min(Math.max(Number(limit), 1), 200); // Max 200 items per page
-
-    let query = `SELECT * FROM ${definition.tableName}`;
-    const params: any[] = [];
-
-    if (search) {
-      const searchConditions = definition.searchFields.map((field: string, index: number) => {
-        return `CAST(${field} AS TEXT) ILIKE $${index + 1}`;
-      });
-      query += ` WHERE ${searchConditions.join(' OR ')}`;
-      params.push(...definition.searchFields.map(() => `%${search}%`));
+    if (asOf !== undefined && (typeof asOf !== 'string' || !isIsoDate(asOf))) {
+      return res.status(400).json({ message: 'asOf must be a date in YYYY-MM-DD format' });
     }
 
-    query += ` ORDER BY updated_at DESC, id DESC`;
-
-    const offset = (pageNumber - 1) * limitNumber;
-    query += ` LIMIT ${limitNumber} OFFSET ${offset}`;
+    if (release !== undefined) {
+      return sendReleaseEntries(req, res, definition);
+    }
 
-    const countQuery = search
-      ? `SELECT COUNT(*) FROM ${definition.tableName} WHERE ${definition.searchFields.map((field: string, index: number) => `CAST(${field} AS TEXT) ILIKE $${index + 1}`).join(' OR ')}`
-      : `SELECT COUNT(*) FROM ${definition.tableName}`;
+    const limitNumber = Math.min(Math.max(Number(limit), 1), 200); // Max 200 items per page
 
-    const [itemsResult, countResult] = await Promise.all([
-      pool.query(query, params),
-      pool.query(countQuery, params)
-    ]);
+    const listFilter = buildCatalogListFilter(definition, req.query);
+    const listOrder = buildCatalogListOrder(definition, req.query.sort);
+    if ('error' in listFilter) {
+      return res.status(400).json({ message: listFilter.error });
+    }
+    if ('error' in listOrder) {
+      return res.status(400).json({ message: listOrder.error });
+    }
+    const { conditions, params, searchRank } = listFilter;
+
+    // Requested columns come first, then relevance when searching; recency breaks ties
+    const listPage = await queryListPage(req.query, {
+      columns: '*',
+      from: definition.tableName,
+      conditions,
+      params,
+      order: [
+        ...listOrder.orderBy,
+        ...(searchRank ? [{ expression: searchRank, direction: 'DESC' as const }] : []),
+        { expression: 'updated_at', direction: 'DESC' },
+        { expression: 'id', direction: 'DESC' },
+      ],
+      limit: limitNumber,
+    });
+    if ('error' in listPage) {
+      return res.status(400).json({ message: listPage.error });
+    }
 
     // Transform database row keys from snake_case to camelCase for frontend compatibility
-    const transformedData = itemsResult.rows.map(row => transformRowKeys(row));
+    const transformedData = listPage.rows.map(row => transformRowKeys(row));
 
     // Format response to match original NestJS API structure
-    res.json({
+    sendConditionalJson(req, res, {
       data: transformedData,
-      meta: {
-        total: Number(countResult.rows[0].count),
-        page: pageNumber,
-        limit: limitNumber
-      }
-    });
+      meta: listPage.meta
+    }, latestUpdatedAt(listPage.rows));
   } catch (error) {
     console.error('Find all catalog items error:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
-app.get('/api/catalogs/:catalogKey/:id', authenticateToken, async (req, res) => {
+// Delta sync: entries changed since a timestamp or cursor; deactivated entries are returned as tombstones
+app.get('/api/catalogs/:catalogKey/changes', authenticateToken, async (req, res) => {
   try {
-    const { catalogKey, id } = req.params;
+    const { catalogKey } = req.params;
+    const { since, limit = 1000 } = req.query;
 
     const definition = catalogDefinitionsMap.get(catalogKey);
     if (!definition) {
       return res.status(404).json({ message: 'Catalog not found' });
     }
 
-    const result = await pool.query(
-      `SELECT * FROM ${definition.tableName} WHERE id = $1`,
-      [id]
-    );
+    const parsedSince = typeof since === 'string' && since ? parseChangesSince(since) : null;
+    if (since !== undefined && !parsedSince) {
+      return res.status(400).json({ message: 'since must be an ISO 8601 timestamp or a cursor returned by this endpoint' });
+    }
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({ message: 'Item not found' });
+    const limitNumber = Math.min(Math.max(Number(limit) || 1000, 1), 5000);
+    const params: any[] = [];
+    let whereClause = '';
+    if (parsedSince?.id) {
+      params.push(parsedSince.timestamp, parsedSince.id);
+      whereClause = ' WHERE (updated_at, id) > ($1::timestamptz, $2::uuid)';
+    } else if (parsedSince) {
+      params.push(parsedSince.timestamp);
+      whereClause = ' WHERE updated_at > $1::timestamptz';
     }
 
-    // Transform database row keys from snake_case to camelCase for frontend compatibility
-    const transformedRow = transformRowKeys(result.rows[0]);
+    const result = await pool.query(
+      `SELECT *, to_char(updated_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS change_cursor
+       FROM ${definition.tableName}${whereClause}
+       ORDER BY updated_at, id
+       LIMIT ${limitNumber + 1}`,
+      params
+    );
 
-    res.json(transformedRow);
+    const changes = result.rows.slice(0, limitNumber).map(({ change_cursor, ...row }) => ({ cursor: change_cursor, row }));
+    const last = changes[changes.length - 1];
+
+    res.json({
+      upserted: changes.filter(({ row }) => row.is_active).map(({ row }) => transformRowKeys(row)),
+      deleted: changes.filter(({ row }) => !row.is_active).map(({ row }) => {
+        const record = transformRowKeys(row);
+        return {
+          id: record.id,
+          ...Object.fromEntries(definition.uniqueBy.map((field: string) => [toCamelCase(field), record[toCamelCase(field)]])),
+          deletedAt: record.updatedAt
+        };
+      }),
+      meta: {
+        since: since ?? null,
+        nextCursor: last ? Buffer.from(`${last.cursor}|${last.row.id}`).toString('base64url') : (since ?? null),
+        hasMore: result.rows.length > limitNumber,
+        limit: limitNumber
+      }
+    });
   } catch (error) {
-    console.error('Find one catalog item error:', error);
+    console.error('Catalog changes error:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
-app.post('/api/catalogs/:catalogKey', authenticateToken, requireAdmin, async (req, res) => {
+app.get('/api/catalogs/:catalogKey/export', authenticateToken, async (req, res) => {
   try {
     const { catalogKey } = req.params;
-    const body = req.body;
+    const { asOf } = req.query;
 
     const definition = catalogDefinitionsMap.get(catalogKey);
     if (!definition) {
       return res.status(404).json({ message: 'Catalog not found' });
     }
 
-    const fields = definition.fields.map((field: any) => field.name);
-    const values = fields.map((field: string, index: number) => {
-      const value = body[field];
-      if (value === undefined || value === null) {
-        return null;
-      }
-      return value;
-    });
-
-    const placeholders = fields.map((_, index) => `$${index + 1}`).join(', ');
+    if (asOf !== undefined && (typeof asOf !== 'string' || !isIsoDate(asOf))) {
+      return res.status(400).json({ message: 'asOf must be a date in YYYY-MM-DD format' });
+    }
 
-    const query = `
-      INSERT INTO ${definition.tableName} (${fields.join(', ')}, created_at, updated_at)
-      VALUES (${placeholders}, NOW(), NOW())
-      RETURNING *
-    `;
+    const format = resolveExportFormat(req);
+    if (!format) {
+      return res.status(400).json({ message: 'format must be one of: xlsx, csv, json' });
+    }
 
-    const result = await pool.query(query, values);
+    const listFilter = buildCatalogListFilter(definition, req.query);
+    const listOrder = buildCatalogListOrder(definition, req.query.sort);
+    if ('error' in listFilter) {
+      return res.status(400).json({ message: listFilter.error });
+    }
+    if ('error' in listOrder) {
+      return res.status(400).json({ message: listOrder.error });
+    }
+    const { whereClause, params } = listFilter;
+    const orderBy = listOrder.orderBy.length > 0
+      ? formatListOrder(listOrder.orderBy)
+      : definition.uniqueBy.map(toCatalogColumnName).join(', ');
+    const result = await pool.query(
+      `SELECT * FROM ${definition.tableName}${whereClause} ORDER BY ${orderBy}, id`,
+      params
+    );
 
-    // Transform database row keys from snake_case to camelCase for frontend compatibility
-    const transformedRow = transformRowKeys(result.rows[0]);
+    // Export under the field names so the file can be imported again unchanged
+    const headers = [
+      ...definition.fields.map((field: any) => field.name),
+      ...catalogValidityColumns.map(({ name }) => name),
+    ];
+    const rows = result.rows
+      .map(row => transformRowKeys(row))
+      .map(row => headers.map(header => row[header] ?? null));
 
-    res.status(201).json(transformedRow);
+    sendTabularExport(res, catalogKey, format, headers, rows);
   } catch (error) {
-    console.error('Create catalog item error:', error);
+    console.error('Export catalog error:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
-app.put('/api/catalogs/:catalogKey/:id', authenticateToken, requireAdmin, async (req, res) => {
+app.get('/api/catalogs/:catalogKey/:id', authenticateToken, async (req, res) => {
   try {
     const { catalogKey, id } = req.params;
-    const body = req.body;
 
     const definition = catalogDefinitionsMap.get(catalogKey);
     if (!definition) {
       return res.status(404).json({ message: 'Catalog not found' });
     }
 
-    const fields = definition.fields.map((field: any) => field.name);
-    const setClause = fields.map((field: string, index: number) => {
-      return `${field} = $${index + 1}`;
-    }).join(', ');
-
-    const values = fields.map((field: string) => {
-      const value = body[field];
-      if (value === undefined || value === null) {
-        return null;
-      }
-      return value;
-    });
-
-    const query = `
-      UPDATE ${definition.tableName}
-      SET ${setClause}, updated_at = NOW()
-      WHERE id = $${fields.length + 1}
-      RETURNING *
-    `;
-
-    const result = await pool.query(query, [...values, id]);
+    const result = await pool.query(
+      `SELECT * FROM ${definition.tableName} WHERE id = $1`,
+      [id]
+    );
 
     if (result.rows.length === 0) {
       return res.status(404).json({ message: 'Item not found' });
@@ -1372,14 +2724,14 @@ app.put('/api/catalogs/:catalogKey/:id', authenticateToken, requireAdmin, async
     // Transform database row keys from snake_case to camelCase for frontend compatibility
     const transformedRow = transformRowKeys(result.rows[0]);
 
-    res.json(transformedRow);
+    sendConditionalJson(req, res, transformedRow, result.rows[0].updated_at);
   } catch (error) {
-    console.error('Update catalog item error:', error);
+    console.error('Find one catalog item error:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
-app.delete('/api/catalogs/:catalogKey/:id', authenticateToken, requireAdmin, async (req, res) => {
+app.get('/api/catalogs/:catalogKey/:id/history', authenticateToken, async (req, res) => {
   try {
     const { catalogKey, id } = req.params;
 
@@ -1389,439 +2741,2923 @@ app.delete('/api/catalogs/:catalogKey/:id', authenticateToken, requireAdmin, asy
     }
 
     const result = await pool.query(
-      `DELETE FROM ${definition.tableName} WHERE id = $1 RETURNING *`,
-      [id]
+      `SELECT * FROM catalog_audit_log
+       WHERE catalog_key = $1 AND record_id = $2
+       ORDER BY created_at DESC`,
+      [catalogKey, id]
     );
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({ message: 'Item not found' });
-    }
-
-    res.json({ success: true });
+    res.json(result.rows.map(row => ({
+      id: row.id,
+      catalogKey: row.catalog_key,
+      recordId: row.record_id,
+      action: row.action,
+      userId: row.user_id,
+      username: row.username,
+      before: row.before_data,
+      after: row.after_data,
+      createdAt: row.created_at,
+    })));
   } catch (error) {
-    console.error('Delete catalog item error:', error);
+    console.error('Catalog item history error:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
-// Import catalog items from Excel
-app.post('/api/catalogs/:catalogKey/import', authenticateToken, requireAdmin, upload.single('file'), async (req, res) => {
-  try {
-    const { catalogKey } = req.params;
+const CATALOG_LOOKUP_MAX_ITEMS = 500;
 
-    if (!req.file) {
-      return res.status(400).json({ message: 'No file uploaded' });
+// Helper function to turn a lookup code into column criteria using the catalog uniqueBy fields;
+// a scalar code matches the first uniqueBy field, an object must provide all of them
+function buildCatalogLookupCriteria(definition: any, code: any): { criteria: Record<string, any> } | { error: string } {
+  const isComposite = code !== null && typeof code === 'object';
+  const fieldNames: string[] = isComposite ? definition.uniqueBy : definition.uniqueBy.slice(0, 1);
+  const criteria: Record<string, any> = {};
+
+  for (const name of fieldNames) {
+    const field = definition.fields.find((candidate: any) => candidate.name === name);
+    const rawValue = isComposite ? code[name] : code;
+    if (!field || rawValue === undefined || rawValue === null || String(rawValue).trim() === '') {
+      return { error: `code must include: ${definition.uniqueBy.join(', ')}` };
     }
 
-    const definition = catalogDefinitionsMap.get(catalogKey);
-    if (!definition) {
-      return res.status(404).json({ message: 'Catalog not found' });
+    if (field.type === 'string') {
+      const code = field.codeFormat ? formatCatalogCode(field.codeFormat, rawValue) : String(rawValue).trim();
+      if (code === null) {
+        return { error: `Invalid value "${rawValue}" for ${name}` };
+      }
+      criteria[name] = code;
+      continue;
+    }
+
+    const numericValue = Number(String(rawValue).trim().replace(/,/g, '.'));
+    if (Number.isNaN(numericValue) || (field.type === 'int' && !Number.isInteger(numericValue))) {
+      return { error: `Invalid value "${rawValue}" for ${name}` };
     }
+    criteria[name] = numericValue;
+  }
 
-    // Parse Excel file
-    const workbook = xlsx.read(req.file.buffer, { type: 'buffer' });
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    const jsonData = xlsx.utils.sheet_to_json(worksheet);
+  return { criteria };
+}
 
-    if (jsonData.length === 0) {
-      return res.status(400).json({ message: 'Excel file is empty or invalid format' });
+// Bulk lookup of catalog entries by business code (uniqueBy fields)
+app.post('/api/catalogs/lookup', authenticateToken, async (req, res) => {
+  try {
+    const { items } = req.body ?? {};
+    if (!Array.isArray(items) || items.length === 0 || items.length > CATALOG_LOOKUP_MAX_ITEMS) {
+      return res.status(400).json({ message: `items must be an array with 1 to ${CATALOG_LOOKUP_MAX_ITEMS} elements` });
+    }
+    if (items.some((item: any) => !item || typeof item.catalogKey !== 'string' || item.code === undefined)) {
+      return res.status(400).json({ message: 'Each item requires catalogKey and code' });
     }
 
-    // Validate required columns
-    const firstRow = jsonData[0] as any;
-    const hasDescripcion = 'descripcion' in firstRow || 'descripción' in firstRow || 'Descripcion' in firstRow || 'Description' in firstRow;
-    const hasNombre = 'nombre' in firstRow || 'Nombre' in firstRow || 'name' in firstRow || 'Name' in firstRow;
-    const hasCodigo = 'codigo' in firstRow || 'código' in firstRow || 'Codigo' in firstRow || 'Code' in firstRow;
-
-    // Special validation for unidades-medida
-    if (catalogKey === 'unidades-medida') {
-      const hasUnidad = 'unidad' in firstRow || 'Unidad' in firstRow || 'unit' in firstRow || 'Unit' in firstRow;
-      const hasSimbolo = 'simbolo' in firstRow || 'símbolo' in firstRow || 'Simbolo' in firstRow || 'Símbolo' in firstRow || 'symbol' in firstRow || 'Symbol' in firstRow;
-      const hasTipoUnidad = 'tipoUnidad' in firstRow || 'tipounidad' in firstRow || 'TipoUnidad' in firstRow || 'tipo unidad' in firstRow || 'Tipo Unidad' in firstRow || 'unitType' in firstRow || 'unittype' in firstRow;
-
-      if (!hasUnidad || !hasSimbolo || !hasTipoUnidad) {
-        return res.status(400).json({
-          message: 'Excel file for unidades-medida must contain columns for unidad, simbolo, and tipoUnidad',
-          requiredColumns: ['unidad', 'simbolo', 'tipoUnidad'],
-          foundColumns: Object.keys(firstRow)
-        });
+    const lookups = items.map((item: any) => {
+      const definition = catalogDefinitionsMap.get(item.catalogKey);
+      if (!definition) {
+        return { error: 'Catalog not found' };
       }
-    }
+      const result = buildCatalogLookupCriteria(definition, item.code);
+      return 'error' in result ? result : { definition, criteria: result.criteria };
+    });
 
-    // Special validation for codigos-moneda
-    if (catalogKey === 'codigos-moneda') {
-      const hasPais = 'pais' in firstRow || 'Pais' in firstRow || 'país' in firstRow || 'País' in firstRow || 'country' in firstRow || 'Country' in firstRow;
-      const hasMoneda = 'moneda' in firstRow || 'Moneda' in firstRow || 'currency' in firstRow || 'Currency' in firstRow;
-      const hasCodigo = 'codigo' in firstRow || 'código' in firstRow || 'Codigo' in firstRow || 'Código' in firstRow || 'code' in firstRow || 'Code' in firstRow;
+    // One query per catalog, OR-ing the criteria of every item that targets it
+    const candidates = new Map<string, any[]>();
+    for (const definition of new Set(lookups.filter((lookup: any) => lookup.definition).map((lookup: any) => lookup.definition))) {
+      const params: any[] = [];
+      const conditions = lookups
+        .filter((lookup: any) => lookup.definition === definition)
+        .map((lookup: any) => Object.entries(lookup.criteria).map(([name, value]) => {
+          params.push(value);
+          return `${toCatalogColumnName(name)} = $${params.length}`;
+        }).join(' AND '));
+      const result = await pool.query(
+        `SELECT * FROM ${definition.tableName} WHERE (${conditions.join(') OR (')})`,
+        params
+      );
+      candidates.set(definition.key, result.rows);
+    }
 
-      if (!hasPais || !hasMoneda || !hasCodigo) {
-        return res.status(400).json({
-          message: 'Excel file for codigos-moneda must contain columns for pais, moneda, and codigo',
-          requiredColumns: ['pais', 'moneda', 'codigo'],
-          foundColumns: Object.keys(firstRow)
-        });
+    const results = items.map((item: any, index: number) => {
+      const lookup: any = lookups[index];
+      if (lookup.error) {
+        return { catalogKey: item.catalogKey, code: item.code, found: false, active: false, record: null, error: lookup.error };
       }
-    }
 
-    // Check if this catalog uses 'nombre' instead of 'descripcion'
-    const usesNombre = definition.fields.some(field => field.name === 'nombre');
+      const matches = (candidates.get(lookup.definition.key) ?? []).filter(row =>
+        Object.entries(lookup.criteria).every(([name, value]) => {
+          const field = lookup.definition.fields.find((candidate: any) => candidate.name === name);
+          const column = toCatalogColumnName(name);
+          return field.type === 'string' ? row[column] === value : Number(row[column]) === value;
+        })
+      );
+      const row = matches.find(match => match.is_active) ?? matches[0] ?? null;
+      return {
+        catalogKey: item.catalogKey,
+        code: item.code,
+        found: Boolean(row),
+        active: Boolean(row?.is_active),
+        record: row ? transformRowKeys(row) : null
+      };
+    });
 
-    if (catalogKey !== 'unidades-medida' && catalogKey !== 'codigos-moneda') {
-      if (usesNombre) {
-        if (!hasNombre) {
-          return res.status(400).json({
-            message: 'Excel file must contain a "nombre" column'
-          });
-        }
-      } else {
-        if (!hasDescripcion) {
-          return res.status(400).json({
-            message: 'Excel file must contain a "descripcion" column'
-          });
-        }
-      }
-    }
+    res.json(results);
+  } catch (error) {
+    console.error('Catalog lookup error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-    const tableName = definition.tableName;
-    let insertedCount = 0;
-    let skippedCount = 0;
-    const errors = [];
+interface CatalogEntryWrite {
+  fields: string[];
+  values: any[];
+}
 
-    // Process each row
-    for (let i = 0; i < jsonData.length; i++) {
-      const row = jsonData[i] as any;
+// Helper function to validate an entry body (validity window, codes, rules, references) and return the columns to write
+async function prepareCatalogEntryWrite(definition: any, body: any): Promise<CatalogEntryWrite | { error: string }> {
+  const validity = parseValidityWindow(body);
+  if (validity.error) {
+    return { error: validity.error };
+  }
 
-      try {
-        // Extract values with flexible column name matching
-        let descripcionField = row.descripcion || row.descripción || row.Descripcion || row.Description || row.descripcion?.trim();
-        let nombreField = row.nombre || row.Nombre || row.name || row.Name || row.nombre?.trim();
-        let codigo = row.codigo || row.código || row.Codigo || row.Code || row.codigo?.trim();
-
-        // Special handling for unidades-medida
-        if (catalogKey === 'unidades-medida') {
-          const unidad = row.unidad || row.Unidad || row.unit || row.Unit;
-          const simbolo = row.simbolo || row.símbolo || row.Simbolo || row.Símbolo || row.symbol || row.Symbol;
-          const tipoUnidad = row.tipoUnidad || row.tipounidad || row.TipoUnidad || row['tipo unidad'] || row['Tipo Unidad'] || row.unitType || row.unittype;
-
-          if (!unidad || unidad.toString().trim() === '') {
-            (errors as string[]).push(`Row ${i + 2}: unidad is required`);
-            skippedCount++;
-            continue;
-          }
-          if (!simbolo || simbolo.toString().trim() === '') {
-            (errors as string[]).push(`Row ${i + 2}: simbolo is required`);
-            skippedCount++;
-            continue;
-          }
-          if (!tipoUnidad || tipoUnidad.toString().trim() === '') {
-            (errors as string[]).push(`Row ${i + 2}: tipoUnidad is required`);
-            skippedCount++;
-            continue;
-          }
+  const codeError = canonicalizeCatalogCodes(definition, body);
+  if (codeError) {
+    return { error: codeError };
+  }
 
-          // Check if unidad already exists
-          const existingItem = await pool.query(
-            `SELECT id FROM ${tableName} WHERE LOWER(TRIM(unidad)) = LOWER($1)`,
-            [unidad.toString().trim()]
-          );
+  const ruleError = findCatalogRuleViolation(definition, body);
+  if (ruleError) {
+    return { error: ruleError };
+  }
 
-          if (existingItem.rows.length > 0) {
-            skippedCount++;
-            continue;
-          }
+  const referenceError = await findMissingCatalogReference(definition, body);
+  if (referenceError) {
+    return { error: referenceError };
+  }
 
-          // Insert the new unidad-medida record
-          const insertQuery = `
-            INSERT INTO ${tableName} (unidad, simbolo, tipoUnidad)
-            VALUES ($1, $2, $3)
-          `;
+  const fields = definition.fields.map((field: any) => toCatalogColumnName(field.name));
+  const values = definition.fields.map((field: any) => body[field.name] ?? null);
+  fields.push(...catalogValidityColumns.map(({ column }) => column));
+  values.push(...validity.values);
+  return { fields, values };
+}
 
-          await pool.query(insertQuery, [
-            unidad.toString().trim(),
-            simbolo.toString().trim(),
-            tipoUnidad.toString().trim()
-          ]);
+async function insertCatalogEntry(client: PoolClient, definition: any, write: CatalogEntryWrite, user: JwtPayload | undefined) {
+  const placeholders = write.fields.map((_, index) => `$${index + 1}`).join(', ');
+  const inserted = await client.query(
+    `INSERT INTO ${definition.tableName} (${write.fields.join(', ')}, created_at, updated_at)
+     VALUES (${placeholders}, NOW(), NOW())
+     RETURNING *`,
+    write.values
+  );
+  await recordCatalogAudit(client, definition.key, 'create', user, [
+    { recordId: inserted.rows[0].id, after: inserted.rows[0] }
+  ]);
+  return inserted.rows[0];
+}
 
-          insertedCount++;
-          continue;
-        }
+// Helper function to overwrite an entry; returns the updated row or null when it does not exist
+async function updateCatalogEntry(client: PoolClient, definition: any, id: string, write: CatalogEntryWrite, user: JwtPayload | undefined) {
+  const previous = await client.query(
+    `SELECT * FROM ${definition.tableName} WHERE id = $1 FOR UPDATE`,
+    [id]
+  );
+  if (previous.rows.length === 0) {
+    return null;
+  }
+  const setClause = write.fields.map((field, index) => `${field} = $${index + 1}`).join(', ');
+  const updated = await client.query(
+    `UPDATE ${definition.tableName}
+     SET ${setClause}, updated_at = NOW()
+     WHERE id = $${write.fields.length + 1}
+     RETURNING *`,
+    [...write.values, id]
+  );
+  await recordCatalogAudit(client, definition.key, 'update', user, [
+    { recordId: id, before: previous.rows[0], after: updated.rows[0] }
+  ]);
+  return updated.rows[0];
+}
 
-        // Special handling for codigos-moneda
-        if (catalogKey === 'codigos-moneda') {
-          const pais = row.pais || row.Pais || row.país || row.País || row.country || row.Country;
-          const moneda = row.moneda || row.Moneda || row.currency || row.Currency;
-          const codigo = row.codigo || row.código || row.Codigo || row.Código || row.code || row.Code;
+app.post('/api/catalogs/:catalogKey', authenticateToken, requireAdmin, async (req: express.Request & { user?: JwtPayload }, res) => {
+  try {
+    const { catalogKey } = req.params;
+    const body = req.body;
 
-          if (!pais || pais.toString().trim() === '') {
-            (errors as string[]).push(`Row ${i + 2}: pais is required`);
-            skippedCount++;
-            continue;
-          }
-          if (!moneda || moneda.toString().trim() === '') {
-            (errors as string[]).push(`Row ${i + 2}: moneda is required`);
-            skippedCount++;
-            continue;
-          }
-          if (!codigo || codigo.toString().trim() === '') {
-            (errors as string[]).push(`Row ${i + 2}: codigo is required`);
-            skippedCount++;
-            continue;
-          }
+    const definition = catalogDefinitionsMap.get(catalogKey);
+    if (!definition) {
+      return res.status(404).json({ message: 'Catalog not found' });
+    }
 
-          // Check if codigo already exists (unique field for codigos-moneda)
-          const existingItem = await pool.query(
-            `SELECT id FROM ${tableName} WHERE codigo = $1`,
-            [codigo.toString().trim()]
-          );
+    const write = await prepareCatalogEntryWrite(definition, body);
+    if ('error' in write) {
+      return res.status(400).json({ message: write.error });
+    }
 
-          if (existingItem.rows.length > 0) {
-            skippedCount++;
-            continue;
-          }
+    const inserted = await withTransaction(client => insertCatalogEntry(client, definition, write, req.user));
 
-          // Insert the new codigo-moneda record
-          const insertQuery = `
-            INSERT INTO ${tableName} (pais, moneda, codigo)
-            VALUES ($1, $2, $3)
-          `;
+    // Transform database row keys from snake_case to camelCase for frontend compatibility
+    const transformedRow = transformRowKeys(inserted);
 
-          await pool.query(insertQuery, [
-            pais.toString().trim(),
-            moneda.toString().trim(),
-            codigo.toString().trim()
-          ]);
+    res.status(201).json(transformedRow);
+  } catch (error) {
+    console.error('Create catalog item error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-          insertedCount++;
-          continue;
-        }
+app.put('/api/catalogs/:catalogKey/:id', authenticateToken, requireAdmin, async (req: express.Request & { user?: JwtPayload }, res) => {
+  try {
+    const { catalogKey, id } = req.params;
+    const body = req.body;
 
-        // Special handling for CABYS (Catálogo de Bienes y Servicios)
-        if (catalogKey === 'cabys') {
-          const categoria = row.categoria || row.Categoria || row.Categoría || row.categoría || row.category || row.Category;
-          const descripcion = row.descripcion || row.Descripcion || row.Descripción || row.descripción || row.description || row.Description;
-          const impuesto = row.impuesto || row.Impuesto || row.tax || row.Tax;
-          const incluye = row.incluye || row.Incluye || row.includes || row.Includes;
-          const excluye = row.excluye || row.Excluye || row.excludes || row.Excludes;
-
-          if (!categoria || categoria.toString().trim() === '') {
-            (errors as string[]).push(`Row ${i + 2}: categoria is required`);
-            skippedCount++;
-            continue;
-          }
-          if (!descripcion || descripcion.toString().trim() === '') {
-            (errors as string[]).push(`Row ${i + 2}: descripcion is required`);
-            skippedCount++;
-            continue;
-          }
+    const definition = catalogDefinitionsMap.get(catalogKey);
+    if (!definition) {
+      return res.status(404).json({ message: 'Catalog not found' });
+    }
 
-          // Check if categoria+descripcion combination already exists (unique constraint)
-          const existingItem = await pool.query(
-            `SELECT id FROM ${tableName} WHERE LOWER(TRIM(categoria)) = LOWER($1) AND LOWER(TRIM(descripcion)) = LOWER($2)`,
-            [categoria.toString().trim(), descripcion.toString().trim()]
-          );
+    const write = await prepareCatalogEntryWrite(definition, body);
+    if ('error' in write) {
+      return res.status(400).json({ message: write.error });
+    }
 
-          if (existingItem.rows.length > 0) {
-            skippedCount++;
-            continue;
-          }
+    const current = await pool.query(`SELECT * FROM ${definition.tableName} WHERE id = $1`, [id]);
+    if (current.rows.length > 0) {
+      // Changing a referenced key would leave the referencing entries pointing at nothing
+      const changedFields = definition.fields
+        .filter((field: any) => normalizeImportValue(field, body[field.name]) !== normalizeImportValue(field, current.rows[0][toCatalogColumnName(field.name)]))
+        .map((field: any) => field.name);
+      const conflict = await findCatalogEntryReference(pool, definition, current.rows[0], changedFields);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+    }
 
-          // Parse impuesto as numeric (can be null)
-          let impuestoValue: number | null = null;
-          if (impuesto !== undefined && impuesto !== null && impuesto.toString().trim() !== '') {
-            const parsedImpuesto = parseFloat(impuesto.toString().trim());
-            if (!isNaN(parsedImpuesto)) {
-              impuestoValue = parsedImpuesto;
-            }
-          }
+    const updated = await withTransaction(client => updateCatalogEntry(client, definition, id, write, req.user));
 
-          // Insert the new CABYS record
-          const insertQuery = `
-            INSERT INTO ${tableName} (categoria, descripcion, impuesto, incluye, excluye)
-            VALUES ($1, $2, $3, $4, $5)
-          `;
-
-          await pool.query(insertQuery, [
-            categoria.toString().trim(),
-            descripcion.toString().trim(),
-            impuestoValue,
-            incluye ? incluye.toString().trim() : null,
-            excluye ? excluye.toString().trim() : null
-          ]);
-
-          insertedCount++;
-          continue;
-        }
+    if (!updated) {
+      return res.status(404).json({ message: 'Item not found' });
+    }
 
-        // Determine which field to use based on catalog structure
-        let fieldValue;
-        let fieldName;
+    // Transform database row keys from snake_case to camelCase for frontend compatibility
+    const transformedRow = transformRowKeys(updated);
 
-        if (usesNombre) {
-          fieldValue = nombreField;
-          fieldName = 'nombre';
+    res.json(transformedRow);
+  } catch (error) {
+    console.error('Update catalog item error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-          if (!fieldValue || fieldValue.toString().trim() === '') {
-            (errors as string[]).push(`Row ${i + 2}: nombre is required`);
-            skippedCount++;
-            continue;
-          }
-        } else {
-          fieldValue = descripcionField;
-          fieldName = 'descripcion';
+app.delete('/api/catalogs/:catalogKey/:id', authenticateToken, requireAdmin, async (req: express.Request & { user?: JwtPayload }, res) => {
+  try {
+    const { catalogKey, id } = req.params;
 
-          if (!fieldValue || fieldValue.toString().trim() === '') {
-            (errors as string[]).push(`Row ${i + 2}: descripcion is required`);
-            skippedCount++;
-            continue;
-          }
-        }
+    const definition = catalogDefinitionsMap.get(catalogKey);
+    if (!definition) {
+      return res.status(404).json({ message: 'Catalog not found' });
+    }
 
-        fieldValue = fieldValue.toString().trim();
+    const current = await pool.query(`SELECT * FROM ${definition.tableName} WHERE id = $1`, [id]);
+    const conflict = current.rows.length > 0 ? await findCatalogEntryReference(pool, definition, current.rows[0]) : null;
+    if (conflict) {
+      return res.status(409).json({ message: conflict });
+    }
 
-        // Handle codigo (optional for some catalogs, but required for tipos-documento)
-        if (catalogKey === 'tipos-documento' && (!codigo || codigo.toString().trim() === '')) {
-          (errors as string[]).push(`Row ${i + 2}: codigo is required for tipos-documento`);
-          skippedCount++;
-          continue;
-        }
+    // Entries are deactivated instead of deleted so historical documents keep their references
+    const result = await setCatalogEntryActive(definition, id, false, req.user);
 
-        // For actividades-economicas, codigo is required (it's unique field)
-        if (catalogKey === 'actividades-economicas' && (!codigo || codigo.toString().trim() === '')) {
-          (errors as string[]).push(`Row ${i + 2}: codigo is required for actividades-economicas`);
-          skippedCount++;
-          continue;
-        }
+    if (!result) {
+      return res.status(404).json({ message: 'Item not found' });
+    }
 
-        // Handle numeric codes for actividades-economicas and other catalogs with numeric codes
-        let codigoValue: string | number | null = null;
-        if (codigo) {
-          const isNumericCode = definition.fields.some(field =>
-            field.name === 'codigo' && field.type === 'numeric'
-          );
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete catalog item error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-          if (isNumericCode) {
-            const parsedValue = parseFloat(codigo.toString().trim());
-            if (isNaN(parsedValue)) {
-              (errors as string[]).push(`Row ${i + 2}: codigo must be a valid number`);
-              skippedCount++;
-              continue;
-            }
-            codigoValue = parsedValue;
-          } else {
-            codigoValue = codigo.toString().trim();
-          }
-        }
+const CATALOG_BULK_MAX_OPERATIONS = 1000;
+const catalogBulkActions = ['create', 'update', 'delete', 'deactivate'];
 
-        // Check if item already exists (avoid duplicates)
-        let checkQuery;
-        let checkParams;
+// Raised inside the bulk transaction so the whole batch rolls back and the failing operation is reported
+class CatalogBulkOperationError extends Error {
+  constructor(public index: number, public status: number, message: string) {
+    super(message);
+  }
+}
 
-        if (codigoValue !== null) {
-          checkQuery = `SELECT id FROM ${tableName} WHERE codigo = $1`;
-          checkParams = [codigoValue];
-        } else {
-          const fieldNameToCheck = usesNombre ? 'nombre' : 'descripcion';
-          checkQuery = `SELECT id FROM ${tableName} WHERE LOWER(TRIM(${fieldNameToCheck})) = LOWER($1)`;
-          checkParams = [fieldValue];
-        }
+// Helper function to apply one bulk operation inside the batch transaction
+async function applyCatalogBulkOperation(
+  client: PoolClient,
+  definition: any,
+  operation: any,
+  write: CatalogEntryWrite | null,
+  user: JwtPayload | undefined
+): Promise<{ id: string; record?: any } | { status: number; message: string }> {
+  if (operation.op === 'create') {
+    const inserted = await insertCatalogEntry(client, definition, write!, user);
+    return { id: inserted.id, record: transformRowKeys(inserted) };
+  }
 
-        const existingItem = await pool.query(checkQuery, checkParams);
+  const current = await client.query(`SELECT * FROM ${definition.tableName} WHERE id = $1 FOR UPDATE`, [operation.id]);
+  if (current.rows.length === 0) {
+    return { status: 404, message: 'Item not found' };
+  }
 
-        if (existingItem.rows.length > 0) {
-          skippedCount++;
-          continue;
-        }
+  if (operation.op === 'update') {
+    const changedFields = definition.fields
+      .filter((field: any) => normalizeImportValue(field, operation.data[field.name]) !== normalizeImportValue(field, current.rows[0][toCatalogColumnName(field.name)]))
+      .map((field: any) => field.name);
+    const conflict = await findCatalogEntryReference(client, definition, current.rows[0], changedFields);
+    if (conflict) {
+      return { status: 409, message: conflict };
+    }
+    const updated = await updateCatalogEntry(client, definition, operation.id, write!, user);
+    return { id: operation.id, record: transformRowKeys(updated) };
+  }
 
-        // Insert new item
-        let insertQuery;
-        let insertValues;
+  // delete is the same soft delete as DELETE /api/catalogs/:catalogKey/:id, so delta sync still reports it
+  const conflict = await findCatalogEntryReference(client, definition, current.rows[0]);
+  if (conflict) {
+    return { status: 409, message: conflict };
+  }
+  const deactivated = await changeCatalogEntryActive(client, definition, operation.id, false, user);
+  return { id: operation.id, record: transformRowKeys(deactivated) };
+}
 
-        if (codigoValue !== null) {
-          insertQuery = `INSERT INTO ${tableName} (codigo, ${fieldName}, created_at, updated_at)
-                        VALUES ($1, $2, NOW(), NOW()) RETURNING *`;
-          insertValues = [codigoValue, fieldValue];
-        } else {
-          insertQuery = `INSERT INTO ${tableName} (${fieldName}, created_at, updated_at)
-                        VALUES ($1, NOW(), NOW()) RETURNING *`;
-          insertValues = [fieldValue];
-        }
+// Bulk create/update/delete/deactivate in a single transaction: either every operation applies or none does
+app.post('/api/catalogs/:catalogKey/bulk', authenticateToken, requireAdmin, async (req: express.Request & { user?: JwtPayload }, res) => {
+  try {
+    const { catalogKey } = req.params;
+    const { operations } = req.body ?? {};
 
-        await pool.query(insertQuery, insertValues);
-        insertedCount++;
+    const definition = catalogDefinitionsMap.get(catalogKey);
+    if (!definition) {
+      return res.status(404).json({ message: 'Catalog not found' });
+    }
 
-      } catch (rowError: any) {
-        console.error(`Error processing row ${i + 2}:`, rowError);
-        (errors as string[]).push(`Row ${i + 2}: ${rowError.message}`);
-        skippedCount++;
-      }
+    if (!Array.isArray(operations) || operations.length === 0 || operations.length > CATALOG_BULK_MAX_OPERATIONS) {
+      return res.status(400).json({ message: `operations must be an array with 1 to ${CATALOG_BULK_MAX_OPERATIONS} elements` });
     }
 
-    const response: any = {
-      message: 'Import completed',
-      summary: {
-        total: jsonData.length,
-        inserted: insertedCount,
-        skipped: skippedCount,
-        errors: errors.length
-      },
-      details: {
-        catalogKey,
-        tableName,
-        errors: errors.slice(0, 10), // Limit errors to first 10
-        hasMoreErrors: errors.length > 10
+    // Validate every payload before opening the transaction so bad input never takes row locks
+    const writes: (CatalogEntryWrite | null)[] = [];
+    for (const [index, operation] of operations.entries()) {
+      const fail = (message: string) => res.status(400).json({
+        message: `Operation ${index + 1} (${operation?.op}) failed: ${message}. No changes were applied`,
+        index,
+      });
+      if (!operation || !catalogBulkActions.includes(operation.op)) {
+        return fail(`op must be one of: ${catalogBulkActions.join(', ')}`);
       }
-    };
-
-    if (errors.length > 0) {
-      response.warning = 'Some rows had errors and were skipped';
+      if (operation.op !== 'create' && (typeof operation.id !== 'string' || !UUID_PATTERN.test(operation.id))) {
+        return fail('id must be a UUID');
+      }
+      if (operation.op !== 'create' && operation.op !== 'update') {
+        writes.push(null);
+        continue;
+      }
+      if (!operation.data || typeof operation.data !== 'object' || Array.isArray(operation.data)) {
+        return fail('data must be an object');
+      }
+      const write = await prepareCatalogEntryWrite(definition, operation.data);
+      if ('error' in write) {
+        return fail(write.error);
+      }
+      writes.push(write);
     }
 
-    res.json(response);
+    const results = await withTransaction(async (client) => {
+      const applied: any[] = [];
+      for (const [index, operation] of operations.entries()) {
+        try {
+          const result = await applyCatalogBulkOperation(client, definition, operation, writes[index], req.user);
+          if ('status' in result) {
+            throw new CatalogBulkOperationError(index, result.status, result.message);
+          }
+          applied.push({ index, op: operation.op, ...result });
+        } catch (error: any) {
+          if (error?.code === '23505') {
+            throw new CatalogBulkOperationError(index, 409, 'an entry with the same unique key already exists');
+          }
+          throw error;
+        }
+      }
+      return applied;
+    });
 
+    res.json({ results });
   } catch (error) {
-    console.error('Import catalog error:', error);
-
-    if (error.code === 'LIMIT_FILE_SIZE') {
-      return res.status(400).json({ message: 'File too large. Maximum size is 10MB.' });
-    }
-
-    if (error.message === 'Only Excel files are allowed (.xlsx, .xls)') {
-      return res.status(400).json({ message: error.message });
+    if (error instanceof CatalogBulkOperationError) {
+      const operation = req.body.operations[error.index];
+      return res.status(error.status).json({
+        message: `Operation ${error.index + 1} (${operation.op}) failed: ${error.message}. No changes were applied`,
+        index: error.index,
+      });
     }
-
-    res.status(500).json({ message: 'Internal server error during import' });
+    console.error('Bulk catalog operations error:', error);
+    res.status(500).json({ message: 'Internal server error' });
   }
 });
 
-// Update table structure for catalog fields
-app.post('/api/catalogs/:catalogKey/update-schema', authenticateToken, requireAdmin, async (req, res) => {
+app.post('/api/catalogs/:catalogKey/:id/restore', authenticateToken, requireAdmin, async (req: express.Request & { user?: JwtPayload }, res) => {
   try {
-    const { catalogKey } = req.params;
+    const { catalogKey, id } = req.params;
 
     const definition = catalogDefinitionsMap.get(catalogKey);
     if (!definition) {
       return res.status(404).json({ message: 'Catalog not found' });
     }
 
-    const tableName = definition.tableName;
+    const result = await setCatalogEntryActive(definition, id, true, req.user);
 
-    // Get current table structure
-    const tableStructure = await pool.query(`
-      SELECT column_name, data_type, numeric_precision, numeric_scale, character_maximum_length
-      FROM information_schema.columns
-      WHERE table_name = $1 AND table_schema = 'public'
-      ORDER BY ordinal_position
-    `, [tableName]);
+    if (!result) {
+      return res.status(404).json({ message: 'Item not found' });
+    }
 
-    console.log(`Current table structure for ${tableName}:`, tableStructure.rows);
+    res.json(transformRowKeys(result));
+  } catch (error) {
+    console.error('Restore catalog item error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-    // Check if we need to update codigo column for actividades-economicas
-    if (catalogKey === 'actividades-economicas') {
-      const codigoColumn = tableStructure.rows.find(col => col.column_name === 'codigo');
+// Import catalog items from Excel
+// Reads a catalog from a published release instead of the live table (?release=2026.3)
+async function sendReleaseEntries(req: express.Request, res: express.Response, definition: any) {
+  const { search, page = 1, limit = 50, asOf, release } = req.query;
 
-      if (codigoColumn && codigoColumn.data_type === 'numeric') {
-        console.log('Altering actividades_economicas.codigo from numeric to varchar...');
+  if (typeof release !== 'string' || !/^\d{4}\.\d+$/.test(release)) {
+    return res.status(400).json({ message: 'release must have the format YYYY.N' });
+  }
+
+  const releaseResult = await pool.query('SELECT * FROM catalog_releases WHERE version = $1', [release]);
+  if (releaseResult.rows.length === 0) {
+    return res.status(404).json({ message: 'Release not found' });
+  }
+
+  const snapshot = await findReleaseSnapshot(definition.key, releaseResult.rows[0].created_at, true);
+  if (!snapshot) {
+    return res.status(404).json({ message: 'Catalog is not part of this release' });
+  }
+
+  const pageNumber = Number(page);
+  const limitNumber = Math.min(Math.max(Number(limit), 1), 200); // Max 200 items per page
+
+  const conditions: string[] = [];
+  const params: any[] = [snapshot.id];
+
+  if (search) {
+    params.push(search);
+    conditions.push(`(${definition.searchFields.map((field: string) =>
+      `strpos(lower(e.entry->>'${field}'), lower($${params.length})) > 0`
+    ).join(' OR ')})`);
+  }
+
+  if (asOf) {
+    params.push(asOf);
+    conditions.push(
+      `(e.entry->>'vigenteDesde' IS NULL OR (e.entry->>'vigenteDesde')::date <= $${params.length}::date)`,
+      `(e.entry->>'vigenteHasta' IS NULL OR (e.entry->>'vigenteHasta')::date >= $${params.length}::date)`
+    );
+  }
+
+  const fromClause = `
+    FROM catalog_release_snapshots s
+    CROSS JOIN LATERAL jsonb_array_elements(s.data) WITH ORDINALITY AS e(entry, position)
+    WHERE s.id = $1${conditions.map(condition => ` AND ${condition}`).join('')}
+  `;
+  const offset = (pageNumber - 1) * limitNumber;
+
+  const [itemsResult, countResult] = await Promise.all([
+    pool.query(`SELECT e.entry ${fromClause} ORDER BY e.position LIMIT ${limitNumber} OFFSET ${offset}`, params),
+    pool.query(`SELECT COUNT(*) ${fromClause}`, params)
+  ]);
+
+  res.json({
+    data: itemsResult.rows.map(row => row.entry),
+    meta: {
+      total: Number(countResult.rows[0].count),
+      page: pageNumber,
+      limit: limitNumber,
+      release
+    }
+  });
+}
+
+app.get('/api/catalog-releases', authenticateToken, async (req, res) => {
+  try {
+    res.json(await fetchReleaseSummaries());
+  } catch (error) {
+    console.error('List catalog releases error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+app.post('/api/catalog-releases', authenticateToken, requireAdmin, async (req: express.Request & { user?: JwtPayload }, res) => {
+  try {
+    const { catalogKey, notes } = req.body ?? {};
+
+    let definitions = catalogDefinitions;
+    if (catalogKey) {
+      const definition = catalogDefinitionsMap.get(catalogKey);
+      if (!definition) {
+        return res.status(404).json({ message: 'Catalog not found' });
+      }
+      definitions = [definition];
+    }
+
+    const version = await withTransaction(async (client) => {
+      // Every catalog in the release is read from the same database snapshot
+      await client.query('SET TRANSACTION ISOLATION LEVEL REPEATABLE READ');
+      await client.query('LOCK TABLE catalog_releases IN EXCLUSIVE MODE');
+
+      const year = new Date().getUTCFullYear();
+      const sequenceResult = await client.query(
+        `SELECT COALESCE(MAX(SPLIT_PART(version, '.', 2)::int), 0) AS last FROM catalog_releases WHERE version LIKE $1`,
+        [`${year}.%`]
+      );
+      const nextVersion = `${year}.${Number(sequenceResult.rows[0].last) + 1}`;
+
+      const snapshots = [];
+      for (const definition of definitions) {
+        const entries = await loadReleaseEntries(client, definition);
+        snapshots.push({ catalogKey: definition.key, checksum: computeChecksum(entries), entries });
+      }
+
+      const releaseResult = await client.query(
+        `INSERT INTO catalog_releases (version, checksum, notes, published_by_id, published_by)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id`,
+        [
+          nextVersion,
+          computeChecksum(snapshots.map(snapshot => ({ catalogKey: snapshot.catalogKey, checksum: snapshot.checksum }))),
+          typeof notes === 'string' && notes.trim() ? notes.trim().slice(0, 500) : null,
+          req.user?.sub ?? null,
+          req.user?.username ?? null
+        ]
+      );
+
+      for (const snapshot of snapshots) {
+        await client.query(
+          `INSERT INTO catalog_release_snapshots (release_id, catalog_key, checksum, entry_count, data)
+           VALUES ($1, $2, $3, $4, $5::jsonb)`,
+          [releaseResult.rows[0].id, snapshot.catalogKey, snapshot.checksum, snapshot.entries.length, JSON.stringify(snapshot.entries)]
+        );
+      }
+
+      return nextVersion;
+    });
+
+    const [summary] = await fetchReleaseSummaries(version);
+    res.status(201).json(summary);
+  } catch (error) {
+    console.error('Publish catalog release error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+app.get('/api/catalog-releases/:version', authenticateToken, async (req, res) => {
+  try {
+    const [summary] = await fetchReleaseSummaries(req.params.version);
+    if (!summary) {
+      return res.status(404).json({ message: 'Release not found' });
+    }
+    res.json(summary);
+  } catch (error) {
+    console.error('Find catalog release error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+app.get('/api/catalog-releases/:version/diff', authenticateToken, async (req, res) => {
+  try {
+    const releaseResult = await pool.query('SELECT * FROM catalog_releases WHERE version = $1', [req.params.version]);
+    if (releaseResult.rows.length === 0) {
+      return res.status(404).json({ message: 'Release not found' });
+    }
+    const release = releaseResult.rows[0];
+
+    const snapshotsResult = await pool.query(
+      'SELECT id, catalog_key, data FROM catalog_release_snapshots WHERE release_id = $1 ORDER BY catalog_key',
+      [release.id]
+    );
+
+    const catalogs = [];
+    for (const snapshot of snapshotsResult.rows) {
+      const previous = await findReleaseSnapshot(snapshot.catalog_key, release.created_at, false);
+      const previousEntries: any[] = previous
+        ? (await pool.query('SELECT data FROM catalog_release_snapshots WHERE id = $1', [previous.id])).rows[0].data
+        : [];
+
+      const uniqueBy: string[] = catalogDefinitionsMap.get(snapshot.catalog_key)?.uniqueBy ?? ['id'];
+      const keyOf = (entry: any) => uniqueBy.map(field => JSON.stringify(entry[field] ?? null)).join('|');
+
+      const previousByKey = new Map(previousEntries.map(entry => [keyOf(entry), entry]));
+      const added: any[] = [];
+      const changed: any[] = [];
+
+      for (const entry of snapshot.data as any[]) {
+        const key = keyOf(entry);
+        const before = previousByKey.get(key);
+        previousByKey.delete(key);
+        if (!before) {
+          added.push(entry);
+        } else if (JSON.stringify(before) !== JSON.stringify(entry)) {
+          changed.push({ before, after: entry });
+        }
+      }
+
+      catalogs.push({
+        catalogKey: snapshot.catalog_key,
+        previousVersion: previous?.version ?? null,
+        added,
+        removed: Array.from(previousByKey.values()),
+        changed
+      });
+    }
+
+    res.json({ version: release.version, catalogs });
+  } catch (error) {
+    console.error('Diff catalog release error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+
+// CABYS codes are hierarchical: each level extends its parent's prefix up to the 13-digit item code
+const CABYS_LEVELS = [1, 2, 3, 4, 5, 7, 9, 11, 13];
+const CABYS_ITEM_LENGTH = CABYS_LEVELS[CABYS_LEVELS.length - 1];
+
+// Helper function to get the hierarchy level of a CABYS code (0 when the code is not a valid prefix)
+function getCabysLevel(code: string): number {
+  return /^\d+$/.test(code) ? CABYS_LEVELS.indexOf(code.length) + 1 : 0;
+}
+
+const CABYS_LEVEL_ERROR = `CABYS code must have ${CABYS_LEVELS.join(', ')} digits`;
+
+app.get('/api/cabys/tree', authenticateToken, async (req, res) => {
+  try {
+    const parent = typeof req.query.parent === 'string' ? req.query.parent.trim() : '';
+    const parentLevel = parent ? getCabysLevel(parent) : 0;
+    if (parent && parentLevel === 0) {
+      return res.status(400).json({ message: CABYS_LEVEL_ERROR });
+    }
+
+    const childLength = CABYS_LEVELS[parentLevel];
+    if (!childLength) {
+      return res.json({ parent, level: parentLevel + 1, children: [] });
+    }
+
+    const result = await pool.query(
+      `SELECT LEFT(categoria, $1) AS code,
+              COUNT(*) FILTER (WHERE LENGTH(categoria) = $3) AS item_count,
+              MAX(descripcion) FILTER (WHERE LENGTH(categoria) = $1) AS descripcion
+       FROM cabys
+       WHERE is_active = true AND categoria LIKE $2 AND LENGTH(categoria) >= $1
+       GROUP BY code
+       ORDER BY code`,
+      [childLength, `${parent}%`, CABYS_ITEM_LENGTH]
+    );
+
+    res.json({
+      parent: parent || null,
+      level: parentLevel + 1,
+      children: result.rows.map(row => ({
+        code: row.code,
+        level: parentLevel + 1,
+        descripcion: row.descripcion,
+        itemCount: Number(row.item_count),
+        hasChildren: childLength < CABYS_ITEM_LENGTH
+      }))
+    });
+  } catch (error) {
+    console.error('CABYS tree error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+app.get('/api/cabys/:code/ancestors', authenticateToken, async (req, res) => {
+  try {
+    const { code } = req.params;
+    const level = getCabysLevel(code);
+    if (level === 0) {
+      return res.status(400).json({ message: CABYS_LEVEL_ERROR });
+    }
+
+    const existsResult = await pool.query(
+      'SELECT 1 FROM cabys WHERE is_active = true AND categoria LIKE $1 LIMIT 1',
+      [`${code}%`]
+    );
+    if (existsResult.rows.length === 0) {
+      return res.status(404).json({ message: 'CABYS code not found' });
+    }
+
+    const prefixes = CABYS_LEVELS.slice(0, level).map(length => code.slice(0, length));
+    const result = await pool.query(
+      `SELECT categoria, MAX(descripcion) AS descripcion
+       FROM cabys
+       WHERE is_active = true AND categoria = ANY($1)
+       GROUP BY categoria`,
+      [prefixes]
+    );
+    const descriptions = new Map(result.rows.map(row => [row.categoria, row.descripcion]));
+
+    res.json(prefixes.map((prefix, index) => ({
+      code: prefix,
+      level: index + 1,
+      descripcion: descriptions.get(prefix) ?? null
+    })));
+  } catch (error) {
+    console.error('CABYS ancestors error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+});
+
+type ImportFileFormat = 'xlsx' | 'csv' | 'tsv' | 'json';
+
+const importFileFormats: ImportFileFormat[] = ['xlsx', 'csv', 'tsv', 'json'];
+const importFileDelimiters: Record<string, string> = { ',': ',', ';': ';', '|': '|', '\t': '\t', tab: '\t' };
+const importFileEncodings = ['utf-8', 'latin1', 'iso-8859-1', 'windows-1252'];
+const IMPORT_HEADER_SCAN_ROWS = 20;
+const IMPORT_PREVIEW_ROWS = 10;
+
+interface ImportFileOptions {
+  format?: ImportFileFormat;
+  delimiter?: string;
+  encoding?: string;
+  sheet?: string;
+  headerRow?: number;
+  // Known column names used to find the header row below a title block
+  headerKeys?: string[];
+}
+
+interface ImportFileRecords {
+  sheets: Array<{ name: string; rowCount: number }>;
+  sheet: string | null;
+  records: Array<{ rowNumber: number; values: any[] }>;
+}
+
+// Upload that cannot be read (unknown sheet, broken quoting, corrupt workbook); answered with 400
+class ImportFileError extends Error {}
+
+// Bytes read from the start of an upload to tell its format, encoding and delimiter
+const IMPORT_FILE_HEAD_SIZE = 64 * 1024;
+
+// An import file: a multipart upload held in memory, or a chunked upload stored in import_upload_chunks.
+// Readers only use its first bytes and a stream, so a stored upload is never loaded whole
+interface ImportUpload {
+  originalname?: string;
+  mimetype?: string;
+  head: Buffer;
+  open: () => Readable;
+  // Set for stored uploads, which are deleted once their rows are staged
+  uploadId?: string;
+}
+
+// Helper function to wrap a multipart upload as an import file
+function toImportUpload(file: Express.Multer.File): ImportUpload {
+  return {
+    originalname: file.originalname,
+    mimetype: file.mimetype,
+    head: file.buffer.subarray(0, IMPORT_FILE_HEAD_SIZE),
+    open: () => Readable.from([file.buffer]),
+  };
+}
+
+// Helper function to read a stored upload one chunk at a time, in order
+async function* readImportUploadChunks(uploadId: string): AsyncGenerator<Buffer> {
+  for (let position = 0; ; position++) {
+    const result = await pool.query(
+      'SELECT data FROM import_upload_chunks WHERE upload_id = $1 AND position = $2',
+      [uploadId, position]
+    );
+    if (result.rows.length === 0) {
+      return;
+    }
+    yield result.rows[0].data;
+  }
+}
+
+// Helper function to resolve the file of an import request: the multipart file field, or the uploadId of a chunked upload
+// sent to /api/imports/uploads (form body or query string). upload is null when the request has neither
+async function resolveImportUpload(req: express.Request): Promise<{ upload: ImportUpload | null } | { status: number; error: string }> {
+  if (req.file) {
+    return { upload: toImportUpload(req.file) };
+  }
+  const uploadId = req.body?.uploadId ?? req.query.uploadId;
+  if (uploadId === undefined) {
+    return { upload: null };
+  }
+  if (typeof uploadId !== 'string' || !UUID_PATTERN.test(uploadId)) {
+    return { status: 400, error: 'uploadId must be a UUID' };
+  }
+
+  const result = await pool.query(
+    `SELECT u.file_name, u.mimetype, u.size, COUNT(c.position)::int AS chunks, COALESCE(SUM(length(c.data)), 0)::bigint AS received,
+       (SELECT substring(data FROM 1 FOR $2) FROM import_upload_chunks WHERE upload_id = u.id AND position = 0) AS head
+     FROM import_uploads u
+     LEFT JOIN import_upload_chunks c ON c.upload_id = u.id
+     WHERE u.id = $1
+     GROUP BY u.id`,
+    [uploadId, IMPORT_FILE_HEAD_SIZE]
+  );
+  const stored = result.rows[0];
+  if (!stored) {
+    return { status: 404, error: 'Upload not found' };
+  }
+  if (stored.chunks !== Math.ceil(Number(stored.size) / IMPORT_UPLOAD_CHUNK_SIZE) || Number(stored.received) !== Number(stored.size)) {
+    return { status: 400, error: `Upload is incomplete: ${stored.received} of ${stored.size} bytes received` };
+  }
+  return {
+    upload: {
+      originalname: stored.file_name,
+      mimetype: stored.mimetype ?? undefined,
+      head: stored.head ?? Buffer.alloc(0),
+      open: () => Readable.from(readImportUploadChunks(uploadId)),
+      uploadId,
+    },
+  };
+}
+
+// Helper function to read format/delimiter/encoding for an upload; the admin sends them in the form body, scripts in the query string
+function resolveImportFileOptions(req: express.Request): ImportFileOptions & { error?: string } {
+  const pick = (name: string) => {
+    const value = req.query[name] ?? req.body?.[name];
+    return typeof value === 'string' && value !== '' ? value : undefined;
+  };
+  const format = pick('format');
+  const delimiter = pick('delimiter');
+  const encoding = pick('encoding')?.toLowerCase();
+  const sheet = pick('sheet');
+  const headerRow = pick('headerRow');
+
+  if (format && !importFileFormats.includes(format as ImportFileFormat)) {
+    return { error: `Unsupported format "${format}". Use one of: ${importFileFormats.join(', ')}` };
+  }
+  if (delimiter && !(delimiter in importFileDelimiters)) {
+    return { error: 'Unsupported delimiter. Use ",", ";", "|" or "tab"' };
+  }
+  if (encoding && !importFileEncodings.includes(encoding)) {
+    return { error: `Unsupported encoding "${encoding}". Use one of: ${importFileEncodings.join(', ')}` };
+  }
+  if (headerRow && !/^[1-9]\d*$/.test(headerRow)) {
+    return { error: 'headerRow must be a positive integer' };
+  }
+
+  return {
+    format: format as ImportFileFormat | undefined,
+    delimiter: delimiter ? importFileDelimiters[delimiter] : undefined,
+    encoding,
+    sheet,
+    headerRow: headerRow ? Number(headerRow) : undefined,
+  };
+}
+
+// Helper function to decode text uploads; without an explicit encoding, invalid UTF-8 falls back to Latin-1 (windows-1252)
+function decodeImportText(buffer: Buffer, encoding?: string): string {
+  if (encoding && encoding !== 'utf-8') {
+    return new TextDecoder(encoding).decode(buffer);
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch (error) {
+    if (encoding) {
+      throw new Error('File is not valid UTF-8');
+    }
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+// Helper function to pick the encoding of a text upload from its first bytes, with the same Latin-1 fallback as decodeImportText
+function detectImportEncoding(head: Buffer, encoding?: string): string {
+  if (encoding) {
+    return encoding;
+  }
+  try {
+    // stream: a character cut at the end of the head is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+    return 'utf-8';
+  } catch (error) {
+    return 'windows-1252';
+  }
+}
+
+// Helper function to decode a text upload one piece at a time
+async function* decodeImportTextStream(file: ImportUpload, encoding: string): AsyncGenerator<string> {
+  const decoder = new TextDecoder(encoding, { fatal: encoding === 'utf-8' });
+  try {
+    for await (const chunk of file.open()) {
+      yield decoder.decode(chunk, { stream: true });
+    }
+    yield decoder.decode();
+  } catch (error) {
+    // Only the first bytes decide the encoding, so invalid UTF-8 further on can only be reported
+    throw error instanceof TypeError ? new ImportFileError('File is not valid UTF-8; choose its encoding') : error;
+  }
+}
+
+// Helper function to read a whole upload; only JSON files, which have no rows to stream, are read this way
+async function readImportUploadBuffer(file: ImportUpload): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of file.open()) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function detectImportFileFormat(file: ImportUpload): ImportFileFormat {
+  const extension = (file.originalname ?? '').toLowerCase().split('.').pop();
+  if (extension === 'xlsx' || extension === 'xls') {
+    return 'xlsx';
+  }
+  if (extension === 'csv' || extension === 'txt') {
+    return 'csv';
+  }
+  if (extension === 'tsv' || extension === 'json') {
+    return extension;
+  }
+  if (file.mimetype === 'application/json') {
+    return 'json';
+  }
+  if (file.mimetype === 'text/tab-separated-values') {
+    return 'tsv';
+  }
+  if (file.head.subarray(0, 2).toString('latin1') === 'PK') {
+    return 'xlsx';
+  }
+  const firstChar = decodeImportText(file.head.subarray(0, 64)).trimStart()[0];
+  return firstChar === '[' || firstChar === '{' ? 'json' : 'csv';
+}
+
+function detectImportDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/, IMPORT_HEADER_SCAN_ROWS);
+  let best = { delimiter: ',', count: 0 };
+  for (const delimiter of [',', ';', '\t', '|']) {
+    const count = lines.reduce((total, line) => total + line.split(delimiter).length - 1, 0);
+    if (count > best.count) {
+      best = { delimiter, count };
+    }
+  }
+  return best.delimiter;
+}
+
+// Helper function to turn an ExcelJS cell value into a plain value: rich text and hyperlinks become text, formulas their result
+function extractImportCellValue(value: any): any {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+  if (value.richText) {
+    return value.richText.map((segment: any) => segment.text ?? '').join('');
+  }
+  if (value.text !== undefined) {
+    return String(value.text);
+  }
+  if (value.result !== undefined) {
+    return value.result;
+  }
+  return value.error ?? null;
+}
+
+// Helper function to split CSV/TSV text into records one at a time as the text arrives; quoted values may hold
+// delimiters and line breaks. Values stay text so codes such as "01" keep their leading zeros
+async function* parseImportDelimited(chunks: AsyncIterable<string>, delimiter: string): AsyncGenerator<{ rowNumber: number; values: any[] }> {
+  let values: string[] = [];
+  let value = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let text = '';
+  const iterator = chunks[Symbol.asyncIterator]();
+
+  for (;;) {
+    const next = await iterator.next();
+    text += next.done ? '' : next.value;
+    // A quote or carriage return ending the text may pair with the next character, so it waits for the next piece;
+    // at the end of the file one more step (char undefined) closes the last record
+    const end = next.done ? text.length + 1 : text.length - (/["\r]$/.test(text) ? 1 : 0);
+    let index = 0;
+    for (; index < end; index++) {
+      const char = text[index];
+      if (inQuotes) {
+        if (char === undefined) {
+          throw new ImportFileError(`Unclosed quotes starting at row ${recordLine}`);
+        }
+        if (char === '"' && text[index + 1] === '"') {
+          value += '"';
+          index++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          if (char === '\n') {
+            line++;
+          }
+          value += char;
+        }
+      } else if (char === '"' && value === '') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        values.push(value);
+        value = '';
+      } else if (char === '\n' || char === '\r' || char === undefined) {
+        if (char === '\r' && text[index + 1] === '\n') {
+          index++;
+        }
+        values.push(value);
+        if (values.some(cell => cell.trim() !== '')) {
+          yield { rowNumber: recordLine, values };
+        }
+        values = [];
+        value = '';
+        line++;
+        recordLine = line;
+      } else {
+        value += char;
+      }
+    }
+    if (next.done) {
+      return;
+    }
+    text = text.slice(index);
+  }
+}
+
+// Helper function to pick the requested sheet (exact name first, then ignoring case and spaces), or the first one
+function resolveImportSheetName(sheetNames: string[], requested?: string): string | undefined {
+  return requested
+    ? sheetNames.find(name => name === requested) ??
+      sheetNames.find(name => name.trim().toLowerCase() === requested.trim().toLowerCase())
+    : sheetNames[0];
+}
+
+// Helper function to open a CSV/TSV upload as a stream of text and its delimiter, detected from the first bytes when not given
+function openImportDelimited(file: ImportUpload, format: ImportFileFormat, options: ImportFileOptions): [AsyncIterable<string>, string] {
+  const encoding = detectImportEncoding(file.head, options.encoding);
+  const delimiter = format === 'tsv'
+    ? '\t'
+    : options.delimiter ?? detectImportDelimiter(new TextDecoder(encoding).decode(file.head));
+  return [decodeImportTextStream(file, encoding), delimiter];
+}
+
+// Helper function to yield the non-empty rows of the chosen sheet (first one by default) or of a CSV/TSV file,
+// one at a time, so an import never holds every row of the file
+async function* streamImportFileRecords(
+  file: ImportUpload,
+  format: ImportFileFormat,
+  options: ImportFileOptions
+): AsyncGenerator<{ rowNumber: number; values: any[] }> {
+  if (format !== 'xlsx') {
+    yield* parseImportDelimited(...openImportDelimited(file, format, options));
+    return;
+  }
+
+  const workbook = new excelStream.xlsx.WorkbookReader(file.open(), {
+    worksheets: 'emit',
+    sharedStrings: 'cache',
+    // Styles tell date cells apart from plain numbers
+    styles: 'cache',
+    hyperlinks: 'ignore',
+  });
+  let sheetName: string | undefined;
+
+  for await (const worksheet of workbook as AsyncIterable<any>) {
+    if (sheetName === undefined) {
+      // The workbook part comes before the sheets, so every sheet name is known once the first one arrives
+      const sheetNames: string[] = (workbook.model?.sheets ?? []).map((sheet: any) => sheet.name as string);
+      sheetName = resolveImportSheetName(sheetNames.length > 0 ? sheetNames : [worksheet.name], options.sheet);
+      if (!sheetName) {
+        throw new ImportFileError(`Sheet "${options.sheet}" not found. Available sheets: ${sheetNames.join(', ')}`);
+      }
+    }
+    if (worksheet.name !== sheetName) {
+      continue;
+    }
+
+    for await (const row of worksheet) {
+      const values: any[] = [];
+      for (let column = 1; column <= row.cellCount; column++) {
+        values.push(extractImportCellValue(row.getCell(column).value));
+      }
+      if (values.some(value => value !== null && value !== undefined && String(value).trim() !== '')) {
+        yield { rowNumber: row.number, values };
+      }
+    }
+    return;
+  }
+}
+
+// Helper function to read the first non-empty rows of every sheet of an upload (or of a CSV/TSV file) for a preview.
+// Excel files are streamed one row at a time instead of loading the whole workbook; every sheet is still scanned
+// to report its row count.
+async function previewImportFileRecords(
+  file: ImportUpload,
+  format: ImportFileFormat,
+  options: ImportFileOptions
+): Promise<ImportFileRecords & { error?: string }> {
+  const records: ImportFileRecords['records'] = [];
+  const keep = (rowNumber: number) =>
+    records.length < IMPORT_HEADER_SCAN_ROWS + 3 || (options.headerRow !== undefined && rowNumber <= options.headerRow + 3);
+
+  if (format !== 'xlsx') {
+    for await (const record of parseImportDelimited(...openImportDelimited(file, format, options))) {
+      if (!keep(record.rowNumber)) {
+        break;
+      }
+      records.push(record);
+    }
+    return { sheets: [], sheet: null, records };
+  }
+
+  const workbook = new excelStream.xlsx.WorkbookReader(file.open(), {
+    worksheets: 'emit',
+    sharedStrings: 'cache',
+    // Styles tell date cells apart from plain numbers
+    styles: 'cache',
+    hyperlinks: 'ignore',
+  });
+  const rowCounts = new Map<string, number>();
+  let sheetNames: string[] = [];
+  let sheetName: string | undefined;
+
+  for await (const worksheet of workbook as AsyncIterable<any>) {
+    if (sheetName === undefined) {
+      // The workbook part comes before the sheets, so every sheet name is known once the first one arrives
+      sheetNames = (workbook.model?.sheets ?? []).map((sheet: any) => sheet.name as string);
+      if (sheetNames.length === 0) {
+        sheetNames = [worksheet.name];
+      }
+      sheetName = resolveImportSheetName(sheetNames, options.sheet);
+      if (!sheetName) {
+        return { sheets: [], sheet: null, records: [], error: `Sheet "${options.sheet}" not found. Available sheets: ${sheetNames.join(', ')}` };
+      }
+    }
+
+    let lastRow = 0;
+    for await (const row of worksheet) {
+      lastRow = row.number;
+      if (worksheet.name !== sheetName || !keep(row.number)) {
+        continue;
+      }
+      const values: any[] = [];
+      for (let column = 1; column <= row.cellCount; column++) {
+        values.push(extractImportCellValue(row.getCell(column).value));
+      }
+      if (values.some(value => value !== null && value !== undefined && String(value).trim() !== '')) {
+        records.push({ rowNumber: row.number, values });
+      }
+    }
+    rowCounts.set(worksheet.name, lastRow);
+  }
+
+  return {
+    sheets: sheetNames.map(name => ({ name, rowCount: rowCounts.get(name) ?? 0 })),
+    sheet: sheetName ?? null,
+    records,
+  };
+}
+
+// Helper function to pick the header row: the requested one, otherwise the row near the top matching most known column names
+function findImportHeaderIndex(records: ImportFileRecords['records'], options: ImportFileOptions): { index: number; error?: string } {
+  if (options.headerRow) {
+    const index = records.findIndex(record => record.rowNumber === options.headerRow);
+    return index < 0 ? { index, error: `Row ${options.headerRow} does not exist or is empty` } : { index };
+  }
+  if (records.length === 0) {
+    return { index: -1, error: 'File is empty or invalid format' };
+  }
+
+  const keys = new Set((options.headerKeys ?? []).map(normalizeImportHeader).filter(Boolean));
+  let best = { index: 0, matches: -1, filled: -1 };
+  records.slice(0, IMPORT_HEADER_SCAN_ROWS).forEach(({ values }, index) => {
+    const cells = values.map(normalizeImportHeader);
+    const matches = cells.filter(cell => keys.has(cell)).length;
+    // Distinct non-numeric values: headers are text, and a merged title cell repeated across the row counts once
+    const filled = new Set(cells.filter(cell => cell && !/^\d+$/.test(cell))).size;
+    if (matches > best.matches || (matches === best.matches && filled > best.filled)) {
+      best = { index, matches, filled };
+    }
+  });
+  return { index: best.index };
+}
+
+interface ImportFileRowStream {
+  headers: string[];
+  headerRow: number;
+  // Rows after the header, keyed by column header; reading errors surface as ImportFileError while iterating
+  rows: AsyncIterable<{ rowNumber: number; row: any }>;
+  error?: string;
+}
+
+// Helper function to open an uploaded Excel, CSV/TSV or JSON file as a stream of row objects keyed by column header.
+// Only the rows scanned for the header are buffered; the rest are read as the caller iterates
+async function openImportFileRows(
+  file: ImportUpload,
+  options: ImportFileOptions
+): Promise<ImportFileRowStream> {
+  const failed = (error: string): ImportFileRowStream => ({ headers: [], headerRow: 1, rows: (async function* () {})(), error });
+  try {
+    const format = options.format ?? detectImportFileFormat(file);
+    if (format === 'json') {
+      const text = decodeImportText(await readImportUploadBuffer(file), options.encoding);
+      let parsed: any;
+      try {
+        parsed = JSON.parse(text);
+      } catch (error) {
+        return failed('JSON file is not valid');
+      }
+      const records = Array.isArray(parsed) ? parsed : parsed?.data;
+      if (!Array.isArray(records) || records.some(record => !record || typeof record !== 'object' || Array.isArray(record))) {
+        return failed('JSON file must contain an array of objects');
+      }
+      return {
+        headers: collectImportHeaders(records),
+        headerRow: 1,
+        rows: (async function* () {
+          for (const [index, row] of records.entries()) {
+            yield { rowNumber: index + 2, row };
+          }
+        })(),
+      };
+    }
+
+    const iterator = streamImportFileRecords(file, format, options);
+    // Buffer the rows the header can be on: the requested row, otherwise the first IMPORT_HEADER_SCAN_ROWS
+    const records: ImportFileRecords['records'] = [];
+    for (;;) {
+      const last = records[records.length - 1];
+      if (options.headerRow ? last && last.rowNumber >= options.headerRow : records.length >= IMPORT_HEADER_SCAN_ROWS) {
+        break;
+      }
+      const next = await iterator.next();
+      if (next.done) {
+        break;
+      }
+      records.push(next.value);
+    }
+    const header = findImportHeaderIndex(records, options);
+    if (header.error) {
+      return failed(header.error);
+    }
+
+    // Same naming as SheetJS: blank headers are skipped and repeated ones get a _1, _2... suffix
+    const seen = new Map<string, number>();
+    const columns = records[header.index].values.map(value => {
+      const name = value === null || value === undefined ? '' : String(value).trim();
+      if (!name) {
+        return null;
+      }
+      const count = seen.get(name) ?? 0;
+      seen.set(name, count + 1);
+      return count === 0 ? name : `${name}_${count}`;
+    });
+    const toRow = ({ rowNumber, values }: { rowNumber: number; values: any[] }) => {
+      const row: any = {};
+      columns.forEach((name, column) => {
+        if (name) {
+          row[name] = values[column] ?? null;
+        }
+      });
+      return { rowNumber, row };
+    };
+
+    return {
+      headers: columns.filter((name): name is string => Boolean(name)),
+      headerRow: records[header.index].rowNumber,
+      rows: (async function* () {
+        yield* records.slice(header.index + 1).map(toRow);
+        for (;;) {
+          let next: IteratorResult<{ rowNumber: number; values: any[] }>;
+          try {
+            next = await iterator.next();
+          } catch (error: any) {
+            throw error instanceof ImportFileError ? error : new ImportFileError(error.message);
+          }
+          if (next.done) {
+            return;
+          }
+          yield toRow(next.value);
+        }
+      })(),
+    };
+  } catch (error: any) {
+    return failed(error.message);
+  }
+}
+
+// Helper function to read an uploaded Excel, CSV/TSV or JSON file into row objects keyed by column header
+async function readImportFileRows(
+  file: ImportUpload,
+  options: ImportFileOptions
+): Promise<{ rows: any[]; headerRow: number; error?: string }> {
+  const opened = await openImportFileRows(file, options);
+  if (opened.error) {
+    return { rows: [], headerRow: 1, error: opened.error };
+  }
+  try {
+    const rows: any[] = [];
+    for await (const { row } of opened.rows) {
+      rows.push(row);
+    }
+    return { rows, headerRow: opened.headerRow };
+  } catch (error: any) {
+    return { rows: [], headerRow: 1, error: error.message };
+  }
+}
+
+// Helper function to list the sheets of an upload and return its first rows with the detected header row
+async function inspectImportFile(file: ImportUpload, options: ImportFileOptions) {
+  try {
+    const format = options.format ?? detectImportFileFormat(file);
+    if (format === 'json') {
+      const parsedFile = await readImportFileRows(file, options);
+      if (parsedFile.error) {
+        return { error: parsedFile.error };
+      }
+      const headers = collectImportHeaders(parsedFile.rows);
+      return {
+        format,
+        sheets: [],
+        sheet: null,
+        headerRow: 1,
+        rows: [
+          { rowNumber: 1, values: headers },
+          ...parsedFile.rows.slice(0, IMPORT_PREVIEW_ROWS - 1).map((row, index) => ({ rowNumber: index + 2, values: headers.map(header => row[header] ?? null) })),
+        ],
+      };
+    }
+
+    const { sheets, sheet, records, error } = await previewImportFileRecords(file, format, options);
+    if (error) {
+      return { error };
+    }
+    const header = findImportHeaderIndex(records, options);
+    if (header.error) {
+      return { error: header.error };
+    }
+
+    return {
+      format,
+      sheets,
+      sheet,
+      headerRow: records[header.index].rowNumber,
+      rows: records.slice(0, Math.max(IMPORT_PREVIEW_ROWS, header.index + 4)),
+    };
+  } catch (error: any) {
+    return { error: error.message as string };
+  }
+}
+
+type ExportFileFormat = 'xlsx' | 'csv' | 'json';
+
+const exportContentTypes: Record<ExportFileFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+// Helper function to read the export format from the query string (defaults to xlsx)
+function resolveExportFormat(req: express.Request): ExportFileFormat | null {
+  const format = req.query.format ?? 'xlsx';
+  return typeof format === 'string' && format in exportContentTypes ? (format as ExportFileFormat) : null;
+}
+
+// Helper function to send rows as an Excel, CSV or JSON download
+function sendTabularExport(res: express.Response, fileName: string, format: ExportFileFormat, headers: string[], rows: any[][]) {
+  let body: Buffer;
+  if (format === 'json') {
+    const records = rows.map(values => Object.fromEntries(headers.map((header, index) => [header, values[index] ?? null])));
+    body = Buffer.from(JSON.stringify(records, null, 2), 'utf-8');
+  } else {
+    const worksheet = xlsx.utils.aoa_to_sheet([headers, ...rows]);
+    if (format === 'csv') {
+      // The BOM lets Excel open the file as UTF-8
+      body = Buffer.from(`\uFEFF${xlsx.utils.sheet_to_csv(worksheet)}`, 'utf-8');
+    } else {
+      const workbook = xlsx.utils.book_new();
+      xlsx.utils.book_append_sheet(workbook, worksheet, 'Datos');
+      body = xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+    }
+  }
+
+  res.setHeader('Content-Type', exportContentTypes[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}.${format}"`);
+  res.send(body);
+}
+
+// Column headers accepted by the catalog import besides the field name itself
+const catalogImportAliases: Record<string, string[]> = {
+  descripcion: ['description'],
+  nombre: ['name'],
+  codigo: ['code'],
+  unidad: ['unit'],
+  simbolo: ['symbol'],
+  tipoUnidad: ['tipo unidad', 'unitType'],
+  pais: ['country'],
+  moneda: ['currency'],
+  categoria: ['category'],
+  impuesto: ['tax'],
+  incluye: ['includes'],
+  excluye: ['excludes'],
+  vigenteDesde: ['vigente desde', 'validFrom'],
+  vigenteHasta: ['vigente hasta', 'validTo'],
+};
+
+const catalogValidityLabels: Record<string, string> = {
+  vigenteDesde: 'Vigente desde',
+  vigenteHasta: 'Vigente hasta',
+};
+
+type CatalogColumnMapping = Record<string, string | null>;
+
+const IMPORT_PREVIEW_LIMIT = 500;
+// Rows of the file a preview reads; the import itself always reads the whole file
+const IMPORT_PREVIEW_SAMPLE_ROWS = 2000;
+
+interface CatalogImportError {
+  row: number;
+  message: string;
+}
+
+interface CatalogImportPlan {
+  inserts: any[];
+  updates: { id: string; before: any; record: any; changes: { field: string; before: any; after: any }[] }[];
+  removals: any[];
+  unchanged: number;
+  // Rows missing from a replace import that stay active because other catalogs reference them
+  referenced: number;
+}
+
+function normalizeImportHeader(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return String(value)
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+// Helper function to compare catalog values regardless of how pg returns them (numeric columns come back as strings)
+function normalizeImportValue(field: any, value: any): any {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (field?.type === 'reference') {
+    return normalizeImportValue(resolveReferencedField(field), value);
+  }
+  if (field?.type === 'int' || field?.type === 'numeric') {
+    return Number(value);
+  }
+  if (field?.codeFormat) {
+    return formatCatalogCode(field.codeFormat, value) ?? String(value);
+  }
+  return String(value);
+}
+
+function buildImportKey(definition: any, row: any): string {
+  return definition.uniqueBy
+    .map((name: string) => {
+      const field = definition.fields.find((candidate: any) => candidate.name === name);
+      return JSON.stringify(normalizeImportValue(field, row[name]));
+    })
+    .join('|');
+}
+
+// Helper function to list the fields an upload can fill, with the header names each one accepts
+function catalogImportFields(definition: any): Array<{ name: string; label: string; required: boolean; keys: string[] }> {
+  return [
+    ...definition.fields.map((field: any) => {
+      const { label } = describeCatalogField(field);
+      return { name: field.name, label, required: Boolean(field.required), keys: [field.name, label, ...(catalogImportAliases[field.name] ?? [])] };
+    }),
+    ...catalogValidityColumns.map(({ name }) => ({
+      name,
+      label: catalogValidityLabels[name],
+      required: false,
+      keys: [name, catalogValidityLabels[name], ...catalogImportAliases[name]],
+    })),
+  ];
+}
+
+// Helper function to collect the headers of the parsed rows, in file order
+function collectImportHeaders(jsonData: any[]): string[] {
+  const headers: string[] = [];
+  jsonData.forEach(row => Object.keys(row).forEach(key => {
+    if (!headers.includes(key)) {
+      headers.push(key);
+    }
+  }));
+  return headers;
+}
+
+// Helper function to suggest the header for each field; a saved mapping wins while its headers are still in the file
+function suggestCatalogColumnMapping(definition: any, headers: string[], saved?: CatalogColumnMapping | null): CatalogColumnMapping {
+  const used = new Set<string>();
+  const mapping: CatalogColumnMapping = {};
+
+  catalogImportFields(definition).forEach(field => {
+    const savedHeader = saved?.[field.name];
+    let header: string | null;
+    if (savedHeader === null || (savedHeader && headers.includes(savedHeader))) {
+      header = savedHeader;
+    } else {
+      const accepted = field.keys.map(normalizeImportHeader).filter(Boolean);
+      header = headers.find(candidate => !used.has(candidate) && accepted.includes(normalizeImportHeader(candidate))) ?? null;
+    }
+    mapping[field.name] = header;
+    if (header) {
+      used.add(header);
+    }
+  });
+
+  return mapping;
+}
+
+// Helper function to validate a field -> header mapping sent by a client; returns an error message or null
+function validateCatalogColumnMapping(definition: any, mapping: any, headers?: string[]): string | null {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return 'columnMapping must be a JSON object of field name to column header';
+  }
+  const fieldNames = catalogImportFields(definition).map(field => field.name);
+  for (const [field, header] of Object.entries(mapping)) {
+    if (!fieldNames.includes(field)) {
+      return `Unknown field "${field}" in column mapping`;
+    }
+    if (header !== null && typeof header !== 'string') {
+      return `Column mapped to "${field}" must be a string or null`;
+    }
+    if (header && headers && !headers.includes(header as string)) {
+      return `Column "${header}" mapped to "${field}" is not in the file`;
+    }
+  }
+  return null;
+}
+
+// Helper function to list the header names that identify a catalog's header row, including the saved mapping's
+function catalogImportHeaderKeys(definition: any, saved?: CatalogColumnMapping | null): string[] {
+  return [
+    ...catalogImportFields(definition).flatMap(field => field.keys),
+    ...Object.values(saved ?? {}).filter((header): header is string => Boolean(header)),
+  ];
+}
+
+// Helper function to load the column mapping saved for a catalog
+async function loadCatalogImportMapping(catalogKey: string): Promise<{ mapping: CatalogColumnMapping; updatedBy: string | null; updatedAt: Date } | null> {
+  const result = await pool.query(
+    'SELECT mapping, updated_by AS "updatedBy", updated_at AS "updatedAt" FROM catalog_import_mappings WHERE catalog_key = $1',
+    [catalogKey]
+  );
+  return result.rows[0] ?? null;
+}
+
+// Helper function to work out the mapping for an upload: saved/suggested headers, overridden by the columnMapping field
+function resolveCatalogColumnMapping(
+  req: express.Request,
+  definition: any,
+  headers: string[],
+  saved?: CatalogColumnMapping | null
+): { mapping: CatalogColumnMapping; error?: string } {
+  let requested = req.body?.columnMapping ?? req.query.columnMapping;
+  if (typeof requested === 'string' && requested !== '') {
+    try {
+      requested = JSON.parse(requested);
+    } catch (error) {
+      return { mapping: {}, error: 'columnMapping must be valid JSON' };
+    }
+  } else if (requested === '') {
+    requested = undefined;
+  }
+
+  if (requested !== undefined) {
+    const error = validateCatalogColumnMapping(definition, requested, headers);
+    if (error) {
+      return { mapping: {}, error };
+    }
+  }
+
+  return { mapping: { ...suggestCatalogColumnMapping(definition, headers, saved), ...requested } };
+}
+
+// Helper function to list the required fields an upload has no column for
+function findMissingCatalogImportColumns(definition: any, columnMapping: CatalogColumnMapping): string[] {
+  return definition.fields
+    .filter((field: any) => field.required && !columnMapping[field.name])
+    .map((field: any) => field.name);
+}
+
+// Helper function to turn one uploaded row into a validated catalog row keyed by field name; throws the reason it is invalid
+function parseCatalogImportRow(
+  definition: any,
+  raw: any,
+  referenceValues: Map<string, Set<string>>,
+  columnMapping: CatalogColumnMapping
+): any {
+  const values: any = {};
+
+  for (const definitionField of definition.fields) {
+    const field = definitionField.type === 'reference' ? resolveReferencedField(definitionField) : definitionField;
+    const column = columnMapping[definitionField.name] || undefined;
+    const rawValue = column ? raw[column] : null;
+    const text = rawValue === null || rawValue === undefined ? '' : String(rawValue).trim();
+    if (text === '') {
+      if (field.required) {
+        throw new Error(`${field.name} is required`);
+      }
+      values[field.name] = null;
+      continue;
+    }
+
+    if (field.type === 'string') {
+      const code = field.codeFormat ? formatCatalogCode(field.codeFormat, text) : text;
+      if (code === null) {
+        throw new Error(`${field.name} must be a numeric code`);
+      }
+      if (field.length && code.length > field.length) {
+        throw new Error(`${field.name} exceeds the maximum length of ${field.length}`);
+      }
+      values[field.name] = code;
+    } else {
+      const parsed = typeof rawValue === 'number' ? rawValue : Number(text.replace(/,/g, '.'));
+      if (Number.isNaN(parsed) || (field.type === 'int' && !Number.isInteger(parsed))) {
+        throw new Error(`${field.name} must be a valid ${field.type === 'int' ? 'integer' : 'number'}`);
+      }
+      values[field.name] = parsed;
+    }
+
+    const ruleError = findCatalogFieldRuleViolation(definitionField, values[field.name]);
+    if (ruleError) {
+      throw new Error(ruleError);
+    }
+  }
+
+  for (const field of definition.fields.filter((candidate: any) => candidate.type === 'reference')) {
+    const value = normalizeImportValue(field, values[field.name]);
+    if (value !== null && !referenceValues.get(field.name)?.has(String(value))) {
+      throw new Error(`${field.name} references a missing ${field.reference.catalog} entry: ${value}`);
+    }
+  }
+
+  const presentValidity = catalogValidityColumns.filter(({ name }) => columnMapping[name]);
+  if (presentValidity.length > 0) {
+    const rawWindow: any = {};
+    presentValidity.forEach(({ name }) => {
+      const rawValue = raw[columnMapping[name] as string];
+      rawWindow[name] = rawValue instanceof Date ? rawValue.toISOString().slice(0, 10) : rawValue;
+    });
+    const validity = parseValidityWindow(rawWindow);
+    if (validity.error) {
+      throw new Error(validity.error);
+    }
+    catalogValidityColumns.forEach(({ name }, position) => {
+      if (rawWindow[name] !== undefined) {
+        values[name] = validity.values[position];
+      }
+    });
+  }
+
+  return values;
+}
+
+function duplicateImportRowsWarning(duplicates: number): CatalogImportError {
+  return { row: 0, message: `${duplicates} duplicated rows were replaced by the last row with the same unique key` };
+}
+
+// Helper function to read the entries that may share a unique key with the given rows instead of the whole table.
+// Each key column is narrowed on its own, so the exact match is still made with buildImportKey
+async function findCatalogRowsByImportKey(db: Pool | PoolClient, definition: any, rows: any[]): Promise<any[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const params: any[] = [];
+  const conditions = definition.uniqueBy.map((name: string) => {
+    const definitionField = definition.fields.find((candidate: any) => candidate.name === name);
+    const field = definitionField?.type === 'reference' ? resolveReferencedField(definitionField) : definitionField;
+    const column = toCatalogColumnName(name);
+    const values = rows.map(row => normalizeImportValue(definitionField, row[name]));
+    params.push(Array.from(new Set(values.filter(value => value !== null).map(String))));
+    const match = field?.type === 'int' || field?.type === 'numeric'
+      ? `${column} = ANY($${params.length}::numeric[])`
+      : `${column}::text = ANY($${params.length}::text[])`;
+    return values.includes(null) ? `(${match} OR ${column} IS NULL)` : match;
+  });
+  const result = await db.query(`SELECT * FROM ${definition.tableName} WHERE ${conditions.join(' AND ')}`, params);
+  return result.rows;
+}
+
+// Helper function to tell whether an active entry of another catalog points at a row a replace import would deactivate
+function isReferencedImportRow(definition: any, referencedValues: Map<string, Set<string>>, row: any): boolean {
+  return Array.from(referencedValues.entries())
+    .some(([field, values]) => values.has(String(normalizeImportValue(definition.fields.find((candidate: any) => candidate.name === field), row[field]))));
+}
+
+// Helper function to work out what an import would insert and update, reading only the entries that share a key with the rows.
+// The rows a replace import deactivates are only known once the whole file is read, see deactivateMissingCatalogRows
+async function buildCatalogImportPlan(db: Pool | PoolClient, definition: any, rows: any[]): Promise<CatalogImportPlan> {
+  const existing = await findCatalogRowsByImportKey(db, definition, rows);
+  const existingByKey = new Map<string, any>();
+  existing.forEach(row => {
+    const transformed = transformRowKeys(row);
+    existingByKey.set(buildImportKey(definition, transformed), transformed);
+  });
+
+  const plan: CatalogImportPlan = { inserts: [], updates: [], removals: [], unchanged: 0, referenced: 0 };
+  const comparable = [
+    ...definition.fields,
+    ...catalogValidityColumns.map(({ name }) => ({ name, type: 'date' })),
+    { name: 'isActive', type: 'boolean' },
+  ];
+
+  rows.forEach(row => {
+    const before = existingByKey.get(buildImportKey(definition, row));
+    if (!before) {
+      plan.inserts.push(row);
+      return;
+    }
+
+    const incoming = { ...row, isActive: true };
+    const changes = comparable
+      .filter(field => field.name in incoming)
+      .filter(field => normalizeImportValue(field, before[field.name]) !== normalizeImportValue(field, incoming[field.name]))
+      .map(field => ({ field: field.name, before: before[field.name] ?? null, after: incoming[field.name] ?? null }));
+
+    if (changes.length > 0) {
+      plan.updates.push({ id: before.id, before, record: row, changes });
+    } else {
+      plan.unchanged++;
+    }
+  });
+
+  return plan;
+}
+
+// Helper function to count, a page at a time, the active entries a replace import of the given keys would deactivate.
+// Only the first IMPORT_PREVIEW_LIMIT of them are kept to be listed
+async function previewMissingCatalogRows(
+  db: Pool | PoolClient,
+  definition: any,
+  importedKeys: Set<string>
+): Promise<{ removals: any[]; total: number; referenced: number }> {
+  const referencedValues = await loadReferencedCatalogValues(db, definition);
+  const preview = { removals: [] as any[], total: 0, referenced: 0 };
+  let lastId: string | null = null;
+
+  for (;;) {
+    const page: { rows: any[] } = await db.query(
+      `SELECT * FROM ${definition.tableName}
+       WHERE is_active = TRUE AND ($1::uuid IS NULL OR id > $1::uuid)
+       ORDER BY id
+       LIMIT $2`,
+      [lastId, IMPORT_JOB_BATCH_SIZE]
+    );
+    if (page.rows.length === 0) {
+      return preview;
+    }
+    lastId = page.rows[page.rows.length - 1].id;
+
+    const missingRows = page.rows.map(transformRowKeys).filter(row => !importedKeys.has(buildImportKey(definition, row)));
+    const removals = missingRows.filter(row => !isReferencedImportRow(definition, referencedValues, row));
+    preview.removals.push(...removals.slice(0, IMPORT_PREVIEW_LIMIT - preview.removals.length));
+    preview.total += removals.length;
+    preview.referenced += missingRows.length - removals.length;
+  }
+}
+
+const IMPORT_JOB_BATCH_SIZE = 1000;
+// Rows written per multi-row upsert statement, well below the 65535 bind parameters Postgres accepts
+const IMPORT_UPSERT_CHUNK_SIZE = 500;
+// Stay well below the 120 s maxDuration configured in vercel.json
+const IMPORT_JOB_TIME_BUDGET_MS = 90 * 1000;
+
+type ImportJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'rolled_back';
+
+// import_jobs columns returned by the API; resume_position only matters to the batch runner
+const IMPORT_JOB_COLUMNS = `id, catalog_key, mode, status, file_name, checksum, total_rows, processed_rows, inserted_rows, updated_rows,
+  unchanged_rows, deactivated_rows, errors, user_id, username, created_at, started_at, finished_at, rolled_back_at, rolled_back_by, updated_at`;
+
+// Helper function to fingerprint an uploaded import file, reading it as a stream
+async function importFileChecksum(file: ImportUpload): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of file.open()) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+// Rows listed when a rollback is refused; the total is always reported
+const ROLLBACK_CONFLICTS_LIMIT = 100;
+
+interface ImportRollbackConflict {
+  id: string;
+  key: Record<string, any>;
+  reason: 'edited' | 'referenced';
+  message: string;
+}
+
+// Rollback that would discard later edits or orphan references; thrown inside the transaction so nothing is reverted, answered with 409
+class ImportRollbackConflictError extends Error {
+  constructor(public conflicts: ImportRollbackConflict[], public total: number) {
+    super(`Import was not rolled back: ${total} rows were edited after it or are referenced by active entries`);
+  }
+}
+
+// Helper function to count a row that blocks a rollback, keeping the first ROLLBACK_CONFLICTS_LIMIT to list them
+function addRollbackConflict(conflicts: { listed: ImportRollbackConflict[]; total: number }, conflict: ImportRollbackConflict) {
+  conflicts.total++;
+  if (conflicts.listed.length < ROLLBACK_CONFLICTS_LIMIT) {
+    conflicts.listed.push(conflict);
+  }
+}
+
+// Helper function to undo a catalog import from the audit entries it left.
+// Rows the import inserted are deactivated and rows it changed get their previous values back. Rows edited afterwards,
+// or whose revert would orphan active references, throw an ImportRollbackConflictError listing them, so nothing is reverted
+async function revertCatalogImport(
+  client: PoolClient,
+  definition: any,
+  jobId: string,
+  user: JwtPayload | undefined
+): Promise<void> {
+  const tableName = definition.tableName;
+  const columns: string[] = [
+    ...definition.fields.map((field: any) => toCatalogColumnName(field.name)),
+    ...catalogValidityColumns.map(validity => validity.column),
+    'is_active',
+  ];
+  const conflicts = { listed: [] as ImportRollbackConflict[], total: 0 };
+  const conflictKey = (row: any) => Object.fromEntries(definition.uniqueBy.map((name: string) => [name, row[toCatalogColumnName(name)] ?? null]));
+  let lastRecordId: string | null = null;
+
+  for (;;) {
+    const entries: { rows: Array<{ record_id: string; before_data: any }> } = await client.query(
+      `SELECT DISTINCT ON (record_id) record_id, before_data
+       FROM catalog_audit_log
+       WHERE import_job_id = $1 AND action = 'import' AND ($2::uuid IS NULL OR record_id > $2::uuid)
+       ORDER BY record_id, created_at
+       LIMIT $3`,
+      [jobId, lastRecordId, IMPORT_JOB_BATCH_SIZE]
+    );
+    if (entries.rows.length === 0) {
+      break;
+    }
+    lastRecordId = entries.rows[entries.rows.length - 1].record_id;
+    const recordIds = entries.rows.map(entry => entry.record_id);
+
+    // Entries newer than the import's own are later edits, unless they belong to an import rolled back since
+    const edited = await client.query(
+      `SELECT DISTINCT later.record_id
+       FROM catalog_audit_log later
+       JOIN catalog_audit_log imported
+         ON imported.record_id = later.record_id AND imported.import_job_id = $2 AND imported.action = 'import'
+       WHERE later.catalog_key = $1 AND later.record_id = ANY($3::uuid[]) AND later.created_at > imported.created_at
+         AND (later.import_job_id IS NULL OR (later.import_job_id <> $2 AND NOT EXISTS (
+           SELECT 1 FROM import_jobs j WHERE j.id = later.import_job_id AND j.status = 'rolled_back'
+         )))`,
+      [definition.key, jobId, recordIds]
+    );
+    const editedIds = new Set(edited.rows.map(row => row.record_id));
+    const beforeById = new Map(entries.rows.map(entry => [entry.record_id, entry.before_data]));
+    const current = await client.query(`SELECT * FROM ${tableName} WHERE id = ANY($1::uuid[]) FOR UPDATE`, [recordIds]);
+
+    const changes: CatalogAuditChange[] = [];
+    for (const row of current.rows) {
+      if (editedIds.has(row.id)) {
+        addRollbackConflict(conflicts, { id: row.id, key: conflictKey(row), reason: 'edited', message: 'Edited after the import' });
+        continue;
+      }
+      // Audit entries are stored in camelCase; a row the import inserted had no previous state
+      const before = beforeById.get(row.id);
+      const target: Record<string, any> = before
+        ? Object.fromEntries(columns.map(column => [column, before[toCamelCase(column)] ?? null]))
+        : { is_active: false };
+      const changedColumns = Object.keys(target).filter(column => JSON.stringify(target[column]) !== JSON.stringify(row[column] ?? null));
+      if (changedColumns.length === 0) {
+        continue;
+      }
+
+      const deactivating = target.is_active === false && row.is_active;
+      const reference = await findCatalogEntryReference(client, definition, row, deactivating ? undefined : changedColumns.map(toCamelCase));
+      if (reference) {
+        addRollbackConflict(conflicts, { id: row.id, key: conflictKey(row), reason: 'referenced', message: reference });
+        continue;
+      }
+      // The rollback is going to fail, so only the remaining conflicts matter
+      if (conflicts.total > 0) {
+        continue;
+      }
+
+      const updated = await client.query(
+        `UPDATE ${tableName}
+         SET ${changedColumns.map((column, index) => `${column} = $${index + 2}, `).join('')}updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [row.id, ...changedColumns.map(column => target[column])]
+      );
+      changes.push({ recordId: row.id, before: row, after: updated.rows[0] });
+    }
+    await recordCatalogAudit(client, definition.key, 'rollback', user, changes, jobId);
+  }
+
+  if (conflicts.total > 0) {
+    throw new ImportRollbackConflictError(conflicts.listed, conflicts.total);
+  }
+}
+
+// Helper function to undo a geography import from the audit entries it left, deleting the rows it inserted.
+// Rows changed after the import, or that rows of the level below still point at, throw an ImportRollbackConflictError
+async function revertGeographyImport(
+  client: PoolClient,
+  table: string,
+  jobId: string,
+  user: JwtPayload | undefined
+): Promise<void> {
+  const { tableName } = geographyExportTables[table];
+  const keyColumns = geographyImportKeyColumns[table];
+  const child = geographyImportChildren[table];
+  const conflicts = { listed: [] as ImportRollbackConflict[], total: 0 };
+  let lastRecordId: string | null = null;
+
+  for (;;) {
+    // Geography edits are not audited, so a row changed after the import is told by its updated_at
+    const page: { rows: any[] } = await client.query(
+      `SELECT t.*, t.updated_at > imported.created_at AS edited_after_import
+       FROM catalog_audit_log imported
+       JOIN ${tableName} t ON t.id = imported.record_id
+       WHERE imported.import_job_id = $1 AND imported.action = 'import' AND ($2::uuid IS NULL OR imported.record_id > $2::uuid)
+       ORDER BY imported.record_id
+       LIMIT $3
+       FOR UPDATE OF t`,
+      [jobId, lastRecordId, IMPORT_JOB_BATCH_SIZE]
+    );
+    if (page.rows.length === 0) {
+      break;
+    }
+    lastRecordId = page.rows[page.rows.length - 1].id;
+
+    const removals: any[] = [];
+    for (const { edited_after_import: edited, ...row } of page.rows) {
+      const key = Object.fromEntries(keyColumns.map(column => [column, row[column] ?? null]));
+      if (edited) {
+        addRollbackConflict(conflicts, { id: row.id, key, reason: 'edited', message: 'Changed after the import' });
+        continue;
+      }
+      if (child) {
+        const referenced = await client.query(
+          `SELECT COUNT(*)::int AS count FROM ${child.tableName}
+           WHERE ${child.columns.map(([column], index) => `${column}::text = $${index + 1}::text`).join(' AND ')}`,
+          child.columns.map(([, parentColumn]) => row[parentColumn])
+        );
+        if (referenced.rows[0].count > 0) {
+          addRollbackConflict(conflicts, {
+            id: row.id,
+            key,
+            reason: 'referenced',
+            message: `Referenced by ${referenced.rows[0].count} rows of ${child.tableName}`
+          });
+          continue;
+        }
+      }
+      removals.push(row);
+    }
+
+    if (conflicts.total === 0 && removals.length > 0) {
+      await client.query(`DELETE FROM ${tableName} WHERE id = ANY($1::uuid[])`, [removals.map(row => row.id)]);
+      await recordCatalogAudit(client, `geography/${table}`, 'rollback', user, removals.map(row => ({ recordId: row.id, before: row, after: null })), jobId);
+    }
+  }
+
+  if (conflicts.total > 0) {
+    throw new ImportRollbackConflictError(conflicts.listed, conflicts.total);
+  }
+}
+
+// Helper function to apply an import plan inside a transaction; returns the audit changes.
+// New and changed rows are written together with multi-row upserts on id: new rows get a DEFAULT id and are inserted,
+// changed rows keep theirs so the conflict turns into an update
+async function applyCatalogImportPlan(client: PoolClient, definition: any, plan: CatalogImportPlan): Promise<CatalogAuditChange[]> {
+  const tableName = definition.tableName;
+  const changes: CatalogAuditChange[] = [];
+
+  if (plan.removals.length > 0) {
+    const deactivated = await client.query(
+      `UPDATE ${tableName} SET is_active = FALSE, updated_at = NOW() WHERE id = ANY($1::uuid[]) RETURNING *`,
+      [plan.removals.map(row => row.id)]
+    );
+    const previousById = new Map(plan.removals.map(row => [row.id, row]));
+    deactivated.rows.forEach(row => changes.push({ recordId: row.id, before: previousById.get(row.id), after: row }));
+  }
+
+  // Rows only share a statement when they fill the same columns, so an update never blanks a column the file lacked
+  const groups = new Map<string, Array<{ id: string | null; values: any }>>();
+  [
+    ...plan.inserts.map(values => ({ id: null, values })),
+    ...plan.updates.map(update => ({ id: update.id, values: update.record })),
+  ].forEach(row => {
+    const signature = Object.keys(row.values).join(',');
+    const group = groups.get(signature) ?? [];
+    group.push(row);
+    groups.set(signature, group);
+  });
+  const beforeById = new Map(plan.updates.map(update => [update.id, update.before]));
+
+  for (const [signature, rows] of groups) {
+    const columns = signature ? signature.split(',') : [];
+    for (let start = 0; start < rows.length; start += IMPORT_UPSERT_CHUNK_SIZE) {
+      const params: any[] = [];
+      const tuples = rows.slice(start, start + IMPORT_UPSERT_CHUNK_SIZE).map(row => {
+        const id = row.id ? `$${params.push(row.id)}::uuid` : 'DEFAULT';
+        const values = columns.map(column => `$${params.push(row.values[column])}`);
+        return `(${[id, ...values].join(', ')}, TRUE, NOW(), NOW())`;
+      });
+      const upserted = await client.query(
+        `INSERT INTO ${tableName} (id, ${columns.map(toImportColumn).map(column => `${column}, `).join('')}is_active, created_at, updated_at)
+         VALUES ${tuples.join(', ')}
+         ON CONFLICT (id) DO UPDATE
+         SET ${columns.map(toImportColumn).map(column => `${column} = EXCLUDED.${column}, `).join('')}is_active = TRUE, updated_at = NOW()
+         RETURNING *`,
+        params
+      );
+      upserted.rows.forEach(row => {
+        changes.push(beforeById.has(row.id) ? { recordId: row.id, before: beforeById.get(row.id), after: row } : { recordId: row.id, after: row });
+      });
+    }
+  }
+
+  return changes;
+}
+
+function formatImportJob(row: any) {
+  return {
+    id: row.id,
+    catalogKey: row.catalog_key,
+    mode: row.mode,
+    status: row.status as ImportJobStatus,
+    fileName: row.file_name,
+    checksum: row.checksum,
+    totalRows: row.total_rows,
+    processedRows: row.processed_rows,
+    insertedRows: row.inserted_rows,
+    updatedRows: row.updated_rows,
+    unchangedRows: row.unchanged_rows,
+    deactivatedRows: row.deactivated_rows,
+    errors: row.errors,
+    userId: row.user_id,
+    username: row.username,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    rolledBackAt: row.rolled_back_at,
+    rolledBackBy: row.rolled_back_by,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Helper function to validate an upload row by row and stage its valid rows in import_job_rows one chunk at a time,
+// so only a chunk is held in memory. A key repeated in the file keeps its first position but the values of its
+// last appearance, same as the backoffice import
+async function stageCatalogImportRows(
+  client: PoolClient,
+  jobId: string,
+  definition: any,
+  rows: AsyncIterable<{ rowNumber: number; row: any }>,
+  referenceValues: Map<string, Set<string>>,
+  columnMapping: CatalogColumnMapping
+): Promise<{ totalRows: number; errors: CatalogImportError[] }> {
+  const errors: CatalogImportError[] = [];
+  let chunk = new Map<string, { position: number; row_number: number; data: any }>();
+  let validRows = 0;
+
+  const stageChunk = async () => {
+    if (chunk.size === 0) {
+      return;
+    }
+    await client.query(
+      `INSERT INTO import_job_rows (job_id, position, row_number, import_key, data)
+       SELECT $1, entry.position, entry.row_number, entry.import_key, entry.data
+       FROM jsonb_to_recordset($2::jsonb) AS entry(position INTEGER, row_number INTEGER, import_key TEXT, data JSONB)
+       ON CONFLICT (job_id, import_key) DO UPDATE SET row_number = EXCLUDED.row_number, data = EXCLUDED.data`,
+      [jobId, JSON.stringify(Array.from(chunk.entries()).map(([importKey, staged]) => ({ ...staged, import_key: importKey })))]
+    );
+    chunk = new Map();
+  };
+
+  for await (const { rowNumber, row } of rows) {
+    let values: any;
+    try {
+      values = parseCatalogImportRow(definition, row, referenceValues, columnMapping);
+    } catch (rowError: any) {
+      errors.push({ row: rowNumber, message: rowError.message });
+      continue;
+    }
+
+    validRows++;
+    const importKey = buildImportKey(definition, values);
+    chunk.set(importKey, { position: chunk.get(importKey)?.position ?? validRows, row_number: rowNumber, data: values });
+    if (chunk.size === IMPORT_JOB_BATCH_SIZE) {
+      await stageChunk();
+    }
+  }
+  await stageChunk();
+
+  const staged = await client.query('SELECT COUNT(*)::int AS count FROM import_job_rows WHERE job_id = $1', [jobId]);
+  const totalRows: number = staged.rows[0].count;
+  if (validRows > totalRows) {
+    errors.push(duplicateImportRowsWarning(validRows - totalRows));
+  }
+  return { totalRows, errors };
+}
+
+// Helper function to deactivate, a page at a time, the active entries a replace import did not stage.
+// Entries other catalogs still reference stay active; returns how many rows went each way
+async function deactivateMissingCatalogRows(
+  client: PoolClient,
+  definition: any,
+  jobId: string,
+  user: Pick<JwtPayload, 'sub' | 'username'> | undefined
+): Promise<{ deactivated: number; referenced: number }> {
+  const referencedValues = await loadReferencedCatalogValues(client, definition);
+  const totals = { deactivated: 0, referenced: 0 };
+  let lastId: string | null = null;
+
+  for (;;) {
+    const page: { rows: any[] } = await client.query(
+      `SELECT * FROM ${definition.tableName}
+       WHERE is_active = TRUE AND ($1::uuid IS NULL OR id > $1::uuid)
+       ORDER BY id
+       LIMIT $2`,
+      [lastId, IMPORT_JOB_BATCH_SIZE]
+    );
+    if (page.rows.length === 0) {
+      return totals;
+    }
+    lastId = page.rows[page.rows.length - 1].id;
+
+    const activeRows = page.rows.map(transformRowKeys);
+    const keys = activeRows.map(row => buildImportKey(definition, row));
+    const staged = await client.query(
+      'SELECT import_key FROM import_job_rows WHERE job_id = $1 AND import_key = ANY($2::text[])',
+      [jobId, keys]
+    );
+    const stagedKeys = new Set(staged.rows.map(row => row.import_key));
+    const missingRows = activeRows.filter((row, index) => !stagedKeys.has(keys[index]));
+    const removals = missingRows.filter(row => !isReferencedImportRow(definition, referencedValues, row));
+
+    const changes = await applyCatalogImportPlan(client, definition, { inserts: [], updates: [], removals, unchanged: 0, referenced: 0 });
+    await recordCatalogAudit(client, definition.key, 'import', user, changes, jobId);
+    totals.deactivated += removals.length;
+    totals.referenced += missingRows.length - removals.length;
+  }
+}
+
+// Helper function to apply the next batch of a pending import job; returns the job status afterwards.
+// The job row is locked with SKIP LOCKED so concurrent pollers never apply the same batch twice.
+async function processImportJobBatch(jobId: string): Promise<ImportJobStatus | null> {
+  try {
+    return await withTransaction(async (client) => {
+      const locked = await client.query(
+        `SELECT id, catalog_key, mode, processed_rows, total_rows, resume_position, user_id, username
+         FROM import_jobs
+         WHERE id = $1 AND status IN ('pending', 'running')
+         FOR UPDATE SKIP LOCKED`,
+        [jobId]
+      );
+      const job = locked.rows[0];
+      if (!job) {
+        return null;
+      }
+
+      const definition = catalogDefinitionsMap.get(job.catalog_key);
+      if (!definition) {
+        throw new Error(`Catalog ${job.catalog_key} no longer exists`);
+      }
+
+      await client.query(`LOCK TABLE ${definition.tableName} IN SHARE ROW EXCLUSIVE MODE`);
+      const staged = await client.query(
+        'SELECT position, data FROM import_job_rows WHERE job_id = $1 AND position > $2 ORDER BY position LIMIT $3',
+        [jobId, job.resume_position, IMPORT_JOB_BATCH_SIZE]
+      );
+      const batch: any[] = staged.rows.map(row => row.data);
+      const plan = await buildCatalogImportPlan(client, definition, batch);
+      const processedRows = job.processed_rows + batch.length;
+      const finished = batch.length < IMPORT_JOB_BATCH_SIZE || processedRows >= job.total_rows;
+      const user = job.user_id ? { sub: job.user_id, username: job.username } : undefined;
+
+      const changes = await applyCatalogImportPlan(client, definition, plan);
+      await recordCatalogAudit(client, job.catalog_key, 'import', user, changes, jobId);
+
+      // Rows missing from the file are only known once every batch has been applied
+      let deactivatedRows = 0;
+      if (finished && job.mode === 'replace') {
+        const removals = await deactivateMissingCatalogRows(client, definition, jobId, user);
+        deactivatedRows = removals.deactivated;
+        plan.referenced = removals.referenced;
+      }
+      if (finished) {
+        await client.query('DELETE FROM import_job_rows WHERE job_id = $1', [jobId]);
+      }
+
+      const status: ImportJobStatus = finished ? 'completed' : 'running';
+      await client.query(
+        `UPDATE import_jobs
+         SET status = $2,
+             processed_rows = $3,
+             resume_position = $4,
+             inserted_rows = inserted_rows + $5,
+             updated_rows = updated_rows + $6,
+             unchanged_rows = unchanged_rows + $7,
+             deactivated_rows = deactivated_rows + $8,
+             started_at = COALESCE(started_at, NOW()),
+             finished_at = CASE WHEN $9::boolean THEN NOW() ELSE NULL END,
+             errors = errors || $10::jsonb,
+             updated_at = NOW()
+         WHERE id = $1`,
+        [
+          jobId,
+          status,
+          processedRows,
+          staged.rows[staged.rows.length - 1]?.position ?? job.resume_position,
+          plan.inserts.length,
+          plan.updates.length,
+          plan.unchanged,
+          deactivatedRows,
+          finished,
+          JSON.stringify(referencedRowsWarning(plan)),
+        ]
+      );
+      return status;
+    });
+  } catch (error: any) {
+    console.error('Import job batch error:', error);
+    await withTransaction(async (client) => {
+      await client.query(
+        `UPDATE import_jobs
+         SET status = 'failed', errors = errors || $2::jsonb, finished_at = NOW(), updated_at = NOW()
+         WHERE id = $1`,
+        [jobId, JSON.stringify([{ row: 0, message: error.message ?? 'Unexpected import error' }])]
+      );
+      await client.query('DELETE FROM import_job_rows WHERE job_id = $1', [jobId]);
+    });
+    return 'failed';
+  }
+}
+
+// Helper function to keep applying batches of an import job until it finishes or the time budget runs out
+async function runImportJob(jobId: string) {
+  const deadline = Date.now() + IMPORT_JOB_TIME_BUDGET_MS;
+  while (Date.now() < deadline) {
+    const status = await processImportJobBatch(jobId);
+    if (status !== 'running') {
+      return;
+    }
+  }
+}
+
+// Helper function to resolve the import mode; the admin sends it in the form body, scripts in the query string
+function resolveImportMode(req: express.Request): 'append' | 'replace' {
+  const mode = req.body?.mode ?? req.query.mode;
+  return mode === 'replace' ? 'replace' : 'append';
+}
+
+// Helper function to map multer/xlsx failures to a response; returns false when the error is unexpected
+function sendImportUploadError(error: any, res: express.Response): boolean {
+  if (error instanceof ImportFileError) {
+    res.status(400).json({ message: error.message });
+    return true;
+  }
+
+  if (error.code === 'LIMIT_FILE_SIZE') {
+    res.status(400).json({ message: 'File too large. Files over 4.5MB must be sent in chunks to /api/imports/uploads.' });
+    return true;
+  }
+
+  if (error.message === 'Only Excel, CSV, TSV or JSON files are allowed') {
+    res.status(400).json({ message: error.message });
+    return true;
+  }
+
+  return false;
+}
+
+// Helper function to delete a stored upload once it has been imported; multipart uploads leave nothing behind
+async function deleteImportUpload(db: Pool | PoolClient, file: ImportUpload) {
+  if (file.uploadId) {
+    await db.query('DELETE FROM import_uploads WHERE id = $1', [file.uploadId]);
+  }
+}
+
+// Start a chunked upload for a file over the request size Vercel accepts; the chunks are then sent in order with
+// PUT /api/imports/uploads/:id/chunks/:position and the returned id replaces the file field of the import routes
+app.post('/api/imports/uploads', authenticateToken, requireAdmin, async (req: express.Request & { user?: JwtPayload }, res) => {
+  try {
+    const { fileName, mimetype, size } = req.body ?? {};
+    if (typeof fileName !== 'string' || !fileName.trim() || fileName.length > 255) {
+      return res.status(400).json({ message: 'fileName is required' });
+    }
+    if (mimetype !== undefined && (typeof mimetype !== 'string' || mimetype.length > 120)) {
+      return res.status(400).json({ message: 'mimetype must be a string' });
+    }
+    if (!isAllowedImportFile(fileName, mimetype)) {
+      return res.status(400).json({ message: 'Only Excel, CSV, TSV or JSON files are allowed' });
+    }
+    if (!Number.isInteger(size) || size <= 0 || size > IMPORT_UPLOAD_MAX_SIZE) {
+      return res.status(400).json({ message: `size must be between 1 and ${IMPORT_UPLOAD_MAX_SIZE} bytes` });
+    }
+
+    // Uploads that were never imported are dropped after a day
+    await pool.query("DELETE FROM import_uploads WHERE created_at < NOW() - INTERVAL '1 day'");
+    const result = await pool.query(
+      'INSERT INTO import_uploads (file_name, mimetype, size, created_by) VALUES ($1, $2, $3, $4) RETURNING id',
+      [fileName.trim(), mimetype ?? null, size, req.user?.username ?? null]
+    );
+
+    res.status(201).json({
+      id: result.rows[0].id,
+      chunkSize: IMPORT_UPLOAD_CHUNK_SIZE,
+      chunks: Math.ceil(size / IMPORT_UPLOAD_CHUNK_SIZE),
+    });
+  } catch (error) {
+    console.error('Create import upload error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+const parseImportUploadChunk = express.raw({ type: () => true, limit: IMPORT_UPLOAD_CHUNK_SIZE });
+
+// Store one chunk of a chunked upload; every chunk but the last must be exactly chunkSize bytes.
+// Sending a chunk again replaces it, so a failed request can simply be retried
+app.put(
+  '/api/imports/uploads/:id/chunks/:position',
+  authenticateToken,
+  requireAdmin,
+  (req, res, next) => parseImportUploadChunk(req, res, (error?: any) => {
+    if (error) {
+      return res.status(error.status ?? 400).json({
+        message: error.type === 'entity.too.large' ? `Chunks must not exceed ${IMPORT_UPLOAD_CHUNK_SIZE} bytes` : error.message
+      });
+    }
+    next();
+  }),
+  async (req, res) => {
+    try {
+      const { id, position } = req.params;
+      if (!UUID_PATTERN.test(id)) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+      const stored = await pool.query('SELECT size FROM import_uploads WHERE id = $1', [id]);
+      if (stored.rows.length === 0) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const size = Number(stored.rows[0].size);
+      const chunks = Math.ceil(size / IMPORT_UPLOAD_CHUNK_SIZE);
+      const index = /^\d+$/.test(position) ? Number(position) : -1;
+      if (index < 0 || index >= chunks) {
+        return res.status(400).json({ message: `position must be between 0 and ${chunks - 1}` });
+      }
+      const expected = index === chunks - 1 ? size - index * IMPORT_UPLOAD_CHUNK_SIZE : IMPORT_UPLOAD_CHUNK_SIZE;
+      const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      if (data.length !== expected) {
+        return res.status(400).json({ message: `Chunk ${index} must be ${expected} bytes, got ${data.length}` });
+      }
+
+      await pool.query(
+        `INSERT INTO import_upload_chunks (upload_id, position, data) VALUES ($1, $2, $3)
+         ON CONFLICT (upload_id, position) DO UPDATE SET data = EXCLUDED.data`,
+        [id, index, data]
+      );
+      res.status(204).end();
+    } catch (error) {
+      console.error('Store import upload chunk error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// List the sheets of an upload with its first rows and the detected header row
+app.post('/api/imports/inspect', authenticateToken, requireAdmin, upload.single('file'), async (req, res) => {
+  try {
+    const resolved = await resolveImportUpload(req);
+    if ('error' in resolved) {
+      return res.status(resolved.status).json({ message: resolved.error });
+    }
+    const file = resolved.upload;
+    if (!file) {
+      return res.status(400).json({ message: 'No file uploaded' });
+    }
+
+    const fileOptions = resolveImportFileOptions(req);
+    if (fileOptions.error) {
+      return res.status(400).json({ message: fileOptions.error });
+    }
+
+    const preview = await inspectImportFile(file, fileOptions);
+    if (preview.error !== undefined) {
+      return res.status(400).json({ message: preview.error });
+    }
+
+    res.json(preview);
+  } catch (error) {
+    console.error('Inspect import file error:', error);
+
+    if (sendImportUploadError(error, res)) {
+      return;
+    }
+
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Read the headers of an upload and suggest which column fills each catalog field
+app.post('/api/catalogs/:catalogKey/import/columns', authenticateToken, requireAdmin, upload.single('file'), async (req, res) => {
+  try {
+    const resolved = await resolveImportUpload(req);
+    if ('error' in resolved) {
+      return res.status(resolved.status).json({ message: resolved.error });
+    }
+    const file = resolved.upload;
+    if (!file) {
+      return res.status(400).json({ message: 'No file uploaded' });
+    }
+
+    const definition = catalogDefinitionsMap.get(req.params.catalogKey);
+    if (!definition) {
+      return res.status(404).json({ message: 'Catalog not found' });
+    }
+
+    const fileOptions = resolveImportFileOptions(req);
+    if (fileOptions.error) {
+      return res.status(400).json({ message: fileOptions.error });
+    }
+
+    const saved = await loadCatalogImportMapping(definition.key);
+    const preview = await inspectImportFile(file, { ...fileOptions, headerKeys: catalogImportHeaderKeys(definition, saved?.mapping) });
+    if (preview.error !== undefined) {
+      return res.status(400).json({ message: preview.error });
+    }
+
+    const headers = (preview.rows.find(row => row.rowNumber === preview.headerRow)?.values ?? [])
+      .map((header: any) => (header === null || header === undefined ? '' : String(header).trim()))
+      .filter(Boolean);
+    const suggestedMapping = suggestCatalogColumnMapping(definition, headers, saved?.mapping);
+
+    res.json({
+      sheets: preview.sheets,
+      sheet: preview.sheet,
+      headerRow: preview.headerRow,
+      previewRows: preview.rows,
+      headers,
+      fields: catalogImportFields(definition).map(({ name, label, required }) => ({ name, label, required })),
+      suggestedMapping,
+      missingRequired: definition.fields
+        .filter((field: any) => field.required && !suggestedMapping[field.name])
+        .map((field: any) => field.name),
+      savedMapping: saved?.mapping ?? null
+    });
+  } catch (error) {
+    console.error('Detect import columns error:', error);
+
+    if (sendImportUploadError(error, res)) {
+      return;
+    }
+
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+app.get('/api/catalogs/:catalogKey/import/mapping', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const definition = catalogDefinitionsMap.get(req.params.catalogKey);
+    if (!definition) {
+      return res.status(404).json({ message: 'Catalog not found' });
+    }
+
+    const saved = await loadCatalogImportMapping(definition.key);
+    if (!saved) {
+      return res.status(404).json({ message: 'No column mapping saved for this catalog' });
+    }
+
+    res.json({ catalogKey: definition.key, ...saved });
+  } catch (error) {
+    console.error('Get import mapping error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+app.put('/api/catalogs/:catalogKey/import/mapping', authenticateToken, requireAdmin, async (req: express.Request & { user?: JwtPayload }, res) => {
+  try {
+    const definition = catalogDefinitionsMap.get(req.params.catalogKey);
+    if (!definition) {
+      return res.status(404).json({ message: 'Catalog not found' });
+    }
+
+    const mapping = req.body?.mapping;
+    const error = validateCatalogColumnMapping(definition, mapping);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const normalized = Object.fromEntries(Object.entries(mapping).map(([field, header]) => [field, header || null]));
+    const result = await pool.query(
+      `INSERT INTO catalog_import_mappings (catalog_key, mapping, updated_by, updated_at)
+       VALUES ($1, $2::jsonb, $3, NOW())
+       ON CONFLICT (catalog_key) DO UPDATE SET mapping = EXCLUDED.mapping, updated_by = EXCLUDED.updated_by, updated_at = NOW()
+       RETURNING mapping, updated_by AS "updatedBy", updated_at AS "updatedAt"`,
+      [definition.key, JSON.stringify(normalized), req.user?.username ?? null]
+    );
+
+    res.json({ catalogKey: definition.key, ...result.rows[0] });
+  } catch (error) {
+    console.error('Save import mapping error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+app.delete('/api/catalogs/:catalogKey/import/mapping', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const definition = catalogDefinitionsMap.get(req.params.catalogKey);
+    if (!definition) {
+      return res.status(404).json({ message: 'Catalog not found' });
+    }
+
+    const result = await pool.query('DELETE FROM catalog_import_mappings WHERE catalog_key = $1', [definition.key]);
+    if (!result.rowCount) {
+      return res.status(404).json({ message: 'No column mapping saved for this catalog' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete import mapping error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Preview a catalog import without writing anything
+app.post('/api/catalogs/:catalogKey/import/preview', authenticateToken, requireAdmin, upload.single('file'), async (req, res) => {
+  try {
+    const { catalogKey } = req.params;
+
+    const resolved = await resolveImportUpload(req);
+    if ('error' in resolved) {
+      return res.status(resolved.status).json({ message: resolved.error });
+    }
+    const file = resolved.upload;
+    if (!file) {
+      return res.status(400).json({ message: 'No file uploaded' });
+    }
+
+    const definition = catalogDefinitionsMap.get(catalogKey);
+    if (!definition) {
+      return res.status(404).json({ message: 'Catalog not found' });
+    }
+
+    const fileOptions = resolveImportFileOptions(req);
+    if (fileOptions.error) {
+      return res.status(400).json({ message: fileOptions.error });
+    }
+
+    const savedMapping = await loadCatalogImportMapping(definition.key);
+    const parsedFile = await openImportFileRows(file, { ...fileOptions, headerKeys: catalogImportHeaderKeys(definition, savedMapping?.mapping) });
+    if (parsedFile.error) {
+      return res.status(400).json({ message: parsedFile.error });
+    }
+
+    const headers = parsedFile.headers;
+    const columnMapping = resolveCatalogColumnMapping(req, definition, headers, savedMapping?.mapping);
+    if (columnMapping.error) {
+      return res.status(400).json({ message: columnMapping.error });
+    }
+
+    const missingColumns = findMissingCatalogImportColumns(definition, columnMapping.mapping);
+    if (missingColumns.length > 0) {
+      return res.status(400).json({
+        message: `File is missing required columns: ${missingColumns.join(', ')}`,
+        requiredColumns: missingColumns,
+        headers,
+        suggestedMapping: columnMapping.mapping
+      });
+    }
+
+    const mode = resolveImportMode(req);
+    const referenceValues = await loadCatalogReferenceValues(pool, definition);
+    // Only the first rows of the file are read; later rows repeating a unique key win, same as the import
+    const sample = new Map<string, any>();
+    const errors: CatalogImportError[] = [];
+    let sampledRows = 0;
+    let duplicates = 0;
+    let complete = true;
+    for await (const { rowNumber, row } of parsedFile.rows) {
+      if (sampledRows === IMPORT_PREVIEW_SAMPLE_ROWS) {
+        complete = false;
+        break;
+      }
+      sampledRows++;
+      try {
+        const values = parseCatalogImportRow(definition, row, referenceValues, columnMapping.mapping);
+        const importKey = buildImportKey(definition, values);
+        if (sample.has(importKey)) {
+          duplicates++;
+        }
+        sample.set(importKey, values);
+      } catch (rowError: any) {
+        errors.push({ row: rowNumber, message: rowError.message });
+      }
+    }
+    if (duplicates > 0) {
+      errors.push(duplicateImportRowsWarning(duplicates));
+    }
+
+    const plan = await buildCatalogImportPlan(pool, definition, Array.from(sample.values()));
+    // Rows missing from the file can only be listed when the sample is the whole file
+    const missing = mode === 'replace' && complete
+      ? await previewMissingCatalogRows(pool, definition, new Set(sample.keys()))
+      : { removals: [], total: 0, referenced: 0 };
+    plan.referenced = missing.referenced;
+
+    res.json({
+      mode,
+      sample: { rows: sampledRows, complete },
+      summary: {
+        insert: plan.inserts.length,
+        update: plan.updates.length,
+        unchanged: plan.unchanged,
+        remove: missing.total,
+        invalid: errors.filter(error => error.row > 0).length
+      },
+      inserts: plan.inserts.slice(0, IMPORT_PREVIEW_LIMIT),
+      updates: plan.updates.slice(0, IMPORT_PREVIEW_LIMIT).map(({ id, record, changes }) => ({ id, record, changes })),
+      removals: missing.removals,
+      errors: [...errors, ...referencedRowsWarning(plan)]
+    });
+  } catch (error) {
+    console.error('Preview catalog import error:', error);
+
+    if (sendImportUploadError(error, res)) {
+      return;
+    }
+
+    res.status(500).json({ message: 'Internal server error during import preview' });
+  }
+});
+
+app.post('/api/catalogs/:catalogKey/import', authenticateToken, requireAdmin, upload.single('file'), async (req: express.Request & { user?: JwtPayload }, res) => {
+  try {
+    const { catalogKey } = req.params;
+
+    const resolved = await resolveImportUpload(req);
+    if ('error' in resolved) {
+      return res.status(resolved.status).json({ message: resolved.error });
+    }
+    const file = resolved.upload;
+    if (!file) {
+      return res.status(400).json({ message: 'No file uploaded' });
+    }
+
+    const definition = catalogDefinitionsMap.get(catalogKey);
+    if (!definition) {
+      return res.status(404).json({ message: 'Catalog not found' });
+    }
+
+    const fileOptions = resolveImportFileOptions(req);
+    if (fileOptions.error) {
+      return res.status(400).json({ message: fileOptions.error });
+    }
+
+    const savedMapping = await loadCatalogImportMapping(definition.key);
+    const parsedFile = await openImportFileRows(file, { ...fileOptions, headerKeys: catalogImportHeaderKeys(definition, savedMapping?.mapping) });
+    if (parsedFile.error) {
+      return res.status(400).json({ message: parsedFile.error });
+    }
+
+    const headers = parsedFile.headers;
+    const columnMapping = resolveCatalogColumnMapping(req, definition, headers, savedMapping?.mapping);
+    if (columnMapping.error) {
+      return res.status(400).json({ message: columnMapping.error });
+    }
+
+    const missingColumns = findMissingCatalogImportColumns(definition, columnMapping.mapping);
+    if (missingColumns.length > 0) {
+      return res.status(400).json({
+        message: `File is missing required columns: ${missingColumns.join(', ')}`,
+        requiredColumns: missingColumns,
+        headers,
+        suggestedMapping: columnMapping.mapping
+      });
+    }
+
+    const mode = resolveImportMode(req);
+    const referenceValues = await loadCatalogReferenceValues(pool, definition);
+    // The rows are validated and staged while the file is read, so the job only appears once all of them are stored
+    const job = await withTransaction(async (client) => {
+      const inserted = await client.query(
+        `INSERT INTO import_jobs (catalog_key, mode, file_name, checksum, user_id, username)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id`,
+        [catalogKey, mode, file.originalname ?? null, await importFileChecksum(file), req.user?.sub ?? null, req.user?.username ?? null]
+      );
+      const jobId = inserted.rows[0].id;
+      const { totalRows, errors } = await stageCatalogImportRows(client, jobId, definition, parsedFile.rows, referenceValues, columnMapping.mapping);
+      if (totalRows === 0 && errors.length === 0) {
+        throw new ImportFileError('File is empty or invalid format');
+      }
+      // The staged rows replace the stored upload
+      await deleteImportUpload(client, file);
+      return client.query(
+        `UPDATE import_jobs SET total_rows = $2, errors = $3::jsonb WHERE id = $1 RETURNING ${IMPORT_JOB_COLUMNS}`,
+        [jobId, totalRows, JSON.stringify(errors)]
+      );
+    });
+
+    res.status(202).json(formatImportJob(job.rows[0]));
+
+    // Keep working after the response; if the function is frozen first, polling GET /api/import-jobs/:id resumes the job
+    runImportJob(job.rows[0].id).catch(error => console.error('Import job error:', error));
+  } catch (error) {
+    console.error('Import catalog error:', error);
+
+    if (sendImportUploadError(error, res)) {
+      return;
+    }
+
+    res.status(500).json({ message: 'Internal server error during import' });
+  }
+});
+
+app.get('/api/import-jobs', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { page = '1', limit = '50', catalogKey, status } = req.query;
+    const pageNumber = Math.max(parseInt(page as string) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(limit as string) || 50, 1), 200);
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (typeof catalogKey === 'string' && catalogKey) {
+      params.push(catalogKey);
+      conditions.push(`catalog_key = $${params.length}`);
+    }
+    if (typeof status === 'string' && status) {
+      params.push(status);
+      conditions.push(`status = $${params.length}`);
+    }
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await pool.query(`SELECT COUNT(*)::int AS total FROM import_jobs ${whereClause}`, params);
+    const result = await pool.query(
+      `SELECT ${IMPORT_JOB_COLUMNS} FROM import_jobs ${whereClause}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, pageSize, (pageNumber - 1) * pageSize]
+    );
+
+    res.json({
+      data: result.rows.map(formatImportJob),
+      meta: { total: countResult.rows[0].total, page: pageNumber, limit: pageSize }
+    });
+  } catch (error) {
+    console.error('List import jobs error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+app.get('/api/import-jobs/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    let result = await pool.query(`SELECT ${IMPORT_JOB_COLUMNS} FROM import_jobs WHERE id = $1`, [id]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ message: 'Import job not found' });
+    }
+
+    // Each poll advances an unfinished job by one batch, so imports progress even when the original request was frozen
+    if (result.rows[0].status === 'pending' || result.rows[0].status === 'running') {
+      await processImportJobBatch(id);
+      result = await pool.query(`SELECT ${IMPORT_JOB_COLUMNS} FROM import_jobs WHERE id = $1`, [id]);
+    }
+
+    res.json(formatImportJob(result.rows[0]));
+  } catch (error) {
+    console.error('Get import job error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Roll an import back. Catalog imports revert only the rows they wrote, from their audit entries; geography imports,
+// which have no audit trail, restore the table contents captured right before they ran and refuse when rows changed since.
+// Only the latest import touching the same data can be rolled back, otherwise later loads would be silently lost.
+app.post('/api/import-jobs/:id/rollback', authenticateToken, requireAdmin, async (req: express.Request & { user?: JwtPayload }, res) => {
+  try {
+    const { id } = req.params;
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(404).json({ message: 'Import job not found' });
+    }
+
+    const outcome = await withTransaction(async (client) => {
+      const locked = await client.query(
+        `SELECT id, catalog_key, status, created_at, finished_at, inserted_rows, updated_rows, deactivated_rows
+         FROM import_jobs WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+      const job = locked.rows[0];
+      if (!job) {
+        return { status: 404, message: 'Import job not found' };
+      }
+      if (job.status !== 'completed' && job.status !== 'failed') {
+        return { status: 409, message: `Import job is ${job.status} and cannot be rolled back` };
+      }
+
+      const definition = catalogDefinitionsMap.get(job.catalog_key);
+      const geographyTable = job.catalog_key.startsWith('geography/') ? job.catalog_key.slice('geography/'.length) : null;
+      if (!definition && !(geographyTable && geographyExportTables[geographyTable])) {
+        return { status: 409, message: `Import target ${job.catalog_key} no longer exists and cannot be rolled back` };
+      }
+
+      // Rows of a later geography import into the level below block the rollback as references instead
+      const later = await client.query(
+        `SELECT j.id, j.file_name, j.created_at
+         FROM import_jobs j
+         WHERE j.created_at > $1 AND j.status <> 'rolled_back' AND j.catalog_key = $2
+         ORDER BY j.created_at
+         LIMIT 1`,
+        [job.created_at, job.catalog_key]
+      );
+      if (later.rows.length > 0) {
+        const laterJob = later.rows[0];
+        return {
+          status: 409,
+          message: `Import ${laterJob.file_name ?? laterJob.id} from ${new Date(laterJob.created_at).toISOString()} changed the same data later; roll it back first`
+        };
+      }
+
+      const audited = await client.query('SELECT EXISTS (SELECT 1 FROM catalog_audit_log WHERE import_job_id = $1) AS audited', [id]);
+      if (!audited.rows[0].audited && job.inserted_rows + job.updated_rows + job.deactivated_rows > 0) {
+        return { status: 409, message: 'Import job did not record its changes per entry and cannot be rolled back' };
+      }
+      if (definition) {
+        await client.query(`LOCK TABLE ${definition.tableName} IN SHARE ROW EXCLUSIVE MODE`);
+        await revertCatalogImport(client, definition, id, req.user);
+      } else if (geographyTable) {
+        const child = geographyImportChildren[geographyTable];
+        const tableNames = [geographyExportTables[geographyTable].tableName, ...(child ? [child.tableName] : [])];
+        await client.query(`LOCK TABLE ${tableNames.join(', ')} IN SHARE ROW EXCLUSIVE MODE`);
+        await revertGeographyImport(client, geographyTable, id, req.user);
+      }
+
+      await client.query(
+        `UPDATE import_jobs
+         SET status = 'rolled_back', rolled_back_at = NOW(), rolled_back_by = $2, updated_at = NOW()
+         WHERE id = $1`,
+        [id, req.user?.username ?? null]
+      );
+      return null;
+    });
+
+    if (outcome) {
+      return res.status(outcome.status).json({ message: outcome.message });
+    }
+
+    const result = await pool.query(`SELECT ${IMPORT_JOB_COLUMNS} FROM import_jobs WHERE id = $1`, [id]);
+    res.json(formatImportJob(result.rows[0]));
+  } catch (error) {
+    if (error instanceof ImportRollbackConflictError) {
+      return res.status(409).json({ message: error.message, conflicts: error.conflicts, conflictCount: error.total });
+    }
+
+    console.error('Rollback import job error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Update table structure for catalog fields
+app.post('/api/catalogs/:catalogKey/update-schema', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { catalogKey } = req.params;
+
+    const definition = catalogDefinitionsMap.get(catalogKey);
+    if (!definition) {
+      return res.status(404).json({ message: 'Catalog not found' });
+    }
+
+    const tableName = definition.tableName;
+
+    // Get current table structure
+    const tableStructure = await pool.query(`
+      SELECT column_name, data_type, numeric_precision, numeric_scale, character_maximum_length
+      FROM information_schema.columns
+      WHERE table_name = $1 AND table_schema = 'public'
+      ORDER BY ordinal_position
+    `, [tableName]);
+
+    console.log(`Current table structure for ${tableName}:`, tableStructure.rows);
+
+    // Check if we need to update codigo column for actividades-economicas
+    if (catalogKey === 'actividades-economicas') {
+      const codigoColumn = tableStructure.rows.find(col => col.column_name === 'codigo');
+
+      if (codigoColumn && codigoColumn.data_type === 'numeric') {
+        console.log('Altering actividades_economicas.codigo from numeric to varchar...');
 
         // Alter the column from numeric to varchar
         await pool.query(`
@@ -1829,50 +5665,478 @@ app.post('/api/catalogs/:catalogKey/update-schema', authenticateToken, requireAd
           ALTER COLUMN codigo TYPE VARCHAR(50) USING codigo::VARCHAR(50)
         `);
 
-        console.log('Successfully altered codigo column to VARCHAR(50)');
+        console.log('Successfully altered codigo column to VARCHAR(50)');
+
+        res.json({
+          message: 'Schema updated successfully',
+          catalogKey,
+          tableName,
+          changes: [
+            {
+              column: 'codigo',
+              from: `${codigoColumn.data_type}(${codigoColumn.numeric_precision},${codigoColumn.numeric_scale})`,
+              to: 'VARCHAR(50)'
+            }
+          ]
+        });
+      } else if (codigoColumn && codigoColumn.data_type === 'character varying') {
+        res.json({
+          message: 'Schema already up to date',
+          catalogKey,
+          tableName,
+          currentType: `VARCHAR(${codigoColumn.character_maximum_length})`
+        });
+      } else {
+        res.status(400).json({
+          message: 'codigo column not found in table',
+          catalogKey,
+          tableName,
+          existingColumns: tableStructure.rows.map(col => col.column_name)
+        });
+      }
+    } else {
+      res.json({
+        message: 'No schema updates needed for this catalog',
+        catalogKey,
+        tableName,
+        currentStructure: tableStructure.rows
+      });
+    }
+
+  } catch (error) {
+    console.error('Update schema error:', error);
+    res.status(500).json({
+      message: 'Internal server error during schema update',
+      error: error.message
+    });
+  }
+});
+
+// Catalog definition endpoints
+const CATALOG_KEY_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+const CATALOG_FIELD_NAME_PATTERN = /^[a-z][a-zA-Z0-9]*$/;
+const CATALOG_FIELD_TYPES = ['string', 'int', 'numeric', 'reference'];
+const RESERVED_CATALOG_KEYS = ['lookup'];
+const RESERVED_CATALOG_COLUMNS = ['id', 'created_at', 'updated_at', 'vigente_desde', 'vigente_hasta', 'is_active'];
+
+function formatCatalogDefinition(definition: any) {
+  const { key, label, tableName, fields, uniqueBy, searchFields } = definition;
+  return { key, label, tableName, fields, uniqueBy, searchFields, builtIn: builtInCatalogKeys.has(key) };
+}
+
+function isPositiveInteger(value: any, max: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= max;
+}
+
+// Helper function to validate the declarative rules of a field definition (pattern, min/max, allowed values, messages)
+function parseCatalogFieldValidation(name: string, type: string, validation: any): { rules?: any; error?: string } {
+  if (typeof validation !== 'object' || Array.isArray(validation)) {
+    return { error: `Field ${name} has invalid validation rules` };
+  }
+  if (type === 'reference') {
+    return { error: `Field ${name} inherits the rules of the referenced field and cannot declare its own` };
+  }
+  const { pattern, min, max, allowedValues, messages } = validation;
+  const rules: any = {};
+  if (pattern !== undefined && pattern !== null && pattern !== '') {
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      return { error: `Field ${name} has an invalid pattern` };
+    }
+    rules.pattern = String(pattern);
+  }
+  for (const [rule, bound] of [['min', min], ['max', max]] as const) {
+    if (bound === undefined || bound === null) {
+      continue;
+    }
+    if (type === 'string') {
+      return { error: `Field ${name} can only declare min and max when numeric` };
+    }
+    if (typeof bound !== 'number' || !Number.isFinite(bound)) {
+      return { error: `Field ${name} has an invalid ${rule}` };
+    }
+    rules[rule] = bound;
+  }
+  if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) {
+    return { error: `Field ${name} has a min greater than its max` };
+  }
+  if (allowedValues !== undefined && allowedValues !== null) {
+    const valid = Array.isArray(allowedValues) && allowedValues.length > 0 && allowedValues.length <= 500
+      && allowedValues.every((allowed: any) => type === 'string'
+        ? typeof allowed === 'string'
+        : typeof allowed === 'number' && (type !== 'int' || Number.isInteger(allowed)));
+    if (!valid) {
+      return { error: `Field ${name} has allowed values that do not match its type` };
+    }
+    rules.allowedValues = [...allowedValues];
+  }
+  if (messages && typeof messages === 'object') {
+    const customMessages = Object.entries(messages)
+      .filter(([rule, message]) => rule in rules && typeof message === 'string' && message.trim())
+      .map(([rule, message]) => [rule, (message as string).trim().slice(0, 300)]);
+    if (customMessages.length > 0) {
+      rules.messages = Object.fromEntries(customMessages);
+    }
+  }
+  return Object.keys(rules).length > 0 ? { rules } : {};
+}
+
+// Helper function to validate a catalog definition payload; unquoted column names are case-insensitive,
+// so field names must also be unique once lowercased
+function parseCatalogDefinitionBody(body: any, tableName: string): { definition?: any; error?: string } {
+  const { key, label, fields, uniqueBy, searchFields } = body ?? {};
+  if (typeof key !== 'string' || key.length > 60 || !CATALOG_KEY_PATTERN.test(key)) {
+    return { error: 'key must use lowercase letters, digits and dashes' };
+  }
+  if (RESERVED_CATALOG_KEYS.includes(key)) {
+    return { error: `Catalog key ${key} is reserved` };
+  }
+  if (typeof label !== 'string' || !label.trim() || label.length > 200) {
+    return { error: 'label is required' };
+  }
+  if (!Array.isArray(fields) || fields.length === 0 || fields.length > 100) {
+    return { error: 'fields must contain between 1 and 100 fields' };
+  }
+
+  const columns = new Set<string>();
+  const normalizedFields: any[] = [];
+  for (const field of fields) {
+    const name = field?.name;
+    if (typeof name !== 'string' || name.length > 50 || !CATALOG_FIELD_NAME_PATTERN.test(name)) {
+      return { error: 'Field names must start with a lowercase letter and contain only letters and digits' };
+    }
+    const column = toCatalogColumnName(name);
+    if (RESERVED_CATALOG_COLUMNS.includes(column)) {
+      return { error: `Field name ${name} is reserved` };
+    }
+    if (columns.has(column)) {
+      return { error: `Field ${name} is duplicated` };
+    }
+    columns.add(column);
+    if (!CATALOG_FIELD_TYPES.includes(field.type)) {
+      return { error: `Field ${name} has an invalid type` };
+    }
+
+    const normalized: any = { name, type: field.type, required: Boolean(field.required) };
+    if (typeof field.label === 'string' && field.label.trim()) {
+      normalized.label = field.label.trim().slice(0, 120);
+    }
+    if (field.type === 'string' && field.length !== undefined && field.length !== null) {
+      if (!isPositiveInteger(field.length, 10485760)) {
+        return { error: `Field ${name} has an invalid length` };
+      }
+      normalized.length = field.length;
+    }
+    if (field.codeFormat !== undefined && field.codeFormat !== null) {
+      const { width, padding = '0', numeric = true } = field.codeFormat;
+      if (field.type !== 'string') {
+        return { error: `Field ${name} can only declare a code format when it is a string` };
+      }
+      if (!isPositiveInteger(width, normalized.length ?? 1024) || typeof padding !== 'string' || padding.length !== 1) {
+        return { error: `Field ${name} has an invalid code format` };
+      }
+      normalized.codeFormat = { width, padding, numeric: Boolean(numeric) };
+    }
+    if (field.type === 'numeric') {
+      normalized.precision = field.precision ?? 12;
+      normalized.scale = field.scale ?? 4;
+      if (!isPositiveInteger(normalized.precision, 1000) || !Number.isInteger(normalized.scale)
+        || normalized.scale < 0 || normalized.scale > normalized.precision) {
+        return { error: `Field ${name} has an invalid precision or scale` };
+      }
+    }
+    if (field.type === 'reference') {
+      normalized.reference = { catalog: field.reference?.catalog, field: field.reference?.field };
+      try {
+        resolveReferencedField(normalized);
+      } catch (error) {
+        return { error: error.message };
+      }
+    }
+    if (field.validation !== undefined && field.validation !== null) {
+      const validation = parseCatalogFieldValidation(name, field.type, field.validation);
+      if (validation.error) {
+        return { error: validation.error };
+      }
+      if (validation.rules) {
+        normalized.validation = validation.rules;
+      }
+    }
+    if (Array.isArray(field.excelKeys)) {
+      const excelKeys = field.excelKeys
+        .filter((excelKey: any) => typeof excelKey === 'string' && excelKey.trim())
+        .map((excelKey: string) => excelKey.trim());
+      if (excelKeys.length > 0) {
+        normalized.excelKeys = excelKeys;
+      }
+    }
+    normalizedFields.push(normalized);
+  }
+
+  const names = normalizedFields.map((field) => field.name);
+  if (!Array.isArray(uniqueBy) || uniqueBy.length === 0 || new Set(uniqueBy).size !== uniqueBy.length) {
+    return { error: 'uniqueBy must list at least one field without repetitions' };
+  }
+  if (!Array.isArray(searchFields) || searchFields.length === 0) {
+    return { error: 'searchFields must list at least one field' };
+  }
+  const unknownFields = [...uniqueBy, ...searchFields].filter((name) => !names.includes(name));
+  if (unknownFields.length > 0) {
+    return { error: `Unknown fields: ${[...new Set(unknownFields)].join(', ')}` };
+  }
+
+  return {
+    definition: {
+      key,
+      label: label.trim(),
+      tableName,
+      fields: normalizedFields,
+      uniqueBy: [...uniqueBy],
+      searchFields: [...searchFields],
+    },
+  };
+}
+
+// Helper function to check whether a column type change keeps every stored value (widening only)
+function isSafeCatalogColumnChange(from: string, to: string): boolean {
+  const parse = (type: string) => {
+    const match = type.match(/^(\w+)(?:\((\d+)(?:, (\d+))?\))?$/);
+    return { name: match?.[1], size: Number(match?.[2] ?? 0), scale: Number(match?.[3] ?? 0) };
+  };
+  const previous = parse(from);
+  const next = parse(to);
+  if (previous.name === next.name) {
+    if (next.name === 'VARCHAR') {
+      return next.size >= previous.size;
+    }
+    if (next.name === 'NUMERIC') {
+      return next.scale >= previous.scale && next.size - next.scale >= previous.size - previous.scale;
+    }
+    return false;
+  }
+  if (previous.name === 'INTEGER' && next.name === 'NUMERIC') {
+    return next.size - next.scale >= 10;
+  }
+  if (previous.name === 'INTEGER' && next.name === 'VARCHAR') {
+    return next.size >= 11;
+  }
+  if (previous.name === 'NUMERIC' && next.name === 'VARCHAR') {
+    return next.size >= previous.size + 2;
+  }
+  return false;
+}
+
+// Helper function to plan the statements that move a runtime catalog table to its new definition;
+// removed fields keep their column (no longer required) and only widening type changes are allowed
+async function planCatalogSchemaChanges(previous: any, next: any): Promise<{ statements: string[]; status?: number; error?: string }> {
+  const tableName = next.tableName;
+  const statements: string[] = [];
+  const hasRowsResult = await pool.query(`SELECT EXISTS (SELECT 1 FROM ${tableName}) AS exists`);
+  const hasRows = hasRowsResult.rows[0].exists;
+  const columnsResult = await pool.query(
+    `SELECT column_name FROM information_schema.columns WHERE table_name = $1 AND table_schema = 'public'`,
+    [tableName]
+  );
+  const existingColumns = columnsResult.rows.map((row) => row.column_name);
+
+  for (const source of catalogDefinitions) {
+    for (const field of source.fields) {
+      if (field.reference?.catalog !== next.key) {
+        continue;
+      }
+      const before = previous.fields.find((candidate: any) => candidate.name === field.reference.field);
+      const after = next.fields.find((candidate: any) => candidate.name === field.reference.field);
+      if (!after || (before && buildCatalogColumnType(before) !== buildCatalogColumnType(after))) {
+        return { statements, status: 400, error: `Field ${field.reference.field} is referenced by ${source.label} and cannot be removed or retyped` };
+      }
+    }
+  }
+
+  for (const field of previous.fields) {
+    if (field.required && !next.fields.some((candidate: any) => candidate.name === field.name)) {
+      statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${toCatalogColumnName(field.name)} DROP NOT NULL`);
+    }
+  }
+
+  for (const field of next.fields) {
+    const before = previous.fields.find((candidate: any) => candidate.name === field.name);
+    const columnType = buildCatalogColumnType(field);
+    const column = toCatalogColumnName(field.name);
+    if (!before) {
+      if (existingColumns.includes(column)) {
+        return { statements, status: 400, error: `Column ${column} already exists; use another name for field ${field.name}` };
+      }
+      if (field.required && hasRows) {
+        return { statements, status: 400, error: `Field ${field.name} cannot be required because the catalog already has entries` };
+      }
+      statements.push(`ALTER TABLE ${tableName} ADD COLUMN ${column} ${columnType}${field.required ? ' NOT NULL' : ''}`);
+      continue;
+    }
+
+    const previousType = buildCatalogColumnType(before);
+    if (previousType !== columnType) {
+      if (!isSafeCatalogColumnChange(previousType, columnType)) {
+        return { statements, status: 400, error: `Field ${field.name} cannot change from ${previousType} to ${columnType} without losing data` };
+      }
+      statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${column} TYPE ${columnType} USING ${column}::${columnType}`);
+    }
+    if (!before.required && field.required) {
+      const nullsResult = await pool.query(`SELECT EXISTS (SELECT 1 FROM ${tableName} WHERE ${column} IS NULL) AS exists`);
+      if (nullsResult.rows[0].exists) {
+        return { statements, status: 400, error: `Field ${field.name} cannot be required because some entries have no value` };
+      }
+      statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${column} SET NOT NULL`);
+    } else if (before.required && !field.required) {
+      statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${column} DROP NOT NULL`);
+    }
+  }
+
+  if (previous.uniqueBy.join(',') !== next.uniqueBy.join(',')) {
+    const duplicates = await pool.query(
+      `SELECT 1 FROM ${tableName} GROUP BY ${next.uniqueBy.map(toCatalogColumnName).join(', ')} HAVING COUNT(*) > 1 LIMIT 1`
+    );
+    if (duplicates.rows.length > 0) {
+      return { statements, status: 409, error: 'Existing entries are duplicated for the new unique key' };
+    }
+    const constraints = await pool.query(
+      `SELECT conname FROM pg_constraint WHERE conrelid = $1::regclass AND contype = 'u'`,
+      [tableName]
+    );
+    constraints.rows.forEach((row) => {
+      statements.push(`ALTER TABLE ${tableName} DROP CONSTRAINT "${row.conname}"`);
+    });
+    statements.push(`ALTER TABLE ${tableName} ADD UNIQUE (${next.uniqueBy.map(toCatalogColumnName).join(', ')})`);
+  }
+
+  if (buildCatalogSearchDocument(previous) !== buildCatalogSearchDocument(next)) {
+    statements.push(`DROP INDEX IF EXISTS ${tableName}_search_idx`);
+  }
+
+  return { statements };
+}
+
+app.get('/api/catalog-definitions', authenticateToken, async (req, res) => {
+  try {
+    res.json(catalogDefinitions.map(formatCatalogDefinition));
+  } catch (error) {
+    console.error('List catalog definitions error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+app.get('/api/catalog-definitions/:key', authenticateToken, async (req, res) => {
+  try {
+    const definition = catalogDefinitionsMap.get(req.params.key);
+    if (!definition) {
+      return res.status(404).json({ message: 'Catalog not found' });
+    }
+    res.json(formatCatalogDefinition(definition));
+  } catch (error) {
+    console.error('Get catalog definition error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+app.post('/api/catalog-definitions', authenticateToken, requireAdmin, async (req: express.Request & { user?: JwtPayload }, res) => {
+  try {
+    const key = typeof req.body?.key === 'string' ? req.body.key : '';
+    const { definition, error } = parseCatalogDefinitionBody(req.body, key.replace(/-/g, '_'));
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    // Another instance may have saved the key after this one last refreshed its definitions
+    const existingResult = await pool.query('SELECT 1 FROM catalog_definitions WHERE key = $1', [definition.key]);
+    if (catalogDefinitionsMap.has(definition.key) || existingResult.rows.length > 0) {
+      return res.status(409).json({ message: 'A catalog with this key already exists' });
+    }
+    const tableResult = await pool.query('SELECT to_regclass($1) AS existing', [definition.tableName]);
+    if (tableResult.rows[0].existing) {
+      return res.status(409).json({ message: `Table ${definition.tableName} already exists` });
+    }
+
+    const saved = await withTransaction(async (client) => {
+      await client.query(buildCatalogTableSql(definition));
+      return client.query(
+        `INSERT INTO catalog_definitions (key, label, table_name, fields, unique_by, search_fields, updated_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING updated_at`,
+        [
+          definition.key,
+          definition.label,
+          definition.tableName,
+          JSON.stringify(definition.fields),
+          JSON.stringify(definition.uniqueBy),
+          JSON.stringify(definition.searchFields),
+          req.user?.username ?? null,
+        ]
+      );
+    });
+    registerCatalogDefinition(definition);
+    loadedCatalogDefinitionVersions.set(definition.key, new Date(saved.rows[0].updated_at).getTime());
+    await ensureCatalogColumns(definition);
+
+    res.status(201).json(formatCatalogDefinition(definition));
+  } catch (error: any) {
+    // A concurrent request created the same key or table between the checks and the insert
+    if (error?.code === '23505' || error?.code === '42P07') {
+      return res.status(409).json({ message: 'A catalog with this key already exists' });
+    }
+    console.error('Create catalog definition error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+app.put('/api/catalog-definitions/:key', authenticateToken, requireAdmin, async (req: express.Request & { user?: JwtPayload }, res) => {
+  try {
+    const { key } = req.params;
+    if (builtInCatalogKeys.has(key)) {
+      return res.status(400).json({ message: 'Built-in catalogs are defined in code and cannot be modified' });
+    }
+    const previous = catalogDefinitionsMap.get(key);
+    if (!previous) {
+      return res.status(404).json({ message: 'Catalog not found' });
+    }
+    if (req.body?.key !== key) {
+      return res.status(400).json({ message: 'The catalog key cannot be changed' });
+    }
+
+    const { definition, error } = parseCatalogDefinitionBody(req.body, previous.tableName);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    const plan = await planCatalogSchemaChanges(previous, definition);
+    if (plan.error) {
+      return res.status(plan.status).json({ message: plan.error });
+    }
 
-        res.json({
-          message: 'Schema updated successfully',
-          catalogKey,
-          tableName,
-          changes: [
-            {
-              column: 'codigo',
-              from: `${codigoColumn.data_type}(${codigoColumn.numeric_precision},${codigoColumn.numeric_scale})`,
-              to: 'VARCHAR(50)'
-            }
-          ]
-        });
-      } else if (codigoColumn && codigoColumn.data_type === 'character varying') {
-        res.json({
-          message: 'Schema already up to date',
-          catalogKey,
-          tableName,
-          currentType: `VARCHAR(${codigoColumn.character_maximum_length})`
-        });
-      } else {
-        res.status(400).json({
-          message: 'codigo column not found in table',
-          catalogKey,
-          tableName,
-          existingColumns: tableStructure.rows.map(col => col.column_name)
-        });
+    const saved = await withTransaction(async (client) => {
+      for (const statement of plan.statements) {
+        await client.query(statement);
       }
-    } else {
-      res.json({
-        message: 'No schema updates needed for this catalog',
-        catalogKey,
-        tableName,
-        currentStructure: tableStructure.rows
-      });
-    }
+      return client.query(
+        `UPDATE catalog_definitions
+         SET label = $2, fields = $3, unique_by = $4, search_fields = $5, updated_by = $6, updated_at = NOW()
+         WHERE key = $1
+         RETURNING updated_at`,
+        [
+          key,
+          definition.label,
+          JSON.stringify(definition.fields),
+          JSON.stringify(definition.uniqueBy),
+          JSON.stringify(definition.searchFields),
+          req.user?.username ?? null,
+        ]
+      );
+    });
+    registerCatalogDefinition(definition);
+    loadedCatalogDefinitionVersions.set(definition.key, new Date(saved.rows[0].updated_at).getTime());
+    await ensureCatalogColumns(definition);
 
+    res.json(formatCatalogDefinition(definition));
   } catch (error) {
-    console.error('Update schema error:', error);
-    res.status(500).json({
-      message: 'Internal server error during schema update',
-      error: error.message
-    });
+    console.error('Update catalog definition error:', error);
+    res.status(500).json({ message: 'Internal server error' });
   }
 });
 
@@ -2040,7 +6304,8 @@ app.post('/api/schemas/update-all', authenticateToken, requireAdmin, async (req,
         const changes: any[] = [];
 
         for (const field of definition.fields) {
-          const columnDef = tableStructure.rows.find(col => col.column_name === field.name);
+          const column = toCatalogColumnName(field.name);
+          const columnDef = tableStructure.rows.find(col => col.column_name === column);
 
           if (!columnDef) {
             console.log(`Column ${field.name} not found in table ${tableName}, skipping...`);
@@ -2066,8 +6331,8 @@ app.post('/api/schemas/update-all', authenticateToken, requireAdmin, async (req,
             console.log(`Updating ${tableName}.${field.name} from ${currentType} to ${desiredType}`);
 
             const alterQuery = field.type === 'string'
-              ? `ALTER TABLE ${tableName} ALTER COLUMN ${field.name} TYPE ${desiredType} USING ${field.name}::${desiredType}`
-              : `ALTER TABLE ${tableName} ALTER COLUMN ${field.name} TYPE ${desiredType}`;
+              ? `ALTER TABLE ${tableName} ALTER COLUMN ${column} TYPE ${desiredType} USING ${column}::${desiredType}`
+              : `ALTER TABLE ${tableName} ALTER COLUMN ${column} TYPE ${desiredType}`;
 
             await pool.query(alterQuery);
 
@@ -2360,48 +6625,36 @@ app.delete('/api/clear-all', authenticateToken, requireAdmin, async (req, res) =
 // Geography endpoints
 app.get('/api/geography/provinces', authenticateToken, async (req, res) => {
   try {
-    const { search, page = 1, limit = 50 } = req.query;
+    const { search, limit = 50 } = req.query;
 
-    const pageNumber = Number(page);
     const limitNumber = Math.min(Math.max(Number(limit), 1), 200);
-
-    let query = 'SELECT * FROM provincias';
-    const countQuery = 'SELECT COUNT(*) FROM provincias';
+    const conditions: string[] = [];
     const params: any[] = [];
 
     if (search) {
-      query += ' WHERE CAST(nombre AS TEXT) ILIKE $1 OR CAST(codigo AS TEXT) ILIKE $1';
-      const searchCountQuery = 'SELECT COUNT(*) FROM provincias WHERE CAST(nombre AS TEXT) ILIKE $1 OR CAST(codigo AS TEXT) ILIKE $1';
       params.push(`%${search}%`);
+      conditions.push('(CAST(nombre AS TEXT) ILIKE $1 OR CAST(codigo AS TEXT) ILIKE $1)');
+    }
 
-      const [itemsResult, countResult] = await Promise.all([
-        pool.query(`${query} ORDER BY codigo ASC LIMIT ${limitNumber} OFFSET ${(pageNumber - 1) * limitNumber}`, params),
-        pool.query(searchCountQuery, params)
-      ]);
-
-      res.json({
-        data: itemsResult.rows,
-        meta: {
-          total: Number(countResult.rows[0].count),
-          page: pageNumber,
-          limit: limitNumber
-        }
-      });
-    } else {
-      const [itemsResult, countResult] = await Promise.all([
-        pool.query(`${query} ORDER BY codigo ASC LIMIT ${limitNumber} OFFSET ${(pageNumber - 1) * limitNumber}`),
-        pool.query(countQuery)
-      ]);
-
-      res.json({
-        data: itemsResult.rows,
-        meta: {
-          total: Number(countResult.rows[0].count),
-          page: pageNumber,
-          limit: limitNumber
-        }
-      });
+    const listPage = await queryListPage(req.query, {
+      columns: '*',
+      from: 'provincias',
+      conditions,
+      params,
+      order: [
+        { expression: 'codigo', direction: 'ASC' },
+        { expression: 'id', direction: 'ASC' },
+      ],
+      limit: limitNumber,
+    });
+    if ('error' in listPage) {
+      return res.status(400).json({ message: listPage.error });
     }
+
+    res.json({
+      data: listPage.rows,
+      meta: listPage.meta
+    });
   } catch (error) {
     console.error('Get provinces error:', error);
     res.status(500).json({ message: 'Internal server error' });
@@ -2411,15 +6664,11 @@ app.get('/api/geography/provinces', authenticateToken, async (req, res) => {
 // General cantons endpoint (all cantons)
 app.get('/api/geography/cantons', authenticateToken, async (req, res) => {
   try {
-    const { search, page = 1, limit = 50, provinceCode } = req.query;
+    const { search, limit = 50, provinceCode } = req.query;
 
-    const pageNumber = Number(page);
     const limitNumber = Math.min(Math.max(Number(limit), 1), 200);
 
-    let query = 'SELECT * FROM cantones';
-    let countQuery = 'SELECT COUNT(*) FROM cantones';
     const params: any[] = [];
-    const countParams: any[] = [];
 
     // Build WHERE conditions
     const whereConditions: string[] = [];
@@ -2427,7 +6676,6 @@ app.get('/api/geography/cantons', authenticateToken, async (req, res) => {
     if (provinceCode) {
       whereConditions.push('codigo_provincia = $' + (params.length + 1));
       params.push(provinceCode);
-      countParams.push(provinceCode);
     }
 
     if (search) {
@@ -2439,27 +6687,26 @@ app.get('/api/geography/cantons', authenticateToken, async (req, res) => {
       ];
       whereConditions.push('(' + searchConditions.join(' OR ') + ')');
       params.push(`%${search}%`, `%${search}%`);
-      countParams.push(`%${search}%`, `%${search}%`);
     }
 
-    // Add WHERE clause if there are conditions
-    if (whereConditions.length > 0) {
-      const whereClause = ' WHERE ' + whereConditions.join(' AND ');
-      query += whereClause;
-      countQuery += whereClause;
+    const listPage = await queryListPage(req.query, {
+      columns: '*',
+      from: 'cantones',
+      conditions: whereConditions,
+      params,
+      order: [
+        { expression: 'codigo_provincia', direction: 'ASC' },
+        { expression: 'codigo_canton', direction: 'ASC' },
+        { expression: 'id', direction: 'ASC' },
+      ],
+      limit: limitNumber,
+    });
+    if ('error' in listPage) {
+      return res.status(400).json({ message: listPage.error });
     }
 
-    query += ' ORDER BY codigo_provincia ASC, codigo_canton ASC';
-    const offset = (pageNumber - 1) * limitNumber;
-    query += ` LIMIT ${limitNumber} OFFSET ${offset}`;
-
-    const [itemsResult, countResult] = await Promise.all([
-      pool.query(query, params),
-      pool.query(countQuery, countParams)
-    ]);
-
     // Transform database row keys from snake_case to camelCase for frontend compatibility
-    const transformedData = itemsResult.rows.map(row => {
+    const transformedData = listPage.rows.map(row => {
       // Manual transformation for cantones to ensure correct field names
       const transformed: any = {
         id: row.id,
@@ -2486,11 +6733,7 @@ app.get('/api/geography/cantons', authenticateToken, async (req, res) => {
 
     res.json({
       data: transformedData,
-      meta: {
-        total: Number(countResult.rows[0].count),
-        page: pageNumber,
-        limit: limitNumber
-      }
+      meta: listPage.meta
     });
   } catch (error) {
     console.error('Get all cantons error:', error);
@@ -2501,15 +6744,11 @@ app.get('/api/geography/cantons', authenticateToken, async (req, res) => {
 // General districts endpoint (all districts)
 app.get('/api/geography/districts', authenticateToken, async (req, res) => {
   try {
-    const { search, page = 1, limit = 50, provinceCode, cantonCode } = req.query;
+    const { search, limit = 50, provinceCode, cantonCode } = req.query;
 
-    const pageNumber = Number(page);
     const limitNumber = Math.min(Math.max(Number(limit), 1), 200);
 
-    let query = 'SELECT * FROM distritos';
-    let countQuery = 'SELECT COUNT(*) FROM distritos';
     const params: any[] = [];
-    const countParams: any[] = [];
 
     // Build WHERE conditions
     const whereConditions: string[] = [];
@@ -2517,13 +6756,11 @@ app.get('/api/geography/districts', authenticateToken, async (req, res) => {
     if (provinceCode) {
       whereConditions.push('codigo_provincia = $' + (params.length + 1));
       params.push(provinceCode);
-      countParams.push(provinceCode);
     }
 
     if (cantonCode) {
       whereConditions.push('codigo_canton = $' + (params.length + 1));
       params.push(cantonCode);
-      countParams.push(cantonCode);
     }
 
     if (search) {
@@ -2535,35 +6772,31 @@ app.get('/api/geography/districts', authenticateToken, async (req, res) => {
       ];
       whereConditions.push('(' + searchConditions.join(' OR ') + ')');
       params.push(`%${search}%`);
-      countParams.push(`%${search}%`);
     }
 
-    // Add WHERE clause if there are conditions
-    if (whereConditions.length > 0) {
-      const whereClause = ' WHERE ' + whereConditions.join(' AND ');
-      query += whereClause;
-      countQuery += whereClause;
+    const listPage = await queryListPage(req.query, {
+      columns: '*',
+      from: 'distritos',
+      conditions: whereConditions,
+      params,
+      order: [
+        { expression: 'codigo_provincia', direction: 'ASC' },
+        { expression: 'codigo_canton', direction: 'ASC' },
+        { expression: 'codigo_distrito', direction: 'ASC' },
+        { expression: 'id', direction: 'ASC' },
+      ],
+      limit: limitNumber,
+    });
+    if ('error' in listPage) {
+      return res.status(400).json({ message: listPage.error });
     }
 
-    query += ' ORDER BY codigo_provincia ASC, codigo_canton ASC, codigo_distrito ASC';
-    const offset = (pageNumber - 1) * limitNumber;
-    query += ` LIMIT ${limitNumber} OFFSET ${offset}`;
-
-    const [itemsResult, countResult] = await Promise.all([
-      pool.query(query, params),
-      pool.query(countQuery, countParams)
-    ]);
-
     // Transform database row keys from snake_case to camelCase for frontend compatibility
-    const transformedData = itemsResult.rows.map(row => transformRowKeys(row));
+    const transformedData = listPage.rows.map(row => transformRowKeys(row));
 
     res.json({
       data: transformedData,
-      meta: {
-        total: Number(countResult.rows[0].count),
-        page: pageNumber,
-        limit: limitNumber
-      }
+      meta: listPage.meta
     });
   } catch (error) {
     console.error('Get all districts error:', error);
@@ -2612,6 +6845,23 @@ app.get('/api/geography/districts', authenticateToken, async (req, res) => {
  *         schema:
  *           type: string
  *         description: Filter by district name (distrito)
+ *       - in: query
+ *         name: pagination
+ *         schema:
+ *           type: string
+ *           enum: [offset, cursor]
+ *           default: offset
+ *         description: Use cursor to page with nextCursor/prevCursor instead of page numbers
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor or prevCursor returned by the previous page (implies pagination=cursor)
+ *       - in: query
+ *         name: includeTotal
+ *         schema:
+ *           type: boolean
+ *         description: Include the total count in cursor mode
  *     responses:
  *       200:
  *         description: Successfully retrieved barrios
@@ -2658,6 +6908,12 @@ app.get('/api/geography/districts', authenticateToken, async (req, res) => {
  *                       type: integer
  *                     limit:
  *                       type: integer
+ *                     nextCursor:
+ *                       type: string
+ *                       nullable: true
+ *                     prevCursor:
+ *                       type: string
+ *                       nullable: true
  *       401:
  *         description: Unauthorized
  *       500:
@@ -2667,15 +6923,11 @@ app.get('/api/geography/districts', authenticateToken, async (req, res) => {
 // General barrios endpoint (all barrios)
 app.get('/api/geography/barrios', authenticateToken, async (req, res) => {
   try {
-    const { search, page = 1, limit = 50, provinceCode, cantonCode, districtName } = req.query;
+    const { search, limit = 50, provinceCode, cantonCode, districtName } = req.query;
 
-    const pageNumber = Number(page);
     const limitNumber = Math.min(Math.max(Number(limit), 1), 200);
 
-    let query = 'SELECT * FROM barrios';
-    let countQuery = 'SELECT COUNT(*) FROM barrios';
     const params: any[] = [];
-    const countParams: any[] = [];
 
     // Build WHERE conditions
     const whereConditions: string[] = [];
@@ -2683,19 +6935,16 @@ app.get('/api/geography/barrios', authenticateToken, async (req, res) => {
     if (provinceCode) {
       whereConditions.push('codigo_provincia = $' + (params.length + 1));
       params.push(provinceCode);
-      countParams.push(provinceCode);
     }
 
     if (cantonCode) {
       whereConditions.push('codigo_canton = $' + (params.length + 1));
       params.push(cantonCode);
-      countParams.push(cantonCode);
     }
 
     if (districtName) {
       whereConditions.push('LOWER(distrito) = $' + (params.length + 1));
       params.push(String(districtName).toLowerCase());
-      countParams.push(String(districtName).toLowerCase());
     }
 
     if (search) {
@@ -2710,35 +6959,32 @@ app.get('/api/geography/barrios', authenticateToken, async (req, res) => {
       ];
       whereConditions.push('(' + searchConditions.join(' OR ') + ')');
       params.push(`%${search}%`);
-      countParams.push(`%${search}%`);
     }
 
-    // Add WHERE clause if there are conditions
-    if (whereConditions.length > 0) {
-      const whereClause = ' WHERE ' + whereConditions.join(' AND ');
-      query += whereClause;
-      countQuery += whereClause;
+    const listPage = await queryListPage(req.query, {
+      columns: '*',
+      from: 'barrios',
+      conditions: whereConditions,
+      params,
+      order: [
+        { expression: 'codigo_provincia', direction: 'ASC' },
+        { expression: 'codigo_canton', direction: 'ASC' },
+        { expression: 'codigo_distrito', direction: 'ASC' },
+        { expression: 'barrio', direction: 'ASC' },
+        { expression: 'id', direction: 'ASC' },
+      ],
+      limit: limitNumber,
+    });
+    if ('error' in listPage) {
+      return res.status(400).json({ message: listPage.error });
     }
 
-    query += ' ORDER BY codigo_provincia ASC, codigo_canton ASC, codigo_distrito ASC, barrio ASC';
-    const offset = (pageNumber - 1) * limitNumber;
-    query += ` LIMIT ${limitNumber} OFFSET ${offset}`;
-
-    const [itemsResult, countResult] = await Promise.all([
-      pool.query(query, params),
-      pool.query(countQuery, countParams)
-    ]);
-
     // Transform database row keys from snake_case to camelCase for frontend compatibility
-    const transformedData = itemsResult.rows.map(row => transformRowKeys(row));
+    const transformedData = listPage.rows.map(row => transformRowKeys(row));
 
     res.json({
       data: transformedData,
-      meta: {
-        total: Number(countResult.rows[0].count),
-        page: pageNumber,
-        limit: limitNumber
-      }
+      meta: listPage.meta
     });
   } catch (error) {
     console.error('Get all barrios error:', error);
@@ -2932,15 +7178,11 @@ app.get('/api/geography/cantons/:cantonId/barrios', authenticateToken, async (re
 // Users endpoints
 app.get('/api/users', authenticateToken, requireAdmin, async (req, res) => {
   try {
-    const { search, page = 1, limit = 20 } = req.query;
+    const { search, limit = 20 } = req.query;
 
-    const pageNumber = Number(page);
     const limitNumber = Math.min(Math.max(Number(limit), 1), 100);
 
-    let query = 'SELECT id, username, role, is_active, created_at, updated_at FROM users';
-    let countQuery = 'SELECT COUNT(*) FROM users';
     const params: any[] = [];
-    const countParams: any[] = [];
 
     // Build WHERE conditions
     const whereConditions: string[] = [];
@@ -2949,27 +7191,25 @@ app.get('/api/users', authenticateToken, requireAdmin, async (req, res) => {
       const searchTerm = String(search).trim().toLowerCase();
       whereConditions.push('LOWER(username) ILIKE $' + (params.length + 1));
       params.push(`%${searchTerm}%`);
-      countParams.push(`%${searchTerm}%`);
     }
 
-    // Add WHERE clause if there are conditions
-    if (whereConditions.length > 0) {
-      const whereClause = ' WHERE ' + whereConditions.join(' AND ');
-      query += whereClause;
-      countQuery += whereClause;
+    const listPage = await queryListPage(req.query, {
+      columns: 'id, username, role, is_active, created_at, updated_at',
+      from: 'users',
+      conditions: whereConditions,
+      params,
+      order: [
+        { expression: 'created_at', direction: 'DESC' },
+        { expression: 'id', direction: 'DESC' },
+      ],
+      limit: limitNumber,
+    });
+    if ('error' in listPage) {
+      return res.status(400).json({ message: listPage.error });
     }
 
-    query += ' ORDER BY created_at DESC, id DESC';
-    const offset = (pageNumber - 1) * limitNumber;
-    query += ` LIMIT ${limitNumber} OFFSET ${offset}`;
-
-    const [usersResult, countResult] = await Promise.all([
-      pool.query(query, params),
-      pool.query(countQuery, countParams)
-    ]);
-
     // Format users response (exclude password hash)
-    const users = usersResult.rows.map(user => ({
+    const users = listPage.rows.map(user => ({
       id: user.id,
       username: user.username,
       role: user.role,
@@ -2980,11 +7220,7 @@ app.get('/api/users', authenticateToken, requireAdmin, async (req, res) => {
 
     res.json({
       data: users,
-      meta: {
-        total: Number(countResult.rows[0].count),
-        page: pageNumber,
-        limit: limitNumber
-      }
+      meta: listPage.meta
     });
   } catch (error) {
     console.error('Get users error:', error);
@@ -3179,6 +7415,82 @@ app.delete('/api/users/:id', authenticateToken, requireAdmin, async (req: expres
   }
 });
 
+// API key endpoints
+const API_KEY_COLUMNS = 'id, name, key_prefix, expires_at, last_used_at, revoked_at, created_by, created_at';
+
+// Helper function to format API keys without exposing the hash
+function formatApiKey(row: any) {
+  return {
+    id: row.id,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+    createdBy: row.created_by,
+    createdAt: row.created_at
+  };
+}
+
+app.get('/api/api-keys', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const result = await pool.query(`SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY created_at DESC, id DESC`);
+    res.json(result.rows.map(formatApiKey));
+  } catch (error) {
+    console.error('Get API keys error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+app.post('/api/api-keys', authenticateToken, requireAdmin, async (req: express.Request & { user?: JwtPayload }, res) => {
+  try {
+    const { name, expiresAt } = req.body ?? {};
+
+    if (typeof name !== 'string' || name.trim().length < 3 || name.trim().length > 120) {
+      return res.status(400).json({ message: 'Name must be between 3 and 120 characters' });
+    }
+
+    let expiration: Date | null = null;
+    if (expiresAt) {
+      expiration = new Date(expiresAt);
+      if (Number.isNaN(expiration.getTime()) || expiration.getTime() <= Date.now()) {
+        return res.status(400).json({ message: 'expiresAt must be a valid future date' });
+      }
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const result = await pool.query(
+      `INSERT INTO api_keys (name, key_prefix, key_hash, expires_at, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${API_KEY_COLUMNS}`,
+      [name.trim(), key.substring(0, 12), hashApiKey(key), expiration, req.user?.username ?? null]
+    );
+
+    res.status(201).json({ ...formatApiKey(result.rows[0]), key });
+  } catch (error) {
+    console.error('Create API key error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+app.delete('/api/api-keys/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const result = await pool.query(
+      'UPDATE api_keys SET revoked_at = COALESCE(revoked_at, NOW()) WHERE id = $1 RETURNING id',
+      [req.params.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ message: 'API key not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
 // Create initial Costa Rica geography data
 app.post('/api/geography/seed', authenticateToken, requireAdmin, async (req, res) => {
   try {
@@ -3863,6 +8175,9 @@ app.post('/api/api-docs/seed', authenticateToken, requireAdmin, async (req, res)
  *               properties:
  *                 message:
  *                   type: string
+ *                 importJobId:
+ *                   type: string
+ *                   description: Entry in the import history; POST /api/import-jobs/{id}/rollback undoes the import
  *                 summary:
  *                   type: object
  *                   properties:
@@ -3888,8 +8203,37 @@ app.post('/api/api-docs/seed', authenticateToken, requireAdmin, async (req, res)
  *         description: Internal server error
  */
 
+// Columns that identify a row of each geography import target, as the import writes them
+const geographyImportKeyColumns: Record<string, string[]> = {
+  provinces: ['codigo'],
+  cantons: ['codigo_provincia', 'codigo_canton'],
+  districts: ['codigo_provincia', 'codigo_canton', 'codigo_distrito'],
+  barrios: ['codigo_provincia', 'codigo_canton', 'codigo_distrito', 'barrio'],
+};
+
+// Level below each geography import target: [child column, parent column] pairs that point a child row at its parent
+const geographyImportChildren: Record<string, { tableName: string; columns: Array<[string, string]> } | undefined> = {
+  provinces: { tableName: 'cantones', columns: [['codigo_provincia', 'codigo']] },
+  cantons: {
+    tableName: 'distritos',
+    columns: [['codigo_provincia', 'codigo_provincia'], ['codigo_canton', 'codigo_canton']]
+  },
+  districts: {
+    tableName: 'barrios',
+    columns: [['codigo_provincia', 'codigo_provincia'], ['codigo_canton', 'codigo_canton'], ['codigo_distrito', 'codigo_distrito']]
+  },
+};
+
+// Column names that identify the header row of each geography upload
+const geographyImportHeaderKeys: Record<string, string[]> = {
+  provinces: ['codigo', 'nombre', 'provincia', 'codigo_provincia', 'nombre_provincia'],
+  cantons: ['provincia', 'codigo_provincia', 'canton', 'codigo_canton', 'nombre_canton'],
+  districts: ['provincia', 'codigo_provincia', 'canton', 'codigo_canton', 'distrito', 'codigo_distrito', 'nombre_distrito'],
+  barrios: ['provincia', 'codigo_provincia', 'canton', 'codigo_canton', 'distrito', 'codigo_distrito', 'barrio', 'nombre_barrio'],
+};
+
 // Import geography data from Excel
-app.post('/api/geography/:table/import', authenticateToken, requireAdmin, upload.single('file'), async (req, res) => {
+app.post('/api/geography/:table/import', authenticateToken, requireAdmin, upload.single('file'), async (req: express.Request & { user?: JwtPayload }, res) => {
   try {
     const { table } = req.params;
 
@@ -3902,18 +8246,29 @@ app.post('/api/geography/:table/import', authenticateToken, requireAdmin, upload
       });
     }
 
-    if (!req.file) {
+    const resolved = await resolveImportUpload(req);
+    if ('error' in resolved) {
+      return res.status(resolved.status).json({ message: resolved.error });
+    }
+    const file = resolved.upload;
+    if (!file) {
       return res.status(400).json({ message: 'No file uploaded' });
     }
 
-    // Parse Excel file
-    const workbook = xlsx.read(req.file.buffer, { type: 'buffer' });
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    const jsonData = xlsx.utils.sheet_to_json(worksheet);
+    const fileOptions = resolveImportFileOptions(req);
+    if (fileOptions.error) {
+      return res.status(400).json({ message: fileOptions.error });
+    }
+
+    // Parse the uploaded Excel, CSV/TSV or JSON file
+    const parsedFile = await readImportFileRows(file, { ...fileOptions, headerKeys: geographyImportHeaderKeys[table] });
+    if (parsedFile.error) {
+      return res.status(400).json({ message: parsedFile.error });
+    }
+    const jsonData = parsedFile.rows;
 
     if (jsonData.length === 0) {
-      return res.status(400).json({ message: 'Excel file is empty or invalid format' });
+      return res.status(400).json({ message: 'File is empty or invalid format' });
     }
 
     // Validate required columns based on table
@@ -4071,7 +8426,22 @@ app.post('/api/geography/:table/import', authenticateToken, requireAdmin, upload
 
     let insertedCount = 0;
     let skippedCount = 0;
-    const errors = [];
+    let existingCount = 0;
+    const errors: string[] = [];
+    const jobErrors: { row: number; message: string }[] = [];
+    const addError = (i: number, message: string) => {
+      errors.push(message);
+      jobErrors.push({ row: i + 2, message });
+    };
+
+    // Every import is logged as a job and audits the rows it inserts with the job id, so it can be rolled back
+    const inserted = await pool.query(
+      `INSERT INTO import_jobs (catalog_key, mode, status, file_name, checksum, total_rows, user_id, username, started_at)
+       VALUES ($1, 'append', 'running', $2, $3, $4, $5, $6, NOW())
+       RETURNING id`,
+      [`geography/${table}`, file.originalname ?? null, await importFileChecksum(file), jsonData.length, req.user?.sub ?? null, req.user?.username ?? null]
+    );
+    const job = inserted.rows[0];
 
     // Process each row
     for (let i = 0; i < jsonData.length; i++) {
@@ -4081,7 +8451,7 @@ app.post('/api/geography/:table/import', authenticateToken, requireAdmin, upload
         const validation = validationFunction(row, i);
 
         if (!validation.isValid) {
-          (errors as string[]).push(validation.error || `Row ${i + 2}: Validation failed`);
+          addError(i, validation.error || `Row ${i + 2}: Validation failed`);
           skippedCount++;
           continue;
         }
@@ -4110,6 +8480,7 @@ app.post('/api/geography/:table/import', authenticateToken, requireAdmin, upload
 
         if (existingItem.rows.length > 0) {
           skippedCount++;
+          existingCount++;
           continue;
         }
 
@@ -4124,18 +8495,31 @@ app.post('/api/geography/:table/import', authenticateToken, requireAdmin, upload
           RETURNING *
         `;
 
-        await pool.query(insertQuery, values);
+        await withTransaction(async (client) => {
+          const created = await client.query(insertQuery, values);
+          await recordCatalogAudit(client, `geography/${table}`, 'import', req.user, [{ recordId: created.rows[0].id, after: created.rows[0] }], job.id);
+        });
         insertedCount++;
 
       } catch (rowError) {
         console.error(`Error processing row ${i + 2}:`, rowError);
-        (errors as string[]).push(`Row ${i + 2}: ${rowError.message}`);
+        addError(i, `Row ${i + 2}: ${rowError.message}`);
         skippedCount++;
       }
     }
 
+    await pool.query(
+      `UPDATE import_jobs
+       SET status = 'completed', processed_rows = $2, inserted_rows = $3, unchanged_rows = $4, errors = $5::jsonb,
+           finished_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [job.id, jsonData.length, insertedCount, existingCount, JSON.stringify(jobErrors)]
+    );
+    await deleteImportUpload(pool, file);
+
     res.json({
       message: 'Geography import completed',
+      importJobId: job.id,
       summary: {
         total: jsonData.length,
         inserted: insertedCount,
@@ -4151,6 +8535,90 @@ app.post('/api/geography/:table/import', authenticateToken, requireAdmin, upload
   }
 });
 
+// Columns written by the geography export: the same headers the import route expects
+const geographyExportTables: Record<string, { tableName: string; columns: string[]; searchColumns: string[]; orderBy: string }> = {
+  provinces: {
+    tableName: 'provincias',
+    columns: ['nombre', 'codigo'],
+    searchColumns: ['nombre', 'codigo'],
+    orderBy: 'codigo ASC',
+  },
+  cantons: {
+    tableName: 'cantones',
+    columns: ['provincia', 'codigo_provincia', 'canton', 'codigo_canton'],
+    searchColumns: ['canton', 'codigo_canton', 'provincia', 'codigo_provincia'],
+    orderBy: 'codigo_provincia ASC, codigo_canton ASC',
+  },
+  districts: {
+    tableName: 'distritos',
+    columns: ['provincia', 'codigo_provincia', 'canton', 'codigo_canton', 'distrito', 'codigo_distrito'],
+    searchColumns: ['distrito', 'codigo_distrito', 'provincia', 'canton'],
+    orderBy: 'codigo_provincia ASC, codigo_canton ASC, codigo_distrito ASC',
+  },
+  barrios: {
+    tableName: 'barrios',
+    columns: ['provincia', 'codigo_provincia', 'canton', 'codigo_canton', 'distrito', 'codigo_distrito', 'barrio'],
+    searchColumns: ['barrio', 'distrito', 'codigo_distrito', 'canton', 'codigo_canton', 'provincia', 'codigo_provincia'],
+    orderBy: 'codigo_provincia ASC, codigo_canton ASC, codigo_distrito ASC, barrio ASC',
+  },
+};
+
+app.get('/api/geography/:table/export', authenticateToken, async (req, res) => {
+  try {
+    const { table } = req.params;
+    const { search, provinceCode, cantonCode, districtName } = req.query;
+
+    const config = geographyExportTables[table];
+    if (!config) {
+      return res.status(404).json({
+        message: 'Table not found',
+        validTables: Object.keys(geographyExportTables)
+      });
+    }
+
+    const format = resolveExportFormat(req);
+    if (!format) {
+      return res.status(400).json({ message: 'format must be one of: xlsx, csv, json' });
+    }
+
+    // Same filters as the paginated geography list endpoints
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (provinceCode && table !== 'provinces') {
+      params.push(provinceCode);
+      conditions.push(`codigo_provincia = $${params.length}`);
+    }
+
+    if (cantonCode && (table === 'districts' || table === 'barrios')) {
+      params.push(cantonCode);
+      conditions.push(`codigo_canton = $${params.length}`);
+    }
+
+    if (districtName && table === 'barrios') {
+      params.push(String(districtName).toLowerCase());
+      conditions.push(`LOWER(distrito) = $${params.length}`);
+    }
+
+    if (search) {
+      params.push(`%${search}%`);
+      conditions.push(`(${config.searchColumns.map(column => `CAST(${column} AS TEXT) ILIKE $${params.length}`).join(' OR ')})`);
+    }
+
+    const whereClause = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const result = await pool.query(
+      `SELECT ${config.columns.join(', ')} FROM ${config.tableName}${whereClause} ORDER BY ${config.orderBy}`,
+      params
+    );
+
+    const rows = result.rows.map(row => config.columns.map(column => row[column] ?? null));
+    sendTabularExport(res, config.tableName, format, config.columns, rows);
+  } catch (error) {
+    console.error('Geography export error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
 // Diagnostic endpoint to check current table structure
 app.get('/api/diagnostic/table/:tableName', authenticateToken, requireAdmin, async (req, res) => {
   try {
@@ -6,12 +6,17 @@ import { SessionExpirationWarning } from './components/SessionExpirationWarning'
 import { CatalogsPage } from './pages/catalogs/CatalogsPage';
 import { CatalogEntriesPage } from './pages/catalogs/CatalogEntriesPage';
 import { ImportCatalogPage } from './pages/catalogs/ImportCatalogPage';
+import { CatalogReleasesPage } from './pages/catalogs/CatalogReleasesPage';
+import { CabysExplorerPage } from './pages/catalogs/CabysExplorerPage';
+import { CatalogDefinitionsPage } from './pages/catalogs/CatalogDefinitionsPage';
+import { ImportHistoryPage } from './pages/catalogs/ImportHistoryPage';
 import { ProvincesPage } from './pages/geography/ProvincesPage';
 import { CantonsPage } from './pages/geography/CantonsPage';
 import { DistrictsPage } from './pages/geography/DistrictsPage';
 import { BarriosPage } from './pages/geography/BarriosPage';
 import { UsersPage } from './pages/users/UsersPage';
 import { ApiDocsPage } from './pages/api-docs/ApiDocsPage';
+import { ApiKeysPage } from './pages/api-keys/ApiKeysPage';
 
 const LoginPage = lazy(() => import('./pages/LoginPage'));
 const DashboardPage = lazy(() => import('./pages/DashboardPage'));
@@ -50,11 +55,16 @@ export default function App() {
           <Route path="catalogs" element={<CatalogsPage />} />
           <Route path="catalogs/:catalogKey" element={<CatalogEntriesPage />} />
           <Route path="catalogs/:catalogKey/import" element={<ImportCatalogPage />} />
+          <Route path="catalog-releases" element={<CatalogReleasesPage />} />
+          <Route path="cabys" element={<CabysExplorerPage />} />
+          <Route path="catalog-definitions" element={<CatalogDefinitionsPage />} />
+          <Route path="import-history" element={<ImportHistoryPage />} />
           <Route path="geography/provinces" element={<ProvincesPage />} />
           <Route path="geography/cantons" element={<CantonsPage />} />
           <Route path="geography/districts" element={<DistrictsPage />} />
           <Route path="geography/barrios" element={<BarriosPage />} />
           <Route path="users" element={<UsersPage />} />
+          <Route path="api-keys" element={<ApiKeysPage />} />
           <Route path="api-docs" element={<ApiDocsPage />} />
         </Route>
 
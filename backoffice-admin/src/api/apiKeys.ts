@@ -0,0 +1,35 @@
+import { http } from './http';
+
+export interface ApiKeyResponse {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface CreatedApiKeyResponse extends ApiKeyResponse {
+  key: string;
+}
+
+export interface CreateApiKeyPayload {
+  name: string;
+  expiresAt?: string;
+}
+
+export const getApiKeys = async (): Promise<ApiKeyResponse[]> => {
+  const { data } = await http.get<ApiKeyResponse[]>('/api-keys');
+  return data;
+};
+
+export const createApiKey = async (payload: CreateApiKeyPayload) => {
+  const { data } = await http.post<CreatedApiKeyResponse>('/api-keys', payload);
+  return data;
+};
+
+export const revokeApiKey = async (id: string) => {
+  await http.delete(`/api-keys/${id}`);
+};
@@ -0,0 +1,29 @@
+import { http } from './http';
+
+export interface CabysNode {
+  code: string;
+  level: number;
+  descripcion: string | null;
+  itemCount: number;
+  hasChildren: boolean;
+}
+
+export interface CabysTree {
+  parent: string | null;
+  level: number;
+  children: CabysNode[];
+}
+
+export type CabysAncestor = Pick<CabysNode, 'code' | 'level' | 'descripcion'>;
+
+export const getCabysTree = async (parent?: string): Promise<CabysTree> => {
+  const { data } = await http.get<CabysTree>('/cabys/tree', {
+    params: parent ? { parent } : undefined,
+  });
+  return data;
+};
+
+export const getCabysAncestors = async (code: string): Promise<CabysAncestor[]> => {
+  const { data } = await http.get<CabysAncestor[]>(`/cabys/${code}/ancestors`);
+  return data;
+};
@@ -0,0 +1,51 @@
+import { http } from './http';
+import type { CatalogCodeFormat, CatalogFieldValidation } from './catalogs';
+
+export type CatalogDefinitionFieldType = 'string' | 'int' | 'numeric' | 'reference';
+
+export interface CatalogDefinitionField {
+  name: string;
+  label?: string;
+  type: CatalogDefinitionFieldType;
+  required?: boolean;
+  length?: number;
+  precision?: number;
+  scale?: number;
+  excelKeys?: string[];
+  reference?: {
+    catalog: string;
+    field: string;
+  };
+  validation?: CatalogFieldValidation;
+  codeFormat?: CatalogCodeFormat;
+}
+
+export interface CatalogDefinition {
+  key: string;
+  label: string;
+  tableName: string;
+  fields: CatalogDefinitionField[];
+  uniqueBy: string[];
+  searchFields: string[];
+  builtIn: boolean;
+}
+
+export type SaveCatalogDefinitionPayload = Omit<CatalogDefinition, 'tableName' | 'builtIn'>;
+
+export const getCatalogDefinitions = async (): Promise<CatalogDefinition[]> => {
+  const { data } = await http.get<CatalogDefinition[]>('/catalog-definitions');
+  return data;
+};
+
+export const createCatalogDefinition = async (payload: SaveCatalogDefinitionPayload) => {
+  const { data } = await http.post<CatalogDefinition>('/catalog-definitions', payload);
+  return data;
+};
+
+export const updateCatalogDefinition = async (
+  key: string,
+  payload: SaveCatalogDefinitionPayload,
+) => {
+  const { data } = await http.put<CatalogDefinition>(`/catalog-definitions/${key}`, payload);
+  return data;
+};
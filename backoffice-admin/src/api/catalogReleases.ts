@@ -0,0 +1,57 @@
+import { http } from './http';
+
+export interface CatalogReleaseSnapshotSummary {
+  catalogKey: string;
+  checksum: string;
+  entryCount: number;
+}
+
+export interface CatalogRelease {
+  id: string;
+  version: string;
+  checksum: string;
+  notes: string | null;
+  publishedBy: string | null;
+  createdAt: string;
+  catalogs: CatalogReleaseSnapshotSummary[];
+}
+
+export interface PublishCatalogReleasePayload {
+  catalogKey?: string;
+  notes?: string;
+}
+
+export interface CatalogReleaseDiff {
+  version: string;
+  catalogs: Array<{
+    catalogKey: string;
+    previousVersion: string | null;
+    added: Record<string, unknown>[];
+    removed: Record<string, unknown>[];
+    changed: Array<{
+      before: Record<string, unknown>;
+      after: Record<string, unknown>;
+    }>;
+  }>;
+}
+
+export const getCatalogReleases = async (): Promise<CatalogRelease[]> => {
+  const { data } = await http.get<CatalogRelease[]>('/catalog-releases');
+  return data;
+};
+
+export const publishCatalogRelease = async (
+  payload: PublishCatalogReleasePayload,
+): Promise<CatalogRelease> => {
+  const { data } = await http.post<CatalogRelease>('/catalog-releases', payload);
+  return data;
+};
+
+export const getCatalogReleaseDiff = async (
+  version: string,
+): Promise<CatalogReleaseDiff> => {
+  const { data } = await http.get<CatalogReleaseDiff>(
+    `/catalog-releases/${version}/diff`,
+  );
+  return data;
+};
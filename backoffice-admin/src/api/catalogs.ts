@@ -1,14 +1,78 @@
+import axios from 'axios';
 import { http, uploadClient } from './http';
 
-export interface CatalogDefinition {
+export type CatalogFieldType = 'string' | 'int' | 'numeric' | 'date' | 'reference';
+
+export interface CatalogFieldReference {
+  catalog: string;
+  field: string;
+}
+
+export type CatalogFieldRule = 'pattern' | 'min' | 'max' | 'allowedValues';
+
+export interface CatalogFieldValidation {
+  pattern?: string;
+  min?: number;
+  max?: number;
+  allowedValues?: Array<string | number>;
+  messages?: Partial<Record<CatalogFieldRule, string>>;
+}
+
+export interface CatalogCodeFormat {
+  width: number;
+  padding?: string;
+  numeric?: boolean;
+}
+
+export interface CatalogFieldConfig {
+  name: string;
+  label: string;
+  type: CatalogFieldType;
+  required?: boolean;
+  maxLength?: number;
+  precision?: number;
+  scale?: number;
+  reference?: CatalogFieldReference;
+  validation?: CatalogFieldValidation;
+  codeFormat?: CatalogCodeFormat;
+}
+
+export interface CatalogMetadata {
   key: string;
   label: string;
+  fields: CatalogFieldConfig[];
+  uniqueBy: string[];
+  searchFields: string[];
+}
+
+export const catalogValidityFields: CatalogFieldConfig[] = [
+  { name: 'vigenteDesde', label: 'Vigente desde', type: 'date' },
+  { name: 'vigenteHasta', label: 'Vigente hasta', type: 'date' },
+];
+
+export type CatalogSortDirection = 'asc' | 'desc';
+
+export interface CatalogSort {
+  field: string;
+  direction: CatalogSortDirection;
 }
 
+export type CatalogFilterOperator = 'eq' | 'gt' | 'gte' | 'lt' | 'lte' | 'prefix';
+
+export type CatalogFieldFilter =
+  | string
+  | string[]
+  | Partial<Record<CatalogFilterOperator, string>>;
+
 export interface CatalogListParams {
   page?: number;
   limit?: number;
   search?: string;
+  asOf?: string;
+  includeInactive?: boolean;
+  release?: string;
+  sort?: CatalogSort[];
+  filter?: Record<string, CatalogFieldFilter>;
 }
 
 export interface CatalogListResponse<T = Record<string, unknown>> {
@@ -17,14 +81,45 @@ export interface CatalogListResponse<T = Record<string, unknown>> {
     total: number;
     page: number;
     limit: number;
+    release?: string;
   };
 }
 
-export const getCatalogDefinitions = async (): Promise<CatalogDefinition[]> => {
-  const { data } = await http.get<CatalogDefinition[]>('/catalogs');
+export type CatalogAuditAction =
+  | 'create'
+  | 'update'
+  | 'deactivate'
+  | 'restore'
+  | 'delete'
+  | 'import'
+  | 'rollback';
+
+export interface CatalogAuditEntry {
+  id: string;
+  catalogKey: string;
+  recordId: string;
+  action: CatalogAuditAction;
+  userId: string | null;
+  username: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export type ExportFormat = 'xlsx' | 'csv' | 'json';
+
+export const getCatalogsMetadata = async (): Promise<CatalogMetadata[]> => {
+  const { data } = await http.get<CatalogMetadata[]>('/catalogs');
   return data;
 };
 
+const toCatalogQueryParams = ({ sort, ...params }: CatalogListParams) => ({
+  ...params,
+  sort: sort?.length
+    ? sort.map(({ field, direction }) => `${field}:${direction}`).join(',')
+    : undefined,
+});
+
 export const getCatalogEntries = async <T extends Record<string, unknown>>(
   catalogKey: string,
   params: CatalogListParams,
@@ -32,7 +127,7 @@ export const getCatalogEntries = async <T extends Record<string, unknown>>(
   const { data } = await http.get<CatalogListResponse<T>>(
     `/catalogs/${catalogKey}`,
     {
-      params,
+      params: toCatalogQueryParams(params),
     },
   );
   return data;
@@ -46,6 +141,28 @@ export const getCatalogEntry = async <T extends Record<string, unknown>>(
   return data;
 };
 
+export const getCatalogEntryHistory = async (
+  catalogKey: string,
+  id: string,
+): Promise<CatalogAuditEntry[]> => {
+  const { data } = await http.get<CatalogAuditEntry[]>(
+    `/catalogs/${catalogKey}/${id}/history`,
+  );
+  return data;
+};
+
+export const exportCatalogEntries = async (
+  catalogKey: string,
+  params: Omit<CatalogListParams, 'page' | 'limit' | 'release'>,
+  format: ExportFormat,
+) => {
+  const { data } = await http.get<Blob>(`/catalogs/${catalogKey}/export`, {
+    params: { ...toCatalogQueryParams(params), format },
+    responseType: 'blob',
+  });
+  return data;
+};
+
 export const createCatalogEntry = async (
   catalogKey: string,
   payload: Record<string, unknown>,
@@ -67,15 +184,323 @@ export const deleteCatalogEntry = async (catalogKey: string, id: string) => {
   await http.delete(`/catalogs/${catalogKey}/${id}`);
 };
 
-export const importCatalogEntries = async (
+export const restoreCatalogEntry = async (catalogKey: string, id: string) => {
+  const { data } = await http.post(`/catalogs/${catalogKey}/${id}/restore`);
+  return data;
+};
+
+export type CatalogBulkAction = 'create' | 'update' | 'delete' | 'deactivate';
+
+export interface CatalogBulkOperation {
+  op: CatalogBulkAction;
+  id?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface CatalogBulkResult {
+  index: number;
+  op: CatalogBulkAction;
+  id: string;
+  record?: Record<string, unknown>;
+}
+
+export const bulkCatalogEntries = async (
   catalogKey: string,
+  operations: CatalogBulkOperation[],
+): Promise<CatalogBulkResult[]> => {
+  const { data } = await http.post<{ results: CatalogBulkResult[] }>(
+    `/catalogs/${catalogKey}/bulk`,
+    { operations },
+  );
+  return data.results;
+};
+
+export interface CatalogImportFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface CatalogImportPreview {
+  mode: 'append' | 'replace';
+  // Filas del archivo leidas para la vista previa y si son todas
+  sample: { rows: number; complete: boolean };
+  summary: {
+    insert: number;
+    update: number;
+    unchanged: number;
+    remove: number;
+    invalid: number;
+  };
+  inserts: Record<string, unknown>[];
+  updates: Array<{
+    id: string;
+    record: Record<string, unknown>;
+    changes: CatalogImportFieldChange[];
+  }>;
+  removals: Record<string, unknown>[];
+  errors: Array<{ row: number; message: string }>;
+}
+
+export interface ImportFileOptions {
+  delimiter?: string;
+  encoding?: string;
+  sheet?: string;
+  headerRow?: number;
+}
+
+export interface ImportFilePreview {
+  format: 'xlsx' | 'csv' | 'tsv' | 'json';
+  sheets: Array<{ name: string; rowCount: number }>;
+  sheet: string | null;
+  headerRow: number;
+  rows: Array<{ rowNumber: number; values: unknown[] }>;
+}
+
+// Vercel corta las solicitudes de más de 4,5 MB; los archivos más grandes se suben por partes
+const MULTIPART_MAX_FILE_SIZE = 4.5 * 1024 * 1024;
+
+const storedUploads = new WeakMap<File, Promise<string | null>>();
+
+// Devuelve null cuando la API no admite cargas por partes (el backoffice NestJS recibe el archivo completo)
+const uploadInChunks = async (file: File): Promise<string | null> => {
+  let upload: { id: string; chunkSize: number };
+  try {
+    ({ data: upload } = await http.post<{ id: string; chunkSize: number }>(
+      '/imports/uploads',
+      { fileName: file.name, mimetype: file.type || undefined, size: file.size },
+    ));
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+
+  for (let position = 0; position * upload.chunkSize < file.size; position++) {
+    const start = position * upload.chunkSize;
+    await uploadClient.put(
+      `/imports/uploads/${upload.id}/chunks/${position}`,
+      file.slice(start, start + upload.chunkSize),
+      { headers: { 'Content-Type': 'application/octet-stream' } },
+    );
+  }
+  return upload.id;
+};
+
+// La inspección, la vista previa y la importación de un mismo archivo reutilizan la carga
+const getStoredUpload = (file: File) => {
+  let upload = storedUploads.get(file);
+  if (!upload) {
+    upload = uploadInChunks(file);
+    storedUploads.set(file, upload);
+    upload.catch(() => storedUploads.delete(file));
+  }
+  return upload;
+};
+
+// La API borra la carga al importarla
+export const releaseImportUpload = (file: File) => {
+  storedUploads.delete(file);
+};
+
+export const buildImportFormData = async (
   file: File,
   mode: 'append' | 'replace',
+  options: ImportFileOptions = {},
 ) => {
   const formData = new FormData();
-  formData.append('file', file);
+  const uploadId =
+    file.size > MULTIPART_MAX_FILE_SIZE ? await getStoredUpload(file) : null;
+  if (uploadId) {
+    formData.append('uploadId', uploadId);
+  } else {
+    formData.append('file', file);
+  }
   formData.append('mode', mode);
-  const { data } = await uploadClient.post(
+  if (options.delimiter) {
+    formData.append('delimiter', options.delimiter);
+  }
+  if (options.encoding) {
+    formData.append('encoding', options.encoding);
+  }
+  if (options.sheet) {
+    formData.append('sheet', options.sheet);
+  }
+  if (options.headerRow) {
+    formData.append('headerRow', String(options.headerRow));
+  }
+  return formData;
+};
+
+export const inspectImportFile = async (
+  file: File,
+  options?: ImportFileOptions,
+) => {
+  const formData = await buildImportFormData(file, 'append', options);
+  const { data } = await uploadClient.post<ImportFilePreview>(
+    '/imports/inspect',
+    formData,
+    {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    },
+  );
+  return data;
+};
+
+export type CatalogColumnMapping = Record<string, string | null>;
+
+export interface CatalogImportColumns {
+  sheets: ImportFilePreview['sheets'];
+  sheet: string | null;
+  headerRow: number;
+  previewRows: ImportFilePreview['rows'];
+  headers: string[];
+  fields: Array<{ name: string; label: string; required: boolean }>;
+  suggestedMapping: CatalogColumnMapping;
+  missingRequired: string[];
+  savedMapping: CatalogColumnMapping | null;
+}
+
+export interface CatalogImportMapping {
+  catalogKey: string;
+  mapping: CatalogColumnMapping;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+const buildCatalogImportFormData = async (
+  file: File,
+  mode: 'append' | 'replace',
+  options?: ImportFileOptions,
+  columnMapping?: CatalogColumnMapping,
+) => {
+  const formData = await buildImportFormData(file, mode, options);
+  if (columnMapping) {
+    formData.append('columnMapping', JSON.stringify(columnMapping));
+  }
+  return formData;
+};
+
+export const detectCatalogImportColumns = async (
+  catalogKey: string,
+  file: File,
+  options?: ImportFileOptions,
+) => {
+  const formData = await buildImportFormData(file, 'append', options);
+  const { data } = await uploadClient.post<CatalogImportColumns>(
+    `/catalogs/${catalogKey}/import/columns`,
+    formData,
+    {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    },
+  );
+  return data;
+};
+
+export const saveCatalogImportMapping = async (
+  catalogKey: string,
+  mapping: CatalogColumnMapping,
+) => {
+  const { data } = await http.put<CatalogImportMapping>(
+    `/catalogs/${catalogKey}/import/mapping`,
+    { mapping },
+  );
+  return data;
+};
+
+export const deleteCatalogImportMapping = async (catalogKey: string) => {
+  await http.delete(`/catalogs/${catalogKey}/import/mapping`);
+};
+
+export const previewCatalogImport = async (
+  catalogKey: string,
+  file: File,
+  mode: 'append' | 'replace',
+  options?: ImportFileOptions,
+  columnMapping?: CatalogColumnMapping,
+) => {
+  const formData = await buildCatalogImportFormData(
+    file,
+    mode,
+    options,
+    columnMapping,
+  );
+  const { data } = await uploadClient.post<CatalogImportPreview>(
+    `/catalogs/${catalogKey}/import/preview`,
+    formData,
+    {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    },
+  );
+  return data;
+};
+
+export type ImportJobStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'rolled_back';
+
+export interface ImportJob {
+  id: string;
+  catalogKey: string;
+  mode: 'append' | 'replace';
+  status: ImportJobStatus;
+  fileName: string | null;
+  checksum: string | null;
+  totalRows: number;
+  processedRows: number;
+  insertedRows: number;
+  updatedRows: number;
+  unchangedRows: number;
+  deactivatedRows: number;
+  errors: Array<{ row: number; message: string }>;
+  username: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  rolledBackAt: string | null;
+  rolledBackBy: string | null;
+}
+
+export interface ImportJobListParams {
+  page?: number;
+  limit?: number;
+  catalogKey?: string;
+  status?: ImportJobStatus;
+}
+
+export interface ImportJobListResponse {
+  data: ImportJob[];
+  meta: {
+    total: number;
+    page: number;
+    limit: number;
+  };
+}
+
+export const importCatalogEntries = async (
+  catalogKey: string,
+  file: File,
+  mode: 'append' | 'replace',
+  options?: ImportFileOptions,
+  columnMapping?: CatalogColumnMapping,
+) => {
+  const formData = await buildCatalogImportFormData(
+    file,
+    mode,
+    options,
+    columnMapping,
+  );
+  const { data } = await uploadClient.post<ImportJob>(
     `/catalogs/${catalogKey}/import`,
     formData,
     {
@@ -84,5 +509,50 @@ export const importCatalogEntries = async (
       },
     },
   );
+  releaseImportUpload(file);
+  return data;
+};
+
+export const getImportJob = async (id: string): Promise<ImportJob> => {
+  const { data } = await http.get<ImportJob>(`/import-jobs/${id}`);
+  return data;
+};
+
+export const getImportJobs = async (
+  params: ImportJobListParams,
+): Promise<ImportJobListResponse> => {
+  const { data } = await http.get<ImportJobListResponse>('/import-jobs', {
+    params,
+  });
   return data;
 };
+
+export const rollbackImportJob = async (id: string): Promise<ImportJob> => {
+  const { data } = await http.post<ImportJob>(`/import-jobs/${id}/rollback`);
+  return data;
+};
+
+export interface ImportRollbackConflict {
+  id: string;
+  key: Record<string, unknown>;
+  reason: 'edited' | 'referenced';
+  message: string;
+}
+
+export interface ImportRollbackConflicts {
+  message: string;
+  conflicts: ImportRollbackConflict[];
+  conflictCount: number;
+}
+
+// Registros que impidieron revertir una importacion (409), o null si el error fue otro
+export const getRollbackConflicts = (error: unknown): ImportRollbackConflicts | null => {
+  if (
+    axios.isAxiosError<ImportRollbackConflicts>(error) &&
+    error.response?.status === 409 &&
+    Array.isArray(error.response.data?.conflicts)
+  ) {
+    return error.response.data;
+  }
+  return null;
+};
@@ -1,5 +1,11 @@
 import { http, uploadClient } from './http';
-import type { CatalogListResponse, CatalogListParams } from './catalogs';
+import { buildImportFormData, releaseImportUpload } from './catalogs';
+import type {
+  CatalogListResponse,
+  CatalogListParams,
+  ExportFormat,
+  ImportFileOptions,
+} from './catalogs';
 
 export interface Province {
   id: string;
@@ -44,6 +50,24 @@ export interface Barrio {
   updatedAt: string;
 }
 
+type GeographyExportParams = Omit<CatalogListParams, 'page' | 'limit'> & {
+  provinceCode?: number;
+  cantonCode?: number;
+  districtName?: string;
+};
+
+export const exportGeography = async (
+  level: 'provinces' | 'cantons' | 'districts' | 'barrios',
+  params: GeographyExportParams,
+  format: ExportFormat,
+) => {
+  const { data } = await http.get<Blob>(`/geography/${level}/export`, {
+    params: { ...params, format },
+    responseType: 'blob',
+  });
+  return data;
+};
+
 export const listProvinces = async (params: CatalogListParams) => {
   const { data } = await http.get<CatalogListResponse<Province>>(
     '/geography/provinces',
@@ -72,15 +96,18 @@ export const deleteProvince = async (id: string) => {
   await http.delete(`/geography/provinces/${id}`);
 };
 
-export const importProvinces = async (file: File, mode: 'append' | 'replace') => {
-  const formData = new FormData();
-  formData.append('file', file);
-  formData.append('mode', mode);
+export const importProvinces = async (
+  file: File,
+  mode: 'append' | 'replace',
+  options?: ImportFileOptions,
+) => {
+  const formData = await buildImportFormData(file, mode, options);
   const { data } = await uploadClient.post(
     '/geography/provinces/import',
     formData,
     { headers: { 'Content-Type': 'multipart/form-data' } },
   );
+  releaseImportUpload(file);
   return data;
 };
 
@@ -121,15 +148,18 @@ export const deleteCanton = async (id: string) => {
   await http.delete(`/geography/cantons/${id}`);
 };
 
-export const importCantons = async (file: File, mode: 'append' | 'replace') => {
-  const formData = new FormData();
-  formData.append('file', file);
-  formData.append('mode', mode);
+export const importCantons = async (
+  file: File,
+  mode: 'append' | 'replace',
+  options?: ImportFileOptions,
+) => {
+  const formData = await buildImportFormData(file, mode, options);
   const { data } = await uploadClient.post(
     '/geography/cantons/import',
     formData,
     { headers: { 'Content-Type': 'multipart/form-data' } },
   );
+  releaseImportUpload(file);
   return data;
 };
 
@@ -174,15 +204,18 @@ export const deleteDistrict = async (id: string) => {
   await http.delete(`/geography/districts/${id}`);
 };
 
-export const importDistricts = async (file: File, mode: 'append' | 'replace') => {
-  const formData = new FormData();
-  formData.append('file', file);
-  formData.append('mode', mode);
+export const importDistricts = async (
+  file: File,
+  mode: 'append' | 'replace',
+  options?: ImportFileOptions,
+) => {
+  const formData = await buildImportFormData(file, mode, options);
   const { data } = await uploadClient.post(
     '/geography/districts/import',
     formData,
     { headers: { 'Content-Type': 'multipart/form-data' } },
   );
+  releaseImportUpload(file);
   return data;
 };
 
@@ -234,14 +267,17 @@ export const deleteBarrio = async (id: string) => {
   await http.delete(`/geography/barrios/${id}`);
 };
 
-export const importBarrios = async (file: File, mode: 'append' | 'replace') => {
-  const formData = new FormData();
-  formData.append('file', file);
-  formData.append('mode', mode);
+export const importBarrios = async (
+  file: File,
+  mode: 'append' | 'replace',
+  options?: ImportFileOptions,
+) => {
+  const formData = await buildImportFormData(file, mode, options);
   const { data } = await uploadClient.post(
     '/geography/barrios/import',
     formData,
     { headers: { 'Content-Type': 'multipart/form-data' } },
   );
+  releaseImportUpload(file);
   return data;
 };
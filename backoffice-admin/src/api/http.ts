@@ -62,3 +62,16 @@ uploadClient.interceptors.response.use(
     return Promise.reject(error);
   }
 );
+
+export const getApiErrorMessage = (error: unknown, fallback: string) => {
+  if (axios.isAxiosError<{ message?: string | string[] }>(error)) {
+    const message = error.response?.data?.message;
+    if (Array.isArray(message)) {
+      return message.join('. ');
+    }
+    if (message) {
+      return message;
+    }
+  }
+  return fallback;
+};
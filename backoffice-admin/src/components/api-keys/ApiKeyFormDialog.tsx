@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+import type { CreateApiKeyPayload } from '../../api/apiKeys';
+
+interface ApiKeyFormDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (payload: CreateApiKeyPayload) => void;
+  submitting?: boolean;
+}
+
+export const ApiKeyFormDialog = ({
+  open,
+  onClose,
+  onSubmit,
+  submitting,
+}: ApiKeyFormDialogProps) => {
+  const [name, setName] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setExpiresAt('');
+    }
+  }, [open]);
+
+  const nameError = name.length > 0 && name.trim().length < 3;
+
+  const submit = () => {
+    onSubmit({
+      name: name.trim(),
+      expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Nueva clave API</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 0.5 }}>
+          <TextField
+            label="Nombre"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            error={nameError}
+            helperText={
+              nameError
+                ? 'Debe tener al menos 3 caracteres'
+                : 'Identifica el sistema que usara la clave'
+            }
+            inputProps={{ maxLength: 120 }}
+            autoFocus
+          />
+          <TextField
+            label="Expira el"
+            type="date"
+            value={expiresAt}
+            onChange={(event) => setExpiresAt(event.target.value)}
+            helperText="Opcional. Sin fecha la clave no expira."
+            InputLabelProps={{ shrink: true }}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button
+          variant="contained"
+          onClick={submit}
+          disabled={submitting || name.trim().length < 3}
+        >
+          {submitting ? 'Creando...' : 'Crear'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
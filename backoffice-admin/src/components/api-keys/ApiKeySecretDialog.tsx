@@ -0,0 +1,67 @@
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  InputAdornment,
+  TextField,
+} from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { useSnackbar } from 'notistack';
+import type { CreatedApiKeyResponse } from '../../api/apiKeys';
+
+interface ApiKeySecretDialogProps {
+  apiKey: CreatedApiKeyResponse | null;
+  onClose: () => void;
+}
+
+export const ApiKeySecretDialog = ({ apiKey, onClose }: ApiKeySecretDialogProps) => {
+  const { enqueueSnackbar } = useSnackbar();
+
+  const copy = async () => {
+    if (!apiKey) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(apiKey.key);
+      enqueueSnackbar('Clave copiada', { variant: 'success' });
+    } catch {
+      enqueueSnackbar('No se pudo copiar la clave', { variant: 'error' });
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(apiKey)} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Clave API creada</DialogTitle>
+      <DialogContent dividers>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Copia la clave ahora. Por seguridad no se volvera a mostrar.
+        </Alert>
+        <TextField
+          label={apiKey?.name}
+          value={apiKey?.key ?? ''}
+          fullWidth
+          InputProps={{
+            readOnly: true,
+            sx: { fontFamily: 'monospace' },
+            endAdornment: (
+              <InputAdornment position="end">
+                <IconButton onClick={copy} edge="end" aria-label="Copiar clave">
+                  <ContentCopyIcon fontSize="small" />
+                </IconButton>
+              </InputAdornment>
+            ),
+          }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button variant="contained" onClick={onClose}>
+          Listo
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,617 @@
+import { useEffect, useMemo } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  FormHelperText,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import { Controller, useFieldArray, useForm, useWatch } from 'react-hook-form';
+import type { Resolver } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type {
+  CatalogDefinition,
+  CatalogDefinitionField,
+  SaveCatalogDefinitionPayload,
+} from '../../api/catalogDefinitions';
+import type { CatalogFieldRule, CatalogFieldValidation } from '../../api/catalogs';
+
+const fieldTypeLabels: Record<CatalogDefinitionField['type'], string> = {
+  string: 'Texto',
+  int: 'Entero',
+  numeric: 'Numerico',
+  reference: 'Referencia',
+};
+
+const optionalInteger = (message: string) =>
+  z.string().refine((value) => value === '' || /^\d+$/.test(value), message);
+
+const optionalNumber = (message: string) =>
+  z.string().refine((value) => value === '' || /^-?\d+(\.\d+)?$/.test(value), message);
+
+const isValidPattern = (value: string) => {
+  try {
+    new RegExp(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const fieldSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[a-z][a-zA-Z0-9]*$/, 'Use letras y digitos, iniciando en minuscula'),
+    label: z.string().max(120, 'Maximo 120 caracteres'),
+    type: z.enum(['string', 'int', 'numeric', 'reference']),
+    required: z.boolean(),
+    length: optionalInteger('Debe ser un entero'),
+    codeWidth: optionalInteger('Debe ser un entero'),
+    precision: optionalInteger('Debe ser un entero'),
+    scale: optionalInteger('Debe ser un entero'),
+    referenceCatalog: z.string(),
+    referenceField: z.string(),
+    excelKeys: z.string(),
+    pattern: z.string().refine(isValidPattern, 'Expresion regular invalida'),
+    min: optionalNumber('Debe ser un numero'),
+    max: optionalNumber('Debe ser un numero'),
+    allowedValues: z.string(),
+    ruleMessage: z.string().max(300, 'Maximo 300 caracteres'),
+  })
+  .superRefine((field, context) => {
+    if (field.min !== '' && field.max !== '' && Number(field.min) > Number(field.max)) {
+      context.addIssue({
+        code: 'custom',
+        path: ['max'],
+        message: 'El maximo debe ser mayor o igual al minimo',
+      });
+    }
+    const allowedValues = field.allowedValues
+      .split(',')
+      .map((allowed) => allowed.trim())
+      .filter(Boolean);
+    if (
+      field.type !== 'string' &&
+      allowedValues.some((allowed) => !/^-?\d+(\.\d+)?$/.test(allowed))
+    ) {
+      context.addIssue({
+        code: 'custom',
+        path: ['allowedValues'],
+        message: 'Los valores permitidos deben ser numericos',
+      });
+    }
+    if (field.type === 'reference' && (!field.referenceCatalog || !field.referenceField)) {
+      context.addIssue({
+        code: 'custom',
+        path: ['referenceField'],
+        message: 'Seleccione el catalogo y el campo referenciados',
+      });
+    }
+  });
+
+const schema = z
+  .object({
+    key: z
+      .string()
+      .regex(
+        /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/,
+        'Use minusculas, digitos y guiones (ej. tipos-moneda)',
+      ),
+    label: z.string().trim().min(1, 'La etiqueta es requerida'),
+    fields: z.array(fieldSchema).min(1, 'Agregue al menos un campo'),
+    uniqueBy: z.array(z.string()).min(1, 'Seleccione al menos un campo'),
+    searchFields: z.array(z.string()).min(1, 'Seleccione al menos un campo'),
+  })
+  .superRefine((values, context) => {
+    const names = values.fields.map((field) => field.name);
+    names.forEach((name, index) => {
+      if (names.indexOf(name) !== index) {
+        context.addIssue({
+          code: 'custom',
+          path: ['fields', index, 'name'],
+          message: 'El nombre esta repetido',
+        });
+      }
+    });
+    (['uniqueBy', 'searchFields'] as const).forEach((key) => {
+      if (values[key].some((name) => !names.includes(name))) {
+        context.addIssue({
+          code: 'custom',
+          path: [key],
+          message: 'Incluye campos que ya no existen',
+        });
+      }
+    });
+  });
+
+type DefinitionFormValues = z.infer<typeof schema>;
+type FieldFormValues = DefinitionFormValues['fields'][number];
+
+const emptyField: FieldFormValues = {
+  name: '',
+  label: '',
+  type: 'string',
+  required: false,
+  length: '',
+  codeWidth: '',
+  precision: '',
+  scale: '',
+  referenceCatalog: '',
+  referenceField: '',
+  excelKeys: '',
+  pattern: '',
+  min: '',
+  max: '',
+  allowedValues: '',
+  ruleMessage: '',
+};
+
+const toFormValues = (definition?: CatalogDefinition | null): DefinitionFormValues => ({
+  key: definition?.key ?? '',
+  label: definition?.label ?? '',
+  fields: definition?.fields.map((field) => ({
+    name: field.name,
+    label: field.label ?? '',
+    type: field.type,
+    required: Boolean(field.required),
+    length: field.length?.toString() ?? '',
+    codeWidth: field.codeFormat?.width.toString() ?? '',
+    precision: field.precision?.toString() ?? '',
+    scale: field.scale?.toString() ?? '',
+    referenceCatalog: field.reference?.catalog ?? '',
+    referenceField: field.reference?.field ?? '',
+    excelKeys: field.excelKeys?.join(', ') ?? '',
+    pattern: field.validation?.pattern ?? '',
+    min: field.validation?.min?.toString() ?? '',
+    max: field.validation?.max?.toString() ?? '',
+    allowedValues: field.validation?.allowedValues?.join(', ') ?? '',
+    ruleMessage: Object.values(field.validation?.messages ?? {})[0] ?? '',
+  })) ?? [{ ...emptyField }],
+  uniqueBy: definition?.uniqueBy ?? [],
+  searchFields: definition?.searchFields ?? [],
+});
+
+const toValidation = (field: FieldFormValues): CatalogFieldValidation | undefined => {
+  if (field.type === 'reference') return undefined;
+  const numeric = field.type !== 'string';
+  const validation: CatalogFieldValidation = {};
+  if (field.pattern) validation.pattern = field.pattern;
+  if (numeric && field.min !== '') validation.min = Number(field.min);
+  if (numeric && field.max !== '') validation.max = Number(field.max);
+  const allowedValues = field.allowedValues
+    .split(',')
+    .map((allowed) => allowed.trim())
+    .filter(Boolean);
+  if (allowedValues.length) {
+    validation.allowedValues = numeric ? allowedValues.map(Number) : allowedValues;
+  }
+  const rules = Object.keys(validation) as CatalogFieldRule[];
+  if (!rules.length) return undefined;
+  if (field.ruleMessage.trim()) {
+    validation.messages = Object.fromEntries(
+      rules.map((rule) => [rule, field.ruleMessage.trim()]),
+    );
+  }
+  return validation;
+};
+
+const toPayload = (values: DefinitionFormValues): SaveCatalogDefinitionPayload => ({
+  key: values.key,
+  label: values.label.trim(),
+  fields: values.fields.map((field) => ({
+    name: field.name,
+    label: field.label.trim() || undefined,
+    type: field.type,
+    required: field.required,
+    length: field.type === 'string' && field.length ? Number(field.length) : undefined,
+    codeFormat:
+      field.type === 'string' && field.codeWidth
+        ? { width: Number(field.codeWidth), padding: '0', numeric: true }
+        : undefined,
+    precision: field.type === 'numeric' && field.precision ? Number(field.precision) : undefined,
+    scale: field.type === 'numeric' && field.scale ? Number(field.scale) : undefined,
+    reference:
+      field.type === 'reference'
+        ? { catalog: field.referenceCatalog, field: field.referenceField }
+        : undefined,
+    excelKeys: field.excelKeys
+      .split(',')
+      .map((excelKey) => excelKey.trim())
+      .filter(Boolean),
+    validation: toValidation(field),
+  })),
+  uniqueBy: values.uniqueBy,
+  searchFields: values.searchFields,
+});
+
+interface CatalogDefinitionFormDialogProps {
+  open: boolean;
+  definition?: CatalogDefinition | null;
+  definitions: CatalogDefinition[];
+  onClose: () => void;
+  onSubmit: (payload: SaveCatalogDefinitionPayload) => void;
+  submitting?: boolean;
+}
+
+export const CatalogDefinitionFormDialog = ({
+  open,
+  definition,
+  definitions,
+  onClose,
+  onSubmit,
+  submitting,
+}: CatalogDefinitionFormDialogProps) => {
+  const editing = Boolean(definition);
+
+  const {
+    control,
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<DefinitionFormValues>({
+    resolver: zodResolver(schema) as Resolver<DefinitionFormValues>,
+    defaultValues: toFormValues(definition),
+  });
+  const { fields, append, remove } = useFieldArray({ control, name: 'fields' });
+  const watchedFields = useWatch({ control, name: 'fields' });
+
+  useEffect(() => {
+    if (open) {
+      reset(toFormValues(definition));
+    }
+  }, [open, definition, reset]);
+
+  const fieldNames = useMemo(
+    () => (watchedFields ?? []).map((field) => field.name).filter(Boolean),
+    [watchedFields],
+  );
+
+  const referenceTargets = (catalogKey: string) =>
+    definitions
+      .find((candidate) => candidate.key === catalogKey)
+      ?.fields.filter((field) => field.type !== 'reference') ?? [];
+
+  const renderFieldSelect = (name: 'uniqueBy' | 'searchFields', label: string) => (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field }) => (
+        <FormControl fullWidth error={Boolean(errors[name])}>
+          <InputLabel id={`${name}-label`}>{label}</InputLabel>
+          <Select
+            labelId={`${name}-label`}
+            label={label}
+            multiple
+            value={field.value}
+            onChange={(event) =>
+              field.onChange(
+                typeof event.target.value === 'string'
+                  ? event.target.value.split(',')
+                  : event.target.value,
+              )
+            }
+            renderValue={(selected) => selected.join(', ')}
+          >
+            {fieldNames.map((fieldName) => (
+              <MenuItem key={fieldName} value={fieldName}>
+                {fieldName}
+              </MenuItem>
+            ))}
+          </Select>
+          <FormHelperText>{errors[name]?.message}</FormHelperText>
+        </FormControl>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>{editing ? 'Editar definicion' : 'Nueva definicion'}</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2} sx={{ mt: 0.5 }}>
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' },
+              gap: 2,
+            }}
+          >
+            <TextField
+              label="Clave"
+              {...register('key')}
+              disabled={editing}
+              error={Boolean(errors.key)}
+              helperText={
+                errors.key?.message ??
+                (editing ? 'La clave no se puede modificar' : 'Se usa en la URL del API')
+              }
+            />
+            <TextField
+              label="Etiqueta"
+              {...register('label')}
+              error={Boolean(errors.label)}
+              helperText={errors.label?.message}
+            />
+          </Box>
+
+          <Divider />
+          <Typography variant="subtitle1" fontWeight={600}>
+            Campos
+          </Typography>
+          {editing && (
+            <Typography variant="body2" color="text.secondary">
+              Solo se permiten cambios seguros: agregar campos, ampliar longitudes o
+              precision y volver opcionales los campos. Los campos eliminados conservan
+              su columna.
+            </Typography>
+          )}
+
+          {fields.map((item, index) => {
+            const current = watchedFields?.[index] ?? item;
+            const fieldErrors = errors.fields?.[index];
+            return (
+              <Paper key={item.id} variant="outlined" sx={{ p: 2 }}>
+                <Box
+                  sx={{
+                    display: 'grid',
+                    gridTemplateColumns: { xs: '1fr', md: '2fr 1.5fr 1fr 1fr' },
+                    gap: 2,
+                    alignItems: 'flex-start',
+                  }}
+                >
+                  <TextField
+                    label="Nombre"
+                    size="small"
+                    {...register(`fields.${index}.name`)}
+                    error={Boolean(fieldErrors?.name)}
+                    helperText={fieldErrors?.name?.message}
+                  />
+                  <TextField
+                    label="Etiqueta"
+                    size="small"
+                    {...register(`fields.${index}.label`)}
+                    error={Boolean(fieldErrors?.label)}
+                    helperText={fieldErrors?.label?.message}
+                  />
+                  <Controller
+                    name={`fields.${index}.type`}
+                    control={control}
+                    render={({ field }) => (
+                      <TextField select label="Tipo" size="small" {...field}>
+                        {Object.entries(fieldTypeLabels).map(([value, label]) => (
+                          <MenuItem key={value} value={value}>
+                            {label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                  {current.type === 'string' && (
+                    <>
+                      <TextField
+                        label="Longitud"
+                        size="small"
+                        placeholder="1024"
+                        {...register(`fields.${index}.length`)}
+                        error={Boolean(fieldErrors?.length)}
+                        helperText={fieldErrors?.length?.message}
+                      />
+                      <TextField
+                        label="Ancho de codigo"
+                        size="small"
+                        placeholder="Sin relleno"
+                        {...register(`fields.${index}.codeWidth`)}
+                        error={Boolean(fieldErrors?.codeWidth)}
+                        helperText={
+                          fieldErrors?.codeWidth?.message ?? 'Codigo numerico relleno con ceros'
+                        }
+                      />
+                    </>
+                  )}
+                  {current.type === 'numeric' && (
+                    <>
+                      <TextField
+                        label="Precision"
+                        size="small"
+                        placeholder="12"
+                        {...register(`fields.${index}.precision`)}
+                        error={Boolean(fieldErrors?.precision)}
+                        helperText={fieldErrors?.precision?.message}
+                      />
+                      <TextField
+                        label="Escala"
+                        size="small"
+                        placeholder="4"
+                        {...register(`fields.${index}.scale`)}
+                        error={Boolean(fieldErrors?.scale)}
+                        helperText={fieldErrors?.scale?.message}
+                      />
+                    </>
+                  )}
+                  {current.type === 'reference' && (
+                    <>
+                      <Controller
+                        name={`fields.${index}.referenceCatalog`}
+                        control={control}
+                        render={({ field }) => (
+                          <TextField select label="Catalogo" size="small" {...field}>
+                            {definitions.map((candidate) => (
+                              <MenuItem key={candidate.key} value={candidate.key}>
+                                {candidate.label}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                        )}
+                      />
+                      <Controller
+                        name={`fields.${index}.referenceField`}
+                        control={control}
+                        render={({ field }) => (
+                          <TextField
+                            select
+                            label="Campo"
+                            size="small"
+                            {...field}
+                            error={Boolean(fieldErrors?.referenceField)}
+                            helperText={fieldErrors?.referenceField?.message}
+                          >
+                            {referenceTargets(current.referenceCatalog).map((target) => (
+                              <MenuItem key={target.name} value={target.name}>
+                                {target.name}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                        )}
+                      />
+                    </>
+                  )}
+                </Box>
+                <Stack
+                  direction={{ xs: 'column', md: 'row' }}
+                  spacing={2}
+                  alignItems={{ md: 'center' }}
+                  sx={{ mt: 1 }}
+                >
+                  <Controller
+                    name={`fields.${index}.required`}
+                    control={control}
+                    render={({ field }) => (
+                      <FormControlLabel
+                        control={
+                          <Checkbox
+                            checked={field.value}
+                            onChange={(event) => field.onChange(event.target.checked)}
+                          />
+                        }
+                        label="Requerido"
+                      />
+                    )}
+                  />
+                  <TextField
+                    label="Encabezados de Excel"
+                    size="small"
+                    fullWidth
+                    placeholder="Separados por coma"
+                    {...register(`fields.${index}.excelKeys`)}
+                  />
+                  <IconButton
+                    aria-label="Quitar campo"
+                    onClick={() => remove(index)}
+                    disabled={fields.length === 1}
+                  >
+                    <DeleteOutlineIcon />
+                  </IconButton>
+                </Stack>
+                {current.type !== 'reference' && (
+                  <Box
+                    sx={{
+                      display: 'grid',
+                      gridTemplateColumns: { xs: '1fr', md: '1.5fr 1fr 1fr 1.5fr' },
+                      gap: 2,
+                      mt: 1,
+                    }}
+                  >
+                    <TextField
+                      label="Patron"
+                      size="small"
+                      placeholder="^[A-Z]{3}$"
+                      {...register(`fields.${index}.pattern`)}
+                      error={Boolean(fieldErrors?.pattern)}
+                      helperText={fieldErrors?.pattern?.message}
+                    />
+                    {current.type !== 'string' && (
+                      <>
+                        <TextField
+                          label="Minimo"
+                          size="small"
+                          {...register(`fields.${index}.min`)}
+                          error={Boolean(fieldErrors?.min)}
+                          helperText={fieldErrors?.min?.message}
+                        />
+                        <TextField
+                          label="Maximo"
+                          size="small"
+                          {...register(`fields.${index}.max`)}
+                          error={Boolean(fieldErrors?.max)}
+                          helperText={fieldErrors?.max?.message}
+                        />
+                      </>
+                    )}
+                    <TextField
+                      label="Valores permitidos"
+                      size="small"
+                      placeholder="Separados por coma"
+                      {...register(`fields.${index}.allowedValues`)}
+                      error={Boolean(fieldErrors?.allowedValues)}
+                      helperText={fieldErrors?.allowedValues?.message}
+                    />
+                    <TextField
+                      label="Mensaje de error"
+                      size="small"
+                      sx={{ gridColumn: { md: '1 / -1' } }}
+                      placeholder="Mensaje mostrado cuando el valor no cumple las reglas"
+                      {...register(`fields.${index}.ruleMessage`)}
+                      error={Boolean(fieldErrors?.ruleMessage)}
+                      helperText={fieldErrors?.ruleMessage?.message}
+                    />
+                  </Box>
+                )}
+              </Paper>
+            );
+          })}
+          {errors.fields?.message && (
+            <Typography variant="body2" color="error">
+              {errors.fields.message}
+            </Typography>
+          )}
+          <Box>
+            <Button startIcon={<AddIcon />} onClick={() => append({ ...emptyField })}>
+              Agregar campo
+            </Button>
+          </Box>
+
+          <Divider />
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' },
+              gap: 2,
+            }}
+          >
+            {renderFieldSelect('uniqueBy', 'Clave unica')}
+            {renderFieldSelect('searchFields', 'Campos de busqueda')}
+          </Box>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit((values) => onSubmit(toPayload(values)))}
+          disabled={submitting}
+        >
+          {submitting ? 'Guardando...' : 'Guardar'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -8,10 +8,12 @@ import {
   DialogTitle,
   TextField,
 } from '@mui/material';
-import { useForm } from 'react-hook-form';
+import { Controller, useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import type { CatalogFieldConfig } from '../../config/catalogs';
+import type { CatalogFieldConfig, CatalogMetadata } from '../../api/catalogs';
+import { useCatalogs } from '../../hooks/useCatalogMetadata';
+import { CatalogReferenceField } from './CatalogReferenceField';
 
 type CatalogFormValues = Record<string, unknown>;
 
@@ -25,10 +27,96 @@ interface CatalogFormDialogProps {
   submitting?: boolean;
 }
 
-const getFieldSchema = (field: CatalogFieldConfig) => {
+const formatCode = (field: CatalogFieldConfig, value: string) => {
+  const format = field.codeFormat;
+  if (!format || !value) return value;
+  const digits =
+    format.numeric === false
+      ? value
+      : value.replace(/\.0*$/, '').replace(/^0+(?=\d)/, '');
+  return digits.padStart(format.width, format.padding ?? '0');
+};
+
+const fitsPrecision = (value: string, precision?: number, scale = 0) => {
+  if (precision === undefined) return true;
+  const [integer, decimals = ''] = value.replace('-', '').split('.');
+  return (
+    integer.replace(/^0+(?=\d)/, '').length <= precision - scale &&
+    decimals.length <= scale
+  );
+};
+
+const applyFieldRules = (
+  schema: z.ZodTypeAny,
+  field: CatalogFieldConfig,
+): z.ZodTypeAny => {
+  const rules = field.validation;
+  if (!rules) return schema;
+  const messages = rules.messages ?? {};
+  const isEmpty = (value: unknown) =>
+    value === undefined || value === null || value === '';
+
+  return schema
+    .refine(
+      (value) =>
+        isEmpty(value) || !rules.pattern || new RegExp(rules.pattern).test(String(value)),
+      messages.pattern ?? `${field.label} no cumple el formato ${rules.pattern}`,
+    )
+    .refine(
+      (value) =>
+        isEmpty(value) ||
+        typeof value !== 'number' ||
+        rules.min === undefined ||
+        value >= rules.min,
+      messages.min ?? `${field.label} debe ser mayor o igual a ${rules.min}`,
+    )
+    .refine(
+      (value) =>
+        isEmpty(value) ||
+        typeof value !== 'number' ||
+        rules.max === undefined ||
+        value <= rules.max,
+      messages.max ?? `${field.label} debe ser menor o igual a ${rules.max}`,
+    )
+    .refine(
+      (value) =>
+        isEmpty(value) ||
+        !rules.allowedValues?.length ||
+        rules.allowedValues.some((allowed) => String(allowed) === String(value)),
+      messages.allowedValues ??
+        `${field.label} debe ser uno de: ${rules.allowedValues?.join(', ')}`,
+    );
+};
+
+const getFieldSchema = (
+  field: CatalogFieldConfig,
+  catalogs: CatalogMetadata[],
+): z.ZodTypeAny => {
   let base: z.ZodTypeAny = z.any();
 
   switch (field.type) {
+    case 'reference': {
+      const targetField = catalogs
+        .find((catalog) => catalog.key === field.reference?.catalog)
+        ?.fields.find((candidate) => candidate.name === field.reference?.field);
+      // The picker yields the target's raw value, validated with the target field's type
+      return z.preprocess(
+        (value) => (value === null || value === undefined ? '' : String(value)),
+        getFieldSchema(
+          {
+            ...field,
+            type: targetField?.type ?? 'string',
+            maxLength: targetField?.maxLength,
+            precision: targetField?.precision,
+            scale: targetField?.scale,
+            validation: targetField?.validation,
+            codeFormat: targetField?.codeFormat,
+            reference: undefined,
+          },
+          catalogs,
+        ),
+      );
+    }
     case 'int':
       base = z
         .string()
@@ -44,15 +132,48 @@ const getFieldSchema = (field: CatalogFieldConfig) => {
           (value) => /^-?\d+(\.\d+)?$/.test(value),
           `${field.label} debe ser numerico`,
         )
+        .refine(
+          (value) => fitsPrecision(value, field.precision, field.scale),
+          `${field.label} admite hasta ${(field.precision ?? 0) - (field.scale ?? 0)} enteros y ${field.scale ?? 0} decimales`,
+        )
         .transform((value) => Number(value));
       break;
-    default:
-      base = z
-        .string()
-        .min(field.required ? 1 : 0, `${field.label} es requerido`)
-        .transform((value) => value.trim());
+    case 'date':
+      base = z.preprocess(
+        (value) => value ?? '',
+        z
+          .string()
+          .min(field.required ? 1 : 0, `${field.label} es requerido`)
+          .refine(
+            (value) => value === '' || /^\d{4}-\d{2}-\d{2}$/.test(value),
+            `${field.label} debe ser una fecha valida`,
+          )
+          .transform((value) => (value === '' ? null : value)),
+      );
+      break;
+    default: {
+      let text = z.string().min(field.required ? 1 : 0, `${field.label} es requerido`);
+      if (field.maxLength) {
+        text = text.max(
+          field.maxLength,
+          `${field.label} admite hasta ${field.maxLength} caracteres`,
+        );
+      }
+      base = text
+        .refine(
+          (value) =>
+            !field.codeFormat ||
+            field.codeFormat.numeric === false ||
+            value.trim() === '' ||
+            /^\d+(\.0*)?$/.test(value.trim()),
+          `${field.label} debe ser un codigo numerico`,
+        )
+        .transform((value) => formatCode(field, value.trim()));
+    }
   }
 
+  base = applyFieldRules(base, field);
+
   if (!field.required) {
     base = base.optional().or(z.literal('').transform(() => undefined));
   }
@@ -69,15 +190,18 @@ export const CatalogFormDialog = ({
   onSubmit,
   submitting,
 }: CatalogFormDialogProps) => {
+  const { data: catalogs } = useCatalogs();
+
   const schema = useMemo(() => {
     const shape: Record<string, z.ZodTypeAny> = {};
     fields.forEach((field) => {
-      shape[field.name] = getFieldSchema(field);
+      shape[field.name] = getFieldSchema(field, catalogs ?? []);
     });
     return z.object(shape);
-  }, [fields]);
+  }, [fields, catalogs]);
 
   const {
+    control,
     register,
     handleSubmit,
     reset,
@@ -112,16 +236,34 @@ export const CatalogFormDialog = ({
             mt: 0.5,
           }}
         >
-          {fields.map((field) => (
-            <TextField
-              key={field.name}
-              fullWidth
-              label={field.label}
-              {...register(field.name)}
-              error={Boolean((errors as any)[field.name])}
-              helperText={(errors as any)[field.name]?.message as string}
-            />
-          ))}
+          {fields.map((field) =>
+            field.type === 'reference' ? (
+              <Controller
+                key={field.name}
+                name={field.name}
+                control={control}
+                render={({ field: controllerField }) => (
+                  <CatalogReferenceField
+                    field={field}
+                    value={controllerField.value}
+                    onChange={controllerField.onChange}
+                    error={(errors as any)[field.name]?.message as string | undefined}
+                  />
+                )}
+              />
+            ) : (
+              <TextField
+                key={field.name}
+                fullWidth
+                label={field.label}
+                type={field.type === 'date' ? 'date' : 'text'}
+                InputLabelProps={field.type === 'date' ? { shrink: true } : undefined}
+                {...register(field.name)}
+                error={Boolean((errors as any)[field.name])}
+                helperText={(errors as any)[field.name]?.message as string}
+              />
+            ),
+          )}
         </Box>
       </DialogContent>
       <DialogActions>
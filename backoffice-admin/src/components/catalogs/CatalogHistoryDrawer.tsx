@@ -0,0 +1,130 @@
+import {
+  Box,
+  Chip,
+  CircularProgress,
+  Divider,
+  Drawer,
+  IconButton,
+  Stack,
+  Typography,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { useQuery } from '@tanstack/react-query';
+import { getCatalogEntryHistory } from '../../api/catalogs';
+import type {
+  CatalogAuditAction,
+  CatalogAuditEntry,
+  CatalogFieldConfig,
+} from '../../api/catalogs';
+
+interface CatalogHistoryDrawerProps {
+  open: boolean;
+  catalogKey: string;
+  recordId: string | null;
+  fields: CatalogFieldConfig[];
+  onClose: () => void;
+}
+
+const actionLabels: Record<
+  CatalogAuditAction,
+  {
+    label: string;
+    color: 'success' | 'info' | 'warning' | 'error' | 'secondary';
+  }
+> = {
+  create: { label: 'Creado', color: 'success' },
+  update: { label: 'Actualizado', color: 'info' },
+  deactivate: { label: 'Desactivado', color: 'warning' },
+  restore: { label: 'Reactivado', color: 'success' },
+  delete: { label: 'Eliminado', color: 'error' },
+  import: { label: 'Importado', color: 'secondary' },
+  rollback: { label: 'Importación revertida', color: 'warning' },
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
+const getChangedFields = (
+  entry: CatalogAuditEntry,
+  fields: CatalogFieldConfig[],
+) =>
+  fields.filter(
+    (field) =>
+      formatValue(entry.before?.[field.name]) !==
+      formatValue(entry.after?.[field.name]),
+  );
+
+export const CatalogHistoryDrawer = ({
+  open,
+  catalogKey,
+  recordId,
+  fields,
+  onClose,
+}: CatalogHistoryDrawerProps) => {
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['catalogs', catalogKey, 'history', recordId],
+    enabled: open && Boolean(recordId),
+    queryFn: () => getCatalogEntryHistory(catalogKey, recordId!),
+  });
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box sx={{ width: { xs: 320, sm: 420 }, p: 2 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Typography variant="h6" fontWeight={600}>
+            Historial de cambios
+          </Typography>
+          <IconButton onClick={onClose}>
+            <CloseIcon />
+          </IconButton>
+        </Stack>
+        <Divider sx={{ my: 1.5 }} />
+
+        {isLoading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={28} />
+          </Box>
+        )}
+
+        {isError && (
+          <Typography variant="body2" color="error">
+            No se pudo cargar el historial
+          </Typography>
+        )}
+
+        {data && data.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            No hay cambios registrados para este registro.
+          </Typography>
+        )}
+
+        <Stack spacing={2}>
+          {data?.map((entry) => {
+            const action = actionLabels[entry.action];
+            const changedFields = getChangedFields(entry, fields);
+            return (
+              <Box key={entry.id}>
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <Chip size="small" color={action.color} label={action.label} />
+                  <Typography variant="body2" color="text.secondary">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </Typography>
+                </Stack>
+                <Typography variant="body2" sx={{ mt: 0.5 }}>
+                  Usuario: {entry.username ?? entry.userId ?? 'Desconocido'}
+                </Typography>
+                {changedFields.map((field) => (
+                  <Typography key={field.name} variant="body2" sx={{ pl: 1 }}>
+                    <strong>{field.label}:</strong>{' '}
+                    {formatValue(entry.before?.[field.name])} →{' '}
+                    {formatValue(entry.after?.[field.name])}
+                  </Typography>
+                ))}
+              </Box>
+            );
+          })}
+        </Stack>
+      </Box>
+    </Drawer>
+  );
+};
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import {
+  Box,
+  Chip,
+  Paper,
+  Stack,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tabs,
+  Typography,
+} from '@mui/material';
+import type {
+  CatalogFieldConfig,
+  CatalogImportPreview as CatalogImportPreviewData,
+} from '../../api/catalogs';
+
+interface CatalogImportPreviewProps {
+  preview: CatalogImportPreviewData;
+  fields: CatalogFieldConfig[];
+  uniqueBy: string[];
+}
+
+type PreviewTab = 'inserts' | 'updates' | 'removals' | 'errors';
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Si' : 'No';
+  }
+  return String(value);
+};
+
+export const CatalogImportPreview = ({
+  preview,
+  fields,
+  uniqueBy,
+}: CatalogImportPreviewProps) => {
+  const [tab, setTab] = useState<PreviewTab>('inserts');
+  const { summary } = preview;
+  const invalidRows = preview.errors.filter((error) => error.row > 0);
+  const warnings = preview.errors.filter((error) => error.row === 0);
+  // Los registros a desactivar solo se conocen si se leyo el archivo completo
+  const showRemovals = preview.mode === 'replace' && preview.sample.complete;
+
+  const labelFor = (name: string) =>
+    name === 'isActive'
+      ? 'Activo'
+      : fields.find((field) => field.name === name)?.label ?? name;
+
+  const describeKey = (record: Record<string, unknown>) =>
+    uniqueBy.map((name) => formatValue(record[name])).join(' / ');
+
+  const truncated = (shown: number, total: number) =>
+    shown < total ? (
+      <Typography variant="caption" color="text.secondary" sx={{ p: 1.5, display: 'block' }}>
+        Mostrando {shown} de {total} registros.
+      </Typography>
+    ) : null;
+
+  const renderRecords = (records: Record<string, unknown>[], total: number) => (
+    <>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            {fields.map((field) => (
+              <TableCell key={field.name}>{field.label}</TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {records.map((record, index) => (
+            <TableRow key={index}>
+              {fields.map((field) => (
+                <TableCell key={field.name}>{formatValue(record[field.name])}</TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {truncated(records.length, total)}
+    </>
+  );
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+        <Chip color="success" label={`${summary.insert} nuevos`} />
+        <Chip color="info" label={`${summary.update} con cambios`} />
+        <Chip label={`${summary.unchanged} sin cambios`} />
+        {showRemovals && <Chip color="warning" label={`${summary.remove} se desactivaran`} />}
+        <Chip color="error" label={`${summary.invalid} invalidos`} />
+      </Stack>
+
+      {!preview.sample.complete && (
+        <Typography variant="body2" color="text.secondary">
+          La vista previa muestra las primeras {preview.sample.rows} filas del archivo; los totales
+          {preview.mode === 'replace' ? ' y los registros a desactivar' : ''} se calculan al importar.
+        </Typography>
+      )}
+
+      {warnings.map((warning) => (
+        <Typography key={warning.message} variant="body2" color="warning.main">
+          {warning.message}
+        </Typography>
+      ))}
+
+      <Paper elevation={1}>
+        <Tabs value={tab} onChange={(_, value: PreviewTab) => setTab(value)}>
+          <Tab value="inserts" label="Nuevos" />
+          <Tab value="updates" label="Cambios" />
+          {showRemovals && <Tab value="removals" label="Desactivados" />}
+          <Tab value="errors" label="Invalidos" />
+        </Tabs>
+        <TableContainer sx={{ maxHeight: 420 }}>
+          {tab === 'inserts' && renderRecords(preview.inserts, summary.insert)}
+
+          {tab === 'updates' && (
+            <>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Registro</TableCell>
+                    <TableCell>Campo</TableCell>
+                    <TableCell>Valor actual</TableCell>
+                    <TableCell>Valor nuevo</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {preview.updates.flatMap((update) =>
+                    update.changes.map((change, index) => (
+                      <TableRow key={`${update.id}-${change.field}`}>
+                        <TableCell>{index === 0 ? describeKey(update.record) : ''}</TableCell>
+                        <TableCell>{labelFor(change.field)}</TableCell>
+                        <TableCell>{formatValue(change.before)}</TableCell>
+                        <TableCell>{formatValue(change.after)}</TableCell>
+                      </TableRow>
+                    )),
+                  )}
+                </TableBody>
+              </Table>
+              {truncated(preview.updates.length, summary.update)}
+            </>
+          )}
+
+          {tab === 'removals' && renderRecords(preview.removals, summary.remove)}
+
+          {tab === 'errors' && (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Fila</TableCell>
+                  <TableCell>Error</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {invalidRows.map((error) => (
+                  <TableRow key={`${error.row}-${error.message}`}>
+                    <TableCell>{error.row}</TableCell>
+                    <TableCell>{error.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </TableContainer>
+      </Paper>
+    </Box>
+  );
+};
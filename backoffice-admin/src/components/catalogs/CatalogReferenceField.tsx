@@ -0,0 +1,98 @@
+import { useMemo, useState } from 'react';
+import { Autocomplete, CircularProgress, TextField } from '@mui/material';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { getCatalogEntries } from '../../api/catalogs';
+import type { CatalogFieldConfig } from '../../api/catalogs';
+import { useCatalog } from '../../hooks/useCatalogMetadata';
+
+interface CatalogReferenceFieldProps {
+  field: CatalogFieldConfig;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  error?: string;
+}
+
+const REFERENCE_OPTIONS_LIMIT = 20;
+
+export const CatalogReferenceField = ({
+  field,
+  value,
+  onChange,
+  error,
+}: CatalogReferenceFieldProps) => {
+  const [inputValue, setInputValue] = useState('');
+  const reference = field.reference;
+  const { catalog: target } = useCatalog(reference?.catalog);
+  const labelField = target?.fields.find(
+    (candidate) => candidate.type === 'string' && candidate.name !== reference?.field,
+  );
+
+  const { data, isFetching } = useQuery({
+    queryKey: ['catalogs', reference?.catalog, 'reference-options', inputValue],
+    queryFn: () =>
+      getCatalogEntries(reference!.catalog, {
+        page: 1,
+        limit: REFERENCE_OPTIONS_LIMIT,
+        search: inputValue || undefined,
+      }),
+    enabled: Boolean(reference),
+    placeholderData: keepPreviousData,
+  });
+
+  const options = useMemo(
+    () =>
+      (data?.data ?? []).map((entry) => ({
+        value: entry[reference!.field],
+        label: labelField ? String(entry[labelField.name] ?? '') : '',
+      })),
+    [data, reference, labelField],
+  );
+
+  const hasValue = value !== undefined && value !== null && value !== '';
+  const selected = hasValue
+    ? options.find((option) => String(option.value) === String(value)) ?? {
+        value,
+        label: '',
+      }
+    : null;
+
+  return (
+    <Autocomplete
+      fullWidth
+      options={options}
+      value={selected}
+      filterOptions={(items) => items}
+      isOptionEqualToValue={(option, current) =>
+        String(option.value) === String(current.value)
+      }
+      getOptionLabel={(option) =>
+        option.label ? `${String(option.value)} - ${option.label}` : String(option.value)
+      }
+      onInputChange={(_, newInputValue, reason) => {
+        if (reason === 'input') {
+          setInputValue(newInputValue);
+        }
+      }}
+      onChange={(_, option) => onChange(option ? option.value : '')}
+      loading={isFetching}
+      noOptionsText={`Sin resultados en ${target?.label ?? reference?.catalog ?? ''}`}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label={field.label}
+          error={Boolean(error)}
+          helperText={error ?? `Referencia a ${target?.label ?? reference?.catalog ?? ''}`}
+          InputProps={{
+            ...params.InputProps,
+            endAdornment: (
+              <>
+                {isFetching ? <CircularProgress color="inherit" size={16} /> : null}
+                {params.InputProps.endAdornment}
+              </>
+            ),
+          }}
+        />
+      )}
+    />
+  );
+};
@@ -0,0 +1,82 @@
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import { getCatalogReleaseDiff } from '../../api/catalogReleases';
+
+interface CatalogReleaseDiffDialogProps {
+  version: string | null;
+  catalogLabels: Map<string, string>;
+  onClose: () => void;
+}
+
+export const CatalogReleaseDiffDialog = ({
+  version,
+  catalogLabels,
+  onClose,
+}: CatalogReleaseDiffDialogProps) => {
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['catalog-releases', version, 'diff'],
+    enabled: Boolean(version),
+    queryFn: () => getCatalogReleaseDiff(version!),
+  });
+
+  return (
+    <Dialog open={Boolean(version)} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>Cambios de la version {version}</DialogTitle>
+      <DialogContent dividers>
+        {isLoading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={28} />
+          </Box>
+        )}
+        {isError && (
+          <Typography variant="body2" color="error">
+            No se pudo cargar la comparacion
+          </Typography>
+        )}
+        {data && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Catalogo</TableCell>
+                <TableCell>Version anterior</TableCell>
+                <TableCell align="right">Agregados</TableCell>
+                <TableCell align="right">Modificados</TableCell>
+                <TableCell align="right">Eliminados</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {data.catalogs.map((catalog) => (
+                <TableRow key={catalog.catalogKey}>
+                  <TableCell>
+                    {catalogLabels.get(catalog.catalogKey) ?? catalog.catalogKey}
+                  </TableCell>
+                  <TableCell>{catalog.previousVersion ?? 'Primera version'}</TableCell>
+                  <TableCell align="right">{catalog.added.length}</TableCell>
+                  <TableCell align="right">{catalog.changed.length}</TableCell>
+                  <TableCell align="right">{catalog.removed.length}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cerrar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -1,4 +1,6 @@
 import {
+  Button,
+  Checkbox,
   IconButton,
   Paper,
   Table,
@@ -7,114 +9,306 @@ import {
   TableContainer,
   TableHead,
   TableRow,
+  TableSortLabel,
+  TextField,
   Tooltip,
   Typography,
   Box,
 } from '@mui/material';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
+import HistoryIcon from '@mui/icons-material/History';
+import RestoreIcon from '@mui/icons-material/Restore';
 import UploadFileIcon from '@mui/icons-material/UploadFile';
 import AddIcon from '@mui/icons-material/Add';
-import type { CatalogFieldConfig } from '../../config/catalogs';
+import BlockIcon from '@mui/icons-material/Block';
+import type { CatalogFieldConfig, CatalogSort } from '../../api/catalogs';
 
 interface CatalogTableProps {
   fields: CatalogFieldConfig[];
   data: unknown[];
   onEdit: (item: Record<string, unknown>) => void;
   onDelete: (item: Record<string, unknown>) => void;
+  onHistory?: (item: Record<string, unknown>) => void;
+  onRestore?: (item: Record<string, unknown>) => void;
   onCreate?: () => void;
   onImport?: () => void;
+  sort?: CatalogSort[];
+  onSortChange?: (sort: CatalogSort[]) => void;
+  filters?: Record<string, string>;
+  onFilterChange?: (field: string, value: string) => void;
+  selectedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
+  onBulkDeactivate?: () => void;
 }
 
+// Un clic ordena solo por la columna (asc, desc, sin orden); con Shift se agrega al orden actual
+const toggleSort = (
+  sort: CatalogSort[],
+  field: string,
+  append: boolean,
+): CatalogSort[] => {
+  const current = sort.find((item) => item.field === field);
+  const others = append ? sort.filter((item) => item.field !== field) : [];
+  if (!current) {
+    return [...others, { field, direction: 'asc' }];
+  }
+  if (current.direction === 'asc') {
+    return append
+      ? sort.map((item) =>
+          item.field === field ? { field, direction: 'desc' } : item,
+        )
+      : [{ field, direction: 'desc' }];
+  }
+  return others;
+};
+
 export const CatalogTable = ({
   fields,
   data,
   onEdit,
   onDelete,
+  onHistory,
+  onRestore,
   onCreate,
   onImport,
-}: CatalogTableProps) => (
-  <Paper elevation={1}>
-    <Box
-      sx={{
-        px: 2,
-        py: 1.5,
-        display: 'flex',
-        alignItems: 'center',
-        justifyContent: 'space-between',
-      }}
-    >
-      <Typography variant="h6" fontWeight={600}>
-        Registros
-      </Typography>
-      <Box>
-        {onImport && (
-          <Tooltip title="Importar desde Excel">
-            <IconButton color="primary" onClick={onImport}>
-              <UploadFileIcon />
-            </IconButton>
-          </Tooltip>
-        )}
-        {onCreate && (
-          <Tooltip title="Nuevo registro">
-            <IconButton color="primary" onClick={onCreate}>
-              <AddIcon />
-            </IconButton>
-          </Tooltip>
+  sort = [],
+  onSortChange,
+  filters = {},
+  onFilterChange,
+  selectedIds = [],
+  onSelectionChange,
+  onBulkDeactivate,
+}: CatalogTableProps) => {
+  const pageIds = data
+    .map((row) => (row as Record<string, unknown>).id)
+    .filter((id): id is string => typeof id === 'string');
+  const selectedOnPage = pageIds.filter((id) => selectedIds.includes(id));
+  const selectable = Boolean(onSelectionChange);
+  const columnCount = fields.length + (selectable ? 2 : 1);
+
+  const toggleRow = (id: string) =>
+    onSelectionChange?.(
+      selectedIds.includes(id)
+        ? selectedIds.filter((item) => item !== id)
+        : [...selectedIds, id],
+    );
+
+  const togglePage = () =>
+    onSelectionChange?.(
+      selectedOnPage.length === pageIds.length
+        ? selectedIds.filter((id) => !pageIds.includes(id))
+        : [...new Set([...selectedIds, ...pageIds])],
+    );
+
+  return (
+    <Paper elevation={1}>
+      <Box
+        sx={{
+          px: 2,
+          py: 1.5,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+        }}
+      >
+        {selectedIds.length > 0 ? (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="subtitle1" fontWeight={600}>
+              {selectedIds.length} seleccionados
+            </Typography>
+            {onBulkDeactivate && (
+              <Button
+                size="small"
+                color="warning"
+                startIcon={<BlockIcon />}
+                onClick={onBulkDeactivate}
+              >
+                Desactivar
+              </Button>
+            )}
+            <Button size="small" onClick={() => onSelectionChange?.([])}>
+              Limpiar seleccion
+            </Button>
+          </Box>
+        ) : (
+          <Typography variant="h6" fontWeight={600}>
+            Registros
+          </Typography>
         )}
+        <Box>
+          {onImport && (
+            <Tooltip title="Importar desde Excel">
+              <IconButton color="primary" onClick={onImport}>
+                <UploadFileIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+          {onCreate && (
+            <Tooltip title="Nuevo registro">
+              <IconButton color="primary" onClick={onCreate}>
+                <AddIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+        </Box>
       </Box>
-    </Box>
-    <TableContainer>
-      <Table size="small">
-        <TableHead>
-          <TableRow>
-            {fields.map((field) => (
-              <TableCell key={field.name}>{field.label}</TableCell>
-            ))}
-            <TableCell align="right">Acciones</TableCell>
-          </TableRow>
-        </TableHead>
-        <TableBody>
-          {data.map((row, index) => {
-            const record = row as Record<string, unknown>;
-            const rowKey = (record.id as string) ?? `${index}`;
-            return (
-              <TableRow hover key={rowKey}>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              {selectable && (
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    size="small"
+                    disabled={pageIds.length === 0}
+                    checked={
+                      pageIds.length > 0 &&
+                      selectedOnPage.length === pageIds.length
+                    }
+                    indeterminate={
+                      selectedOnPage.length > 0 &&
+                      selectedOnPage.length < pageIds.length
+                    }
+                    onChange={togglePage}
+                    inputProps={{ 'aria-label': 'Seleccionar pagina' }}
+                  />
+                </TableCell>
+              )}
+              {fields.map((field) => {
+                const active = sort.find((item) => item.field === field.name);
+                return (
+                  <TableCell
+                    key={field.name}
+                    sortDirection={active?.direction ?? false}
+                  >
+                    {onSortChange ? (
+                      <TableSortLabel
+                        active={Boolean(active)}
+                        direction={active?.direction ?? 'asc'}
+                        onClick={(event) =>
+                          onSortChange(
+                            toggleSort(sort, field.name, event.shiftKey),
+                          )
+                        }
+                      >
+                        {field.label}
+                      </TableSortLabel>
+                    ) : (
+                      field.label
+                    )}
+                  </TableCell>
+                );
+              })}
+              <TableCell align="right">Acciones</TableCell>
+            </TableRow>
+            {onFilterChange && (
+              <TableRow>
+                {selectable && <TableCell padding="checkbox" />}
                 {fields.map((field) => (
-                  <TableCell key={field.name}>
-                    {String(record[field.name] ?? '')}
+                  <TableCell key={field.name} sx={{ py: 0.5 }}>
+                    <TextField
+                      variant="standard"
+                      size="small"
+                      fullWidth
+                      type={field.type === 'date' ? 'date' : 'text'}
+                      placeholder="Filtrar"
+                      value={filters[field.name] ?? ''}
+                      onChange={(event) =>
+                        onFilterChange(field.name, event.target.value)
+                      }
+                      inputProps={{ 'aria-label': `Filtrar ${field.label}` }}
+                    />
                   </TableCell>
                 ))}
-                <TableCell align="right">
-                  <Tooltip title="Editar">
-                    <IconButton size="small" onClick={() => onEdit(record)}>
-                      <EditIcon fontSize="small" />
-                    </IconButton>
-                  </Tooltip>
-                  <Tooltip title="Eliminar">
-                    <IconButton
-                      size="small"
-                      color="error"
-                      onClick={() => onDelete(record)}
-                    >
-                      <DeleteIcon fontSize="small" />
-                    </IconButton>
-                  </Tooltip>
+                <TableCell />
+              </TableRow>
+            )}
+          </TableHead>
+          <TableBody>
+            {data.map((row, index) => {
+              const record = row as Record<string, unknown>;
+              const rowKey = (record.id as string) ?? `${index}`;
+              const inactive = record.isActive === false;
+              const id = typeof record.id === 'string' ? record.id : undefined;
+              const checked = Boolean(id && selectedIds.includes(id));
+              return (
+                <TableRow
+                  hover
+                  key={rowKey}
+                  selected={checked}
+                  sx={
+                    inactive
+                      ? { '& .MuiTableCell-body': { color: 'text.disabled' } }
+                      : undefined
+                  }
+                >
+                  {selectable && (
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        size="small"
+                        disabled={!id}
+                        checked={checked}
+                        onChange={() => id && toggleRow(id)}
+                        inputProps={{ 'aria-label': 'Seleccionar registro' }}
+                      />
+                    </TableCell>
+                  )}
+                  {fields.map((field) => (
+                    <TableCell key={field.name}>
+                      {String(record[field.name] ?? '')}
+                    </TableCell>
+                  ))}
+                  <TableCell align="right">
+                    {onHistory && (
+                      <Tooltip title="Historial">
+                        <IconButton size="small" onClick={() => onHistory(record)}>
+                          <HistoryIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    <Tooltip title="Editar">
+                      <IconButton size="small" onClick={() => onEdit(record)}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    {inactive && onRestore ? (
+                      <Tooltip title="Reactivar">
+                        <IconButton
+                          size="small"
+                          color="success"
+                          onClick={() => onRestore(record)}
+                        >
+                          <RestoreIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    ) : (
+                      <Tooltip title="Desactivar">
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => onDelete(record)}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {data.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={columnCount}>
+                  <Typography variant="body2" color="text.secondary">
+                    No hay registros para mostrar.
+                  </Typography>
                 </TableCell>
               </TableRow>
-            );
-          })}
-          {data.length === 0 && (
-            <TableRow>
-              <TableCell colSpan={fields.length + 1}>
-                <Typography variant="body2" color="text.secondary">
-                  No hay registros para mostrar.
-                </Typography>
-              </TableCell>
-            </TableRow>
-          )}
-        </TableBody>
-      </Table>
-    </TableContainer>
-  </Paper>
-);
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Paper>
+  );
+};
@@ -0,0 +1,120 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import type {
+  CatalogColumnMapping,
+  CatalogImportColumns,
+} from '../../api/catalogs';
+
+interface ImportColumnMappingProps {
+  columns: CatalogImportColumns;
+  value: CatalogColumnMapping;
+  onChange: (value: CatalogColumnMapping) => void;
+  remember: boolean;
+  onRememberChange: (remember: boolean) => void;
+  onForget?: () => void;
+  disabled?: boolean;
+}
+
+export const ImportColumnMapping = ({
+  columns,
+  value,
+  onChange,
+  remember,
+  onRememberChange,
+  onForget,
+  disabled,
+}: ImportColumnMappingProps) => {
+  const missing = columns.fields.filter(
+    (field) => field.required && !value[field.name],
+  );
+
+  return (
+    <Box>
+      <Typography variant="subtitle1" fontWeight={600}>
+        Asignacion de columnas
+      </Typography>
+      <Typography variant="body2" color="text.secondary">
+        Elige que columna del archivo llena cada campo. Las sugerencias se
+        basan en el nombre, la etiqueta y los alias de cada campo
+        {columns.savedMapping ? ' y en la asignacion guardada para este catalogo' : ''}.
+      </Typography>
+
+      <Table size="small" sx={{ mt: 1 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell>Campo</TableCell>
+            <TableCell>Columna del archivo</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {columns.fields.map((field) => (
+            <TableRow key={field.name}>
+              <TableCell>{field.required ? `${field.label} *` : field.label}</TableCell>
+              <TableCell>
+                <Select
+                  size="small"
+                  fullWidth
+                  displayEmpty
+                  disabled={disabled}
+                  value={value[field.name] ?? ''}
+                  error={field.required && !value[field.name]}
+                  onChange={(event) =>
+                    onChange({ ...value, [field.name]: event.target.value || null })
+                  }
+                >
+                  <MenuItem value="">
+                    <em>No importar</em>
+                  </MenuItem>
+                  {columns.headers.map((header) => (
+                    <MenuItem key={header} value={header}>
+                      {header}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {missing.length > 0 && (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          Asigna una columna a los campos obligatorios:{' '}
+          {missing.map((field) => field.label).join(', ')}
+        </Alert>
+      )}
+
+      <Stack direction="row" alignItems="center" spacing={2} sx={{ mt: 1 }}>
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={remember}
+              disabled={disabled}
+              onChange={(event) => onRememberChange(event.target.checked)}
+            />
+          }
+          label="Recordar esta asignacion para las proximas cargas"
+        />
+        {columns.savedMapping && onForget && (
+          <Button size="small" color="inherit" disabled={disabled} onClick={onForget}>
+            Olvidar asignacion guardada
+          </Button>
+        )}
+      </Stack>
+    </Box>
+  );
+};
@@ -0,0 +1,82 @@
+import { Alert, Box, Chip, LinearProgress, Paper, Stack, Typography } from '@mui/material';
+import type { ImportJob, ImportJobStatus } from '../../api/catalogs';
+
+interface ImportJobProgressProps {
+  job: ImportJob;
+}
+
+export const IMPORT_JOB_STATUS_LABELS: Record<ImportJobStatus, string> = {
+  pending: 'En cola',
+  running: 'En proceso',
+  completed: 'Completada',
+  failed: 'Fallida',
+  rolled_back: 'Revertida',
+};
+
+export const IMPORT_JOB_STATUS_COLORS: Record<
+  ImportJobStatus,
+  'default' | 'info' | 'success' | 'error' | 'warning'
+> = {
+  pending: 'default',
+  running: 'info',
+  completed: 'success',
+  failed: 'error',
+  rolled_back: 'warning',
+};
+
+const MAX_VISIBLE_ERRORS = 20;
+
+export const ImportJobProgress = ({ job }: ImportJobProgressProps) => {
+  const percent =
+    job.totalRows > 0 ? Math.round((job.processedRows / job.totalRows) * 100) : 100;
+  const active = job.status === 'pending' || job.status === 'running';
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Stack spacing={2}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Typography variant="subtitle1" fontWeight={600}>
+            Progreso de la importacion
+          </Typography>
+          <Chip
+            size="small"
+            label={IMPORT_JOB_STATUS_LABELS[job.status]}
+            color={IMPORT_JOB_STATUS_COLORS[job.status]}
+          />
+        </Box>
+        <LinearProgress
+          variant={job.status === 'pending' ? 'indeterminate' : 'determinate'}
+          value={percent}
+          color={job.status === 'failed' ? 'error' : 'primary'}
+        />
+        <Typography variant="body2" color="text.secondary">
+          {job.processedRows} de {job.totalRows} filas procesadas ({percent}%)
+          {active ? '...' : ''}
+        </Typography>
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+          <Chip size="small" label={`Nuevos: ${job.insertedRows}`} />
+          <Chip size="small" label={`Actualizados: ${job.updatedRows}`} />
+          <Chip size="small" label={`Sin cambios: ${job.unchangedRows}`} />
+          {job.mode === 'replace' && (
+            <Chip size="small" label={`Desactivados: ${job.deactivatedRows}`} />
+          )}
+        </Stack>
+        {job.errors.length > 0 && (
+          <Alert severity={job.status === 'failed' ? 'error' : 'warning'}>
+            {job.errors.slice(0, MAX_VISIBLE_ERRORS).map((error, index) => (
+              <Typography key={index} variant="body2">
+                {error.row > 0 ? `Fila ${error.row}: ` : ''}
+                {error.message}
+              </Typography>
+            ))}
+            {job.errors.length > MAX_VISIBLE_ERRORS && (
+              <Typography variant="caption">
+                Y {job.errors.length - MAX_VISIBLE_ERRORS} errores mas.
+              </Typography>
+            )}
+          </Alert>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
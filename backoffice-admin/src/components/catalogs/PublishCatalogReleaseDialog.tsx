@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+} from '@mui/material';
+import type { CatalogMetadata } from '../../api/catalogs';
+import type { PublishCatalogReleasePayload } from '../../api/catalogReleases';
+
+const ALL_CATALOGS = '__all__';
+
+interface PublishCatalogReleaseDialogProps {
+  open: boolean;
+  catalogs: CatalogMetadata[];
+  onClose: () => void;
+  onSubmit: (payload: PublishCatalogReleasePayload) => void;
+  submitting?: boolean;
+}
+
+export const PublishCatalogReleaseDialog = ({
+  open,
+  catalogs,
+  onClose,
+  onSubmit,
+  submitting,
+}: PublishCatalogReleaseDialogProps) => {
+  const [catalogKey, setCatalogKey] = useState(ALL_CATALOGS);
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setCatalogKey(ALL_CATALOGS);
+      setNotes('');
+    }
+  }, [open]);
+
+  const submit = () => {
+    onSubmit({
+      catalogKey: catalogKey === ALL_CATALOGS ? undefined : catalogKey,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Publicar version</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 0.5 }}>
+          <FormControl fullWidth>
+            <InputLabel id="release-catalog-label">Catalogo</InputLabel>
+            <Select
+              labelId="release-catalog-label"
+              label="Catalogo"
+              value={catalogKey}
+              onChange={(event) => setCatalogKey(event.target.value)}
+            >
+              <MenuItem value={ALL_CATALOGS}>Todos los catalogos</MenuItem>
+              {catalogs.map((catalog) => (
+                <MenuItem key={catalog.key} value={catalog.key}>
+                  {catalog.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            label="Notas"
+            value={notes}
+            onChange={(event) => setNotes(event.target.value)}
+            multiline
+            minRows={2}
+            inputProps={{ maxLength: 500 }}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button variant="contained" onClick={submit} disabled={submitting}>
+          {submitting ? 'Publicando...' : 'Publicar'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
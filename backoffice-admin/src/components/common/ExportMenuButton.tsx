@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { Button, Menu, MenuItem } from '@mui/material';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { useSnackbar } from 'notistack';
+import type { ExportFormat } from '../../api/catalogs';
+
+interface ExportMenuButtonProps {
+  fileName: string;
+  onExport: (format: ExportFormat) => Promise<Blob>;
+}
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'xlsx', label: 'Excel (.xlsx)' },
+  { format: 'csv', label: 'CSV (.csv)' },
+  { format: 'json', label: 'JSON (.json)' },
+];
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const ExportMenuButton = ({ fileName, onExport }: ExportMenuButtonProps) => {
+  const { enqueueSnackbar } = useSnackbar();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setAnchorEl(null);
+    setExporting(true);
+    try {
+      const blob = await onExport(format);
+      saveBlob(blob, `${fileName}.${format}`);
+    } catch {
+      enqueueSnackbar('No se pudo exportar la informacion', { variant: 'error' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<FileDownloadIcon />}
+        disabled={exporting}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+      >
+        {exporting ? 'Exportando...' : 'Exportar'}
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        {EXPORT_OPTIONS.map((option) => (
+          <MenuItem key={option.format} onClick={() => handleExport(option.format)}>
+            {option.label}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
@@ -0,0 +1,52 @@
+import { FormControl, InputLabel, MenuItem, Select, Stack } from '@mui/material';
+import type { ImportFileOptions } from '../../api/catalogs';
+
+export const IMPORT_FILE_ACCEPT = '.xlsx,.csv,.tsv,.txt,.json';
+
+export const isDelimitedFile = (file: File | null) =>
+  Boolean(file && /\.(csv|tsv|txt)$/i.test(file.name));
+
+interface ImportFileOptionsFieldsProps {
+  value: ImportFileOptions;
+  onChange: (value: ImportFileOptions) => void;
+}
+
+export const ImportFileOptionsFields = ({
+  value,
+  onChange,
+}: ImportFileOptionsFieldsProps) => (
+  <Stack direction="row" spacing={2}>
+    <FormControl size="small" sx={{ minWidth: 180 }}>
+      <InputLabel id="import-delimiter-label">Separador</InputLabel>
+      <Select
+        labelId="import-delimiter-label"
+        label="Separador"
+        value={value.delimiter ?? ''}
+        onChange={(event) =>
+          onChange({ ...value, delimiter: event.target.value || undefined })
+        }
+      >
+        <MenuItem value="">Detectar</MenuItem>
+        <MenuItem value=",">Coma (,)</MenuItem>
+        <MenuItem value=";">Punto y coma (;)</MenuItem>
+        <MenuItem value="tab">Tabulador</MenuItem>
+        <MenuItem value="|">Barra (|)</MenuItem>
+      </Select>
+    </FormControl>
+    <FormControl size="small" sx={{ minWidth: 180 }}>
+      <InputLabel id="import-encoding-label">Codificacion</InputLabel>
+      <Select
+        labelId="import-encoding-label"
+        label="Codificacion"
+        value={value.encoding ?? ''}
+        onChange={(event) =>
+          onChange({ ...value, encoding: event.target.value || undefined })
+        }
+      >
+        <MenuItem value="">Detectar</MenuItem>
+        <MenuItem value="utf-8">UTF-8</MenuItem>
+        <MenuItem value="latin1">Latin-1 (ISO-8859-1)</MenuItem>
+      </Select>
+    </FormControl>
+  </Stack>
+);
@@ -0,0 +1,135 @@
+import {
+  Box,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import type { ImportFileOptions, ImportFilePreview } from '../../api/catalogs';
+
+interface ImportSheetPickerProps {
+  preview: Pick<ImportFilePreview, 'sheets' | 'sheet' | 'headerRow' | 'rows'>;
+  value: ImportFileOptions;
+  onChange: (value: ImportFileOptions) => void;
+  disabled?: boolean;
+}
+
+const formatCell = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return String(value);
+};
+
+export const ImportSheetPicker = ({
+  preview,
+  value,
+  onChange,
+  disabled,
+}: ImportSheetPickerProps) => {
+  const columnCount = Math.max(0, ...preview.rows.map((row) => row.values.length));
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={2}>
+        {preview.sheets.length > 0 && (
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel id="import-sheet-label">Hoja</InputLabel>
+            <Select
+              labelId="import-sheet-label"
+              label="Hoja"
+              disabled={disabled}
+              value={preview.sheet ?? ''}
+              onChange={(event) =>
+                onChange({ ...value, sheet: event.target.value, headerRow: undefined })
+              }
+            >
+              {preview.sheets.map((sheet) => (
+                <MenuItem key={sheet.name} value={sheet.name}>
+                  {sheet.name} ({sheet.rowCount} filas)
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+        <FormControl size="small" sx={{ minWidth: 220 }}>
+          <InputLabel id="import-header-row-label">Fila de encabezados</InputLabel>
+          <Select
+            labelId="import-header-row-label"
+            label="Fila de encabezados"
+            disabled={disabled}
+            value={value.headerRow ?? ''}
+            onChange={(event) =>
+              onChange({
+                ...value,
+                headerRow: event.target.value ? Number(event.target.value) : undefined,
+              })
+            }
+          >
+            <MenuItem value="">Detectar automaticamente</MenuItem>
+            {preview.rows.map((row) => (
+              <MenuItem key={row.rowNumber} value={row.rowNumber}>
+                Fila {row.rowNumber}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Stack>
+
+      <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+        Primeras filas del archivo; la fila resaltada se usa como encabezados y
+        las siguientes como datos. Haz clic en otra fila para usarla.
+      </Typography>
+      <TableContainer sx={{ maxHeight: 280, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+        <Table size="small">
+          <TableBody>
+            {preview.rows.map((row) => {
+              const isHeader = row.rowNumber === preview.headerRow;
+              return (
+                <TableRow
+                  key={row.rowNumber}
+                  hover={!disabled}
+                  selected={isHeader}
+                  onClick={() => {
+                    if (!disabled && !isHeader) {
+                      onChange({ ...value, headerRow: row.rowNumber });
+                    }
+                  }}
+                  sx={{
+                    cursor: disabled ? 'default' : 'pointer',
+                    opacity: row.rowNumber < preview.headerRow ? 0.5 : 1,
+                  }}
+                >
+                  <TableCell sx={{ color: 'text.secondary', width: 48 }}>
+                    {row.rowNumber}
+                  </TableCell>
+                  {Array.from({ length: columnCount }, (_, column) => (
+                    <TableCell
+                      key={column}
+                      sx={{
+                        fontWeight: isHeader ? 700 : undefined,
+                        whiteSpace: 'nowrap',
+                        maxWidth: 220,
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                      }}
+                    >
+                      {formatCell(row.values[column])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
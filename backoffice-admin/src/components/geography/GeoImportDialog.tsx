@@ -1,10 +1,12 @@
 import { useEffect, useState } from 'react';
 import {
+  Box,
   Button,
   Dialog,
   DialogActions,
   DialogContent,
   DialogTitle,
+  CircularProgress,
   FormControl,
   FormControlLabel,
   FormHelperText,
@@ -12,13 +14,30 @@ import {
   RadioGroup,
   Typography,
 } from '@mui/material';
+import { useMutation } from '@tanstack/react-query';
+import { useSnackbar } from 'notistack';
+import { inspectImportFile } from '../../api/catalogs';
+import type { ImportFileOptions } from '../../api/catalogs';
+import { getApiErrorMessage } from '../../api/http';
+import {
+  IMPORT_FILE_ACCEPT,
+  ImportFileOptionsFields,
+  isDelimitedFile,
+} from '../common/ImportFileOptionsFields';
+import { ImportSheetPicker } from '../common/ImportSheetPicker';
+
+export interface GeoImportParams {
+  file: File;
+  mode: 'append' | 'replace';
+  options: ImportFileOptions;
+}
 
 interface GeoImportDialogProps {
   open: boolean;
   title: string;
   submitting?: boolean;
   onClose: () => void;
-  onImport: (params: { file: File; mode: 'append' | 'replace' }) => void;
+  onImport: (params: GeoImportParams) => void;
 }
 
 export const GeoImportDialog = ({
@@ -30,32 +49,65 @@ export const GeoImportDialog = ({
 }: GeoImportDialogProps) => {
   const [file, setFile] = useState<File | null>(null);
   const [mode, setMode] = useState<'append' | 'replace'>('append');
+  const [options, setOptions] = useState<ImportFileOptions>({});
+  const { enqueueSnackbar } = useSnackbar();
+
+  const inspectMutation = useMutation({
+    mutationFn: ({ selected, fileOptions }: { selected: File; fileOptions: ImportFileOptions }) =>
+      inspectImportFile(selected, fileOptions),
+    onError: (error) => {
+      enqueueSnackbar(getApiErrorMessage(error, 'No se pudo leer el archivo'), {
+        variant: 'error',
+      });
+    },
+  });
+  const { reset: resetInspection } = inspectMutation;
 
   useEffect(() => {
     if (!open) {
       setFile(null);
       setMode('append');
+      setOptions({});
+      resetInspection();
+    }
+  }, [open, resetInspection]);
+
+  const changeOptions = (value: ImportFileOptions) => {
+    setOptions(value);
+    if (file) {
+      inspectMutation.mutate({ selected: file, fileOptions: value });
     }
-  }, [open]);
+  };
+
+  const preview = inspectMutation.data;
 
   return (
-    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
       <DialogTitle>{title}</DialogTitle>
       <DialogContent dividers>
         <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-          Selecciona un archivo Excel (.xlsx) con la estructura oficial. Puedes
-          elegir si deseas agregar los registros o reemplazar el contenido existente.
+          Selecciona un archivo Excel (.xlsx), CSV, TSV o JSON con la estructura
+          oficial. Si el libro tiene varias hojas o titulos sobre la tabla,
+          elige la hoja y la fila de encabezados. Puedes elegir si deseas
+          agregar los registros o reemplazar el contenido existente.
         </Typography>
 
         <Button variant="outlined" component="label">
           Seleccionar archivo
           <input
             type="file"
-            accept=".xlsx,.xls"
+            accept={IMPORT_FILE_ACCEPT}
             hidden
             onChange={(event) => {
               const selected = event.target.files?.[0] ?? null;
+              const fileOptions = { delimiter: options.delimiter, encoding: options.encoding };
               setFile(selected);
+              setOptions(fileOptions);
+              if (selected) {
+                inspectMutation.mutate({ selected, fileOptions });
+              } else {
+                inspectMutation.reset();
+              }
             }}
           />
         </Button>
@@ -64,6 +116,29 @@ export const GeoImportDialog = ({
             Archivo seleccionado: {file.name}
           </Typography>
         )}
+        {isDelimitedFile(file) && (
+          <Box sx={{ mt: 2 }}>
+            <ImportFileOptionsFields value={options} onChange={changeOptions} />
+          </Box>
+        )}
+        {inspectMutation.isPending && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+            <CircularProgress size={20} />
+            <Typography variant="body2" color="text.secondary">
+              Leyendo el archivo...
+            </Typography>
+          </Box>
+        )}
+        {file && preview && preview.format !== 'json' && (
+          <Box sx={{ mt: 2 }}>
+            <ImportSheetPicker
+              preview={preview}
+              value={options}
+              onChange={changeOptions}
+              disabled={submitting}
+            />
+          </Box>
+        )}
 
         <FormControl sx={{ mt: 3 }}>
           <Typography variant="subtitle1" fontWeight={600}>
@@ -90,10 +165,10 @@ export const GeoImportDialog = ({
           variant="contained"
           onClick={() => {
             if (file) {
-              onImport({ file, mode });
+              onImport({ file, mode, options });
             }
           }}
-          disabled={!file || submitting}
+          disabled={!file || submitting || inspectMutation.isPending}
         >
           {submitting ? 'Importando...' : 'Importar'}
         </Button>
@@ -24,6 +24,11 @@ import Inventory2Icon from "@mui/icons-material/Inventory2";
 import MapIcon from "@mui/icons-material/Map";
 import GroupIcon from "@mui/icons-material/Group";
 import DescriptionIcon from "@mui/icons-material/Description";
+import NewReleasesIcon from "@mui/icons-material/NewReleases";
+import VpnKeyIcon from "@mui/icons-material/VpnKey";
+import AccountTreeIcon from "@mui/icons-material/AccountTree";
+import SchemaIcon from "@mui/icons-material/Schema";
+import HistoryIcon from "@mui/icons-material/History";
 import { useAuth } from "../../hooks/useAuth";
 import frtLogo from "../../assets/frt-logo.png";
 
@@ -35,6 +40,26 @@ const navigationItems = [
     icon: <Inventory2Icon fontSize="small" />,
     path: "/catalogs",
   },
+  {
+    label: "Definiciones",
+    icon: <SchemaIcon fontSize="small" />,
+    path: "/catalog-definitions",
+  },
+  {
+    label: "Versiones",
+    icon: <NewReleasesIcon fontSize="small" />,
+    path: "/catalog-releases",
+  },
+  {
+    label: "Importaciones",
+    icon: <HistoryIcon fontSize="small" />,
+    path: "/import-history",
+  },
+  {
+    label: "Explorador CABYS",
+    icon: <AccountTreeIcon fontSize="small" />,
+    path: "/cabys",
+  },
   {
     label: "Provincias",
     icon: <MapIcon fontSize="small" />,
@@ -60,6 +85,11 @@ const navigationItems = [
     icon: <GroupIcon fontSize="small" />,
     path: "/users",
   },
+  {
+    label: "Claves API",
+    icon: <VpnKeyIcon fontSize="small" />,
+    path: "/api-keys",
+  },
   {
     label: "Documentacion API",
     icon: <DescriptionIcon fontSize="small" />,
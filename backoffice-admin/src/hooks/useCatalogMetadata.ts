@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { getCatalogsMetadata } from '../api/catalogs';
+
+export const catalogsMetadataQueryKey = ['catalogs', 'definitions'];
+
+export const useCatalogs = () =>
+  useQuery({
+    queryKey: catalogsMetadataQueryKey,
+    queryFn: getCatalogsMetadata,
+    staleTime: 5 * 60 * 1000,
+  });
+
+export const useCatalog = (catalogKey?: string) => {
+  const query = useCatalogs();
+  const catalog = catalogKey
+    ? query.data?.find((item) => item.key === catalogKey)
+    : undefined;
+  return { ...query, catalog };
+};
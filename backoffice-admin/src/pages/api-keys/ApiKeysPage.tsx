@@ -0,0 +1,195 @@
+import {
+  Box,
+  Breadcrumbs,
+  Button,
+  Chip,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import VpnKeyIcon from '@mui/icons-material/VpnKey';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSnackbar } from 'notistack';
+import { useState } from 'react';
+import { createApiKey, getApiKeys, revokeApiKey } from '../../api/apiKeys';
+import type {
+  ApiKeyResponse,
+  CreateApiKeyPayload,
+  CreatedApiKeyResponse,
+} from '../../api/apiKeys';
+import { ApiKeyFormDialog } from '../../components/api-keys/ApiKeyFormDialog';
+import { ApiKeySecretDialog } from '../../components/api-keys/ApiKeySecretDialog';
+import { ConfirmDialog } from '../../components/common/ConfirmDialog';
+
+const formatDate = (value: string | null, fallback = '—') =>
+  value ? new Date(value).toLocaleString() : fallback;
+
+const describeStatus = (item: ApiKeyResponse) => {
+  if (item.revokedAt) {
+    return { label: 'Revocada', color: 'error' as const };
+  }
+  if (item.expiresAt && new Date(item.expiresAt).getTime() <= Date.now()) {
+    return { label: 'Expirada', color: 'warning' as const };
+  }
+  return { label: 'Activa', color: 'success' as const };
+};
+
+export const ApiKeysPage = () => {
+  const queryClient = useQueryClient();
+  const { enqueueSnackbar } = useSnackbar();
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKeyResponse | null>(null);
+  const [selectedKey, setSelectedKey] = useState<ApiKeyResponse | null>(null);
+
+  const { data, isPending } = useQuery({
+    queryKey: ['api-keys'],
+    queryFn: getApiKeys,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (payload: CreateApiKeyPayload) => createApiKey(payload),
+    onSuccess: (apiKey) => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] });
+      setFormOpen(false);
+      setCreatedKey(apiKey);
+    },
+    onError: () => {
+      enqueueSnackbar('No se pudo crear la clave API', { variant: 'error' });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => revokeApiKey(id),
+    onSuccess: () => {
+      enqueueSnackbar('Clave API revocada', { variant: 'success' });
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] });
+    },
+    onError: () => {
+      enqueueSnackbar('No se pudo revocar la clave API', { variant: 'error' });
+    },
+    onSettled: () => setSelectedKey(null),
+  });
+
+  const tableData = data ?? [];
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      <Box>
+        <Breadcrumbs>
+          <Typography color="text.primary">Claves API</Typography>
+        </Breadcrumbs>
+        <Typography variant="h4" fontWeight={700} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <VpnKeyIcon fontSize="large" />
+          Claves API
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Claves de solo lectura para que otros sistemas consulten catalogos y
+          geografia. Envia la clave en el encabezado X-API-Key o como token
+          Bearer.
+        </Typography>
+      </Box>
+
+      <Stack direction="row" justifyContent="flex-end">
+        <Button variant="contained" onClick={() => setFormOpen(true)}>
+          Nueva clave
+        </Button>
+      </Stack>
+
+      <Paper elevation={1}>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Nombre</TableCell>
+                <TableCell>Prefijo</TableCell>
+                <TableCell>Estado</TableCell>
+                <TableCell>Ultimo uso</TableCell>
+                <TableCell>Expira</TableCell>
+                <TableCell>Creada</TableCell>
+                <TableCell align="right">Acciones</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {isPending ? (
+                <TableRow>
+                  <TableCell colSpan={7}>
+                    <Typography variant="body2" color="text.secondary">
+                      Cargando claves...
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : tableData.length ? (
+                tableData.map((item) => {
+                  const status = describeStatus(item);
+                  return (
+                    <TableRow hover key={item.id}>
+                      <TableCell>{item.name}</TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{item.keyPrefix}...</TableCell>
+                      <TableCell>
+                        <Chip size="small" color={status.color} label={status.label} />
+                      </TableCell>
+                      <TableCell>{formatDate(item.lastUsedAt, 'Nunca')}</TableCell>
+                      <TableCell>{formatDate(item.expiresAt, 'Sin expiracion')}</TableCell>
+                      <TableCell>
+                        {formatDate(item.createdAt)}
+                        {item.createdBy ? ` (${item.createdBy})` : ''}
+                      </TableCell>
+                      <TableCell align="right">
+                        <Button
+                          size="small"
+                          color="error"
+                          disabled={Boolean(item.revokedAt)}
+                          onClick={() => setSelectedKey(item)}
+                        >
+                          Revocar
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7}>
+                    <Typography variant="body2" color="text.secondary">
+                      No hay claves API registradas.
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <ApiKeyFormDialog
+        open={formOpen}
+        submitting={createMutation.isPending}
+        onClose={() => setFormOpen(false)}
+        onSubmit={(payload) => createMutation.mutate(payload)}
+      />
+
+      <ApiKeySecretDialog apiKey={createdKey} onClose={() => setCreatedKey(null)} />
+
+      <ConfirmDialog
+        open={Boolean(selectedKey)}
+        title="Revocar clave API"
+        message="Los sistemas que usen esta clave perderan el acceso de inmediato. Deseas continuar?"
+        confirmLabel="Revocar"
+        loading={revokeMutation.isPending}
+        onConfirm={() => {
+          if (selectedKey) {
+            revokeMutation.mutate(selectedKey.id);
+          }
+        }}
+        onCancel={() => setSelectedKey(null)}
+      />
+    </Box>
+  );
+};
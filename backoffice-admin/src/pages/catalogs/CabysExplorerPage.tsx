@@ -0,0 +1,126 @@
+import {
+  Box,
+  Breadcrumbs,
+  Chip,
+  Link,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  Typography,
+} from '@mui/material';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import { useQuery } from '@tanstack/react-query';
+import { Link as RouterLink, useSearchParams } from 'react-router-dom';
+import { getCabysAncestors, getCabysTree } from '../../api/cabys';
+import type { CabysNode } from '../../api/cabys';
+
+export const CabysExplorerPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const parent = searchParams.get('parent') ?? '';
+
+  const { data: tree, isPending, isError } = useQuery({
+    queryKey: ['cabys', 'tree', parent],
+    queryFn: () => getCabysTree(parent || undefined),
+  });
+
+  const { data: ancestors } = useQuery({
+    queryKey: ['cabys', 'ancestors', parent],
+    queryFn: () => getCabysAncestors(parent),
+    enabled: Boolean(parent),
+  });
+
+  const openNode = (code: string) => setSearchParams(code ? { parent: code } : {});
+
+  const renderNode = (node: CabysNode) => {
+    const content = (
+      <>
+        <ListItemText
+          primary={node.descripcion ?? 'Sin descripcion'}
+          secondary={node.code}
+          secondaryTypographyProps={{ fontFamily: 'monospace' }}
+        />
+        <Chip
+          size="small"
+          label={`${node.itemCount} ${node.itemCount === 1 ? 'codigo' : 'codigos'}`}
+          sx={{ ml: 2 }}
+        />
+        {node.hasChildren && <ChevronRightIcon color="action" sx={{ ml: 1 }} />}
+      </>
+    );
+
+    return node.hasChildren ? (
+      <ListItem key={node.code} disablePadding divider>
+        <ListItemButton onClick={() => openNode(node.code)}>{content}</ListItemButton>
+      </ListItem>
+    ) : (
+      <ListItem key={node.code} divider>
+        {content}
+      </ListItem>
+    );
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      <Breadcrumbs>
+        <Link component={RouterLink} underline="hover" color="inherit" to="/catalogs/cabys">
+          CABYS
+        </Link>
+        <Link
+          component="button"
+          underline="hover"
+          color={parent ? 'inherit' : 'text.primary'}
+          onClick={() => openNode('')}
+        >
+          Explorador
+        </Link>
+        {(ancestors ?? []).map((ancestor) =>
+          ancestor.code === parent ? (
+            <Typography key={ancestor.code} color="text.primary">
+              {ancestor.code} {ancestor.descripcion ?? ''}
+            </Typography>
+          ) : (
+            <Link
+              key={ancestor.code}
+              component="button"
+              underline="hover"
+              color="inherit"
+              onClick={() => openNode(ancestor.code)}
+            >
+              {ancestor.code}
+            </Link>
+          ),
+        )}
+      </Breadcrumbs>
+
+      <Box>
+        <Typography variant="h4" fontWeight={700}>
+          Explorador CABYS
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Navega la jerarquia del Catalogo de Bienes y Servicios a partir de los
+          niveles del codigo de 13 digitos.
+        </Typography>
+      </Box>
+
+      <Paper elevation={1}>
+        {isPending ? (
+          <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+            Cargando categorias...
+          </Typography>
+        ) : isError ? (
+          <Typography variant="body2" color="error" sx={{ p: 2 }}>
+            No se pudo cargar la jerarquia CABYS.
+          </Typography>
+        ) : tree.children.length ? (
+          <List disablePadding>{tree.children.map(renderNode)}</List>
+        ) : (
+          <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+            No hay subcategorias para este codigo.
+          </Typography>
+        )}
+      </Paper>
+    </Box>
+  );
+};
@@ -0,0 +1,174 @@
+import {
+  Box,
+  Breadcrumbs,
+  Button,
+  Chip,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import SchemaIcon from '@mui/icons-material/Schema';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSnackbar } from 'notistack';
+import { useState } from 'react';
+import {
+  createCatalogDefinition,
+  getCatalogDefinitions,
+  updateCatalogDefinition,
+} from '../../api/catalogDefinitions';
+import type {
+  CatalogDefinition,
+  SaveCatalogDefinitionPayload,
+} from '../../api/catalogDefinitions';
+import { getApiErrorMessage } from '../../api/http';
+import { CatalogDefinitionFormDialog } from '../../components/catalogs/CatalogDefinitionFormDialog';
+import { catalogsMetadataQueryKey } from '../../hooks/useCatalogMetadata';
+
+export const CatalogDefinitionsPage = () => {
+  const queryClient = useQueryClient();
+  const { enqueueSnackbar } = useSnackbar();
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [selected, setSelected] = useState<CatalogDefinition | null>(null);
+
+  const { data, isPending } = useQuery({
+    queryKey: ['catalog-definitions'],
+    queryFn: getCatalogDefinitions,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: SaveCatalogDefinitionPayload) =>
+      selected
+        ? updateCatalogDefinition(selected.key, payload)
+        : createCatalogDefinition(payload),
+    onSuccess: () => {
+      enqueueSnackbar(selected ? 'Definicion actualizada' : 'Catalogo creado', {
+        variant: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['catalog-definitions'] });
+      queryClient.invalidateQueries({ queryKey: catalogsMetadataQueryKey });
+      setFormOpen(false);
+    },
+    onError: (error) => {
+      enqueueSnackbar(getApiErrorMessage(error, 'No se pudo guardar la definicion'), {
+        variant: 'error',
+      });
+    },
+  });
+
+  const handleOpenCreate = () => {
+    setSelected(null);
+    setFormOpen(true);
+  };
+
+  const handleOpenEdit = (definition: CatalogDefinition) => {
+    setSelected(definition);
+    setFormOpen(true);
+  };
+
+  const tableData = data ?? [];
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      <Box>
+        <Breadcrumbs>
+          <Typography color="text.primary">Definiciones</Typography>
+        </Breadcrumbs>
+        <Typography variant="h4" fontWeight={700} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <SchemaIcon fontSize="large" />
+          Definiciones de catalogos
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Crea catalogos nuevos sin desplegar el sistema. Los catalogos base se
+          definen en el codigo y solo pueden consultarse.
+        </Typography>
+      </Box>
+
+      <Stack direction="row" justifyContent="flex-end">
+        <Button variant="contained" onClick={handleOpenCreate}>
+          Nueva definicion
+        </Button>
+      </Stack>
+
+      <Paper elevation={1}>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Clave</TableCell>
+                <TableCell>Etiqueta</TableCell>
+                <TableCell>Tabla</TableCell>
+                <TableCell>Campos</TableCell>
+                <TableCell>Clave unica</TableCell>
+                <TableCell>Origen</TableCell>
+                <TableCell align="right">Acciones</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {isPending ? (
+                <TableRow>
+                  <TableCell colSpan={7}>
+                    <Typography variant="body2" color="text.secondary">
+                      Cargando definiciones...
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : tableData.length ? (
+                tableData.map((definition) => (
+                  <TableRow hover key={definition.key}>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>{definition.key}</TableCell>
+                    <TableCell>{definition.label}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>{definition.tableName}</TableCell>
+                    <TableCell>
+                      {definition.fields.map((field) => field.name).join(', ')}
+                    </TableCell>
+                    <TableCell>{definition.uniqueBy.join(', ')}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        color={definition.builtIn ? 'default' : 'primary'}
+                        label={definition.builtIn ? 'Base' : 'Personalizado'}
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button
+                        size="small"
+                        disabled={definition.builtIn}
+                        onClick={() => handleOpenEdit(definition)}
+                      >
+                        Editar
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7}>
+                    <Typography variant="body2" color="text.secondary">
+                      No hay definiciones registradas.
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <CatalogDefinitionFormDialog
+        open={formOpen}
+        definition={selected}
+        definitions={tableData}
+        submitting={saveMutation.isPending}
+        onClose={() => setFormOpen(false)}
+        onSubmit={(payload) => saveMutation.mutate(payload)}
+      />
+    </Box>
+  );
+};
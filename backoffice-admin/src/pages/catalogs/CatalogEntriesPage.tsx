@@ -3,9 +3,12 @@ import {
   Box,
   Breadcrumbs,
   Button,
+  CircularProgress,
+  FormControlLabel,
   Link,
   Pagination,
   Stack,
+  Switch,
   TextField,
   Typography,
 } from '@mui/material';
@@ -15,45 +18,83 @@ import { useSnackbar } from 'notistack';
 import SearchIcon from '@mui/icons-material/Search';
 import { CatalogFormDialog } from '../../components/catalogs/CatalogFormDialog';
 import { CatalogTable } from '../../components/catalogs/CatalogTable';
+import { CatalogHistoryDrawer } from '../../components/catalogs/CatalogHistoryDrawer';
 import {
+  bulkCatalogEntries,
+  catalogValidityFields,
   createCatalogEntry,
   deleteCatalogEntry,
+  exportCatalogEntries,
   getCatalogEntries,
   getCatalogEntry,
+  restoreCatalogEntry,
   updateCatalogEntry,
 } from '../../api/catalogs';
-import type { CatalogListParams } from '../../api/catalogs';
-import { catalogConfigMap } from '../../config/catalogs';
+import type {
+  CatalogFieldConfig,
+  CatalogFieldFilter,
+  CatalogListParams,
+} from '../../api/catalogs';
+import { getApiErrorMessage } from '../../api/http';
 import { ConfirmDialog } from '../../components/common/ConfirmDialog';
+import { ExportMenuButton } from '../../components/common/ExportMenuButton';
+import { useCatalog } from '../../hooks/useCatalogMetadata';
 
 interface SelectedRecord {
   id: string;
   [key: string]: unknown;
 }
 
+const toFieldFilters = (
+  fields: CatalogFieldConfig[],
+  filters: Record<string, string>,
+) =>
+  fields.reduce<Record<string, CatalogFieldFilter>>((acc, field) => {
+    const value = filters[field.name]?.trim();
+    if (value) {
+      acc[field.name] = field.type === 'string' ? { prefix: value } : value;
+    }
+    return acc;
+  }, {});
+
 export const CatalogEntriesPage = () => {
   const { catalogKey } = useParams<{ catalogKey: string }>();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const { enqueueSnackbar } = useSnackbar();
   const [params, setParams] = useState<CatalogListParams>({ page: 1, limit: 10 });
+  const [filters, setFilters] = useState<Record<string, string>>({});
   const [openForm, setOpenForm] = useState(false);
   const [openDelete, setOpenDelete] = useState(false);
   const [selected, setSelected] = useState<SelectedRecord | null>(null);
+  const [historyRecordId, setHistoryRecordId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [openBulkDeactivate, setOpenBulkDeactivate] = useState(false);
+
+  const { catalog: config, isPending: configPending } = useCatalog(catalogKey);
 
-  const config = useMemo(() => {
-    if (!catalogKey) return null;
-    return catalogConfigMap.get(catalogKey);
-  }, [catalogKey]);
+  const fields = useMemo(
+    () => (config ? [...config.fields, ...catalogValidityFields] : []),
+    [config],
+  );
+
+  const fieldFilters = useMemo(
+    () => toFieldFilters(fields, filters),
+    [fields, filters],
+  );
 
   const { data } = useQuery({
-    queryKey: ['catalogs', catalogKey, params],
+    queryKey: ['catalogs', catalogKey, params, fieldFilters],
     enabled: Boolean(catalogKey),
     queryFn: () =>
       getCatalogEntries<SelectedRecord>(catalogKey!, {
         page: params.page,
         limit: params.limit,
         search: params.search,
+        asOf: params.asOf || undefined,
+        includeInactive: params.includeInactive || undefined,
+        sort: params.sort,
+        filter: fieldFilters,
       }),
   });
 
@@ -65,8 +106,10 @@ export const CatalogEntriesPage = () => {
       queryClient.invalidateQueries({ queryKey: ['catalogs', catalogKey] });
       setOpenForm(false);
     },
-    onError: () => {
-      enqueueSnackbar('No se pudo crear el registro', { variant: 'error' });
+    onError: (error) => {
+      enqueueSnackbar(getApiErrorMessage(error, 'No se pudo crear el registro'), {
+        variant: 'error',
+      });
     },
   });
 
@@ -78,23 +121,60 @@ export const CatalogEntriesPage = () => {
       queryClient.invalidateQueries({ queryKey: ['catalogs', catalogKey] });
       setOpenForm(false);
     },
-    onError: () => {
-      enqueueSnackbar('No se pudo actualizar el registro', { variant: 'error' });
+    onError: (error) => {
+      enqueueSnackbar(getApiErrorMessage(error, 'No se pudo actualizar el registro'), {
+        variant: 'error',
+      });
     },
   });
 
   const deleteMutation = useMutation({
     mutationFn: (id: string) => deleteCatalogEntry(catalogKey!, id),
     onSuccess: () => {
-      enqueueSnackbar('Registro eliminado', { variant: 'success' });
+      enqueueSnackbar('Registro desactivado', { variant: 'success' });
       queryClient.invalidateQueries({ queryKey: ['catalogs', catalogKey] });
     },
-    onError: () => {
-      enqueueSnackbar('No se pudo eliminar el registro', { variant: 'error' });
+    onError: (error) => {
+      enqueueSnackbar(getApiErrorMessage(error, 'No se pudo desactivar el registro'), {
+        variant: 'error',
+      });
     },
     onSettled: () => setOpenDelete(false),
   });
 
+  const restoreMutation = useMutation({
+    mutationFn: (id: string) => restoreCatalogEntry(catalogKey!, id),
+    onSuccess: () => {
+      enqueueSnackbar('Registro reactivado', { variant: 'success' });
+      queryClient.invalidateQueries({ queryKey: ['catalogs', catalogKey] });
+    },
+    onError: () => {
+      enqueueSnackbar('No se pudo reactivar el registro', { variant: 'error' });
+    },
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: () =>
+      bulkCatalogEntries(
+        catalogKey!,
+        selectedIds.map((id) => ({ op: 'deactivate', id })),
+      ),
+    onSuccess: (results) => {
+      enqueueSnackbar(`${results.length} registros desactivados`, {
+        variant: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['catalogs', catalogKey] });
+      setSelectedIds([]);
+    },
+    onError: (error) => {
+      enqueueSnackbar(
+        getApiErrorMessage(error, 'No se pudo aplicar la operacion masiva'),
+        { variant: 'error' },
+      );
+    },
+    onSettled: () => setOpenBulkDeactivate(false),
+  });
+
   const handleOpenCreate = () => {
     setSelected(null);
     setOpenForm(true);
@@ -122,6 +202,17 @@ export const CatalogEntriesPage = () => {
     setOpenDelete(true);
   };
 
+  const handleRestore = (item: Record<string, unknown>) => {
+    const id = item.id as string | undefined;
+    if (id) {
+      restoreMutation.mutate(id);
+    }
+  };
+
+  const handleHistory = (item: Record<string, unknown>) => {
+    setHistoryRecordId((item.id as string | undefined) ?? null);
+  };
+
   const handleSubmit = (values: Record<string, unknown>) => {
     if (selected) {
       updateMutation.mutate({ id: selected.id, values });
@@ -130,6 +221,14 @@ export const CatalogEntriesPage = () => {
     }
   };
 
+  if (configPending) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
   if (!config) {
     return (
       <Box>
@@ -142,6 +241,12 @@ export const CatalogEntriesPage = () => {
   }
 
   const totalPages = data ? Math.ceil(data.meta.total / data.meta.limit) : 0;
+  const searchLabels = config.searchFields
+    .map((name) => config.fields.find((field) => field.name === name)?.label ?? name)
+    .map((label) => label.toLowerCase());
+  const searchPlaceholder = searchLabels.length
+    ? `Buscar por ${searchLabels.join(', ')}...`
+    : 'Buscar...';
 
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
@@ -163,7 +268,7 @@ export const CatalogEntriesPage = () => {
         spacing={2}
       >
         <TextField
-          placeholder={config.searchPlaceholder ?? 'Buscar por descripción o código...'}
+          placeholder={searchPlaceholder}
           value={params.search ?? ''}
           onChange={(event) =>
             setParams((prev) => ({
@@ -178,7 +283,58 @@ export const CatalogEntriesPage = () => {
           sx={{ maxWidth: 320 }}
           size="small"
         />
+        <TextField
+          label="Vigente al"
+          type="date"
+          value={params.asOf ?? ''}
+          onChange={(event) =>
+            setParams((prev) => ({
+              ...prev,
+              page: 1,
+              asOf: event.target.value,
+            }))
+          }
+          InputLabelProps={{ shrink: true }}
+          sx={{ maxWidth: 200 }}
+          size="small"
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              checked={Boolean(params.includeInactive)}
+              onChange={(event) =>
+                setParams((prev) => ({
+                  ...prev,
+                  page: 1,
+                  includeInactive: event.target.checked,
+                }))
+              }
+            />
+          }
+          label="Mostrar inactivos"
+        />
         <Box sx={{ flexGrow: 1 }} />
+        <ExportMenuButton
+          fileName={config.key}
+          onExport={(format) =>
+            exportCatalogEntries(
+              config.key,
+              {
+                search: params.search || undefined,
+                asOf: params.asOf || undefined,
+                includeInactive: params.includeInactive || undefined,
+                sort: params.sort,
+                filter: fieldFilters,
+              },
+              format,
+            )
+          }
+        />
+        {config.key === 'cabys' && (
+          <Button variant="outlined" component={RouterLink} to="/cabys">
+            Explorar jerarquia
+          </Button>
+        )}
         <Button
           variant="outlined"
           onClick={() => navigate(`/catalogs/${config.key}/import`)}
@@ -191,12 +347,24 @@ export const CatalogEntriesPage = () => {
       </Stack>
 
       <CatalogTable
-        fields={config.fields}
+        fields={fields}
         data={data?.data ?? []}
         onCreate={handleOpenCreate}
         onImport={() => navigate(`/catalogs/${config.key}/import`)}
         onEdit={handleOpenEdit}
         onDelete={handleDelete}
+        onHistory={handleHistory}
+        onRestore={handleRestore}
+        sort={params.sort}
+        onSortChange={(sort) => setParams((prev) => ({ ...prev, sort }))}
+        filters={filters}
+        selectedIds={selectedIds}
+        onSelectionChange={setSelectedIds}
+        onBulkDeactivate={() => setOpenBulkDeactivate(true)}
+        onFilterChange={(field, value) => {
+          setFilters((prev) => ({ ...prev, [field]: value }));
+          setParams((prev) => ({ ...prev, page: 1 }));
+        }}
       />
 
       {totalPages > 1 && (
@@ -211,21 +379,39 @@ export const CatalogEntriesPage = () => {
       <CatalogFormDialog
         open={openForm}
         title={selected ? 'Editar registro' : 'Nuevo registro'}
-        fields={config.fields}
+        fields={fields}
         defaultValues={selected ?? {}}
         submitting={createMutation.isPending || updateMutation.isPending}
         onClose={() => setOpenForm(false)}
         onSubmit={handleSubmit}
       />
 
+      <CatalogHistoryDrawer
+        open={Boolean(historyRecordId)}
+        catalogKey={config.key}
+        recordId={historyRecordId}
+        fields={fields}
+        onClose={() => setHistoryRecordId(null)}
+      />
+
       <ConfirmDialog
         open={openDelete}
-        title="Eliminar registro"
-        message="Esta accion no se puede deshacer. Deseas continuar?"
-        confirmLabel="Eliminar"
+        title="Desactivar registro"
+        message="El registro dejara de mostrarse en los listados, pero podras reactivarlo luego. Deseas continuar?"
+        confirmLabel="Desactivar"
         onConfirm={() => selected && deleteMutation.mutate(selected.id)}
         onCancel={() => setOpenDelete(false)}
       />
+
+      <ConfirmDialog
+        open={openBulkDeactivate}
+        title="Desactivar registros"
+        message={`Se desactivaran ${selectedIds.length} registros. Si alguno falla no se aplicara ningun cambio. Deseas continuar?`}
+        confirmLabel="Desactivar"
+        loading={bulkMutation.isPending}
+        onConfirm={() => bulkMutation.mutate()}
+        onCancel={() => setOpenBulkDeactivate(false)}
+      />
     </Box>
   );
 };
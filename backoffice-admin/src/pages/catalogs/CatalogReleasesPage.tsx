@@ -0,0 +1,163 @@
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSnackbar } from 'notistack';
+import {
+  getCatalogReleases,
+  publishCatalogRelease,
+} from '../../api/catalogReleases';
+import type { PublishCatalogReleasePayload } from '../../api/catalogReleases';
+import { PublishCatalogReleaseDialog } from '../../components/catalogs/PublishCatalogReleaseDialog';
+import { CatalogReleaseDiffDialog } from '../../components/catalogs/CatalogReleaseDiffDialog';
+import { useCatalogs } from '../../hooks/useCatalogMetadata';
+
+export const CatalogReleasesPage = () => {
+  const queryClient = useQueryClient();
+  const { enqueueSnackbar } = useSnackbar();
+  const [publishOpen, setPublishOpen] = useState(false);
+  const [diffVersion, setDiffVersion] = useState<string | null>(null);
+
+  const { data: releases, isPending } = useQuery({
+    queryKey: ['catalog-releases'],
+    queryFn: getCatalogReleases,
+  });
+
+  const { data: definitions } = useCatalogs();
+
+  const catalogLabels = useMemo(
+    () =>
+      new Map((definitions ?? []).map((definition) => [definition.key, definition.label])),
+    [definitions],
+  );
+
+  const publishMutation = useMutation({
+    mutationFn: (payload: PublishCatalogReleasePayload) =>
+      publishCatalogRelease(payload),
+    onSuccess: (release) => {
+      enqueueSnackbar(`Version ${release.version} publicada`, {
+        variant: 'success',
+      });
+      queryClient.invalidateQueries({ queryKey: ['catalog-releases'] });
+      setPublishOpen(false);
+    },
+    onError: () => {
+      enqueueSnackbar('No se pudo publicar la version', { variant: 'error' });
+    },
+  });
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      <Box>
+        <Typography variant="h4" fontWeight={700}>
+          Versiones de catalogos
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Publica versiones inmutables que los sistemas consumidores pueden fijar
+          con el parametro <code>release</code>.
+        </Typography>
+      </Box>
+
+      <Stack direction="row" justifyContent="flex-end">
+        <Button variant="contained" onClick={() => setPublishOpen(true)}>
+          Publicar version
+        </Button>
+      </Stack>
+
+      <Paper elevation={1}>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Version</TableCell>
+                <TableCell>Publicada</TableCell>
+                <TableCell>Publicada por</TableCell>
+                <TableCell>Catalogos</TableCell>
+                <TableCell>Checksum</TableCell>
+                <TableCell>Notas</TableCell>
+                <TableCell align="right">Acciones</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {isPending ? (
+                <TableRow>
+                  <TableCell colSpan={7}>
+                    <Typography variant="body2" color="text.secondary">
+                      Cargando versiones...
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : releases?.length ? (
+                releases.map((release) => (
+                  <TableRow hover key={release.id}>
+                    <TableCell>
+                      <Chip size="small" color="primary" label={release.version} />
+                    </TableCell>
+                    <TableCell>
+                      {new Date(release.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>{release.publishedBy ?? '—'}</TableCell>
+                    <TableCell>
+                      {release.catalogs.length === 1
+                        ? catalogLabels.get(release.catalogs[0].catalogKey) ??
+                          release.catalogs[0].catalogKey
+                        : `${release.catalogs.length} catalogos`}
+                    </TableCell>
+                    <TableCell>
+                      <Tooltip title={release.checksum}>
+                        <Typography variant="body2" fontFamily="monospace">
+                          {release.checksum.slice(0, 12)}
+                        </Typography>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell>{release.notes ?? ''}</TableCell>
+                    <TableCell align="right">
+                      <Button size="small" onClick={() => setDiffVersion(release.version)}>
+                        Ver cambios
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7}>
+                    <Typography variant="body2" color="text.secondary">
+                      Aun no se han publicado versiones.
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <PublishCatalogReleaseDialog
+        open={publishOpen}
+        catalogs={definitions ?? []}
+        submitting={publishMutation.isPending}
+        onClose={() => setPublishOpen(false)}
+        onSubmit={(payload) => publishMutation.mutate(payload)}
+      />
+
+      <CatalogReleaseDiffDialog
+        version={diffVersion}
+        catalogLabels={catalogLabels}
+        onClose={() => setDiffVersion(null)}
+      />
+    </Box>
+  );
+};
@@ -9,18 +9,14 @@ import {
   CircularProgress,
 } from '@mui/material';
 import SearchIcon from '@mui/icons-material/Search';
-import { useQuery } from '@tanstack/react-query';
 import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { getCatalogDefinitions } from '../../api/catalogs';
+import { useCatalogs } from '../../hooks/useCatalogMetadata';
 
 export const CatalogsPage = () => {
   const navigate = useNavigate();
   const [search, setSearch] = useState('');
-  const { data, isPending } = useQuery({
-    queryKey: ['catalogs', 'definitions'],
-    queryFn: getCatalogDefinitions,
-  });
+  const { data, isPending } = useCatalogs();
 
   const filtered = useMemo(() => {
     if (!data) return [];
@@ -92,6 +88,9 @@ export const CatalogsPage = () => {
                   <Typography variant="h6" fontWeight={600}>
                     {catalog.label}
                   </Typography>
+                  <Typography variant="body2" color="text.secondary" noWrap>
+                    {catalog.fields.map((field) => field.label).join(', ')}
+                  </Typography>
                 </CardContent>
               </CardActionArea>
             </Card>
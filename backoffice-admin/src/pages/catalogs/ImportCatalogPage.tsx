@@ -1,47 +1,171 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   Box,
   Breadcrumbs,
   Button,
+  Chip,
+  CircularProgress,
   FormControl,
   FormControlLabel,
   FormHelperText,
   Link,
   Radio,
   RadioGroup,
+  Stack,
   Typography,
 } from '@mui/material';
 import { useNavigate, useParams, Link as RouterLink } from 'react-router-dom';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useSnackbar } from 'notistack';
-import { importCatalogEntries } from '../../api/catalogs';
-import { catalogConfigMap } from '../../config/catalogs';
+import {
+  catalogValidityFields,
+  deleteCatalogImportMapping,
+  detectCatalogImportColumns,
+  getImportJob,
+  importCatalogEntries,
+  previewCatalogImport,
+  saveCatalogImportMapping,
+} from '../../api/catalogs';
+import type {
+  CatalogColumnMapping,
+  CatalogImportColumns,
+  CatalogImportPreview as CatalogImportPreviewData,
+  ImportFileOptions,
+} from '../../api/catalogs';
+import { getApiErrorMessage } from '../../api/http';
+import { CatalogImportPreview } from '../../components/catalogs/CatalogImportPreview';
+import { ImportColumnMapping } from '../../components/catalogs/ImportColumnMapping';
+import { ImportJobProgress } from '../../components/catalogs/ImportJobProgress';
+import {
+  IMPORT_FILE_ACCEPT,
+  ImportFileOptionsFields,
+  isDelimitedFile,
+} from '../../components/common/ImportFileOptionsFields';
+import { ImportSheetPicker } from '../../components/common/ImportSheetPicker';
+import { useCatalog } from '../../hooks/useCatalogMetadata';
 
 export const ImportCatalogPage = () => {
   const { catalogKey } = useParams<{ catalogKey: string }>();
   const navigate = useNavigate();
   const { enqueueSnackbar } = useSnackbar();
+  const queryClient = useQueryClient();
   const [file, setFile] = useState<File | null>(null);
   const [mode, setMode] = useState<'append' | 'replace'>('append');
+  const [fileOptions, setFileOptions] = useState<ImportFileOptions>({});
+  const [preview, setPreview] = useState<CatalogImportPreviewData | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [columns, setColumns] = useState<CatalogImportColumns | null>(null);
+  const [columnMapping, setColumnMapping] = useState<CatalogColumnMapping>({});
+  const [rememberMapping, setRememberMapping] = useState(false);
 
-  const config = catalogKey ? catalogConfigMap.get(catalogKey) : null;
+  const { catalog: config, isPending: configPending } = useCatalog(catalogKey);
 
-  const mutation = useMutation({
+  const columnsMutation = useMutation({
+    mutationFn: ({ selected, options }: { selected: File; options: ImportFileOptions }) => {
+      if (!catalogKey) {
+        throw new Error('Catalogo requerido');
+      }
+      return detectCatalogImportColumns(catalogKey, selected, options);
+    },
+    onMutate: () => {
+      setColumns(null);
+      setPreview(null);
+    },
+    onSuccess: (data) => {
+      setColumns(data);
+      setColumnMapping(data.suggestedMapping);
+      setRememberMapping(Boolean(data.savedMapping));
+    },
+    onError: (error) => {
+      enqueueSnackbar(getApiErrorMessage(error, 'No se pudieron leer las columnas del archivo'), {
+        variant: 'error',
+      });
+    },
+  });
+
+  const forgetMappingMutation = useMutation({
+    mutationFn: () => deleteCatalogImportMapping(catalogKey as string),
+    onSuccess: () => {
+      setColumns((prev) => prev && { ...prev, savedMapping: null });
+      setRememberMapping(false);
+      enqueueSnackbar('Asignacion de columnas olvidada', { variant: 'success' });
+    },
+    onError: (error) => {
+      enqueueSnackbar(getApiErrorMessage(error, 'No se pudo olvidar la asignacion'), {
+        variant: 'error',
+      });
+    },
+  });
+
+  const missingMapping = columns
+    ? columns.fields.some((field) => field.required && !columnMapping[field.name])
+    : true;
+
+  const previewMutation = useMutation({
     mutationFn: () => {
       if (!catalogKey || !file) {
         throw new Error('Archivo requerido');
       }
-      return importCatalogEntries(catalogKey, file, mode);
+      return previewCatalogImport(catalogKey, file, mode, fileOptions, columnMapping);
     },
-    onSuccess: () => {
-      enqueueSnackbar('Importacion completada', { variant: 'success' });
-      navigate(`/catalogs/${catalogKey}`, { replace: true });
+    onSuccess: (data) => {
+      setPreview(data);
+    },
+    onError: (error) => {
+      enqueueSnackbar(getApiErrorMessage(error, 'No se pudo analizar el archivo'), {
+        variant: 'error',
+      });
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      if (!catalogKey || !file) {
+        throw new Error('Archivo requerido');
+      }
+      if (rememberMapping) {
+        await saveCatalogImportMapping(catalogKey, columnMapping);
+      }
+      return importCatalogEntries(catalogKey, file, mode, fileOptions, columnMapping);
+    },
+    onSuccess: (job) => {
+      setJobId(job.id);
     },
     onError: () => {
       enqueueSnackbar('No se pudo completar la importacion', { variant: 'error' });
     },
   });
 
+  const { data: job } = useQuery({
+    queryKey: ['import-jobs', jobId],
+    queryFn: () => getImportJob(jobId as string),
+    enabled: Boolean(jobId),
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'completed' || status === 'failed' ? false : 1000;
+    },
+  });
+
+  const jobStatus = job?.status;
+  const jobFinished = jobStatus === 'completed' || jobStatus === 'failed';
+
+  useEffect(() => {
+    if (jobStatus === 'completed') {
+      enqueueSnackbar('Importacion completada', { variant: 'success' });
+      queryClient.invalidateQueries({ queryKey: ['catalogs', catalogKey] });
+    } else if (jobStatus === 'failed') {
+      enqueueSnackbar('No se pudo completar la importacion', { variant: 'error' });
+    }
+  }, [jobStatus, catalogKey, enqueueSnackbar, queryClient]);
+
+  if (configPending) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
   if (!config) {
     return (
       <Box>
@@ -51,7 +175,7 @@ export const ImportCatalogPage = () => {
   }
 
   return (
-    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, maxWidth: 600 }}>
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, maxWidth: preview ? 1000 : 600 }}>
       <Breadcrumbs>
         <Link component={RouterLink} to="/catalogs" underline="hover">
           Catalogos
@@ -67,21 +191,54 @@ export const ImportCatalogPage = () => {
       </Typography>
 
       <Typography variant="body2" color="text.secondary">
-        Selecciona un archivo Excel (.xlsx) con la estructura correcta. Puedes
-        escoger el modo de importacion: agregar nuevos registros o reemplazar el
-        contenido existente.
+        Selecciona un archivo Excel (.xlsx), CSV, TSV o JSON. En libros con
+        varias hojas o con titulos sobre la tabla puedes elegir la hoja y la
+        fila de encabezados, y si los encabezados no coinciden con los campos
+        puedes asignar cada columna manualmente. Puedes escoger el modo de
+        importacion: agregar nuevos registros o reemplazar el contenido
+        existente. Antes de importar se muestra una vista previa de los cambios
+        y, al confirmar, la importacion se procesa en segundo plano mostrando
+        su progreso.
       </Typography>
 
-      <Button variant="outlined" component="label" sx={{ alignSelf: 'flex-start' }}>
+      <Box>
+        <Typography variant="subtitle1" fontWeight={600}>
+          Columnas esperadas
+        </Typography>
+        <Stack direction="row" flexWrap="wrap" useFlexGap spacing={1} sx={{ mt: 1 }}>
+          {config.fields.map((field) => (
+            <Chip
+              key={field.name}
+              size="small"
+              variant={field.required ? 'filled' : 'outlined'}
+              label={field.required ? `${field.label} *` : field.label}
+            />
+          ))}
+        </Stack>
+        <FormHelperText>
+          Las columnas marcadas con * son obligatorias.
+        </FormHelperText>
+      </Box>
+
+      <Button
+        variant="outlined"
+        component="label"
+        disabled={Boolean(jobId)}
+        sx={{ alignSelf: 'flex-start' }}
+      >
         Seleccionar archivo
         <input
           type="file"
-          accept=".xlsx,.xls"
+          accept={IMPORT_FILE_ACCEPT}
           hidden
           onChange={(event) => {
             const selected = event.target.files?.[0];
             if (selected) {
+              const options = { delimiter: fileOptions.delimiter, encoding: fileOptions.encoding };
               setFile(selected);
+              setFileOptions(options);
+              setPreview(null);
+              columnsMutation.mutate({ selected, options });
             }
           }}
         />
@@ -91,6 +248,59 @@ export const ImportCatalogPage = () => {
           Archivo seleccionado: {file.name}
         </Typography>
       )}
+      {isDelimitedFile(file) && (
+        <ImportFileOptionsFields
+          value={fileOptions}
+          onChange={(value) => {
+            setFileOptions(value);
+            setPreview(null);
+            if (file) {
+              columnsMutation.mutate({ selected: file, options: value });
+            }
+          }}
+        />
+      )}
+
+      {columnsMutation.isPending && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <CircularProgress size={20} />
+          <Typography variant="body2" color="text.secondary">
+            Leyendo columnas del archivo...
+          </Typography>
+        </Box>
+      )}
+      {columns && (columns.sheets.length > 0 || isDelimitedFile(file)) && (
+        <ImportSheetPicker
+          preview={{
+            sheets: columns.sheets,
+            sheet: columns.sheet,
+            headerRow: columns.headerRow,
+            rows: columns.previewRows,
+          }}
+          value={fileOptions}
+          disabled={Boolean(jobId)}
+          onChange={(value) => {
+            setFileOptions(value);
+            if (file) {
+              columnsMutation.mutate({ selected: file, options: value });
+            }
+          }}
+        />
+      )}
+      {columns && (
+        <ImportColumnMapping
+          columns={columns}
+          value={columnMapping}
+          onChange={(value) => {
+            setColumnMapping(value);
+            setPreview(null);
+          }}
+          remember={rememberMapping}
+          onRememberChange={setRememberMapping}
+          onForget={() => forgetMappingMutation.mutate()}
+          disabled={Boolean(jobId) || forgetMappingMutation.isPending}
+        />
+      )}
 
       <FormControl>
         <Typography variant="subtitle1" fontWeight={600}>
@@ -99,9 +309,10 @@ export const ImportCatalogPage = () => {
         <RadioGroup
           row
           value={mode}
-          onChange={(event) =>
-            setMode(event.target.value as 'append' | 'replace')
-          }
+          onChange={(event) => {
+            setMode(event.target.value as 'append' | 'replace');
+            setPreview(null);
+          }}
         >
           <FormControlLabel
             value="append"
@@ -115,17 +326,47 @@ export const ImportCatalogPage = () => {
           />
         </RadioGroup>
         <FormHelperText>
-          Reemplazar eliminara los registros actuales antes de importar.
+          Reemplazar desactivara los registros actuales que no esten en el archivo.
         </FormHelperText>
       </FormControl>
 
+      {preview && !jobId && (
+        <CatalogImportPreview
+          preview={preview}
+          fields={[...config.fields, ...catalogValidityFields]}
+          uniqueBy={config.uniqueBy}
+        />
+      )}
+
+      {job && <ImportJobProgress job={job} />}
+
       <Box sx={{ display: 'flex', gap: 2 }}>
-        <Button variant="contained" onClick={() => mutation.mutate()} disabled={!file || mutation.isPending}>
-          {mutation.isPending ? 'Importando...' : 'Importar'}
-        </Button>
-        <Button variant="text" onClick={() => navigate(-1)}>
-          Cancelar
-        </Button>
+        {jobId ? (
+          <Button
+            variant="contained"
+            onClick={() => navigate(`/catalogs/${catalogKey}`, { replace: true })}
+            disabled={!jobFinished}
+          >
+            Volver al catalogo
+          </Button>
+        ) : preview ? (
+          <Button variant="contained" onClick={() => mutation.mutate()} disabled={mutation.isPending}>
+            {mutation.isPending ? 'Importando...' : 'Confirmar importacion'}
+          </Button>
+        ) : (
+          <Button
+            variant="contained"
+            onClick={() => previewMutation.mutate()}
+            disabled={!file || missingMapping || previewMutation.isPending}
+          >
+            {previewMutation.isPending ? 'Analizando...' : 'Previsualizar'}
+          </Button>
+        )}
+        {!jobId && (
+          <Button variant="text" onClick={() => navigate(-1)}>
+            Cancelar
+          </Button>
+        )}
       </Box>
     </Box>
   );
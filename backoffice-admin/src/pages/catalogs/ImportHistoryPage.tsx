@@ -0,0 +1,318 @@
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Pagination,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import HistoryIcon from '@mui/icons-material/History';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSnackbar } from 'notistack';
+import { getImportJobs, getRollbackConflicts, rollbackImportJob } from '../../api/catalogs';
+import type { ImportJob, ImportJobListParams, ImportRollbackConflicts } from '../../api/catalogs';
+import { getApiErrorMessage } from '../../api/http';
+import { ConfirmDialog } from '../../components/common/ConfirmDialog';
+import {
+  IMPORT_JOB_STATUS_COLORS,
+  IMPORT_JOB_STATUS_LABELS,
+  ImportJobProgress,
+} from '../../components/catalogs/ImportJobProgress';
+import { useCatalogs } from '../../hooks/useCatalogMetadata';
+
+const GEOGRAPHY_TARGETS: Array<[string, string]> = [
+  ['geography/provinces', 'Provincias'],
+  ['geography/cantons', 'Cantones'],
+  ['geography/districts', 'Distritos'],
+  ['geography/barrios', 'Barrios'],
+];
+
+export const ImportHistoryPage = () => {
+  const queryClient = useQueryClient();
+  const { enqueueSnackbar } = useSnackbar();
+  const [params, setParams] = useState<ImportJobListParams>({ page: 1, limit: 20 });
+  const [detail, setDetail] = useState<ImportJob | null>(null);
+  const [rollbackTarget, setRollbackTarget] = useState<ImportJob | null>(null);
+  const [rollbackConflicts, setRollbackConflicts] = useState<ImportRollbackConflicts | null>(null);
+
+  const { data, isPending } = useQuery({
+    queryKey: ['import-jobs', params],
+    queryFn: () => getImportJobs(params),
+  });
+
+  const { data: definitions } = useCatalogs();
+
+  const targetLabels = useMemo(
+    () =>
+      new Map([
+        ...(definitions ?? []).map(
+          (definition) => [definition.key, definition.label] as [string, string],
+        ),
+        ...GEOGRAPHY_TARGETS,
+      ]),
+    [definitions],
+  );
+
+  const rollbackMutation = useMutation({
+    mutationFn: (id: string) => rollbackImportJob(id),
+    onSuccess: (job) => {
+      enqueueSnackbar(
+        `Importacion revertida: se restauraron los registros que cargo en ${targetLabels.get(job.catalogKey) ?? job.catalogKey}`,
+        { variant: 'success' },
+      );
+      queryClient.invalidateQueries({ queryKey: ['import-jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['catalogs'] });
+      queryClient.invalidateQueries({ queryKey: ['geography'] });
+    },
+    onError: (error) => {
+      // Si hay registros en conflicto no se revirtio nada: se listan para que el usuario decida
+      const conflicts = getRollbackConflicts(error);
+      if (conflicts) {
+        setRollbackConflicts(conflicts);
+        return;
+      }
+      enqueueSnackbar(getApiErrorMessage(error, 'No se pudo revertir la importacion'), {
+        variant: 'error',
+      });
+    },
+    onSettled: () => setRollbackTarget(null),
+  });
+
+  const jobs = data?.data ?? [];
+  const totalPages = data ? Math.ceil(data.meta.total / data.meta.limit) : 0;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      <Box>
+        <Typography variant="h4" fontWeight={700} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <HistoryIcon fontSize="large" />
+          Historial de importaciones
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Cada carga de catalogos y geografia queda registrada con su archivo,
+          usuario y resultado. La importacion mas reciente de una tabla puede
+          revertirse al estado exacto previo a la carga.
+        </Typography>
+      </Box>
+
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+        <TextField
+          select
+          size="small"
+          label="Tabla"
+          value={params.catalogKey ?? ''}
+          onChange={(event) =>
+            setParams((prev) => ({
+              ...prev,
+              page: 1,
+              catalogKey: event.target.value || undefined,
+            }))
+          }
+          sx={{ minWidth: 260 }}
+        >
+          <MenuItem value="">Todas</MenuItem>
+          {[...targetLabels].map(([key, label]) => (
+            <MenuItem key={key} value={key}>
+              {label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Estado"
+          value={params.status ?? ''}
+          onChange={(event) =>
+            setParams((prev) => ({
+              ...prev,
+              page: 1,
+              status: (event.target.value || undefined) as ImportJobListParams['status'],
+            }))
+          }
+          sx={{ minWidth: 180 }}
+        >
+          <MenuItem value="">Todos</MenuItem>
+          {Object.entries(IMPORT_JOB_STATUS_LABELS).map(([status, label]) => (
+            <MenuItem key={status} value={status}>
+              {label}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Stack>
+
+      <Paper elevation={1}>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Fecha</TableCell>
+                <TableCell>Tabla</TableCell>
+                <TableCell>Archivo</TableCell>
+                <TableCell>Usuario</TableCell>
+                <TableCell>Modo</TableCell>
+                <TableCell>Estado</TableCell>
+                <TableCell>Filas</TableCell>
+                <TableCell align="right">Acciones</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {isPending ? (
+                <TableRow>
+                  <TableCell colSpan={8}>
+                    <Typography variant="body2" color="text.secondary">
+                      Cargando importaciones...
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : jobs.length ? (
+                jobs.map((job) => (
+                  <TableRow hover key={job.id}>
+                    <TableCell>{new Date(job.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>{targetLabels.get(job.catalogKey) ?? job.catalogKey}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{job.fileName ?? '—'}</Typography>
+                      {job.checksum && (
+                        <Tooltip title={`SHA-256 ${job.checksum}`}>
+                          <Typography variant="caption" fontFamily="monospace" color="text.secondary">
+                            {job.checksum.slice(0, 12)}
+                          </Typography>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                    <TableCell>{job.username ?? '—'}</TableCell>
+                    <TableCell>{job.mode === 'replace' ? 'Reemplazar' : 'Agregar'}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={IMPORT_JOB_STATUS_LABELS[job.status]}
+                        color={IMPORT_JOB_STATUS_COLORS[job.status]}
+                      />
+                      {job.rolledBackAt && (
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          {new Date(job.rolledBackAt).toLocaleString()}
+                          {job.rolledBackBy ? ` por ${job.rolledBackBy}` : ''}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">
+                        {job.insertedRows} nuevas, {job.updatedRows} actualizadas
+                      </Typography>
+                      {job.errors.length > 0 && (
+                        <Typography variant="caption" color="error">
+                          {job.errors.length} errores
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button size="small" onClick={() => setDetail(job)}>
+                        Detalle
+                      </Button>
+                      <Button
+                        size="small"
+                        color="error"
+                        disabled={job.status !== 'completed' && job.status !== 'failed'}
+                        onClick={() => setRollbackTarget(job)}
+                      >
+                        Revertir
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={8}>
+                    <Typography variant="body2" color="text.secondary">
+                      No hay importaciones registradas.
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      {totalPages > 1 && (
+        <Pagination
+          sx={{ alignSelf: 'flex-end' }}
+          count={totalPages}
+          page={params.page ?? 1}
+          onChange={(_, page) => setParams((prev) => ({ ...prev, page }))}
+        />
+      )}
+
+      <Dialog open={Boolean(detail)} onClose={() => setDetail(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{detail?.fileName ?? 'Importacion'}</DialogTitle>
+        <DialogContent>{detail && <ImportJobProgress job={detail} />}</DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDetail(null)}>Cerrar</Button>
+        </DialogActions>
+      </Dialog>
+
+      <ConfirmDialog
+        open={Boolean(rollbackTarget)}
+        title="Revertir importacion"
+        message={`${targetLabels.get(rollbackTarget?.catalogKey ?? '') ?? rollbackTarget?.catalogKey ?? ''} recuperara el estado previo de los registros que cargo ${rollbackTarget?.fileName ?? 'el archivo'}. Si algun registro se modifico despues de la importacion o esta referenciado, no se revierte nada. Deseas continuar?`}
+        confirmLabel="Revertir"
+        loading={rollbackMutation.isPending}
+        onConfirm={() => rollbackTarget && rollbackMutation.mutate(rollbackTarget.id)}
+        onCancel={() => setRollbackTarget(null)}
+      />
+
+      <Dialog open={Boolean(rollbackConflicts)} onClose={() => setRollbackConflicts(null)} maxWidth="md" fullWidth>
+        <DialogTitle>No se pudo revertir la importacion</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            {rollbackConflicts?.message}
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Registro</TableCell>
+                <TableCell>Motivo</TableCell>
+                <TableCell>Detalle</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rollbackConflicts?.conflicts.map((conflict) => (
+                <TableRow key={conflict.id}>
+                  <TableCell>
+                    {Object.values(conflict.key)
+                      .map((value) => (value === null || value === undefined ? '—' : String(value)))
+                      .join(' / ')}
+                  </TableCell>
+                  <TableCell>{conflict.reason === 'edited' ? 'Modificado' : 'Referenciado'}</TableCell>
+                  <TableCell>{conflict.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {rollbackConflicts && rollbackConflicts.conflicts.length < rollbackConflicts.conflictCount && (
+            <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+              Mostrando {rollbackConflicts.conflicts.length} de {rollbackConflicts.conflictCount} registros.
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRollbackConflicts(null)}>Cerrar</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
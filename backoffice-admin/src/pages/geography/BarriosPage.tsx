@@ -14,17 +14,19 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useSnackbar } from 'notistack';
 import { CatalogTable } from '../../components/catalogs/CatalogTable';
 import { CatalogFormDialog } from '../../components/catalogs/CatalogFormDialog';
-import type { CatalogFieldConfig } from '../../config/catalogs';
-import type { CatalogListParams } from '../../api/catalogs';
+import type { CatalogFieldConfig, CatalogListParams } from '../../api/catalogs';
 import {
   createBarrio,
   deleteBarrio,
+  exportGeography,
   importBarrios,
   listBarrios,
   updateBarrio,
 } from '../../api/geography';
 import { ConfirmDialog } from '../../components/common/ConfirmDialog';
+import { ExportMenuButton } from '../../components/common/ExportMenuButton';
 import { GeoImportDialog } from '../../components/geography/GeoImportDialog';
+import type { GeoImportParams } from '../../components/geography/GeoImportDialog';
 
 const barrioFields: CatalogFieldConfig[] = [
   { name: 'provincia', label: 'Provincia', type: 'string', required: true },
@@ -99,8 +101,8 @@ export const BarriosPage = () => {
   });
 
   const importMutation = useMutation({
-    mutationFn: ({ file, mode }: { file: File; mode: 'append' | 'replace' }) =>
-      importBarrios(file, mode),
+    mutationFn: ({ file, mode, options }: GeoImportParams) =>
+      importBarrios(file, mode, options),
     onSuccess: () => {
       enqueueSnackbar('Importacion completada', { variant: 'success' });
       queryClient.invalidateQueries({ queryKey: ['geography', 'barrios'] });
@@ -176,6 +178,21 @@ export const BarriosPage = () => {
           sx={{ maxWidth: 200 }}
         />
         <Box sx={{ flexGrow: 1 }} />
+        <ExportMenuButton
+          fileName="barrios"
+          onExport={(format) =>
+            exportGeography(
+              'barrios',
+              {
+                search: params.search || undefined,
+                provinceCode: params.codigoProvincia,
+                cantonCode: params.codigoCanton ? Number(params.codigoCanton) : undefined,
+                districtName: params.distrito,
+              },
+              format,
+            )
+          }
+        />
         <Button variant="outlined" onClick={() => setOpenImport(true)}>
           Importar Excel
         </Button>
@@ -247,7 +264,7 @@ export const BarriosPage = () => {
         title="Importar barrios"
         submitting={importMutation.isPending}
         onClose={() => setOpenImport(false)}
-        onImport={({ file, mode }) => importMutation.mutate({ file, mode })}
+        onImport={(params) => importMutation.mutate(params)}
       />
     </Box>
   );
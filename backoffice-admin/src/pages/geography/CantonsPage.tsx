@@ -14,17 +14,19 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useSnackbar } from 'notistack';
 import { CatalogFormDialog } from '../../components/catalogs/CatalogFormDialog';
 import { CatalogTable } from '../../components/catalogs/CatalogTable';
-import type { CatalogFieldConfig } from '../../config/catalogs';
-import type { CatalogListParams } from '../../api/catalogs';
+import type { CatalogFieldConfig, CatalogListParams } from '../../api/catalogs';
 import {
   createCanton,
   deleteCanton,
+  exportGeography,
   importCantons,
   listCantons,
   updateCanton,
 } from '../../api/geography';
 import { ConfirmDialog } from '../../components/common/ConfirmDialog';
+import { ExportMenuButton } from '../../components/common/ExportMenuButton';
 import { GeoImportDialog } from '../../components/geography/GeoImportDialog';
+import type { GeoImportParams } from '../../components/geography/GeoImportDialog';
 
 const cantonFields: CatalogFieldConfig[] = [
   { name: 'provincia', label: 'Provincia', type: 'string', required: true },
@@ -88,8 +90,8 @@ export const CantonsPage = () => {
   });
 
   const importMutation = useMutation({
-    mutationFn: ({ file, mode }: { file: File; mode: 'append' | 'replace' }) =>
-      importCantons(file, mode),
+    mutationFn: ({ file, mode, options }: GeoImportParams) =>
+      importCantons(file, mode, options),
     onSuccess: () => {
       enqueueSnackbar('Importacion completada', { variant: 'success' });
       queryClient.invalidateQueries({ queryKey: ['geography', 'cantons'] });
@@ -138,6 +140,19 @@ export const CantonsPage = () => {
           sx={{ maxWidth: 200 }}
         />
         <Box sx={{ flexGrow: 1 }} />
+        <ExportMenuButton
+          fileName="cantones"
+          onExport={(format) =>
+            exportGeography(
+              'cantons',
+              {
+                search: params.search || undefined,
+                provinceCode: params.codigoProvincia,
+              },
+              format,
+            )
+          }
+        />
         <Button variant="outlined" onClick={() => setOpenImport(true)}>
           Importar Excel
         </Button>
@@ -209,7 +224,7 @@ export const CantonsPage = () => {
         title="Importar cantones"
         submitting={importMutation.isPending}
         onClose={() => setOpenImport(false)}
-        onImport={({ file, mode }) => importMutation.mutate({ file, mode })}
+        onImport={(params) => importMutation.mutate(params)}
       />
     </Box>
   );
@@ -14,17 +14,19 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useSnackbar } from 'notistack';
 import { CatalogFormDialog } from '../../components/catalogs/CatalogFormDialog';
 import { CatalogTable } from '../../components/catalogs/CatalogTable';
-import type { CatalogFieldConfig } from '../../config/catalogs';
-import type { CatalogListParams } from '../../api/catalogs';
+import type { CatalogFieldConfig, CatalogListParams } from '../../api/catalogs';
 import {
   createDistrict,
   deleteDistrict,
+  exportGeography,
   importDistricts,
   listDistricts,
   updateDistrict,
 } from '../../api/geography';
 import { ConfirmDialog } from '../../components/common/ConfirmDialog';
+import { ExportMenuButton } from '../../components/common/ExportMenuButton';
 import { GeoImportDialog } from '../../components/geography/GeoImportDialog';
+import type { GeoImportParams } from '../../components/geography/GeoImportDialog';
 
 const districtFields: CatalogFieldConfig[] = [
   { name: 'provincia', label: 'Provincia', type: 'string', required: true },
@@ -93,8 +95,8 @@ export const DistrictsPage = () => {
   });
 
   const importMutation = useMutation({
-    mutationFn: ({ file, mode }: { file: File; mode: 'append' | 'replace' }) =>
-      importDistricts(file, mode),
+    mutationFn: ({ file, mode, options }: GeoImportParams) =>
+      importDistricts(file, mode, options),
     onSuccess: () => {
       enqueueSnackbar('Importacion completada', { variant: 'success' });
       queryClient.invalidateQueries({ queryKey: ['geography', 'districts'] });
@@ -157,6 +159,20 @@ export const DistrictsPage = () => {
           sx={{ maxWidth: 180 }}
         />
         <Box sx={{ flexGrow: 1 }} />
+        <ExportMenuButton
+          fileName="distritos"
+          onExport={(format) =>
+            exportGeography(
+              'districts',
+              {
+                search: params.search || undefined,
+                provinceCode: params.codigoProvincia,
+                cantonCode: params.codigoCanton ? Number(params.codigoCanton) : undefined,
+              },
+              format,
+            )
+          }
+        />
         <Button variant="outlined" onClick={() => setOpenImport(true)}>
           Importar Excel
         </Button>
@@ -228,7 +244,7 @@ export const DistrictsPage = () => {
         title="Importar distritos"
         submitting={importMutation.isPending}
         onClose={() => setOpenImport(false)}
-        onImport={({ file, mode }) => importMutation.mutate({ file, mode })}
+        onImport={(params) => importMutation.mutate(params)}
       />
     </Box>
   );
@@ -14,17 +14,19 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useSnackbar } from 'notistack';
 import { CatalogFormDialog } from '../../components/catalogs/CatalogFormDialog';
 import { CatalogTable } from '../../components/catalogs/CatalogTable';
-import type { CatalogFieldConfig } from '../../config/catalogs';
-import type { CatalogListParams } from '../../api/catalogs';
+import type { CatalogFieldConfig, CatalogListParams } from '../../api/catalogs';
 import {
   createProvince,
   deleteProvince,
+  exportGeography,
   importProvinces,
   listProvinces,
   updateProvince,
 } from '../../api/geography';
 import { ConfirmDialog } from '../../components/common/ConfirmDialog';
+import { ExportMenuButton } from '../../components/common/ExportMenuButton';
 import { GeoImportDialog } from '../../components/geography/GeoImportDialog';
+import type { GeoImportParams } from '../../components/geography/GeoImportDialog';
 
 const provinceFields: CatalogFieldConfig[] = [
   { name: 'nombre', label: 'Nombre', type: 'string', required: true },
@@ -82,8 +84,8 @@ export const ProvincesPage = () => {
   });
 
   const importMutation = useMutation({
-    mutationFn: ({ file, mode }: { file: File; mode: 'append' | 'replace' }) =>
-      importProvinces(file, mode),
+    mutationFn: ({ file, mode, options }: GeoImportParams) =>
+      importProvinces(file, mode, options),
     onSuccess: () => {
       enqueueSnackbar('Importacion completada', { variant: 'success' });
       queryClient.invalidateQueries({ queryKey: ['geography', 'provinces'] });
@@ -120,6 +122,18 @@ export const ProvincesPage = () => {
           sx={{ maxWidth: 320 }}
         />
         <Box sx={{ flexGrow: 1 }} />
+        <ExportMenuButton
+          fileName="provincias"
+          onExport={(format) =>
+            exportGeography(
+              'provinces',
+              {
+                search: params.search || undefined,
+              },
+              format,
+            )
+          }
+        />
         <Button variant="outlined" onClick={() => setOpenImport(true)}>
           Importar Excel
         </Button>
@@ -191,7 +205,7 @@ export const ProvincesPage = () => {
         title="Importar provincias"
         submitting={importMutation.isPending}
         onClose={() => setOpenImport(false)}
-        onImport={({ file, mode }) => importMutation.mutate({ file, mode })}
+        onImport={(params) => importMutation.mutate(params)}
       />
     </Box>
   );
@@ -0,0 +1,48 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { UserRole } from '../users/user.entity';
+
+@ApiTags('Claves API')
+@ApiBearerAuth('JWT')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Get()
+  @Roles(UserRole.ADMIN)
+  async findAll() {
+    return this.apiKeysService.findAll();
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  async create(
+    @Body() dto: CreateApiKeyDto,
+    @Req() req: { user: { username: string } },
+  ) {
+    return this.apiKeysService.create(dto, req.user?.username);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  async revoke(@Param('id', ParseUUIDPipe) id: string) {
+    await this.apiKeysService.revoke(id);
+    return { success: true };
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes } from 'node:crypto';
+import { ApiKey } from './api-key.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import {
+  ApiKeyResponseDto,
+  CreatedApiKeyResponseDto,
+} from './dto/api-key-response.dto';
+
+export const API_KEY_PREFIX = 'bok_';
+export const API_KEY_HEADER = 'x-api-key';
+
+const KEY_PREFIX_LENGTH = 12;
+
+export interface ApiKeyRequest {
+  headers: Record<string, string | string[] | undefined>;
+}
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly apiKeysRepository: Repository<ApiKey>,
+  ) {}
+
+  private toResponse(apiKey: ApiKey): ApiKeyResponseDto {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      keyPrefix: apiKey.keyPrefix,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+      createdBy: apiKey.createdBy,
+      createdAt: apiKey.createdAt,
+    };
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  extractKey(request: ApiKeyRequest): string | null {
+    const headerKey = request.headers[API_KEY_HEADER];
+    if (typeof headerKey === 'string' && headerKey.trim()) {
+      return headerKey.trim();
+    }
+
+    const authHeader = request.headers.authorization;
+    if (
+      typeof authHeader === 'string' &&
+      authHeader.startsWith(`Bearer ${API_KEY_PREFIX}`)
+    ) {
+      return authHeader.substring(7).trim();
+    }
+
+    return null;
+  }
+
+  async findAll(): Promise<ApiKeyResponseDto[]> {
+    const apiKeys = await this.apiKeysRepository.find({
+      order: { createdAt: 'DESC', id: 'DESC' },
+    });
+    return apiKeys.map((apiKey) => this.toResponse(apiKey));
+  }
+
+  async create(
+    dto: CreateApiKeyDto,
+    createdBy?: string,
+  ): Promise<CreatedApiKeyResponseDto> {
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException(
+        'La fecha de expiracion debe ser posterior a la fecha actual',
+      );
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const entity = this.apiKeysRepository.create({
+      name: dto.name.trim(),
+      keyPrefix: key.substring(0, KEY_PREFIX_LENGTH),
+      keyHash: this.hashKey(key),
+      expiresAt,
+      createdBy: createdBy ?? null,
+    });
+
+    const saved = await this.apiKeysRepository.save(entity);
+    return { ...this.toResponse(saved), key };
+  }
+
+  async revoke(id: string): Promise<void> {
+    const apiKey = await this.apiKeysRepository.findOne({ where: { id } });
+    if (!apiKey) {
+      throw new NotFoundException(`No existe la clave API con id "${id}"`);
+    }
+
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await this.apiKeysRepository.save(apiKey);
+    }
+  }
+
+  async authenticate(key: string): Promise<ApiKey | null> {
+    const apiKey = await this.apiKeysRepository.findOne({
+      where: { keyHash: this.hashKey(key) },
+    });
+
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now())
+    ) {
+      return null;
+    }
+
+    apiKey.lastUsedAt = new Date();
+    await this.apiKeysRepository.update(apiKey.id, {
+      lastUsedAt: apiKey.lastUsedAt,
+    });
+    return apiKey;
+  }
+}
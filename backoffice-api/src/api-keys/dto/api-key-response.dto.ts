@@ -0,0 +1,14 @@
+export class ApiKeyResponseDto {
+  id!: string;
+  name!: string;
+  keyPrefix!: string;
+  expiresAt!: Date | null;
+  lastUsedAt!: Date | null;
+  revokedAt!: Date | null;
+  createdBy!: string | null;
+  createdAt!: Date;
+}
+
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+  key!: string;
+}
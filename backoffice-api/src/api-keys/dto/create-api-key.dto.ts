@@ -0,0 +1,18 @@
+import {
+  IsDateString,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export class CreateApiKeyDto {
+  @IsString()
+  @MinLength(3)
+  @MaxLength(120)
+  name!: string;
+
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+}
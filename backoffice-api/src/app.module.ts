@@ -7,6 +7,7 @@ import { TypeOrmConfigService } from './database/typeorm-config.service';
 import { GeographyModule } from './geography/geography.module';
 import { UsersModule } from './users/users.module';
 import { ApiDocsModule } from './api-docs/api-docs.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
 
 @Module({
   imports: [
@@ -20,6 +21,7 @@ import { ApiDocsModule } from './api-docs/api-docs.module';
     AuthModule,
     UsersModule,
     ApiDocsModule,
+    ApiKeysModule,
     CatalogsModule,
     GeographyModule,
   ],
@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const API_KEY_ACCESS_KEY = 'apiKeyAccess';
+export const AllowApiKey = (...methods: string[]) =>
+  SetMetadata(API_KEY_ACCESS_KEY, methods.length > 0 ? methods : ['GET']);
@@ -1,5 +1,48 @@
-import { Injectable } from '@nestjs/common';
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
+import { API_KEY_ACCESS_KEY } from '../api-key-access.decorator';
+import { ApiKeyRequest, ApiKeysService } from '../../api-keys/api-keys.service';
 
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {}
+export class JwtAuthGuard extends AuthGuard('jwt') {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeysService: ApiKeysService,
+  ) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<ApiKeyRequest & { method: string; user?: unknown }>();
+    const key = this.apiKeysService.extractKey(request);
+
+    if (!key) {
+      return super.canActivate(context) as Promise<boolean>;
+    }
+
+    const apiKey = await this.apiKeysService.authenticate(key);
+    if (!apiKey) {
+      throw new UnauthorizedException('Clave API invalida o expirada');
+    }
+
+    const allowedMethods = this.reflector.getAllAndOverride<
+      string[] | undefined
+    >(API_KEY_ACCESS_KEY, [context.getHandler(), context.getClass()]);
+    if (!allowedMethods?.includes(request.method)) {
+      throw new ForbiddenException(
+        'La clave API solo permite consultar catalogos y geografia',
+      );
+    }
+
+    request.user = { id: apiKey.id, username: `api-key:${apiKey.name}` };
+    return true;
+  }
+}
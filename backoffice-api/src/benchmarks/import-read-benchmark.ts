@@ -0,0 +1,285 @@
+import { fork } from 'node:child_process';
+import { createWriteStream } from 'node:fs';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { once } from 'node:events';
+import { Logger } from '@nestjs/common';
+import { Workbook, stream } from 'exceljs';
+import { TabularFileReader } from '../imports/tabular-file.reader';
+
+/**
+ * Compares the memory and time needed to read a CABYS-sized import file:
+ * loading the whole workbook (the previous import path), reading every row
+ * through TabularFileReader, streaming rows in import batches, and streaming
+ * only the rows an import preview samples. Only the file is read; validating,
+ * staging and writing the rows to the database are not measured.
+ *
+ * The fixture is generated in a temporary directory on every run and removed
+ * afterwards. Each measurement runs in its own process so peak memory is not
+ * shared between them. V8 collects lazily when memory is plentiful, so pass
+ * --max-heap to cap the old space of every measurement and see which paths
+ * still finish within it.
+ *
+ *   npm run bench:import-read -- --rows 100000 --max-heap 64
+ */
+
+type BenchmarkMode = 'workbook' | 'read' | 'stream' | 'preview';
+
+interface BenchmarkResult {
+  rows: number;
+  batches: number;
+  durationMs: number;
+  peakRssMb: number;
+  peakHeapMb: number;
+}
+
+const DEFAULT_ROWS = 100_000;
+const BATCH_SIZE = 500;
+// Same sample as CatalogsService.previewImport
+const PREVIEW_SAMPLE_SIZE = 2000;
+const MEMORY_SAMPLE_MS = 25;
+// tarifas-iva codes referenced by impuesto
+const TAX_RATE_CODES = ['01', '02', '03', '04', '08'];
+const FIXTURE_HEADERS = [
+  'categoria',
+  'descripcion',
+  'impuesto',
+  'incluye',
+  'excluye',
+];
+const SCENARIOS: Array<{ format: 'xlsx' | 'csv'; mode: BenchmarkMode }> = [
+  { format: 'xlsx', mode: 'workbook' },
+  { format: 'xlsx', mode: 'read' },
+  { format: 'xlsx', mode: 'stream' },
+  { format: 'xlsx', mode: 'preview' },
+  { format: 'csv', mode: 'read' },
+  { format: 'csv', mode: 'stream' },
+  { format: 'csv', mode: 'preview' },
+];
+
+const logger = new Logger('ImportReadBenchmark');
+
+function fixtureRow(index: number): string[] {
+  const categoria = String(1_000_000_000_000 + index * 7);
+  return [
+    categoria,
+    `Bien o servicio de prueba ${index} para la categoría ${categoria.slice(0, 7)}`,
+    TAX_RATE_CODES[index % TAX_RATE_CODES.length],
+    index % 3 === 0 ? `Incluye variantes del artículo ${index}` : '',
+    index % 5 === 0 ? 'Excluye servicios de instalación' : '',
+  ];
+}
+
+async function writeXlsxFixture(path: string, rows: number): Promise<void> {
+  const workbook = new stream.xlsx.WorkbookWriter({
+    filename: path,
+    useSharedStrings: true,
+  });
+  const worksheet = workbook.addWorksheet('CABYS');
+  worksheet.addRow(FIXTURE_HEADERS).commit();
+  for (let index = 0; index < rows; index += 1) {
+    worksheet.addRow(fixtureRow(index)).commit();
+  }
+  worksheet.commit();
+  await workbook.commit();
+}
+
+async function writeCsvFixture(path: string, rows: number): Promise<void> {
+  const output = createWriteStream(path, { encoding: 'utf-8' });
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+  output.write(`${FIXTURE_HEADERS.join(',')}\n`);
+  for (let index = 0; index < rows; index += 1) {
+    if (!output.write(`${fixtureRow(index).map(quote).join(',')}\n`)) {
+      await once(output, 'drain');
+    }
+  }
+  output.end();
+  await once(output, 'finish');
+}
+
+async function measure(
+  mode: BenchmarkMode,
+  path: string,
+): Promise<BenchmarkResult> {
+  const buffer = await readFile(path);
+  const file = { buffer, originalname: path };
+  const reader = new TabularFileReader();
+  let peakHeap = 0;
+  const sample = () => {
+    peakHeap = Math.max(peakHeap, process.memoryUsage().heapUsed);
+  };
+  const sampler = setInterval(sample, MEMORY_SAMPLE_MS);
+  const startedAt = process.hrtime.bigint();
+  let rows = 0;
+  let batches = 0;
+
+  try {
+    if (mode === 'workbook') {
+      const workbook = new Workbook();
+      await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+      const worksheet = workbook.worksheets[0];
+      const values: unknown[][] = [];
+      worksheet.eachRow({ includeEmpty: false }, (row) => {
+        values.push(row.values as unknown[]);
+      });
+      sample();
+      rows = values.length - 1;
+      batches = Math.ceil(rows / BATCH_SIZE);
+    } else if (mode === 'read') {
+      const sheet = await reader.read(file);
+      sample();
+      rows = sheet.rows.length;
+      batches = Math.ceil(rows / BATCH_SIZE);
+    } else if (mode === 'preview') {
+      const sheet = await reader.stream(file);
+      // The preview keeps its whole sample in memory
+      const sampled: unknown[][] = [];
+      for await (const row of sheet.rows) {
+        if (sampled.length === PREVIEW_SAMPLE_SIZE) {
+          break;
+        }
+        sampled.push(row.values);
+      }
+      sample();
+      rows = sampled.length;
+      batches = Math.ceil(rows / BATCH_SIZE);
+    } else {
+      const sheet = await reader.stream(file);
+      let batch: unknown[][] = [];
+      for await (const row of sheet.rows) {
+        batch.push(row.values);
+        rows += 1;
+        if (batch.length === BATCH_SIZE) {
+          sample();
+          batches += 1;
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        batches += 1;
+      }
+    }
+  } finally {
+    clearInterval(sampler);
+  }
+
+  return {
+    rows,
+    batches,
+    durationMs: Number(process.hrtime.bigint() - startedAt) / 1e6,
+    // maxRSS is reported in kilobytes
+    peakRssMb: process.resourceUsage().maxRSS / 1024,
+    peakHeapMb: peakHeap / 1024 / 1024,
+  };
+}
+
+function runScenario(
+  mode: BenchmarkMode,
+  path: string,
+  maxHeapMb?: number,
+): Promise<BenchmarkResult | { failure: string }> {
+  return new Promise((resolve, reject) => {
+    const child = fork(__filename, ['--measure', mode, path], {
+      execArgv: [
+        ...(__filename.endsWith('.ts')
+          ? ['-r', 'ts-node/register/transpile-only']
+          : []),
+        ...(maxHeapMb ? [`--max-old-space-size=${maxHeapMb}`] : []),
+      ],
+    });
+    let result: BenchmarkResult | null = null;
+    child.on('message', (message: BenchmarkResult) => {
+      result = message;
+    });
+    child.on('error', reject);
+    child.on('exit', (code, signal) =>
+      resolve(result ?? { failure: signal ?? `exit ${code}` }),
+    );
+  });
+}
+
+function numericArgument(name: string): number | undefined {
+  const index = process.argv.indexOf(name);
+  if (index < 0) {
+    return undefined;
+  }
+
+  const value = Number(process.argv[index + 1]);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+async function bootstrap() {
+  const rows = numericArgument('--rows') ?? DEFAULT_ROWS;
+  const maxHeapMb = numericArgument('--max-heap');
+
+  const directory = await mkdtemp(join(tmpdir(), 'import-benchmark-'));
+  try {
+    const fixtures = {
+      xlsx: join(directory, 'cabys.xlsx'),
+      csv: join(directory, 'cabys.csv'),
+    };
+    logger.log(`Generating ${rows} row fixtures in ${directory}`);
+    await writeXlsxFixture(fixtures.xlsx, rows);
+    await writeCsvFixture(fixtures.csv, rows);
+
+    const results: Array<Record<string, string | number>> = [];
+    for (const { format, mode } of SCENARIOS) {
+      const { size } = await stat(fixtures[format]);
+      logger.log(`Measuring ${format} ${mode}`);
+      const result = await runScenario(mode, fixtures[format], maxHeapMb);
+      const fileMb = Number((size / 1024 / 1024).toFixed(1));
+      if ('failure' in result) {
+        results.push({
+          format,
+          mode,
+          'file MB': fileMb,
+          rows: `failed (${result.failure})`,
+        });
+        continue;
+      }
+
+      results.push({
+        format,
+        mode,
+        'file MB': fileMb,
+        rows: result.rows,
+        batches: result.batches,
+        seconds: Number((result.durationMs / 1000).toFixed(2)),
+        'rows/s': Math.round(result.rows / (result.durationMs / 1000)),
+        'peak RSS MB': Math.round(result.peakRssMb),
+        'peak heap MB': Math.round(result.peakHeapMb),
+      });
+    }
+
+    console.table(results);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+const measureArgument = process.argv.indexOf('--measure');
+if (measureArgument > 0) {
+  measure(
+    process.argv[measureArgument + 1] as BenchmarkMode,
+    process.argv[measureArgument + 2],
+  )
+    .then((result) =>
+      process.send?.(result, undefined, undefined, () => process.exit(0)),
+    )
+    .catch((error) => {
+      console.error('Benchmark measurement failed', error);
+      process.exit(1);
+    });
+} else {
+  bootstrap()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Import read benchmark failed', error);
+      process.exit(1);
+    });
+}
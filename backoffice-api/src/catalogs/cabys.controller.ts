@@ -0,0 +1,27 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiQuery, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { CabysService } from './cabys.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AllowApiKey } from '../auth/api-key-access.decorator';
+
+@ApiTags('Catalogos - CABYS')
+@ApiBearerAuth('JWT')
+@ApiSecurity('ApiKey')
+@AllowApiKey()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('cabys')
+export class CabysController {
+  constructor(private readonly cabysService: CabysService) {}
+
+  @Get('tree')
+  @ApiQuery({ name: 'parent', required: false })
+  async tree(@Query('parent') parent?: string) {
+    return this.cabysService.findChildren(parent);
+  }
+
+  @Get(':code/ancestors')
+  async ancestors(@Param('code') code: string) {
+    return this.cabysService.findAncestors(code);
+  }
+}
@@ -0,0 +1,126 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { CatalogsService } from './catalogs.service';
+
+export const CABYS_LEVELS = [1, 2, 3, 4, 5, 7, 9, 11, 13];
+
+const CABYS_CATALOG_KEY = 'cabys';
+const CABYS_ITEM_LENGTH = CABYS_LEVELS[CABYS_LEVELS.length - 1];
+
+export interface CabysNode {
+  code: string;
+  level: number;
+  descripcion: string | null;
+  itemCount: number;
+  hasChildren: boolean;
+}
+
+export interface CabysTree {
+  parent: string | null;
+  level: number;
+  children: CabysNode[];
+}
+
+export type CabysAncestor = Pick<CabysNode, 'code' | 'level' | 'descripcion'>;
+
+@Injectable()
+export class CabysService {
+  constructor(
+    private readonly catalogsService: CatalogsService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async findChildren(parent?: string): Promise<CabysTree> {
+    const prefix = parent?.trim() ?? '';
+    const parentLevel = prefix ? this.resolveLevel(prefix) : 0;
+    const childLength = CABYS_LEVELS[parentLevel];
+
+    if (!childLength) {
+      return { parent: prefix, level: parentLevel + 1, children: [] };
+    }
+
+    const rows = await this.createQueryBuilder()
+      .select('LEFT(item.categoria, :childLength)', 'code')
+      .addSelect(
+        'COUNT(*) FILTER (WHERE LENGTH(item.categoria) = :itemLength)',
+        'itemCount',
+      )
+      .addSelect(
+        'MAX(item.descripcion) FILTER (WHERE LENGTH(item.categoria) = :childLength)',
+        'descripcion',
+      )
+      .andWhere('item.categoria LIKE :prefix', { prefix: `${prefix}%` })
+      .andWhere('LENGTH(item.categoria) >= :childLength')
+      .setParameters({ childLength, itemLength: CABYS_ITEM_LENGTH })
+      .groupBy('code')
+      .orderBy('code', 'ASC')
+      .getRawMany<{
+        code: string;
+        itemCount: string;
+        descripcion: string | null;
+      }>();
+
+    return {
+      parent: prefix || null,
+      level: parentLevel + 1,
+      children: rows.map((row) => ({
+        code: row.code,
+        level: parentLevel + 1,
+        descripcion: row.descripcion,
+        itemCount: Number(row.itemCount),
+        hasChildren: childLength < CABYS_ITEM_LENGTH,
+      })),
+    };
+  }
+
+  async findAncestors(code: string): Promise<CabysAncestor[]> {
+    const level = this.resolveLevel(code);
+    const prefixes = CABYS_LEVELS.slice(0, level).map((length) =>
+      code.slice(0, length),
+    );
+
+    const exists = await this.createQueryBuilder()
+      .andWhere('item.categoria LIKE :prefix', { prefix: `${code}%` })
+      .getExists();
+    if (!exists) {
+      throw new NotFoundException(`No existe el código CABYS "${code}"`);
+    }
+
+    const rows = await this.createQueryBuilder()
+      .select('item.categoria', 'categoria')
+      .addSelect('MAX(item.descripcion)', 'descripcion')
+      .andWhere('item.categoria IN (:...prefixes)', { prefixes })
+      .groupBy('item.categoria')
+      .getRawMany<{ categoria: string; descripcion: string }>();
+
+    return prefixes.map((prefix, index) => ({
+      code: prefix,
+      level: index + 1,
+      descripcion:
+        rows.find((row) => row.categoria === prefix)?.descripcion ?? null,
+    }));
+  }
+
+  private createQueryBuilder() {
+    const definition =
+      this.catalogsService.getDefinitionOrThrow(CABYS_CATALOG_KEY);
+    return this.dataSource
+      .getRepository(definition.entity)
+      .createQueryBuilder('item')
+      .where('item.isActive = :isActive', { isActive: true });
+  }
+
+  private resolveLevel(code: string): number {
+    const level = CABYS_LEVELS.indexOf(code.length) + 1;
+    if (!/^\d+$/.test(code) || level === 0) {
+      throw new BadRequestException(
+        `El código CABYS debe tener ${CABYS_LEVELS.join(', ')} dígitos`,
+      );
+    }
+    return level;
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+export type CatalogAuditAction =
+  | 'create'
+  | 'update'
+  | 'deactivate'
+  | 'restore'
+  | 'delete'
+  | 'import'
+  | 'rollback';
+
+@Entity({ name: 'catalog_audit_log' })
+@Index('catalog_audit_log_record_idx', ['catalogKey', 'recordId', 'createdAt'])
+@Index('catalog_audit_log_import_job_idx', ['importJobId', 'recordId'])
+export class CatalogAuditLog {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'catalog_key', length: 80 })
+  catalogKey!: string;
+
+  @Column({ name: 'record_id', type: 'uuid' })
+  recordId!: string;
+
+  @Column({ length: 16 })
+  action!: CatalogAuditAction;
+
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  userId!: string | null;
+
+  @Column({ length: 120, nullable: true })
+  username!: string | null;
+
+  /** Import job that wrote the change; rolling the job back reverts these entries. */
+  @Column({ name: 'import_job_id', type: 'uuid', nullable: true })
+  importJobId!: string | null;
+
+  @Column({ name: 'before_data', type: 'jsonb', nullable: true })
+  before!: Record<string, unknown> | null;
+
+  @Column({ name: 'after_data', type: 'jsonb', nullable: true })
+  after!: Record<string, unknown> | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+}
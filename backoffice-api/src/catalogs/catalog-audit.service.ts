@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import {
+  CatalogAuditAction,
+  CatalogAuditLog,
+} from './catalog-audit-log.entity';
+
+const INSERT_CHUNK_SIZE = 500;
+
+export interface CatalogActor {
+  id: string;
+  username?: string;
+}
+
+export interface CatalogAuditChange {
+  recordId: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+@Injectable()
+export class CatalogAuditService {
+  constructor(
+    @InjectRepository(CatalogAuditLog)
+    private readonly auditRepository: Repository<CatalogAuditLog>,
+  ) {}
+
+  async record(
+    manager: EntityManager,
+    catalogKey: string,
+    action: CatalogAuditAction,
+    actor: CatalogActor | undefined,
+    changes: CatalogAuditChange[],
+    importJobId?: string,
+  ): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    const repository = manager.getRepository(CatalogAuditLog);
+    const entries = changes.map((change) =>
+      repository.create({
+        catalogKey,
+        recordId: change.recordId,
+        action,
+        userId: actor?.id ?? null,
+        username: actor?.username ?? null,
+        before: change.before ?? null,
+        after: change.after ?? null,
+        importJobId: importJobId ?? null,
+      }),
+    );
+
+    for (let index = 0; index < entries.length; index += INSERT_CHUNK_SIZE) {
+      await repository.insert(entries.slice(index, index + INSERT_CHUNK_SIZE));
+    }
+  }
+
+  async findHistory(
+    catalogKey: string,
+    recordId: string,
+  ): Promise<CatalogAuditLog[]> {
+    return this.auditRepository.find({
+      where: { catalogKey, recordId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { CatalogFieldDefinition } from './catalog.definitions';
+
+@Entity({ name: 'catalog_definitions' })
+export class CatalogDefinitionRecord {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ length: 80, unique: true })
+  key!: string;
+
+  @Column({ length: 200 })
+  label!: string;
+
+  @Column({ name: 'table_name', length: 63, unique: true })
+  tableName!: string;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  fields!: CatalogFieldDefinition[];
+
+  @Column({ name: 'unique_by', type: 'jsonb', default: () => "'[]'" })
+  uniqueBy!: string[];
+
+  @Column({ name: 'search_fields', type: 'jsonb', default: () => "'[]'" })
+  searchFields!: string[];
+
+  @Column({ name: 'updated_by', type: 'varchar', length: 120, nullable: true })
+  updatedBy!: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
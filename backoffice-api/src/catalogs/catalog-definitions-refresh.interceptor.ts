@@ -0,0 +1,31 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable, from, switchMap } from 'rxjs';
+import { CatalogDefinitionsService } from './catalog-definitions.service';
+
+interface CatalogRequest {
+  params: Record<string, string | undefined>;
+}
+
+@Injectable()
+export class CatalogDefinitionsRefreshInterceptor implements NestInterceptor {
+  constructor(private readonly definitionsService: CatalogDefinitionsService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const { params } = context.switchToHttp().getRequest<CatalogRequest>();
+    const key = params.catalogKey ?? params.key;
+
+    return from(this.definitionsService.refresh()).pipe(
+      switchMap(() => {
+        if (key) {
+          this.definitionsService.assertAvailable(key);
+        }
+        return next.handle();
+      }),
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Put,
+  Req,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { CatalogDefinitionsService } from './catalog-definitions.service';
+import { CatalogActor } from './catalog-audit.service';
+import { SaveCatalogDefinitionDto } from './dto/save-catalog-definition.dto';
+import { CatalogDefinitionsRefreshInterceptor } from './catalog-definitions-refresh.interceptor';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { UserRole } from '../users/user.entity';
+
+@ApiTags('Catalogos - Definiciones')
+@ApiBearerAuth('JWT')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@UseInterceptors(CatalogDefinitionsRefreshInterceptor)
+@Controller('catalog-definitions')
+export class CatalogDefinitionsController {
+  constructor(private readonly definitionsService: CatalogDefinitionsService) {}
+
+  @Get()
+  findAll() {
+    return this.definitionsService.findAll();
+  }
+
+  @Get(':key')
+  findOne(@Param('key') key: string) {
+    return this.definitionsService.findOne(key);
+  }
+
+  @Roles(UserRole.ADMIN)
+  @Post()
+  async create(
+    @Body() dto: SaveCatalogDefinitionDto,
+    @Req() req: { user: CatalogActor },
+  ) {
+    return this.definitionsService.create(dto, req.user);
+  }
+
+  @Roles(UserRole.ADMIN)
+  @Put(':key')
+  async update(
+    @Param('key') key: string,
+    @Body() dto: SaveCatalogDefinitionDto,
+    @Req() req: { user: CatalogActor },
+  ) {
+    return this.definitionsService.update(key, dto, req.user);
+  }
+}
@@ -0,0 +1,839 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  DataSource,
+  EntityManager,
+  EntityMetadata,
+  In,
+  Repository,
+  Table,
+  TableColumn,
+  TableIndex,
+  TableUnique,
+} from 'typeorm';
+import {
+  builtInCatalogKeys,
+  CatalogDefinition,
+  CatalogFieldDefinition,
+  CatalogFieldValidation,
+  createEntitySchema,
+  resolveReferencedField,
+  toColumnName,
+} from './catalog.definitions';
+import { CatalogDefinitionRecord } from './catalog-definition.entity';
+import {
+  buildCatalogMetadata,
+  registerCatalogMetadata,
+} from './catalog-metadata.adapter';
+import { CatalogActor } from './catalog-audit.service';
+import { CATALOG_DEFINITIONS } from './catalog.tokens';
+import {
+  CATALOG_FIELD_NAME_PATTERN,
+  SaveCatalogDefinitionDto,
+} from './dto/save-catalog-definition.dto';
+
+type CatalogDefinitionInput = Omit<CatalogDefinition, 'entity'>;
+
+export interface CatalogDefinitionSummary extends CatalogDefinitionInput {
+  builtIn: boolean;
+}
+
+const RESERVED_CATALOG_KEYS = ['lookup'];
+
+const RESERVED_FIELD_NAMES = [
+  'id',
+  'createdAt',
+  'updatedAt',
+  'vigenteDesde',
+  'vigenteHasta',
+  'isActive',
+];
+
+const MAX_IDENTIFIER_LENGTH = 63;
+
+const SQL_IDENTIFIER_PATTERN = /^[a-z_][a-z0-9_]*$/;
+
+@Injectable()
+export class CatalogDefinitionsService implements OnModuleInit {
+  private readonly logger = new Logger(CatalogDefinitionsService.name);
+  /** updated_at of each stored definition as this instance last built it. */
+  private readonly loadedVersions = new Map<string, number>();
+  /** Stored definitions whose latest version could not be built here. */
+  private readonly unavailable = new Map<string, string>();
+  private refreshing: Promise<void> | null = null;
+
+  constructor(
+    @Inject(CATALOG_DEFINITIONS)
+    private readonly definitions: CatalogDefinition[],
+    @InjectRepository(CatalogDefinitionRecord)
+    private readonly definitionRepository: Repository<CatalogDefinitionRecord>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.refresh();
+    } catch (error) {
+      this.logger.warn(
+        `No se pudieron cargar las definiciones de catálogos: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Definitions can be saved through any instance, so each catalog request
+   * compares the stored updated_at values with the ones built here and
+   * rebuilds the definitions that changed elsewhere.
+   */
+  refresh(): Promise<void> {
+    this.refreshing ??= this.reloadChanged().finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  assertAvailable(key: string): void {
+    const reason = this.unavailable.get(key);
+    if (reason !== undefined) {
+      throw new ServiceUnavailableException(
+        `La definición del catálogo "${key}" cambió y no se pudo cargar: ${reason}`,
+      );
+    }
+  }
+
+  findAll(): CatalogDefinitionSummary[] {
+    return this.definitions.map((definition) => this.toSummary(definition));
+  }
+
+  findOne(key: string): CatalogDefinitionSummary {
+    const definition = this.definitions.find(
+      (candidate) => candidate.key === key,
+    );
+    if (!definition) {
+      throw new NotFoundException(`No existe catálogo para la clave "${key}"`);
+    }
+    return this.toSummary(definition);
+  }
+
+  async create(
+    dto: SaveCatalogDefinitionDto,
+    actor?: CatalogActor,
+  ): Promise<CatalogDefinitionSummary> {
+    const input = this.toInput({
+      ...dto,
+      tableName: dto.key.replace(/-/g, '_'),
+    });
+    if (RESERVED_CATALOG_KEYS.includes(input.key)) {
+      throw new BadRequestException(`La clave "${input.key}" está reservada`);
+    }
+    const exists =
+      this.definitions.some((candidate) => candidate.key === input.key) ||
+      (await this.definitionRepository.exists({ where: { key: input.key } }));
+    if (exists) {
+      throw new ConflictException(
+        `Ya existe un catálogo con la clave "${input.key}"`,
+      );
+    }
+
+    const available = [...this.definitions, input];
+    this.validateDefinition(input, available);
+    const definition = this.toDefinition(input, available);
+    const metadata = await this.buildMetadata(definition);
+
+    const saved = await this.dataSource.transaction(async (manager) => {
+      const tableInUse =
+        this.dataSource.entityMetadatas.some(
+          (candidate) => candidate.tableName === input.tableName,
+        ) || (await manager.queryRunner.hasTable(input.tableName));
+      if (tableInUse) {
+        throw new ConflictException(
+          `La tabla "${input.tableName}" ya existe en la base de datos`,
+        );
+      }
+
+      await manager.queryRunner.createTable(
+        Table.create(metadata, this.dataSource.driver),
+        false,
+        true,
+        true,
+      );
+      await this.createSearchIndex(manager, metadata, definition);
+      return manager.save(
+        manager.create(CatalogDefinitionRecord, {
+          ...input,
+          updatedBy: actor?.username ?? null,
+        }),
+      );
+    });
+
+    this.publish(definition, metadata);
+    this.loadedVersions.set(definition.key, saved.updatedAt.getTime());
+    this.logger.log(`Catálogo "${definition.key}" creado`);
+    return this.toSummary(definition);
+  }
+
+  async update(
+    key: string,
+    dto: SaveCatalogDefinitionDto,
+    actor?: CatalogActor,
+  ): Promise<CatalogDefinitionSummary> {
+    if (builtInCatalogKeys.has(key)) {
+      throw new BadRequestException(
+        'Los catálogos base se definen en el código y no se pueden modificar',
+      );
+    }
+    const record = await this.definitionRepository.findOne({ where: { key } });
+    if (!record) {
+      throw new NotFoundException(`No existe catálogo para la clave "${key}"`);
+    }
+    if (dto.key !== key) {
+      throw new BadRequestException(
+        'La clave de un catálogo no se puede modificar',
+      );
+    }
+
+    const input = this.toInput({ ...dto, tableName: record.tableName });
+    const available = [
+      ...this.definitions.filter((candidate) => candidate.key !== key),
+      input,
+    ];
+    this.validateDefinition(input, available);
+
+    const previous = this.toDefinition(this.toInput(record), [
+      ...this.definitions.filter((candidate) => candidate.key !== key),
+      this.toInput(record),
+    ]);
+    const previousMetadata = await this.buildMetadata(previous);
+    const definition = this.toDefinition(input, available);
+    const metadata = await this.buildMetadata(definition);
+    this.assertReferencedFieldsKept(previousMetadata, metadata, definition);
+
+    await this.dataSource.transaction(async (manager) => {
+      await this.applySchemaChanges(
+        manager,
+        previous,
+        previousMetadata,
+        definition,
+        metadata,
+      );
+      record.label = input.label;
+      record.fields = input.fields;
+      record.uniqueBy = input.uniqueBy;
+      record.searchFields = input.searchFields;
+      record.updatedBy = actor?.username ?? null;
+      await manager.save(record);
+    });
+
+    this.publish(definition, metadata);
+    this.unavailable.delete(definition.key);
+    this.loadedVersions.set(definition.key, record.updatedAt.getTime());
+    this.logger.log(`Catálogo "${definition.key}" actualizado`);
+    return this.toSummary(definition);
+  }
+
+  private async reloadChanged(): Promise<void> {
+    const versions = await this.definitionRepository.find({
+      select: { key: true, updatedAt: true },
+    });
+    const changed = versions.filter(
+      (version) =>
+        this.loadedVersions.get(version.key) !== version.updatedAt.getTime(),
+    );
+    if (changed.length === 0) {
+      return;
+    }
+
+    const records = await this.definitionRepository.find({
+      where: { key: In(changed.map((version) => version.key)) },
+      order: { createdAt: 'ASC' },
+    });
+    const inputs = records.map((record) => this.toInput(record));
+    const available = [
+      ...this.definitions.filter(
+        (candidate) => !inputs.some((input) => input.key === candidate.key),
+      ),
+      ...inputs,
+    ];
+    for (const [index, input] of inputs.entries()) {
+      try {
+        const definition = this.toDefinition(input, available);
+        this.publish(definition, await this.buildMetadata(definition));
+        this.unavailable.delete(input.key);
+      } catch (error) {
+        this.unavailable.set(input.key, (error as Error).message);
+        this.logger.error(
+          `No se pudo registrar el catálogo "${input.key}": ${(error as Error).message}`,
+        );
+      }
+      this.loadedVersions.set(input.key, records[index].updatedAt.getTime());
+    }
+  }
+
+  private toInput(
+    source: Pick<
+      CatalogDefinitionInput,
+      'key' | 'label' | 'tableName' | 'fields' | 'uniqueBy' | 'searchFields'
+    >,
+  ): CatalogDefinitionInput {
+    return {
+      key: source.key,
+      label: source.label.trim(),
+      tableName: source.tableName,
+      fields: source.fields.map((field) => this.normalizeField(field)),
+      uniqueBy: [...source.uniqueBy],
+      searchFields: [...source.searchFields],
+    };
+  }
+
+  private normalizeField(
+    field: CatalogFieldDefinition,
+  ): CatalogFieldDefinition {
+    const normalized: CatalogFieldDefinition = {
+      name: field.name,
+      type: field.type,
+      required: Boolean(field.required),
+    };
+    if (field.label?.trim()) {
+      normalized.label = field.label.trim();
+    }
+    if (field.type === 'string' && field.length) {
+      normalized.length = field.length;
+    }
+    if (field.type === 'numeric') {
+      normalized.precision = field.precision ?? 12;
+      normalized.scale = field.scale ?? 4;
+    }
+    if (field.type === 'reference' && field.reference) {
+      normalized.reference = {
+        catalog: field.reference.catalog,
+        field: field.reference.field,
+      };
+    }
+    const excelKeys = (field.excelKeys ?? [])
+      .map((excelKey) => excelKey.trim())
+      .filter(Boolean);
+    if (excelKeys.length > 0) {
+      normalized.excelKeys = excelKeys;
+    }
+    if (field.codeFormat) {
+      normalized.codeFormat = {
+        width: field.codeFormat.width,
+        padding: field.codeFormat.padding ?? '0',
+        numeric: field.codeFormat.numeric ?? true,
+      };
+    }
+    const validation = this.normalizeValidation(field.validation);
+    if (validation) {
+      normalized.validation = validation;
+    }
+    return normalized;
+  }
+
+  private normalizeValidation(
+    validation?: CatalogFieldValidation,
+  ): CatalogFieldValidation | undefined {
+    if (!validation) {
+      return undefined;
+    }
+    const normalized: CatalogFieldValidation = {};
+    if (validation.pattern) {
+      normalized.pattern = validation.pattern;
+    }
+    if (validation.min !== undefined && validation.min !== null) {
+      normalized.min = validation.min;
+    }
+    if (validation.max !== undefined && validation.max !== null) {
+      normalized.max = validation.max;
+    }
+    if (validation.allowedValues?.length) {
+      normalized.allowedValues = [...validation.allowedValues];
+    }
+    const messages = Object.entries(validation.messages ?? {}).filter(
+      ([rule, message]) =>
+        rule in normalized && typeof message === 'string' && message.trim(),
+    );
+    if (messages.length > 0) {
+      normalized.messages = Object.fromEntries(
+        messages.map(([rule, message]) => [rule, message.trim()]),
+      );
+    }
+    return Object.keys(normalized).length > 0 ? normalized : undefined;
+  }
+
+  private validateFieldRules(field: CatalogFieldDefinition): void {
+    const rules = field.validation;
+    if (!rules) {
+      return;
+    }
+    if (field.type === 'reference') {
+      throw new BadRequestException(
+        `El campo "${field.name}" hereda las reglas del campo referenciado y no admite reglas propias`,
+      );
+    }
+    if (rules.pattern) {
+      try {
+        new RegExp(rules.pattern);
+      } catch {
+        throw new BadRequestException(
+          `El patrón del campo "${field.name}" no es una expresión regular válida`,
+        );
+      }
+    }
+    if (
+      (rules.min !== undefined || rules.max !== undefined) &&
+      field.type === 'string'
+    ) {
+      throw new BadRequestException(
+        `Los límites mínimo y máximo solo aplican a campos numéricos ("${field.name}")`,
+      );
+    }
+    if (
+      rules.min !== undefined &&
+      rules.max !== undefined &&
+      rules.min > rules.max
+    ) {
+      throw new BadRequestException(
+        `El mínimo del campo "${field.name}" no puede ser mayor que su máximo`,
+      );
+    }
+    const invalidValues = (rules.allowedValues ?? []).filter((allowed) =>
+      field.type === 'string'
+        ? typeof allowed !== 'string'
+        : typeof allowed !== 'number' ||
+          (field.type === 'int' && !Number.isInteger(allowed)),
+    );
+    if (invalidValues.length > 0) {
+      throw new BadRequestException(
+        `Los valores permitidos del campo "${field.name}" no coinciden con su tipo: ${invalidValues.join(', ')}`,
+      );
+    }
+  }
+
+  private validateDefinition(
+    input: CatalogDefinitionInput,
+    available: CatalogDefinitionInput[],
+  ): void {
+    if (!SQL_IDENTIFIER_PATTERN.test(input.tableName)) {
+      throw new BadRequestException(
+        `El nombre de tabla "${input.tableName}" solo admite minúsculas, dígitos y guiones bajos`,
+      );
+    }
+    if (input.tableName.length > MAX_IDENTIFIER_LENGTH) {
+      throw new BadRequestException(
+        `El nombre de tabla "${input.tableName}" excede ${MAX_IDENTIFIER_LENGTH} caracteres`,
+      );
+    }
+
+    const names = new Set<string>();
+    for (const field of input.fields) {
+      const columnName = toColumnName(field.name);
+      if (
+        !CATALOG_FIELD_NAME_PATTERN.test(field.name) ||
+        !SQL_IDENTIFIER_PATTERN.test(columnName)
+      ) {
+        throw new BadRequestException(
+          `El nombre de campo "${field.name}" debe empezar con minúscula y contener solo letras y dígitos`,
+        );
+      }
+      if (columnName.length > MAX_IDENTIFIER_LENGTH) {
+        throw new BadRequestException(
+          `El nombre de columna "${columnName}" excede ${MAX_IDENTIFIER_LENGTH} caracteres`,
+        );
+      }
+      if (RESERVED_FIELD_NAMES.includes(field.name)) {
+        throw new BadRequestException(
+          `El nombre de campo "${field.name}" está reservado`,
+        );
+      }
+      if (names.has(field.name)) {
+        throw new BadRequestException(
+          `El campo "${field.name}" está duplicado`,
+        );
+      }
+      names.add(field.name);
+      this.validateFieldRules(field);
+      if (field.codeFormat) {
+        if (field.type !== 'string') {
+          throw new BadRequestException(
+            `El formato de código solo aplica a campos de texto ("${field.name}")`,
+          );
+        }
+        if (field.codeFormat.width > (field.length ?? 1024)) {
+          throw new BadRequestException(
+            `El ancho del código del campo "${field.name}" excede su longitud`,
+          );
+        }
+      }
+      if (
+        field.type === 'numeric' &&
+        (field.scale ?? 0) > (field.precision ?? 0)
+      ) {
+        throw new BadRequestException(
+          `La escala del campo "${field.name}" no puede ser mayor que su precisión`,
+        );
+      }
+      if (field.type === 'reference') {
+        if (!field.reference) {
+          throw new BadRequestException(
+            `El campo "${field.name}" debe indicar el catálogo y campo referenciados`,
+          );
+        }
+        try {
+          resolveReferencedField(field, available);
+        } catch (error) {
+          throw new BadRequestException((error as Error).message);
+        }
+      }
+    }
+
+    if (new Set(input.uniqueBy).size !== input.uniqueBy.length) {
+      throw new BadRequestException('La clave única tiene campos repetidos');
+    }
+    const unknownFields = [...input.uniqueBy, ...input.searchFields].filter(
+      (name) => !names.has(name),
+    );
+    if (unknownFields.length > 0) {
+      throw new BadRequestException(
+        `Campos desconocidos en la definición: ${[...new Set(unknownFields)].join(', ')}`,
+      );
+    }
+  }
+
+  private assertReferencedFieldsKept(
+    previousMetadata: EntityMetadata,
+    metadata: EntityMetadata,
+    definition: CatalogDefinitionInput,
+  ): void {
+    const previousTable = Table.create(
+      previousMetadata,
+      this.dataSource.driver,
+    );
+    const nextTable = Table.create(metadata, this.dataSource.driver);
+    for (const source of this.definitions) {
+      for (const field of source.fields) {
+        if (field.reference?.catalog !== definition.key) {
+          continue;
+        }
+        const previousColumn = this.findTableColumn(
+          previousTable,
+          previousMetadata,
+          field.reference.field,
+        );
+        const nextColumn = this.findTableColumn(
+          nextTable,
+          metadata,
+          field.reference.field,
+        );
+        if (
+          !nextColumn ||
+          (previousColumn &&
+            this.buildColumnType(previousColumn) !==
+              this.buildColumnType(nextColumn))
+        ) {
+          throw new BadRequestException(
+            `El campo "${field.reference.field}" está referenciado por el catálogo ${source.label} y no se puede eliminar ni cambiar de tipo`,
+          );
+        }
+      }
+    }
+  }
+
+  private async applySchemaChanges(
+    manager: EntityManager,
+    previous: CatalogDefinition,
+    previousMetadata: EntityMetadata,
+    definition: CatalogDefinition,
+    metadata: EntityMetadata,
+  ): Promise<void> {
+    const queryRunner = manager.queryRunner;
+    const previousTable = Table.create(
+      previousMetadata,
+      this.dataSource.driver,
+    );
+    const nextTable = Table.create(metadata, this.dataSource.driver);
+    const tableName = definition.tableName;
+    const [{ exists: hasRows }] = await manager.query<
+      Array<{ exists: boolean }>
+    >(`SELECT EXISTS (SELECT 1 FROM ${this.escape(tableName)}) AS "exists"`);
+
+    for (const field of previous.fields) {
+      if (
+        definition.fields.some((candidate) => candidate.name === field.name)
+      ) {
+        continue;
+      }
+      const column = this.findTableColumn(
+        previousTable,
+        previousMetadata,
+        field.name,
+      );
+      if (column && !column.isNullable) {
+        await manager.query(
+          `ALTER TABLE ${this.escape(tableName)} ALTER COLUMN ${this.escape(column.name)} DROP NOT NULL`,
+        );
+      }
+    }
+
+    for (const field of definition.fields) {
+      const nextColumn = this.findTableColumn(nextTable, metadata, field.name);
+      const previousColumn = this.findTableColumn(
+        previousTable,
+        previousMetadata,
+        field.name,
+      );
+
+      if (!previousColumn) {
+        const existing = await queryRunner.getTable(tableName);
+        if (existing?.findColumnByName(nextColumn.name)) {
+          throw new BadRequestException(
+            `La columna "${nextColumn.name}" ya existe en la tabla; use otro nombre para el campo "${field.name}"`,
+          );
+        }
+        if (!nextColumn.isNullable && hasRows) {
+          throw new BadRequestException(
+            `El campo "${field.name}" no puede ser obligatorio porque el catálogo ya tiene registros`,
+          );
+        }
+        await queryRunner.addColumn(tableName, nextColumn);
+        continue;
+      }
+
+      const previousType = this.buildColumnType(previousColumn);
+      const nextType = this.buildColumnType(nextColumn);
+      if (previousType !== nextType) {
+        if (!this.isSafeColumnChange(previousColumn, nextColumn)) {
+          throw new BadRequestException(
+            `No se puede cambiar el campo "${field.name}" de ${previousType} a ${nextType} sin perder datos`,
+          );
+        }
+        await manager.query(
+          `ALTER TABLE ${this.escape(tableName)} ALTER COLUMN ${this.escape(nextColumn.name)} TYPE ${nextType} USING ${this.escape(nextColumn.name)}::${nextType}`,
+        );
+      }
+
+      if (previousColumn.isNullable && !nextColumn.isNullable) {
+        const [{ exists: hasNulls }] = await manager.query<
+          Array<{ exists: boolean }>
+        >(
+          `SELECT EXISTS (SELECT 1 FROM ${this.escape(tableName)} WHERE ${this.escape(nextColumn.name)} IS NULL) AS "exists"`,
+        );
+        if (hasNulls) {
+          throw new BadRequestException(
+            `El campo "${field.name}" no puede ser obligatorio porque hay registros sin valor`,
+          );
+        }
+        await manager.query(
+          `ALTER TABLE ${this.escape(tableName)} ALTER COLUMN ${this.escape(nextColumn.name)} SET NOT NULL`,
+        );
+      } else if (!previousColumn.isNullable && nextColumn.isNullable) {
+        await manager.query(
+          `ALTER TABLE ${this.escape(tableName)} ALTER COLUMN ${this.escape(nextColumn.name)} DROP NOT NULL`,
+        );
+      }
+    }
+
+    await this.syncIndices(manager, previousTable, nextTable);
+    await this.syncUniqueConstraint(
+      manager,
+      previousTable,
+      nextTable,
+      definition,
+    );
+
+    const previousSearch = this.buildSearchDocument(previousMetadata, previous);
+    const nextSearch = this.buildSearchDocument(metadata, definition);
+    if (previousSearch !== nextSearch) {
+      await manager.query(
+        `DROP INDEX IF EXISTS ${this.escape(`${tableName}_search_idx`)}`,
+      );
+      await this.createSearchIndex(manager, metadata, definition);
+    }
+  }
+
+  private async syncIndices(
+    manager: EntityManager,
+    previousTable: Table,
+    nextTable: Table,
+  ): Promise<void> {
+    const signature = (index: TableIndex) => index.columnNames.join(',');
+    for (const index of previousTable.indices) {
+      const next = nextTable.indices.find(
+        (candidate) => candidate.name === index.name,
+      );
+      if (!next || signature(next) !== signature(index)) {
+        await manager.query(`DROP INDEX IF EXISTS ${this.escape(index.name)}`);
+      }
+    }
+    for (const index of nextTable.indices) {
+      const previous = previousTable.indices.find(
+        (candidate) => candidate.name === index.name,
+      );
+      if (!previous || signature(previous) !== signature(index)) {
+        await manager.queryRunner.createIndex(nextTable.name, index);
+      }
+    }
+  }
+
+  private async syncUniqueConstraint(
+    manager: EntityManager,
+    previousTable: Table,
+    nextTable: Table,
+    definition: CatalogDefinition,
+  ): Promise<void> {
+    const signature = (uniques: TableUnique[]) =>
+      uniques.map((unique) => unique.columnNames.join(',')).join(';');
+    if (signature(previousTable.uniques) === signature(nextTable.uniques)) {
+      return;
+    }
+
+    // Look for duplicates while the current constraint still protects the table
+    for (const unique of nextTable.uniques) {
+      const columns = unique.columnNames
+        .map((column) => this.escape(column))
+        .join(', ');
+      const duplicates = await manager.query<unknown[]>(
+        `SELECT 1 FROM ${this.escape(definition.tableName)} GROUP BY ${columns} HAVING COUNT(*) > 1 LIMIT 1`,
+      );
+      if (duplicates.length > 0) {
+        throw new ConflictException(
+          'Existen registros duplicados para la nueva clave única',
+        );
+      }
+    }
+    for (const unique of previousTable.uniques) {
+      await manager.query(
+        `ALTER TABLE ${this.escape(definition.tableName)} DROP CONSTRAINT IF EXISTS ${this.escape(unique.name)}`,
+      );
+    }
+    for (const unique of nextTable.uniques) {
+      await manager.queryRunner.createUniqueConstraint(nextTable.name, unique);
+    }
+  }
+
+  private isSafeColumnChange(
+    previous: TableColumn,
+    next: TableColumn,
+  ): boolean {
+    const length = Number(next.length);
+    if (previous.type === next.type) {
+      if (next.type === 'character varying') {
+        return length >= Number(previous.length);
+      }
+      if (next.type === 'numeric') {
+        return (
+          next.scale >= previous.scale &&
+          next.precision - next.scale >= previous.precision - previous.scale
+        );
+      }
+      return false;
+    }
+    if (previous.type === 'integer' && next.type === 'numeric') {
+      return next.precision - next.scale >= 10;
+    }
+    if (previous.type === 'integer' && next.type === 'character varying') {
+      return length >= 11;
+    }
+    if (previous.type === 'numeric' && next.type === 'character varying') {
+      return length >= previous.precision + 2;
+    }
+    return false;
+  }
+
+  private escape(identifier: string): string {
+    return this.dataSource.driver.escape(identifier);
+  }
+
+  private buildColumnType(column: TableColumn): string {
+    return this.dataSource.driver.createFullType(column);
+  }
+
+  private findTableColumn(
+    table: Table,
+    metadata: EntityMetadata,
+    propertyName: string,
+  ): TableColumn | undefined {
+    const column = metadata.findColumnWithPropertyName(propertyName);
+    return column ? table.findColumnByName(column.databaseName) : undefined;
+  }
+
+  private buildSearchDocument(
+    metadata: EntityMetadata,
+    definition: CatalogDefinitionInput,
+  ): string | null {
+    const columns = definition.searchFields
+      .map((field) => metadata.findColumnWithPropertyName(field)?.databaseName)
+      .filter((column): column is string => Boolean(column));
+    if (columns.length === 0) {
+      return null;
+    }
+    return columns
+      .map((column) => `coalesce(CAST(${this.escape(column)} AS TEXT), '')`)
+      .join(` || ' ' || `);
+  }
+
+  private async createSearchIndex(
+    manager: EntityManager,
+    metadata: EntityMetadata,
+    definition: CatalogDefinitionInput,
+  ): Promise<void> {
+    const document = this.buildSearchDocument(metadata, definition);
+    if (!document) {
+      return;
+    }
+    await manager.query(
+      `CREATE INDEX IF NOT EXISTS ${this.escape(`${definition.tableName}_search_idx`)} ON ${this.escape(definition.tableName)} USING gin (catalog_search_vector(${document}))`,
+    );
+  }
+
+  private toDefinition(
+    input: CatalogDefinitionInput,
+    available: CatalogDefinitionInput[],
+  ): CatalogDefinition {
+    return { ...input, entity: createEntitySchema(input, available) };
+  }
+
+  private async buildMetadata(
+    definition: CatalogDefinition,
+  ): Promise<EntityMetadata> {
+    return buildCatalogMetadata(this.dataSource, definition.entity);
+  }
+
+  private publish(
+    definition: CatalogDefinition,
+    metadata: EntityMetadata,
+  ): void {
+    registerCatalogMetadata(this.dataSource, metadata);
+
+    const definitionIndex = this.definitions.findIndex(
+      (candidate) => candidate.key === definition.key,
+    );
+    if (definitionIndex >= 0) {
+      this.definitions.splice(definitionIndex, 1, definition);
+    } else {
+      this.definitions.push(definition);
+    }
+  }
+
+  private toSummary(definition: CatalogDefinition): CatalogDefinitionSummary {
+    const { key, label, tableName, fields, uniqueBy, searchFields } =
+      definition;
+    return {
+      key,
+      label,
+      tableName,
+      fields,
+      uniqueBy,
+      searchFields,
+      builtIn: builtInCatalogKeys.has(key),
+    };
+  }
+}
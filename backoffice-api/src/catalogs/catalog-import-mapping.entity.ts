@@ -0,0 +1,16 @@
+import { Column, Entity, PrimaryColumn, UpdateDateColumn } from 'typeorm';
+
+@Entity({ name: 'catalog_import_mappings' })
+export class CatalogImportMapping {
+  @PrimaryColumn({ name: 'catalog_key', length: 80 })
+  catalogKey!: string;
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  mapping!: Record<string, string | null>;
+
+  @Column({ name: 'updated_by', type: 'varchar', length: 120, nullable: true })
+  updatedBy!: string | null;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,33 @@
+import { DataSource, EntityMetadata, EntitySchema } from 'typeorm';
+import { ConnectionMetadataBuilder } from 'typeorm/connection/ConnectionMetadataBuilder';
+
+/**
+ * TypeORM only builds entity metadata while the data source initializes, so
+ * catalogs defined at runtime go through its internal builder and metadata
+ * lists. Every use of those internals lives here; review this file when
+ * upgrading TypeORM.
+ */
+export const buildCatalogMetadata = async (
+  dataSource: DataSource,
+  schema: EntitySchema,
+): Promise<EntityMetadata> => {
+  const [metadata] = await new ConnectionMetadataBuilder(
+    dataSource,
+  ).buildEntityMetadatas([schema]);
+  return metadata;
+};
+
+export const registerCatalogMetadata = (
+  dataSource: DataSource,
+  metadata: EntityMetadata,
+): void => {
+  const index = dataSource.entityMetadatas.findIndex(
+    (candidate) => candidate.name === metadata.name,
+  );
+  if (index >= 0) {
+    const [replaced] = dataSource.entityMetadatas.splice(index, 1);
+    dataSource.entityMetadatasMap.delete(replaced.target);
+  }
+  dataSource.entityMetadatas.push(metadata);
+  dataSource.entityMetadatasMap.set(metadata.target, metadata);
+};
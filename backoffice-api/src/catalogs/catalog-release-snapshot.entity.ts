@@ -0,0 +1,43 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { CatalogRelease } from './catalog-release.entity';
+
+@Entity({ name: 'catalog_release_snapshots' })
+@Index(
+  'catalog_release_snapshots_release_catalog_uq',
+  ['releaseId', 'catalogKey'],
+  {
+    unique: true,
+  },
+)
+export class CatalogReleaseSnapshot {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'release_id', type: 'uuid' })
+  releaseId!: string;
+
+  @ManyToOne(() => CatalogRelease, (release) => release.snapshots, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'release_id' })
+  release!: CatalogRelease;
+
+  @Column({ name: 'catalog_key', length: 80 })
+  catalogKey!: string;
+
+  @Column({ length: 64 })
+  checksum!: string;
+
+  @Column({ name: 'entry_count', type: 'int' })
+  entryCount!: number;
+
+  @Column({ type: 'jsonb', select: false })
+  data!: Record<string, unknown>[];
+}
@@ -0,0 +1,42 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  OneToMany,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { CatalogReleaseSnapshot } from './catalog-release-snapshot.entity';
+
+@Entity({ name: 'catalog_releases' })
+@Index('catalog_releases_version_uq', ['version'], { unique: true })
+export class CatalogRelease {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ length: 20 })
+  version!: string;
+
+  @Column({ length: 64 })
+  checksum!: string;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  notes!: string | null;
+
+  @Column({ name: 'published_by_id', type: 'uuid', nullable: true })
+  publishedById!: string | null;
+
+  @Column({
+    name: 'published_by',
+    type: 'varchar',
+    length: 120,
+    nullable: true,
+  })
+  publishedBy!: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @OneToMany(() => CatalogReleaseSnapshot, (snapshot) => snapshot.release)
+  snapshots!: CatalogReleaseSnapshot[];
+}
@@ -0,0 +1,55 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { CatalogReleasesService } from './catalog-releases.service';
+import { CatalogActor } from './catalog-audit.service';
+import { PublishCatalogReleaseDto } from './dto/publish-catalog-release.dto';
+import { CatalogDefinitionsRefreshInterceptor } from './catalog-definitions-refresh.interceptor';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AllowApiKey } from '../auth/api-key-access.decorator';
+import { UserRole } from '../users/user.entity';
+
+@ApiTags('Catalogos - Versiones')
+@ApiBearerAuth('JWT')
+@ApiSecurity('ApiKey')
+@AllowApiKey()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@UseInterceptors(CatalogDefinitionsRefreshInterceptor)
+@Controller('catalog-releases')
+export class CatalogReleasesController {
+  constructor(private readonly releasesService: CatalogReleasesService) {}
+
+  @Get()
+  async list() {
+    return this.releasesService.list();
+  }
+
+  @Roles(UserRole.ADMIN)
+  @Post()
+  async publish(
+    @Body() dto: PublishCatalogReleaseDto,
+    @Req() req: { user: CatalogActor },
+  ) {
+    return this.releasesService.publish(dto, req.user);
+  }
+
+  @Get(':version')
+  async findOne(@Param('version') version: string) {
+    return this.releasesService.findOne(version);
+  }
+
+  @Get(':version/diff')
+  async diff(@Param('version') version: string) {
+    return this.releasesService.diff(version);
+  }
+}
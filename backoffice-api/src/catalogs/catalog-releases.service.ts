@@ -0,0 +1,366 @@
+import { createHash } from 'node:crypto';
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Like, Repository } from 'typeorm';
+import {
+  CATALOG_VALIDITY_FIELDS,
+  CatalogDefinition,
+} from './catalog.definitions';
+import { CATALOG_DEFINITIONS } from './catalog.tokens';
+import { CatalogActor } from './catalog-audit.service';
+import { CatalogRelease } from './catalog-release.entity';
+import { CatalogReleaseSnapshot } from './catalog-release-snapshot.entity';
+import { CatalogListResult, CatalogsService } from './catalogs.service';
+import { CatalogEntriesQueryDto } from './dto/catalog-entries-query.dto';
+import { PublishCatalogReleaseDto } from './dto/publish-catalog-release.dto';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+type ReleaseEntry = Record<string, unknown>;
+
+export interface CatalogReleaseSummary {
+  id: string;
+  version: string;
+  checksum: string;
+  notes: string | null;
+  publishedBy: string | null;
+  createdAt: Date;
+  catalogs: Array<{
+    catalogKey: string;
+    checksum: string;
+    entryCount: number;
+  }>;
+}
+
+export interface CatalogReleaseDiff {
+  version: string;
+  catalogs: Array<{
+    catalogKey: string;
+    previousVersion: string | null;
+    added: ReleaseEntry[];
+    removed: ReleaseEntry[];
+    changed: Array<{ before: ReleaseEntry; after: ReleaseEntry }>;
+  }>;
+}
+
+@Injectable()
+export class CatalogReleasesService {
+  constructor(
+    @Inject(CATALOG_DEFINITIONS)
+    private readonly definitions: CatalogDefinition[],
+    private readonly catalogsService: CatalogsService,
+    private readonly dataSource: DataSource,
+    @InjectRepository(CatalogRelease)
+    private readonly releaseRepository: Repository<CatalogRelease>,
+    @InjectRepository(CatalogReleaseSnapshot)
+    private readonly snapshotRepository: Repository<CatalogReleaseSnapshot>,
+  ) {}
+
+  async list(): Promise<CatalogReleaseSummary[]> {
+    const releases = await this.releaseRepository.find({
+      relations: { snapshots: true },
+      order: { createdAt: 'DESC' },
+    });
+    return releases.map((release) => this.toSummary(release));
+  }
+
+  async findOne(version: string): Promise<CatalogReleaseSummary> {
+    return this.toSummary(await this.getReleaseOrThrow(version));
+  }
+
+  async publish(
+    dto: PublishCatalogReleaseDto,
+    actor?: CatalogActor,
+  ): Promise<CatalogReleaseSummary> {
+    const definitions = dto.catalogKey
+      ? [this.catalogsService.getDefinitionOrThrow(dto.catalogKey)]
+      : this.definitions;
+
+    const version = await this.dataSource.transaction(
+      'REPEATABLE READ',
+      async (manager) => {
+        await manager.query('LOCK TABLE catalog_releases IN EXCLUSIVE MODE');
+        const nextVersion = await this.nextVersion(manager);
+
+        const snapshots: Array<{
+          catalogKey: string;
+          checksum: string;
+          entries: ReleaseEntry[];
+        }> = [];
+        for (const definition of definitions) {
+          const entries = await this.loadActiveEntries(manager, definition);
+          snapshots.push({
+            catalogKey: definition.key,
+            checksum: this.checksum(entries),
+            entries,
+          });
+        }
+
+        const releaseRepository = manager.getRepository(CatalogRelease);
+        const release = await releaseRepository.save(
+          releaseRepository.create({
+            version: nextVersion,
+            checksum: this.checksum(
+              snapshots.map(({ catalogKey, checksum }) => ({
+                catalogKey,
+                checksum,
+              })),
+            ),
+            notes: dto.notes?.trim() || null,
+            publishedById: actor?.id ?? null,
+            publishedBy: actor?.username ?? null,
+          }),
+        );
+
+        const snapshotRepository = manager.getRepository(
+          CatalogReleaseSnapshot,
+        );
+        for (const snapshot of snapshots) {
+          await snapshotRepository.insert({
+            releaseId: release.id,
+            catalogKey: snapshot.catalogKey,
+            checksum: snapshot.checksum,
+            entryCount: snapshot.entries.length,
+            data: snapshot.entries,
+          });
+        }
+
+        return release.version;
+      },
+    );
+
+    return this.findOne(version);
+  }
+
+  async findEntries(
+    key: string,
+    query: CatalogEntriesQueryDto,
+  ): Promise<CatalogListResult> {
+    const definition = this.catalogsService.getDefinitionOrThrow(key);
+    const release = await this.getReleaseOrThrow(query.release ?? '');
+    const snapshot = await this.findSnapshotAtRelease(
+      definition.key,
+      release,
+      true,
+    );
+    if (!snapshot) {
+      throw new NotFoundException(
+        `${definition.label} no forma parte de la versión "${release.version}"`,
+      );
+    }
+
+    const page = query.page ?? 1;
+    const limit = Math.min(
+      Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE,
+    );
+    const params: unknown[] = [snapshot.id];
+    const conditions: string[] = [];
+
+    const trimmedSearch = query.search?.trim();
+    if (trimmedSearch) {
+      const validSearchFields = definition.searchFields.filter((field) =>
+        definition.fields.some((candidate) => candidate.name === field),
+      );
+      if (validSearchFields.length > 0) {
+        params.push(trimmedSearch);
+        const placeholder = `$${params.length}`;
+        conditions.push(
+          `(${validSearchFields
+            .map(
+              (field) =>
+                `strpos(lower(e.entry->>'${field}'), lower(${placeholder})) > 0`,
+            )
+            .join(' OR ')})`,
+        );
+      }
+    }
+
+    if (query.asOf) {
+      params.push(query.asOf);
+      const placeholder = `$${params.length}`;
+      conditions.push(
+        `(e.entry->>'vigenteDesde' IS NULL OR (e.entry->>'vigenteDesde')::date <= ${placeholder}::date)`,
+        `(e.entry->>'vigenteHasta' IS NULL OR (e.entry->>'vigenteHasta')::date >= ${placeholder}::date)`,
+      );
+    }
+
+    const from = `
+      FROM catalog_release_snapshots s
+      CROSS JOIN LATERAL jsonb_array_elements(s.data) WITH ORDINALITY AS e(entry, position)
+      WHERE s.id = $1${conditions.map((condition) => ` AND ${condition}`).join('')}
+    `;
+
+    const rows: Array<{ entry: ReleaseEntry }> = await this.dataSource.query(
+      `SELECT e.entry ${from} ORDER BY e.position LIMIT ${limit} OFFSET ${(page - 1) * limit}`,
+      params,
+    );
+    const countRows: Array<{ count: number }> = await this.dataSource.query(
+      `SELECT COUNT(*)::int AS count ${from}`,
+      params,
+    );
+
+    return {
+      data: rows.map((row) => row.entry),
+      meta: {
+        total: countRows[0]?.count ?? 0,
+        page,
+        limit,
+        release: release.version,
+      },
+    };
+  }
+
+  async diff(version: string): Promise<CatalogReleaseDiff> {
+    const release = await this.getReleaseOrThrow(version);
+    const catalogs: CatalogReleaseDiff['catalogs'] = [];
+
+    for (const snapshot of release.snapshots) {
+      const current = await this.loadSnapshotData(snapshot.id);
+      const previous = await this.findSnapshotAtRelease(
+        snapshot.catalogKey,
+        release,
+        false,
+      );
+      const previousEntries = previous
+        ? await this.loadSnapshotData(previous.id)
+        : [];
+      const keyOf = this.buildEntryKey(snapshot.catalogKey);
+
+      const previousByKey = new Map(
+        previousEntries.map((entry) => [keyOf(entry), entry]),
+      );
+      const added: ReleaseEntry[] = [];
+      const changed: Array<{ before: ReleaseEntry; after: ReleaseEntry }> = [];
+
+      current.forEach((entry) => {
+        const key = keyOf(entry);
+        const before = previousByKey.get(key);
+        previousByKey.delete(key);
+        if (!before) {
+          added.push(entry);
+        } else if (JSON.stringify(before) !== JSON.stringify(entry)) {
+          changed.push({ before, after: entry });
+        }
+      });
+
+      catalogs.push({
+        catalogKey: snapshot.catalogKey,
+        previousVersion: previous?.release.version ?? null,
+        added,
+        removed: Array.from(previousByKey.values()),
+        changed,
+      });
+    }
+
+    return { version: release.version, catalogs };
+  }
+
+  private async getReleaseOrThrow(version: string): Promise<CatalogRelease> {
+    const release = await this.releaseRepository.findOne({
+      where: { version },
+      relations: { snapshots: true },
+    });
+    if (!release) {
+      throw new NotFoundException(`No existe la versión "${version}"`);
+    }
+    return release;
+  }
+
+  private async findSnapshotAtRelease(
+    catalogKey: string,
+    release: CatalogRelease,
+    inclusive: boolean,
+  ): Promise<CatalogReleaseSnapshot | null> {
+    return this.snapshotRepository
+      .createQueryBuilder('snapshot')
+      .innerJoinAndSelect('snapshot.release', 'release')
+      .where('snapshot.catalogKey = :catalogKey', { catalogKey })
+      .andWhere(
+        inclusive
+          ? 'release.createdAt <= :createdAt'
+          : 'release.createdAt < :createdAt',
+        { createdAt: release.createdAt },
+      )
+      .orderBy('release.createdAt', 'DESC')
+      .getOne();
+  }
+
+  private async loadSnapshotData(id: string): Promise<ReleaseEntry[]> {
+    const snapshot = await this.snapshotRepository
+      .createQueryBuilder('snapshot')
+      .addSelect('snapshot.data')
+      .where('snapshot.id = :id', { id })
+      .getOne();
+    return snapshot?.data ?? [];
+  }
+
+  private async loadActiveEntries(
+    manager: EntityManager,
+    definition: CatalogDefinition,
+  ): Promise<ReleaseEntry[]> {
+    const order: Record<string, 'ASC'> = {};
+    [...definition.uniqueBy, 'id'].forEach((field) => {
+      order[field] = 'ASC';
+    });
+
+    const rows = await manager
+      .getRepository<ReleaseEntry>(definition.entity)
+      .find({ where: { isActive: true }, order });
+
+    return rows.map((row) => {
+      const entry: ReleaseEntry = { id: row.id };
+      definition.fields.forEach((field) => {
+        entry[field.name] = row[field.name] ?? null;
+      });
+      CATALOG_VALIDITY_FIELDS.forEach((field) => {
+        entry[field] = row[field] ?? null;
+      });
+      return entry;
+    });
+  }
+
+  private async nextVersion(manager: EntityManager): Promise<string> {
+    const year = new Date().getUTCFullYear();
+    const releases = await manager.getRepository(CatalogRelease).find({
+      select: { version: true },
+      where: { version: Like(`${year}.%`) },
+    });
+    const lastSequence = releases.reduce((max, release) => {
+      const sequence = Number(release.version.split('.')[1]);
+      return Number.isInteger(sequence) && sequence > max ? sequence : max;
+    }, 0);
+    return `${year}.${lastSequence + 1}`;
+  }
+
+  private buildEntryKey(catalogKey: string): (entry: ReleaseEntry) => string {
+    const uniqueBy = this.definitions.find(
+      (definition) => definition.key === catalogKey,
+    )?.uniqueBy ?? ['id'];
+    return (entry) =>
+      uniqueBy.map((field) => JSON.stringify(entry[field] ?? null)).join('|');
+  }
+
+  private checksum(value: unknown): string {
+    return createHash('sha256').update(JSON.stringify(value)).digest('hex');
+  }
+
+  private toSummary(release: CatalogRelease): CatalogReleaseSummary {
+    return {
+      id: release.id,
+      version: release.version,
+      checksum: release.checksum,
+      notes: release.notes,
+      publishedBy: release.publishedBy,
+      createdAt: release.createdAt,
+      catalogs: (release.snapshots ?? [])
+        .map(({ catalogKey, checksum, entryCount }) => ({
+          catalogKey,
+          checksum,
+          entryCount,
+        }))
+        .sort((a, b) => a.catalogKey.localeCompare(b.catalogKey)),
+    };
+  }
+}
@@ -0,0 +1,222 @@
+import {
+  CatalogDefinition,
+  CatalogFieldDefinition,
+  catalogDefinitionsMap,
+  createEntitySchema,
+  describeCatalogField,
+  findFieldRuleViolation,
+  resolveReferencedField,
+} from './catalog.definitions';
+
+const field = (
+  overrides: Partial<CatalogFieldDefinition>,
+): CatalogFieldDefinition => ({
+  name: 'codigo',
+  type: 'string',
+  required: true,
+  ...overrides,
+});
+
+describe('findFieldRuleViolation', () => {
+  it('accepts any value when the field has no rules', () => {
+    expect(findFieldRuleViolation(field({}), 'cualquier cosa')).toBeNull();
+  });
+
+  describe('pattern', () => {
+    const currency = field({ validation: { pattern: '^[A-Z]{3}$' } });
+
+    it('accepts values that match the whole pattern', () => {
+      expect(findFieldRuleViolation(currency, 'CRC')).toBeNull();
+    });
+
+    it('rejects values that do not match', () => {
+      expect(findFieldRuleViolation(currency, 'crc')).toBe(
+        'El campo "codigo" no cumple el formato ^[A-Z]{3}$',
+      );
+      expect(findFieldRuleViolation(currency, 'CRCX')).not.toBeNull();
+    });
+
+    it('tests numbers by their text form', () => {
+      const digits = field({
+        type: 'int',
+        validation: { pattern: '^\\d{2}$' },
+      });
+
+      expect(findFieldRuleViolation(digits, 12)).toBeNull();
+      expect(findFieldRuleViolation(digits, 123)).not.toBeNull();
+    });
+  });
+
+  describe('min and max', () => {
+    const percentage = field({
+      name: 'impuesto',
+      type: 'numeric',
+      validation: { min: 0, max: 13 },
+    });
+
+    it('accepts the limits themselves', () => {
+      expect(findFieldRuleViolation(percentage, 0)).toBeNull();
+      expect(findFieldRuleViolation(percentage, 13)).toBeNull();
+    });
+
+    it('rejects values below the minimum', () => {
+      expect(findFieldRuleViolation(percentage, -1)).toBe(
+        'El campo "impuesto" debe ser mayor o igual a 0',
+      );
+    });
+
+    it('rejects values above the maximum', () => {
+      expect(findFieldRuleViolation(percentage, 13.5)).toBe(
+        'El campo "impuesto" debe ser menor o igual a 13',
+      );
+    });
+
+    it('ignores the limits for text values', () => {
+      expect(findFieldRuleViolation(percentage, '99')).toBeNull();
+    });
+  });
+
+  describe('allowedValues', () => {
+    it('accepts only the listed values', () => {
+      const status = field({
+        validation: { allowedValues: ['activo', 'inactivo'] },
+      });
+
+      expect(findFieldRuleViolation(status, 'activo')).toBeNull();
+      expect(findFieldRuleViolation(status, 'pendiente')).toBe(
+        'El campo "codigo" debe ser uno de: activo, inactivo',
+      );
+    });
+
+    it('compares numbers by their text form', () => {
+      const rate = field({
+        type: 'numeric',
+        validation: { allowedValues: [0, 13] },
+      });
+
+      expect(findFieldRuleViolation(rate, 13)).toBeNull();
+      expect(findFieldRuleViolation(rate, 4)).not.toBeNull();
+    });
+  });
+
+  it('uses the custom message of the rule that fails', () => {
+    const custom = field({
+      validation: {
+        pattern: '^\\d+$',
+        allowedValues: ['01', '02'],
+        messages: { allowedValues: 'Use 01 o 02' },
+      },
+    });
+
+    expect(findFieldRuleViolation(custom, 'x')).toBe(
+      'El campo "codigo" no cumple el formato ^\\d+$',
+    );
+    expect(findFieldRuleViolation(custom, '03')).toBe('Use 01 o 02');
+  });
+
+  it('checks the pattern before the other rules', () => {
+    const combined = field({
+      type: 'int',
+      validation: { pattern: '^\\d$', max: 5 },
+    });
+
+    expect(findFieldRuleViolation(combined, 42)).toBe(
+      'El campo "codigo" no cumple el formato ^\\d$',
+    );
+    expect(findFieldRuleViolation(combined, 7)).toBe(
+      'El campo "codigo" debe ser menor o igual a 5',
+    );
+  });
+});
+
+describe('references between runtime catalogs', () => {
+  // Neither catalog is built in, so only the live list knows about them
+  const bodegas: Omit<CatalogDefinition, 'entity'> = {
+    key: 'bodegas',
+    label: 'Bodegas',
+    tableName: 'bodegas',
+    fields: [
+      {
+        name: 'codigo',
+        type: 'string',
+        required: true,
+        length: 4,
+        validation: { pattern: '^B\\d{3}$' },
+      },
+    ],
+    uniqueBy: ['codigo'],
+    searchFields: ['codigo'],
+  };
+  const ubicacion = field({
+    name: 'bodega',
+    type: 'reference',
+    required: false,
+    reference: { catalog: 'bodegas', field: 'codigo' },
+  });
+  const estantes: Omit<CatalogDefinition, 'entity'> = {
+    key: 'estantes',
+    label: 'Estantes',
+    tableName: 'estantes',
+    fields: [field({ name: 'codigo' }), ubicacion],
+    uniqueBy: ['codigo'],
+    searchFields: ['codigo'],
+  };
+  const available = [bodegas, estantes];
+
+  it('resolves the referenced field from the given definitions', () => {
+    expect(resolveReferencedField(ubicacion, available)).toEqual({
+      ...bodegas.fields[0],
+      name: 'bodega',
+      required: false,
+    });
+  });
+
+  it('describes the field with the rules of its target', () => {
+    expect(describeCatalogField(ubicacion, available)).toMatchObject({
+      name: 'bodega',
+      type: 'reference',
+      required: false,
+      maxLength: 4,
+      reference: { catalog: 'bodegas', field: 'codigo' },
+      validation: { pattern: '^B\\d{3}$' },
+    });
+  });
+
+  it('gives the column the type of its target', () => {
+    const schema = createEntitySchema(estantes, available);
+
+    expect(schema.options.columns.bodega).toMatchObject({
+      type: 'varchar',
+      length: 4,
+      nullable: true,
+    });
+  });
+
+  it('rejects a target missing from the given definitions', () => {
+    expect(() => resolveReferencedField(ubicacion, [estantes])).toThrow(
+      'El campo "bodega" referencia un campo inexistente: bodegas.codigo',
+    );
+  });
+});
+
+describe('built-in references', () => {
+  const cabys = catalogDefinitionsMap.get('cabys');
+  const impuesto = cabys.fields.find(
+    (candidate) => candidate.name === 'impuesto',
+  );
+
+  it('stores the CABYS tax as the code of its tarifas-iva entry', () => {
+    expect(
+      describeCatalogField(impuesto, [...catalogDefinitionsMap.values()]),
+    ).toMatchObject({
+      type: 'reference',
+      reference: { catalog: 'tarifas-iva', field: 'codigo' },
+      codeFormat: { width: 2, padding: '0', numeric: true },
+    });
+    expect(cabys.entity.options.columns.impuesto).toMatchObject({
+      type: 'varchar',
+      length: 20,
+      nullable: true,
+    });
+  });
+});
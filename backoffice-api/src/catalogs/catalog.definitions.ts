@@ -1,15 +1,40 @@
 import { EntitySchema } from 'typeorm';
 
-export type CatalogFieldType = 'string' | 'int' | 'numeric';
+export type CatalogFieldType = 'string' | 'int' | 'numeric' | 'reference';
+
+export interface CatalogFieldReference {
+  catalog: string;
+  field: string;
+}
+
+export type CatalogFieldRule = 'pattern' | 'min' | 'max' | 'allowedValues';
+
+export interface CatalogFieldValidation {
+  pattern?: string;
+  min?: number;
+  max?: number;
+  allowedValues?: Array<string | number>;
+  messages?: Partial<Record<CatalogFieldRule, string>>;
+}
+
+export interface CatalogCodeFormat {
+  width: number;
+  padding?: string;
+  numeric?: boolean;
+}
 
 export interface CatalogFieldDefinition {
   name: string;
+  label?: string;
   type: CatalogFieldType;
   required?: boolean;
   length?: number;
   precision?: number;
   scale?: number;
   excelKeys?: string[];
+  reference?: CatalogFieldReference;
+  validation?: CatalogFieldValidation;
+  codeFormat?: CatalogCodeFormat;
 }
 
 export interface CatalogDefinition {
@@ -22,8 +47,56 @@ export interface CatalogDefinition {
   entity: EntitySchema;
 }
 
+export interface CatalogFieldMetadata {
+  name: string;
+  label: string;
+  type: CatalogFieldType;
+  required: boolean;
+  maxLength?: number;
+  precision?: number;
+  scale?: number;
+  reference?: CatalogFieldReference;
+  validation?: CatalogFieldValidation;
+  codeFormat?: CatalogCodeFormat;
+}
+
+export interface CatalogMetadata {
+  key: string;
+  label: string;
+  fields: CatalogFieldMetadata[];
+  uniqueBy: string[];
+  searchFields: string[];
+}
+
+export interface CatalogValidityWindow {
+  vigenteDesde?: string | null;
+  vigenteHasta?: string | null;
+}
+
+export const CATALOG_VALIDITY_FIELDS: Array<keyof CatalogValidityWindow> = [
+  'vigenteDesde',
+  'vigenteHasta',
+];
+
 const defaultStringLength = 1024;
 
+const defaultFieldLabels: Record<string, string> = {
+  descripcion: 'Descripción',
+  codigo: 'Código',
+  simbolo: 'Símbolo',
+  tipoUnidad: 'Tipo de unidad',
+  pais: 'País',
+  categoria: 'Categoría',
+};
+
+const haciendaCodeField = (width: number): CatalogFieldDefinition => ({
+  name: 'codigo',
+  type: 'string',
+  required: true,
+  length: 20,
+  codeFormat: { width, padding: '0', numeric: true },
+});
+
 const definitions: Omit<CatalogDefinition, 'entity'>[] = [
   {
     key: 'tipos-documento',
@@ -31,7 +104,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'tipos_documento',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'int', required: true },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -42,7 +115,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'situaciones_presentacion',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'numeric', required: true, precision: 12, scale: 4 },
+      haciendaCodeField(1),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -52,7 +125,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     label: 'Actividades Económicas',
     tableName: 'actividades_economicas',
     fields: [
-      { name: 'codigo', type: 'numeric', required: true, precision: 12, scale: 4 },
+      haciendaCodeField(6),
       { name: 'nombre', type: 'string', required: true },
     ],
     uniqueBy: ['codigo'],
@@ -64,7 +137,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'condiciones_venta',
     fields: [
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'codigo', type: 'numeric', required: true, precision: 12, scale: 4 },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -75,7 +148,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'tipos_identificacion',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'numeric', required: true, precision: 12, scale: 4 },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -86,7 +159,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'formas_farmaceuticas',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'int', required: true },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -97,7 +170,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'tipos_codigo_ps',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'numeric', required: true, precision: 12, scale: 4 },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -138,7 +211,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'tipos_transaccion',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'numeric', required: true, precision: 12, scale: 4 },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -149,7 +222,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'tipos_descuento',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'int', required: true },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -160,7 +233,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'tipos_impuestos',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'numeric', required: true, precision: 12, scale: 4 },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -171,7 +244,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'tarifas_iva',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'int', required: true },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -182,7 +255,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'tipos_documento_exoneracion',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'numeric', required: true, precision: 12, scale: 4 },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -193,7 +266,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'instituciones_exoneracion',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'int', required: true },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -204,7 +277,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'tipos_otros_cargos',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'int', required: true },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -216,7 +289,19 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     fields: [
       { name: 'pais', type: 'string', required: true, length: 120 },
       { name: 'moneda', type: 'string', required: true, length: 120 },
-      { name: 'codigo', type: 'string', required: true, length: 3 },
+      {
+        name: 'codigo',
+        type: 'string',
+        required: true,
+        length: 3,
+        validation: {
+          pattern: '^[A-Z]{3}$',
+          messages: {
+            pattern:
+              'El campo "codigo" debe ser un código ISO 4217 de tres letras mayúsculas',
+          },
+        },
+      },
     ],
     uniqueBy: ['codigo'],
     searchFields: ['pais', 'moneda', 'codigo'],
@@ -227,7 +312,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'medios_pago',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'numeric', required: true, precision: 12, scale: 4 },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -238,7 +323,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'tipos_documento_referencia',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'numeric', required: true, precision: 12, scale: 4 },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -249,7 +334,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'codigos_referencia',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'numeric', required: true, precision: 12, scale: 4 },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -260,7 +345,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'mensajes_recepcion',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'numeric', required: true, precision: 12, scale: 4 },
+      haciendaCodeField(1),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -271,7 +356,7 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     tableName: 'condiciones_impuesto',
     fields: [
       { name: 'descripcion', type: 'string', required: true },
-      { name: 'codigo', type: 'numeric', required: true, precision: 12, scale: 4 },
+      haciendaCodeField(2),
     ],
     uniqueBy: ['codigo'],
     searchFields: ['descripcion', 'codigo'],
@@ -281,9 +366,26 @@ const definitions: Omit<CatalogDefinition, 'entity'>[] = [
     label: 'Catálogo de Bienes y Servicios',
     tableName: 'cabys',
     fields: [
-      { name: 'categoria', type: 'string', required: true, length: 1024 },
+      {
+        name: 'categoria',
+        type: 'string',
+        required: true,
+        length: 1024,
+        validation: {
+          pattern: '^(\\d{1,5}|\\d{7}|\\d{9}|\\d{11}|\\d{13})$',
+          messages: {
+            pattern:
+              'El campo "categoria" debe ser un código CABYS de 13 dígitos o uno de sus niveles jerárquicos',
+          },
+        },
+      },
       { name: 'descripcion', type: 'string', required: true, length: 1024 },
-      { name: 'impuesto', type: 'numeric', required: false, precision: 2, scale: 0 },
+      {
+        name: 'impuesto',
+        type: 'reference',
+        required: false,
+        reference: { catalog: 'tarifas-iva', field: 'codigo' },
+      },
       { name: 'incluye', type: 'string', required: false, length: 1024 },
       { name: 'excluye', type: 'string', required: false, length: 1024 },
     ],
@@ -299,7 +401,120 @@ const numericTransformer = {
     value === undefined || value === null ? null : Number(value),
 };
 
-function resolveColumnType(field: CatalogFieldDefinition): Record<string, any> {
+export function resolveReferencedField(
+  field: CatalogFieldDefinition,
+  available: Array<Omit<CatalogDefinition, 'entity'>>,
+): CatalogFieldDefinition {
+  const target = available
+    .find((candidate) => candidate.key === field.reference?.catalog)
+    ?.fields.find((candidate) => candidate.name === field.reference?.field);
+  if (!target || target.type === 'reference') {
+    throw new Error(
+      `El campo "${field.name}" referencia un campo inexistente: ${field.reference?.catalog}.${field.reference?.field}`,
+    );
+  }
+  return { ...target, name: field.name, required: field.required };
+}
+
+function resolveFieldLabel(field: CatalogFieldDefinition): string {
+  if (field.label) {
+    return field.label;
+  }
+  if (defaultFieldLabels[field.name]) {
+    return defaultFieldLabels[field.name];
+  }
+  const words = field.name.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function describeCatalogField(
+  field: CatalogFieldDefinition,
+  available: Array<Omit<CatalogDefinition, 'entity'>>,
+): CatalogFieldMetadata {
+  const column =
+    field.type === 'reference'
+      ? resolveReferencedField(field, available)
+      : field;
+  return {
+    name: field.name,
+    label: resolveFieldLabel(field),
+    type: field.type,
+    required: Boolean(field.required),
+    ...(column.type === 'string'
+      ? { maxLength: column.length ?? defaultStringLength }
+      : {}),
+    ...(column.type === 'numeric'
+      ? { precision: column.precision ?? 12, scale: column.scale ?? 4 }
+      : {}),
+    ...(field.reference ? { reference: field.reference } : {}),
+    ...(column.validation ? { validation: column.validation } : {}),
+    ...(column.codeFormat ? { codeFormat: column.codeFormat } : {}),
+  };
+}
+
+export function formatCatalogCode(
+  format: CatalogCodeFormat,
+  rawValue: unknown,
+): string | null {
+  let value = String(rawValue).trim();
+  if (format.numeric !== false) {
+    if (!/^\d+(\.0*)?$/.test(value)) {
+      return null;
+    }
+    value = value.replace(/\.0*$/, '').replace(/^0+(?=\d)/, '');
+  }
+  return value.padStart(format.width, format.padding ?? '0');
+}
+
+export function findFieldRuleViolation(
+  field: CatalogFieldDefinition,
+  value: string | number,
+): string | null {
+  const rules = field.validation;
+  if (!rules) {
+    return null;
+  }
+  const messages = rules.messages ?? {};
+
+  if (rules.pattern && !new RegExp(rules.pattern).test(String(value))) {
+    return (
+      messages.pattern ??
+      `El campo "${field.name}" no cumple el formato ${rules.pattern}`
+    );
+  }
+  if (typeof value === 'number') {
+    if (rules.min !== undefined && value < rules.min) {
+      return (
+        messages.min ??
+        `El campo "${field.name}" debe ser mayor o igual a ${rules.min}`
+      );
+    }
+    if (rules.max !== undefined && value > rules.max) {
+      return (
+        messages.max ??
+        `El campo "${field.name}" debe ser menor o igual a ${rules.max}`
+      );
+    }
+  }
+  if (
+    rules.allowedValues?.length &&
+    !rules.allowedValues.some((allowed) => String(allowed) === String(value))
+  ) {
+    return (
+      messages.allowedValues ??
+      `El campo "${field.name}" debe ser uno de: ${rules.allowedValues.join(', ')}`
+    );
+  }
+  return null;
+}
+
+function resolveColumnType(
+  field: CatalogFieldDefinition,
+  available: Array<Omit<CatalogDefinition, 'entity'>>,
+): Record<string, any> {
+  if (field.type === 'reference') {
+    return resolveColumnType(resolveReferencedField(field, available), available);
+  }
   if (field.type === 'string') {
     return {
       type: 'varchar',
@@ -322,7 +537,14 @@ function resolveColumnType(field: CatalogFieldDefinition): Record<string, any> {
   };
 }
 
-function createEntitySchema(def: Omit<CatalogDefinition, 'entity'>): EntitySchema {
+export function toColumnName(fieldName: string): string {
+  return fieldName.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+}
+
+export function createEntitySchema(
+  def: Omit<CatalogDefinition, 'entity'>,
+  available: Array<Omit<CatalogDefinition, 'entity'>>,
+): EntitySchema {
   const columns: Record<string, any> = {
     id: {
       type: 'uuid',
@@ -339,12 +561,27 @@ function createEntitySchema(def: Omit<CatalogDefinition, 'entity'>): EntitySchem
       type: 'timestamptz',
       updateDate: true,
     },
+    vigenteDesde: {
+      name: 'vigente_desde',
+      type: 'date',
+      nullable: true,
+    },
+    vigenteHasta: {
+      name: 'vigente_hasta',
+      type: 'date',
+      nullable: true,
+    },
+    isActive: {
+      name: 'is_active',
+      type: 'boolean',
+      default: true,
+    },
   };
 
   def.fields.forEach((field) => {
     columns[field.name] = {
-      name: field.name.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`),
-      ...resolveColumnType(field),
+      name: toColumnName(field.name),
+      ...resolveColumnType(field, available),
     };
   });
 
@@ -352,13 +589,20 @@ function createEntitySchema(def: Omit<CatalogDefinition, 'entity'>): EntitySchem
     name: def.key.replace(/-([a-z])/g, (_, char) => char.toUpperCase()),
     tableName: def.tableName,
     columns,
-    indices:
-      def.searchFields.length > 0
-        ? def.searchFields.map((column) => ({
-          name: `${def.tableName}_${column}_idx`,
-          columns: [column],
-        }))
-        : undefined,
+    indices: [
+      ...def.searchFields.map((column) => ({
+        name: `${def.tableName}_${column}_idx`,
+        columns: [column],
+      })),
+      {
+        name: `${def.tableName}_updated_at_idx`,
+        columns: ['updatedAt', 'id'],
+      },
+      {
+        name: `${def.tableName}_search_idx`,
+        synchronize: false,
+      },
+    ],
     uniques:
       def.uniqueBy.length > 0
         ? [
@@ -368,11 +612,20 @@ function createEntitySchema(def: Omit<CatalogDefinition, 'entity'>): EntitySchem
           },
         ]
         : undefined,
+    checks: [
+      {
+        name: `${def.tableName}_vigencia_chk`,
+        expression:
+          'vigente_desde IS NULL OR vigente_hasta IS NULL OR vigente_desde <= vigente_hasta',
+      },
+    ],
   });
 }
 
+export const builtInCatalogKeys = new Set(definitions.map((def) => def.key));
+
 export const catalogDefinitions: CatalogDefinition[] = definitions.map((def) => {
-  const entity = createEntitySchema(def);
+  const entity = createEntitySchema(def, definitions);
   return {
     ...def,
     entity,
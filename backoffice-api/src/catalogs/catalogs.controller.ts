@@ -2,13 +2,19 @@ import {
   BadRequestException,
   Body,
   Controller,
+  DefaultValuePipe,
   Delete,
   Get,
+  HttpCode,
+  HttpStatus,
   Param,
+  ParseEnumPipe,
   ParseUUIDPipe,
   Post,
   Put,
   Query,
+  Req,
+  StreamableFile,
   UploadedFile,
   UseGuards,
   UseInterceptors,
@@ -18,22 +24,50 @@ import {
   ApiBody,
   ApiConsumes,
   ApiParam,
+  ApiQuery,
+  ApiSecurity,
   ApiTags,
 } from '@nestjs/swagger';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { CatalogsService } from './catalogs.service';
-import { CatalogQueryDto } from './dto/catalog-query.dto';
+import { CatalogActor, CatalogAuditService } from './catalog-audit.service';
+import { CatalogReleasesService } from './catalog-releases.service';
+import { CatalogEntriesQueryDto } from './dto/catalog-entries-query.dto';
+import { CatalogChangesQueryDto } from './dto/catalog-changes-query.dto';
+import { CatalogLookupDto } from './dto/catalog-lookup.dto';
+import { CatalogBulkDto } from './dto/catalog-bulk.dto';
+import {
+  CatalogImportOptionsDto,
+  SaveCatalogImportMappingDto,
+} from './dto/catalog-import-mapping.dto';
+import { CatalogDefinitionsRefreshInterceptor } from './catalog-definitions-refresh.interceptor';
+import { ImportFileOptionsDto } from '../imports/dto/import-file-options.dto';
+import {
+  catalogImportApiBody,
+  importFileApiBody,
+} from '../imports/import-file-api-body';
+import { IMPORT_MAX_FILE_SIZE } from '../imports/tabular-file.reader';
+import { ExportFormat } from '../imports/tabular-file.writer';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/roles.decorator';
+import { AllowApiKey } from '../auth/api-key-access.decorator';
 import { UserRole } from '../users/user.entity';
+import { ConditionalGetInterceptor } from '../common/conditional-get.interceptor';
 
 @ApiTags('Catalogos')
 @ApiBearerAuth('JWT')
+@ApiSecurity('ApiKey')
+@AllowApiKey()
 @UseGuards(JwtAuthGuard, RolesGuard)
+@UseInterceptors(CatalogDefinitionsRefreshInterceptor)
 @Controller('catalogs')
 export class CatalogsController {
-  constructor(private readonly catalogsService: CatalogsService) {}
+  constructor(
+    private readonly catalogsService: CatalogsService,
+    private readonly auditService: CatalogAuditService,
+    private readonly releasesService: CatalogReleasesService,
+  ) {}
 
   @Get()
   async listCatalogs() {
@@ -41,14 +75,50 @@ export class CatalogsController {
   }
 
   @Get(':catalogKey')
+  @UseInterceptors(ConditionalGetInterceptor)
   async findAll(
     @Param('catalogKey') catalogKey: string,
-    @Query() query: CatalogQueryDto,
+    @Query() query: CatalogEntriesQueryDto,
   ) {
+    if (query.release) {
+      return this.releasesService.findEntries(catalogKey, query);
+    }
     return this.catalogsService.findAll(catalogKey, query);
   }
 
+  @Get(':catalogKey/changes')
+  async findChanges(
+    @Param('catalogKey') catalogKey: string,
+    @Query() query: CatalogChangesQueryDto,
+  ) {
+    return this.catalogsService.findChanges(catalogKey, query);
+  }
+
+  @Get(':catalogKey/export')
+  @ApiQuery({ name: 'format', enum: ExportFormat, required: false })
+  async exportEntries(
+    @Param('catalogKey') catalogKey: string,
+    @Query() query: CatalogEntriesQueryDto,
+    @Query(
+      'format',
+      new DefaultValuePipe(ExportFormat.XLSX),
+      new ParseEnumPipe(ExportFormat),
+    )
+    format: ExportFormat,
+  ) {
+    const file = await this.catalogsService.exportEntries(
+      catalogKey,
+      query,
+      format,
+    );
+    return new StreamableFile(file.buffer, {
+      type: file.contentType,
+      disposition: `attachment; filename="${catalogKey}.${file.extension}"`,
+    });
+  }
+
   @Get(':catalogKey/:id')
+  @UseInterceptors(ConditionalGetInterceptor)
   async findOne(
     @Param('catalogKey') catalogKey: string,
     @Param('id', ParseUUIDPipe) id: string,
@@ -56,13 +126,46 @@ export class CatalogsController {
     return this.catalogsService.findOne(catalogKey, id);
   }
 
+  @Get(':catalogKey/:id/history')
+  async history(
+    @Param('catalogKey') catalogKey: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const definition = this.catalogsService.getDefinitionOrThrow(catalogKey);
+    return this.auditService.findHistory(definition.key, id);
+  }
+
+  @Post('lookup')
+  @HttpCode(HttpStatus.OK)
+  @AllowApiKey('POST')
+  async lookup(@Body() dto: CatalogLookupDto) {
+    return this.catalogsService.lookup(dto.items);
+  }
+
   @Roles(UserRole.ADMIN)
   @Post(':catalogKey')
   async create(
     @Param('catalogKey') catalogKey: string,
     @Body() body: Record<string, any>,
+    @Req() req: { user: CatalogActor },
   ) {
-    return this.catalogsService.create(catalogKey, body);
+    return this.catalogsService.create(catalogKey, body, req.user);
+  }
+
+  @Roles(UserRole.ADMIN)
+  @Post(':catalogKey/bulk')
+  @HttpCode(HttpStatus.OK)
+  async bulk(
+    @Param('catalogKey') catalogKey: string,
+    @Body() dto: CatalogBulkDto,
+    @Req() req: { user: CatalogActor },
+  ) {
+    const results = await this.catalogsService.bulk(
+      catalogKey,
+      dto.operations,
+      req.user,
+    );
+    return { results };
   }
 
   @Roles(UserRole.ADMIN)
@@ -71,8 +174,9 @@ export class CatalogsController {
     @Param('catalogKey') catalogKey: string,
     @Param('id', ParseUUIDPipe) id: string,
     @Body() body: Record<string, any>,
+    @Req() req: { user: CatalogActor },
   ) {
-    return this.catalogsService.update(catalogKey, id, body);
+    return this.catalogsService.update(catalogKey, id, body, req.user);
   }
 
   @Roles(UserRole.ADMIN)
@@ -80,46 +184,128 @@ export class CatalogsController {
   async remove(
     @Param('catalogKey') catalogKey: string,
     @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: { user: CatalogActor },
   ) {
-    await this.catalogsService.remove(catalogKey, id);
+    await this.catalogsService.remove(catalogKey, id, req.user);
     return { success: true };
   }
 
+  @Roles(UserRole.ADMIN)
+  @Post(':catalogKey/:id/restore')
+  async restore(
+    @Param('catalogKey') catalogKey: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: { user: CatalogActor },
+  ) {
+    return this.catalogsService.restore(catalogKey, id, req.user);
+  }
+
+  @Roles(UserRole.ADMIN)
+  @Post(':catalogKey/import/columns')
+  @HttpCode(HttpStatus.OK)
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(importFileApiBody)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: IMPORT_MAX_FILE_SIZE },
+    }),
+  )
+  async detectImportColumns(
+    @Param('catalogKey') catalogKey: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Query() query: ImportFileOptionsDto,
+    @Body() body: ImportFileOptionsDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Se requiere un archivo para importar');
+    }
+    return this.catalogsService.detectImportColumns(catalogKey, file, {
+      ...body,
+      ...query,
+    });
+  }
+
+  @Roles(UserRole.ADMIN)
+  @Get(':catalogKey/import/mapping')
+  async getImportMapping(@Param('catalogKey') catalogKey: string) {
+    return this.catalogsService.getImportMapping(catalogKey);
+  }
+
+  @Roles(UserRole.ADMIN)
+  @Put(':catalogKey/import/mapping')
+  async saveImportMapping(
+    @Param('catalogKey') catalogKey: string,
+    @Body() dto: SaveCatalogImportMappingDto,
+    @Req() req: { user: CatalogActor },
+  ) {
+    return this.catalogsService.saveImportMapping(
+      catalogKey,
+      dto.mapping,
+      req.user,
+    );
+  }
+
+  @Roles(UserRole.ADMIN)
+  @Delete(':catalogKey/import/mapping')
+  async removeImportMapping(@Param('catalogKey') catalogKey: string) {
+    await this.catalogsService.removeImportMapping(catalogKey);
+    return { success: true };
+  }
+
+  @Roles(UserRole.ADMIN)
+  @Post(':catalogKey/import/preview')
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(catalogImportApiBody)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: IMPORT_MAX_FILE_SIZE },
+    }),
+  )
+  async previewImport(
+    @Param('catalogKey') catalogKey: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Query() query: CatalogImportOptionsDto,
+    @Body() body: CatalogImportOptionsDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Se requiere un archivo para importar');
+    }
+    const options = { ...body, ...query };
+    return this.catalogsService.previewImport(
+      catalogKey,
+      file,
+      options,
+      options.mode === 'replace' ? 'replace' : 'append',
+    );
+  }
+
   @Roles(UserRole.ADMIN)
   @Post(':catalogKey/import')
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiConsumes('multipart/form-data')
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        file: {
-          type: 'string',
-          format: 'binary',
-        },
-        mode: {
-          type: 'string',
-          enum: ['append', 'replace'],
-          default: 'append',
-        },
-      },
-    },
-  })
+  @ApiBody(catalogImportApiBody)
   @UseInterceptors(
     FileInterceptor('file', {
-      limits: { fileSize: 5 * 1024 * 1024 },
+      limits: { fileSize: IMPORT_MAX_FILE_SIZE },
     }),
   )
-  async importFromExcel(
+  async importFromFile(
     @Param('catalogKey') catalogKey: string,
     @UploadedFile() file: Express.Multer.File,
-    @Query('mode') mode: 'append' | 'replace' = 'append',
+    @Req() req: { user: CatalogActor },
+    @Query() query: CatalogImportOptionsDto,
+    @Body() body: CatalogImportOptionsDto,
   ) {
     if (!file) {
-      throw new BadRequestException(
-        'Se requiere un archivo Excel para importar',
-      );
+      throw new BadRequestException('Se requiere un archivo para importar');
     }
-    const importMode = mode === 'replace' ? 'replace' : 'append';
-    return this.catalogsService.importFromExcel(catalogKey, file.buffer, importMode);
+    const options = { ...body, ...query };
+    return this.catalogsService.startImport(
+      catalogKey,
+      file,
+      options,
+      options.mode === 'replace' ? 'replace' : 'append',
+      req.user,
+    );
   }
 }
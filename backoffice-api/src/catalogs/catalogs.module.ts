@@ -2,23 +2,66 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { CatalogsController } from './catalogs.controller';
 import { CatalogsService } from './catalogs.service';
+import { CatalogAuditService } from './catalog-audit.service';
+import { CatalogAuditLog } from './catalog-audit-log.entity';
+import { CatalogReleasesController } from './catalog-releases.controller';
+import { CatalogReleasesService } from './catalog-releases.service';
+import { CatalogRelease } from './catalog-release.entity';
+import { CatalogReleaseSnapshot } from './catalog-release-snapshot.entity';
+import { ImportJobsController } from './import-jobs.controller';
+import { ImportJobsService } from './import-jobs.service';
+import { ImportJob } from './import-job.entity';
+import { ImportJobSnapshot } from './import-job-snapshot.entity';
+import { ImportJobRow } from './import-job-row.entity';
+import { CabysController } from './cabys.controller';
+import { CabysService } from './cabys.service';
+import { CatalogDefinitionsController } from './catalog-definitions.controller';
+import { CatalogDefinitionsService } from './catalog-definitions.service';
+import { CatalogDefinitionRecord } from './catalog-definition.entity';
+import { CatalogImportMapping } from './catalog-import-mapping.entity';
 import {
   catalogDefinitions,
   catalogEntitySchemas,
 } from './catalog.definitions';
 import { CATALOG_DEFINITIONS } from './catalog.tokens';
 import { AuthModule } from '../auth/auth.module';
+import { ImportsModule } from '../imports/imports.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature(catalogEntitySchemas), AuthModule],
-  controllers: [CatalogsController],
+  imports: [
+    TypeOrmModule.forFeature([
+      ...catalogEntitySchemas,
+      CatalogAuditLog,
+      CatalogRelease,
+      CatalogReleaseSnapshot,
+      ImportJob,
+      ImportJobSnapshot,
+      ImportJobRow,
+      CatalogDefinitionRecord,
+      CatalogImportMapping,
+    ]),
+    AuthModule,
+    ImportsModule,
+  ],
+  controllers: [
+    CatalogsController,
+    CatalogReleasesController,
+    ImportJobsController,
+    CabysController,
+    CatalogDefinitionsController,
+  ],
   providers: [
     CatalogsService,
+    CatalogAuditService,
+    CatalogReleasesService,
+    ImportJobsService,
+    CabysService,
+    CatalogDefinitionsService,
     {
       provide: CATALOG_DEFINITIONS,
       useValue: catalogDefinitions,
     },
   ],
-  exports: [CatalogsService],
+  exports: [CatalogsService, ImportJobsService],
 })
 export class CatalogsModule {}
@@ -1,58 +1,247 @@
-import { Buffer } from 'node:buffer';
 import {
   BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
   Inject,
   Injectable,
+  Logger,
   NotFoundException,
+  OnApplicationBootstrap,
 } from '@nestjs/common';
-import { Brackets, DataSource } from 'typeorm';
-import { Workbook } from 'exceljs';
 import {
+  DataSource,
+  EntityManager,
+  In,
+  MoreThan,
+  SelectQueryBuilder,
+} from 'typeorm';
+import {
+  CATALOG_VALIDITY_FIELDS,
   CatalogDefinition,
   CatalogFieldDefinition,
+  CatalogMetadata,
+  describeCatalogField,
+  findFieldRuleViolation,
+  formatCatalogCode,
+  resolveReferencedField,
 } from './catalog.definitions';
-import { CatalogQueryDto } from './dto/catalog-query.dto';
+import { CatalogEntriesQueryDto } from './dto/catalog-entries-query.dto';
+import { CatalogChangesQueryDto } from './dto/catalog-changes-query.dto';
+import {
+  CatalogBulkAction,
+  CatalogBulkOperationDto,
+} from './dto/catalog-bulk.dto';
+import {
+  CatalogLookupCode,
+  CatalogLookupItemDto,
+} from './dto/catalog-lookup.dto';
+import { CatalogColumnMapping } from './dto/catalog-import-mapping.dto';
 import { CATALOG_DEFINITIONS } from './catalog.tokens';
+import {
+  CatalogActor,
+  CatalogAuditChange,
+  CatalogAuditService,
+} from './catalog-audit.service';
+import { CatalogAuditLog } from './catalog-audit-log.entity';
+import { ImportJob, ImportJobStatus } from './import-job.entity';
+import { CatalogImportMapping } from './catalog-import-mapping.entity';
+import {
+  KeysetPageMeta,
+  isKeysetQuery,
+  paginateByKeyset,
+} from '../common/keyset-pagination';
+import {
+  ImportJobsService,
+  StagedImportRow,
+  importFileChecksum,
+} from './import-jobs.service';
+import {
+  ImportFile,
+  ImportFileOptions,
+  TabularFilePreview,
+  TabularFileReader,
+  TabularRow,
+} from '../imports/tabular-file.reader';
+import {
+  ExportFormat,
+  TabularExport,
+  TabularFileWriter,
+} from '../imports/tabular-file.writer';
 
 const DEFAULT_PAGE_SIZE = 50;
 const MAX_PAGE_SIZE = 200;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const IMPORT_PREVIEW_LIMIT = 500;
+const IMPORT_PREVIEW_SAMPLE_SIZE = 2000;
+const IMPORT_BATCH_SIZE = 500;
+const DEFAULT_CHANGES_LIMIT = 1000;
+const ROLLBACK_CONFLICTS_LIMIT = 100;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CHANGE_CURSOR_SELECT = `to_char(item.updatedAt AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')`;
+
+const SORTABLE_SYSTEM_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  ...CATALOG_VALIDITY_FIELDS,
+];
+const FILTER_OPERATORS: Record<string, string> = {
+  eq: '=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+const validityExcelKeys: Record<string, string[]> = {
+  vigenteDesde: ['vigentedesde', 'vigenciadesde'],
+  vigenteHasta: ['vigentehasta', 'vigenciahasta'],
+};
+const validityLabels: Record<string, string> = {
+  vigenteDesde: 'Vigente desde',
+  vigenteHasta: 'Vigente hasta',
+};
 
 type CatalogRecord = Record<string, any>;
 
 export interface CatalogListResult {
   data: CatalogRecord[];
+  meta:
+    | {
+        total: number;
+        page: number;
+        limit: number;
+        release?: string;
+      }
+    | KeysetPageMeta;
+}
+
+export interface CatalogBulkResult {
+  index: number;
+  op: CatalogBulkAction;
+  id: string;
+  record?: CatalogRecord;
+}
+
+export interface CatalogChangesResult {
+  upserted: CatalogRecord[];
+  deleted: CatalogRecord[];
   meta: {
-    total: number;
-    page: number;
+    since: string | null;
+    nextCursor: string | null;
+    hasMore: boolean;
     limit: number;
   };
 }
 
-export interface CatalogImportResult {
-  imported: number;
+export interface CatalogLookupResult {
+  catalogKey: string;
+  code: CatalogLookupCode;
+  found: boolean;
+  active: boolean;
+  record: CatalogRecord | null;
+  error?: string;
+}
+
+type CatalogLookupCriteria =
+  | { definition: CatalogDefinition; where: CatalogRecord }
+  | { error: string };
+
+export type CatalogImportOptions = ImportFileOptions & {
+  columnMapping?: CatalogColumnMapping;
+};
+
+export interface CatalogImportColumns {
+  sheets: TabularFilePreview['sheets'];
+  sheet: string | null;
+  headerRow: number;
+  previewRows: TabularRow[];
+  headers: string[];
+  fields: Array<{ name: string; label: string; required: boolean }>;
+  suggestedMapping: CatalogColumnMapping;
+  missingRequired: string[];
+  savedMapping: CatalogColumnMapping | null;
+}
+
+interface CatalogImportField {
+  name: string;
+  label: string;
+  required: boolean;
+  keys: string[];
+}
+
+interface CatalogImportRow {
+  rowNumber: number;
+  record?: CatalogRecord;
+  error?: string;
+}
+
+export interface CatalogImportFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface CatalogImportPreview {
+  mode: 'append' | 'replace';
+  /** Rows of the file read for the preview, and whether they were all of it. */
+  sample: { rows: number; complete: boolean };
+  summary: {
+    insert: number;
+    update: number;
+    unchanged: number;
+    remove: number;
+    invalid: number;
+  };
+  inserts: CatalogRecord[];
+  updates: Array<{
+    id: string;
+    record: CatalogRecord;
+    changes: CatalogImportFieldChange[];
+  }>;
+  removals: CatalogRecord[];
   errors: Array<{ row: number; message: string }>;
 }
 
+/** A record that keeps an import from being rolled back. */
+export interface ImportRollbackConflict {
+  id: string;
+  key: CatalogRecord;
+  reason: 'edited' | 'referenced';
+  message: string;
+}
+
 @Injectable()
-export class CatalogsService {
-  private readonly definitionsByKey = new Map<string, CatalogDefinition>();
+export class CatalogsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(CatalogsService.name);
 
   constructor(
     @Inject(CATALOG_DEFINITIONS)
     private readonly definitions: CatalogDefinition[],
     private readonly dataSource: DataSource,
-  ) {
-    this.definitions.forEach((definition) => {
-      this.definitionsByKey.set(definition.key, definition);
-    });
-  }
-
-  listDefinitions(): Array<Pick<CatalogDefinition, 'key' | 'label'>> {
-    return this.definitions.map(({ key, label }) => ({ key, label }));
+    private readonly auditService: CatalogAuditService,
+    private readonly tabularFileReader: TabularFileReader,
+    private readonly tabularFileWriter: TabularFileWriter,
+    private readonly importJobsService: ImportJobsService,
+  ) {}
+
+  listDefinitions(): CatalogMetadata[] {
+    return this.definitions.map((definition) => ({
+      key: definition.key,
+      label: definition.label,
+      fields: definition.fields.map((field) =>
+        describeCatalogField(field, this.definitions),
+      ),
+      uniqueBy: definition.uniqueBy,
+      searchFields: definition.searchFields,
+    }));
   }
 
   getDefinitionOrThrow(key: string): CatalogDefinition {
-    const definition = this.definitionsByKey.get(key);
+    const definition = this.definitions.find(
+      (candidate) => candidate.key === key,
+    );
     if (!definition) {
       throw new NotFoundException(`No existe catálogo para la clave "${key}"`);
     }
@@ -61,46 +250,33 @@ export class CatalogsService {
 
   async findAll(
     key: string,
-    query: CatalogQueryDto,
+    query: CatalogEntriesQueryDto,
   ): Promise<CatalogListResult> {
     const definition = this.getDefinitionOrThrow(key);
-    const repository = this.dataSource.getRepository(definition.entity);
     const page = query.page ?? 1;
     const limit = query.limit ?? DEFAULT_PAGE_SIZE;
     const safeLimit = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
 
-    const qb = repository.createQueryBuilder('item');
+    const qb = this.buildEntriesQuery(definition, query);
 
-    if (query.search && definition.searchFields.length > 0) {
-      const trimmedSearch = query.search.trim();
-      if (trimmedSearch) {
-        const escapedTerm = this.escapeLikeSearch(trimmedSearch);
-        const likePattern = `%${escapedTerm}%`;
-        const validSearchFields = definition.searchFields.filter((field) =>
-          definition.fields.some((candidate) => candidate.name === field),
-        );
+    this.parseSort(definition, query.sort).forEach(([field, direction]) =>
+      qb.addOrderBy(`item.${field}`, direction, 'NULLS LAST'),
+    );
+    const searchDocument = this.buildSearchDocument(definition);
+    const searchTerms = this.buildSearchTerms(query.search);
+    if (searchDocument && searchTerms) {
+      qb.addOrderBy(
+        `ts_rank(catalog_search_vector(${searchDocument}), catalog_search_query(:searchTerms))`,
+        'DESC',
+      );
+    }
+    qb.addOrderBy('item.updatedAt', 'DESC').addOrderBy('item.id', 'DESC');
 
-        if (validSearchFields.length > 0) {
-          qb.andWhere(
-            new Brackets((where) => {
-              validSearchFields.forEach((field, index) => {
-                const paramName = `search_${index}`;
-                where.orWhere(
-                  `CAST(item.${field} AS TEXT) ILIKE :${paramName} ESCAPE '\\'`,
-                  { [paramName]: likePattern },
-                );
-              });
-            }),
-          );
-        }
-      }
+    if (isKeysetQuery(query)) {
+      return paginateByKeyset(qb, query, safeLimit);
     }
 
-    qb
-      .orderBy('item.updatedAt', 'DESC')
-      .addOrderBy('item.id', 'DESC')
-      .skip((page - 1) * safeLimit)
-      .take(safeLimit);
+    qb.skip((page - 1) * safeLimit).take(safeLimit);
 
     const [data, total] = await qb.getManyAndCount();
 
@@ -114,364 +290,2021 @@ export class CatalogsService {
     };
   }
 
-  async findOne(key: string, id: string): Promise<CatalogRecord> {
-    const definition = this.getDefinitionOrThrow(key);
-    const repository = this.dataSource.getRepository(definition.entity);
-    const entity = await repository.findOne({ where: { id } });
-    if (!entity) {
-      throw new NotFoundException(
-        `No se encontró un registro con id "${id}" en ${definition.label}`,
-      );
-    }
-    return entity;
-  }
-
-  async create(
+  async exportEntries(
     key: string,
-    payload: Record<string, any>,
-  ): Promise<CatalogRecord> {
+    query: CatalogEntriesQueryDto,
+    format: ExportFormat,
+  ): Promise<TabularExport> {
     const definition = this.getDefinitionOrThrow(key);
-    const repository = this.dataSource.getRepository(definition.entity);
-    const validated = this.validatePayload(definition, payload);
-    const entity = repository.create(validated);
-    return repository.save(entity);
+    const qb = this.buildEntriesQuery(definition, query);
+
+    const sort = this.parseSort(definition, query.sort);
+    const order: Array<[string, 'ASC' | 'DESC']> = sort.length
+      ? sort
+      : definition.uniqueBy.map((field) => [field, 'ASC']);
+    order.forEach(([field, direction]) =>
+      qb.addOrderBy(`item.${field}`, direction, 'NULLS LAST'),
+    );
+    qb.addOrderBy('item.id', 'ASC');
+
+    const records: CatalogRecord[] = await qb.getMany();
+    const columns = [
+      ...definition.fields.map((field) => ({
+        name: field.name,
+        header: field.excelKeys?.[0] ?? field.name,
+      })),
+      ...CATALOG_VALIDITY_FIELDS.map((name) => ({
+        name,
+        header: validityExcelKeys[name][0],
+      })),
+    ];
+
+    return this.tabularFileWriter.write(
+      format,
+      columns.map((column) => column.header),
+      records.map((record) =>
+        columns.map((column) => record[column.name] as unknown),
+      ),
+    );
   }
 
-  async update(
-    key: string,
-    id: string,
-    payload: Record<string, any>,
-  ): Promise<CatalogRecord> {
-    const definition = this.getDefinitionOrThrow(key);
-    const repository = this.dataSource.getRepository(definition.entity);
-    const entity = await repository.findOne({ where: { id } });
-    if (!entity) {
-      throw new NotFoundException(
-        `No se encontró un registro con id "${id}" en ${definition.label}`,
-      );
+  private buildEntriesQuery(
+    definition: CatalogDefinition,
+    query: CatalogEntriesQueryDto,
+  ) {
+    const repository = this.dataSource.getRepository<CatalogRecord>(
+      definition.entity,
+    );
+    const qb = repository.createQueryBuilder('item');
+
+    if (!query.includeInactive) {
+      qb.andWhere('item.isActive = :isActive', { isActive: true });
     }
-    const validated = this.validatePayload(definition, payload, true);
-    const merged = repository.merge(entity, validated);
-    return repository.save(merged);
-  }
 
-  async remove(key: string, id: string): Promise<void> {
-    const definition = this.getDefinitionOrThrow(key);
-    const repository = this.dataSource.getRepository(definition.entity);
-    const result = await repository.delete(id);
-    if (!result.affected) {
-      throw new NotFoundException(
-        `No se encontró un registro con id "${id}" en ${definition.label}`,
+    const searchDocument = this.buildSearchDocument(definition);
+    const searchTerms = this.buildSearchTerms(query.search);
+    if (searchDocument && searchTerms) {
+      qb.andWhere(
+        `catalog_search_vector(${searchDocument}) @@ catalog_search_query(:searchTerms)`,
+        { searchTerms },
       );
     }
-  }
 
-  async importFromExcel(
-    key: string,
-    buffer: Buffer,
-    mode: 'append' | 'replace' = 'append',
-  ): Promise<CatalogImportResult> {
-    const definition = this.getDefinitionOrThrow(key);
-    const { rows, errors } = await this.loadExcel(definition, buffer);
-    if (rows.length === 0) {
-      return { imported: 0, errors };
+    if (query.asOf) {
+      qb.andWhere(
+        '(item.vigenteDesde IS NULL OR item.vigenteDesde <= CAST(:asOf AS date))',
+        { asOf: query.asOf },
+      ).andWhere(
+        '(item.vigenteHasta IS NULL OR item.vigenteHasta >= CAST(:asOf AS date))',
+        { asOf: query.asOf },
+      );
     }
 
-    const { rows: uniqueRows, duplicates } = this.deduplicateRows(
-      rows,
-      definition.uniqueBy,
-    );
+    this.applyFilters(qb, definition, query.filter);
 
-    if (duplicates > 0) {
-      errors.push({
-        row: 0,
-        message: `${duplicates} filas duplicadas fueron reemplazadas por la última aparición de la misma clave única`,
-      });
-    }
+    return qb;
+  }
 
-    await this.dataSource.transaction(async (manager) => {
-      const repository = manager.getRepository(definition.entity);
-      if (mode === 'replace') {
-        await repository.clear();
+  private parseSort(
+    definition: CatalogDefinition,
+    sort?: string[],
+  ): Array<[string, 'ASC' | 'DESC']> {
+    const sortable = new Set([
+      ...definition.fields.map((field) => field.name),
+      ...SORTABLE_SYSTEM_FIELDS,
+    ]);
+    return (sort ?? []).map((entry) => {
+      const [field, direction = 'asc'] = entry.split(':');
+      if (!sortable.has(field)) {
+        throw new BadRequestException(
+          `No se puede ordenar por el campo "${field}"`,
+        );
       }
-      await repository.upsert(uniqueRows, definition.uniqueBy);
+      return [field, direction.toLowerCase() === 'desc' ? 'DESC' : 'ASC'];
     });
-
-    return {
-      imported: uniqueRows.length,
-      errors,
-    };
   }
 
-  private validatePayload(
+  private applyFilters(
+    qb: SelectQueryBuilder<CatalogRecord>,
     definition: CatalogDefinition,
-    payload: Record<string, any>,
-    partial = false,
-  ): CatalogRecord {
-    if (!payload || typeof payload !== 'object') {
-      throw new BadRequestException('El cuerpo debe ser un objeto JSON válido');
-    }
-
-    const allowedFields = new Set(definition.fields.map((field) => field.name));
-    const sanitized: CatalogRecord = {};
-
-    Object.keys(payload).forEach((key) => {
-      if (!allowedFields.has(key)) {
+    filter?: Record<string, unknown>,
+  ): void {
+    Object.entries(filter ?? {}).forEach(([name, condition], index) => {
+      const field = definition.fields.find(
+        (candidate) => candidate.name === name,
+      );
+      if (!field && !(CATALOG_VALIDITY_FIELDS as string[]).includes(name)) {
         throw new BadRequestException(
-          `El campo "${key}" no es válido para este catálogo`,
+          `No se puede filtrar por el campo "${name}"`,
         );
       }
-    });
-
-    definition.fields.forEach((field) => {
-      const rawValue = payload[field.name];
-      if (rawValue === undefined || rawValue === null || rawValue === '') {
-        if (!partial && field.required) {
-          throw new BadRequestException(
-            `El campo "${field.name}" es obligatorio`,
-          );
+      const parse = (rawValue: unknown) =>
+        field
+          ? this.parseFieldValue(field, rawValue)
+          : this.parseDateValue(name, rawValue);
+      const operators: Array<[string, unknown]> =
+        condition !== null &&
+        typeof condition === 'object' &&
+        !Array.isArray(condition)
+          ? Object.entries(condition)
+          : [['eq', condition]];
+
+      operators.forEach(([operator, rawValue], position) => {
+        const param = `filter_${index}_${position}`;
+        const column = `item.${name}`;
+        if (Array.isArray(rawValue)) {
+          if (operator !== 'eq') {
+            throw new BadRequestException(
+              `El filtro "${operator}" del campo "${name}" admite un solo valor`,
+            );
+          }
+          qb.andWhere(`${column} IN (:...${param})`, {
+            [param]: rawValue.map(parse),
+          });
+          return;
         }
-        return;
-      }
-
-      sanitized[field.name] = this.parseFieldValue(field, rawValue);
-    });
-
-    if (!partial) {
-      definition.fields
-        .filter((field) => field.required)
-        .forEach((field) => {
-          if (!(field.name in sanitized)) {
+        if (operator === 'prefix') {
+          const resolved =
+            field?.type === 'reference'
+              ? resolveReferencedField(field, this.definitions)
+              : field;
+          if (resolved?.type !== 'string' || typeof rawValue !== 'string') {
             throw new BadRequestException(
-              `El campo "${field.name}" es obligatorio`,
+              `El filtro "prefix" solo aplica a campos de texto ("${name}")`,
             );
           }
+          const prefix = rawValue.trim().replace(/[\\%_]/g, '\\$&');
+          qb.andWhere(`${column} LIKE :${param}`, { [param]: `${prefix}%` });
+          return;
+        }
+        const sqlOperator = FILTER_OPERATORS[operator];
+        if (!sqlOperator) {
+          throw new BadRequestException(
+            `Operador de filtro desconocido "${operator}"; use eq, gt, gte, lt, lte o prefix`,
+          );
+        }
+        qb.andWhere(`${column} ${sqlOperator} :${param}`, {
+          [param]: parse(rawValue),
         });
-    }
-
-    return sanitized;
+      });
+    });
   }
 
-  private parseFieldValue(
-    field: CatalogFieldDefinition,
-    rawValue: any,
-  ): string | number {
-    if (field.type === 'string') {
-      if (typeof rawValue !== 'string') {
-        rawValue = String(rawValue);
-      }
-      const value = rawValue.trim();
-      if (!value && field.required) {
-        throw new BadRequestException(
-          `El campo "${field.name}" no puede estar vacío`,
-        );
-      }
-      if (field.length && value.length > field.length) {
-        throw new BadRequestException(
-          `El campo "${field.name}" excede la longitud máxima de ${field.length}`,
-        );
-      }
-      return value;
-    }
-
-    const numericValue = this.normaliseNumeric(rawValue);
-    if (field.type === 'int') {
-      if (!Number.isInteger(numericValue)) {
-        throw new BadRequestException(
-          `El campo "${field.name}" debe ser un entero`,
-        );
-      }
-      return numericValue;
+  async findOne(key: string, id: string): Promise<CatalogRecord> {
+    const definition = this.getDefinitionOrThrow(key);
+    const repository = this.dataSource.getRepository(definition.entity);
+    const entity = await repository.findOne({ where: { id } });
+    if (!entity) {
+      throw new NotFoundException(
+        `No se encontró un registro con id "${id}" en ${definition.label}`,
+      );
     }
-
-    return numericValue;
+    return entity;
   }
 
-  private normaliseNumeric(value: any): number {
-    if (typeof value === 'number') {
-      if (Number.isNaN(value)) {
-        throw new BadRequestException('Valor numérico inválido');
-      }
-      return value;
-    }
-
-    if (value === null || value === undefined) {
-      throw new BadRequestException('Valor numérico requerido');
-    }
-
-    const stringValue = String(value)
-      .trim()
-      .replace(/,/g, '.');
-    if (!stringValue) {
-      throw new BadRequestException('Valor numérico requerido');
-    }
-
-    const parsed = Number(stringValue);
-    if (Number.isNaN(parsed)) {
-      throw new BadRequestException(`No se pudo convertir "${value}" a número`);
+  async findChanges(
+    key: string,
+    query: CatalogChangesQueryDto,
+  ): Promise<CatalogChangesResult> {
+    const definition = this.getDefinitionOrThrow(key);
+    const limit = query.limit ?? DEFAULT_CHANGES_LIMIT;
+    const since = query.since ? this.parseChangesSince(query.since) : null;
+
+    const qb = this.dataSource
+      .getRepository<CatalogRecord>(definition.entity)
+      .createQueryBuilder('item')
+      .addSelect(CHANGE_CURSOR_SELECT, 'change_cursor')
+      .orderBy('item.updatedAt', 'ASC')
+      .addOrderBy('item.id', 'ASC')
+      .limit(limit + 1);
+
+    if (since?.id) {
+      qb.where(
+        '(item.updatedAt, item.id) > (CAST(:since AS timestamptz), CAST(:sinceId AS uuid))',
+        { since: since.timestamp, sinceId: since.id },
+      );
+    } else if (since) {
+      qb.where('item.updatedAt > CAST(:since AS timestamptz)', {
+        since: since.timestamp,
+      });
     }
 
-    return parsed;
-  }
+    const { entities, raw } = await qb.getRawAndEntities<{
+      change_cursor: string;
+    }>();
+    const changes = entities.slice(0, limit);
+    const last = changes[changes.length - 1];
 
-  private escapeLikeSearch(term: string): string {
-    return term.replace(/[%_\\]/g, (char) => `\\${char}`);
+    return {
+      upserted: changes.filter((record) => record.isActive),
+      deleted: changes
+        .filter((record) => !record.isActive)
+        .map((record) => ({
+          id: record.id as string,
+          ...Object.fromEntries(
+            definition.uniqueBy.map((field) => [field, record[field]]),
+          ),
+          deletedAt: record.updatedAt as Date,
+        })),
+      meta: {
+        since: query.since ?? null,
+        nextCursor: last
+          ? Buffer.from(
+              `${raw[changes.length - 1].change_cursor}|${last.id}`,
+            ).toString('base64url')
+          : (query.since ?? null),
+        hasMore: entities.length > limit,
+        limit,
+      },
+    };
   }
 
-  private async loadExcel(
-    definition: CatalogDefinition,
-    buffer: Buffer,
-  ): Promise<{
-    rows: CatalogRecord[];
-    errors: Array<{ row: number; message: string }>;
-  }> {
-    const workbook = new Workbook();
-    await workbook.xlsx.load(Buffer.from(buffer) as any);
-    const worksheet = workbook.worksheets[0];
-
-    if (!worksheet) {
-      throw new BadRequestException(
-        'El archivo Excel no contiene hojas de trabajo',
-      );
+  private parseChangesSince(since: string): { timestamp: string; id?: string } {
+    if (/^\d{4}-\d{2}-\d{2}/.test(since)) {
+      if (Number.isNaN(Date.parse(since))) {
+        throw new BadRequestException(
+          'El parámetro since debe ser una fecha ISO 8601 o un cursor válido',
+        );
+      }
+      return { timestamp: since };
     }
 
-    const headerRow = worksheet.getRow(1);
-    if (!headerRow || headerRow.cellCount === 0) {
+    const [timestamp, id] = Buffer.from(since, 'base64url')
+      .toString('utf-8')
+      .split('|');
+    if (!id || !UUID_PATTERN.test(id) || Number.isNaN(Date.parse(timestamp))) {
       throw new BadRequestException(
-        'La primera fila debe contener los encabezados de columna',
+        'El parámetro since debe ser una fecha ISO 8601 o un cursor válido',
       );
     }
+    return { timestamp, id };
+  }
 
-    const columnFieldMap = new Map<number, CatalogFieldDefinition>();
-    const availableFields = definition.fields;
-
-    headerRow.eachCell({ includeEmpty: false }, (cell, colNumber) => {
-      const headerKey = this.normaliseHeader(cell.value);
-      if (!headerKey) {
+  async lookup(items: CatalogLookupItemDto[]): Promise<CatalogLookupResult[]> {
+    const criteria = items.map((item) => this.buildLookupCriteria(item));
+    const groups = new Map<
+      string,
+      { definition: CatalogDefinition; where: CatalogRecord[] }
+    >();
+    criteria.forEach((entry) => {
+      if ('error' in entry) {
         return;
       }
-      const field = availableFields.find((candidate) => {
-        const candidateKeys = [
-          candidate.name,
-          ...(candidate.excelKeys ?? []),
-        ].map((key) => this.normaliseHeader(key));
-        return candidateKeys.includes(headerKey);
-      });
-      if (field) {
-        columnFieldMap.set(colNumber, field);
-      }
+      const group = groups.get(entry.definition.key) ?? {
+        definition: entry.definition,
+        where: [],
+      };
+      group.where.push(entry.where);
+      groups.set(entry.definition.key, group);
     });
 
-    const missingRequired = availableFields.filter(
-      (field) =>
-        field.required &&
-        !Array.from(columnFieldMap.values()).includes(field),
-    );
-
-    if (missingRequired.length > 0) {
-      const missingNames = missingRequired.map((field) => field.name).join(', ');
-      throw new BadRequestException(
-        `Faltan columnas requeridas en el Excel: ${missingNames}`,
-      );
+    const candidates = new Map<string, CatalogRecord[]>();
+    for (const { definition, where } of groups.values()) {
+      const records: CatalogRecord[] = await this.dataSource
+        .getRepository<CatalogRecord>(definition.entity)
+        .find({ where });
+      candidates.set(definition.key, records);
     }
 
-    const rows: CatalogRecord[] = [];
-    const errors: Array<{ row: number; message: string }> = [];
-
-    worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
-      if (rowNumber === 1) {
-        return;
+    return items.map((item, index) => {
+      const entry = criteria[index];
+      if ('error' in entry) {
+        return {
+          catalogKey: item.catalogKey,
+          code: item.code,
+          found: false,
+          active: false,
+          record: null,
+          error: entry.error,
+        };
       }
 
-      const rawRecord: CatalogRecord = {};
-      let hasValue = false;
+      const matches = (candidates.get(entry.definition.key) ?? []).filter(
+        (record) =>
+          Object.entries(entry.where).every(
+            ([field, value]) => record[field] === value,
+          ),
+      );
+      const record =
+        matches.find((candidate) => candidate.isActive) ?? matches[0] ?? null;
+      return {
+        catalogKey: item.catalogKey,
+        code: item.code,
+        found: Boolean(record),
+        active: Boolean(record?.isActive),
+        record,
+      };
+    });
+  }
 
-      columnFieldMap.forEach((field, column) => {
-        const cell = row.getCell(column);
-        const value = this.extractCellValue(cell.value);
-        if (value !== null && value !== undefined && value !== '') {
-          rawRecord[field.name] = value;
-          hasValue = true;
+  private buildLookupCriteria(
+    item: CatalogLookupItemDto,
+  ): CatalogLookupCriteria {
+    try {
+      const definition = this.getDefinitionOrThrow(item.catalogKey);
+      const fieldNames =
+        item.code !== null && typeof item.code === 'object'
+          ? definition.uniqueBy
+          : definition.uniqueBy.slice(0, 1);
+
+      const where: CatalogRecord = {};
+      fieldNames.forEach((name) => {
+        const field = definition.fields.find(
+          (candidate) => candidate.name === name,
+        );
+        const rawValue =
+          item.code !== null && typeof item.code === 'object'
+            ? item.code[name]
+            : item.code;
+        if (!field || rawValue === undefined || rawValue === null) {
+          throw new BadRequestException(
+            `El código debe incluir: ${definition.uniqueBy.join(', ')}`,
+          );
         }
+        where[name] = this.parseFieldValue(field, rawValue);
       });
 
-      if (!hasValue) {
-        return;
+      return { definition, where };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        return { error: error.message };
       }
+      throw error;
+    }
+  }
+
+  async create(
+    key: string,
+    payload: Record<string, any>,
+    actor?: CatalogActor,
+  ): Promise<CatalogRecord> {
+    const definition = this.getDefinitionOrThrow(key);
+    const validated = this.validatePayload(
+      definition,
+      payload,
+      false,
+      await this.loadReferenceValues(definition, payload),
+    );
+    return this.dataSource.transaction((manager) =>
+      this.insertRecord(manager, definition, validated, actor),
+    );
+  }
+
+  async update(
+    key: string,
+    id: string,
+    payload: Record<string, any>,
+    actor?: CatalogActor,
+  ): Promise<CatalogRecord> {
+    const definition = this.getDefinitionOrThrow(key);
+    const validated = this.validatePayload(
+      definition,
+      payload,
+      true,
+      await this.loadReferenceValues(definition, payload),
+    );
+    return this.dataSource.transaction((manager) =>
+      this.updateRecord(manager, definition, id, validated, actor),
+    );
+  }
+
+  async remove(key: string, id: string, actor?: CatalogActor): Promise<void> {
+    await this.setActiveState(key, id, false, actor);
+  }
 
+  async restore(
+    key: string,
+    id: string,
+    actor?: CatalogActor,
+  ): Promise<CatalogRecord> {
+    return this.setActiveState(key, id, true, actor);
+  }
+
+  async bulk(
+    key: string,
+    operations: CatalogBulkOperationDto[],
+    actor?: CatalogActor,
+  ): Promise<CatalogBulkResult[]> {
+    const definition = this.getDefinitionOrThrow(key);
+    const referenceValues = operations.some((operation) => operation.data)
+      ? await this.loadReferenceValues(definition)
+      : new Map<string, Set<string>>();
+    const payloads = operations.map((operation, index) => {
       try {
-        const validated = this.validatePayload(definition, rawRecord);
-        rows.push(validated);
-      } catch (error: any) {
-        errors.push({
-          row: rowNumber,
-          message: error.message ?? 'Fila inválida',
-        });
+        return operation.op === 'create' || operation.op === 'update'
+          ? this.validatePayload(
+              definition,
+              operation.data ?? {},
+              operation.op === 'update',
+              referenceValues,
+            )
+          : {};
+      } catch (error) {
+        throw this.toBulkError(error, index, operation);
       }
     });
 
-    return { rows, errors };
+    return this.dataSource.transaction(async (manager) => {
+      const results: CatalogBulkResult[] = [];
+      for (const [index, operation] of operations.entries()) {
+        try {
+          results.push({
+            index,
+            op: operation.op,
+            ...(await this.applyBulkOperation(
+              manager,
+              definition,
+              operation,
+              payloads[index],
+              actor,
+            )),
+          });
+        } catch (error) {
+          throw this.toBulkError(error, index, operation);
+        }
+      }
+      return results;
+    });
   }
 
-  private extractCellValue(value: any): any {
-    if (value === null || value === undefined) {
-      return null;
+  private async applyBulkOperation(
+    manager: EntityManager,
+    definition: CatalogDefinition,
+    operation: CatalogBulkOperationDto,
+    payload: CatalogRecord,
+    actor?: CatalogActor,
+  ): Promise<{ id: string; record?: CatalogRecord }> {
+    const id = operation.id ?? '';
+    switch (operation.op) {
+      case 'create': {
+        const record = await this.insertRecord(
+          manager,
+          definition,
+          payload,
+          actor,
+        );
+        return { id: record.id as string, record };
+      }
+      case 'update':
+        return {
+          id,
+          record: await this.updateRecord(
+            manager,
+            definition,
+            id,
+            payload,
+            actor,
+          ),
+        };
+      // Deleting in bulk is the same soft delete as DELETE /catalogs/:key/:id
+      case 'deactivate':
+      case 'delete':
+        return {
+          id,
+          record: await this.changeActiveState(
+            manager,
+            definition,
+            id,
+            false,
+            actor,
+          ),
+        };
+    }
+  }
+
+  private toBulkError(
+    error: unknown,
+    index: number,
+    operation: CatalogBulkOperationDto,
+  ): unknown {
+    const isUniqueViolation =
+      (error as { driverError?: { code?: string } })?.driverError?.code ===
+      '23505';
+    if (!(error instanceof HttpException) && !isUniqueViolation) {
+      return error;
+    }
+    const status =
+      error instanceof HttpException ? error.getStatus() : HttpStatus.CONFLICT;
+    const reason =
+      error instanceof HttpException
+        ? error.message
+        : 'ya existe un registro con la misma clave única';
+    return new HttpException(
+      {
+        statusCode: status,
+        message: `Operación ${index + 1} (${operation.op}) falló: ${reason}. No se aplicó ningún cambio`,
+        index,
+      },
+      status,
+    );
+  }
+
+  async startImport(
+    key: string,
+    file: ImportFile,
+    options: CatalogImportOptions = {},
+    mode: 'append' | 'replace' = 'append',
+    actor?: CatalogActor,
+  ): Promise<ImportJob> {
+    const definition = this.getDefinitionOrThrow(key);
+
+    // The job is only visible once all of its rows are staged, so an upload that fails validation leaves nothing behind
+    const job = await this.dataSource.transaction(async (manager) => {
+      const created = await this.importJobsService.create(
+        {
+          catalogKey: definition.key,
+          mode,
+          fileName: file.originalname ?? null,
+          checksum: importFileChecksum(file.buffer),
+          totalRows: 0,
+          errors: [],
+          userId: actor?.id ?? null,
+          username: actor?.username ?? null,
+        },
+        manager,
+      );
+      const { totalRows, errors } = await this.stageImportRows(
+        manager,
+        created.id,
+        definition,
+        file,
+        options,
+      );
+      return manager
+        .getRepository(ImportJob)
+        .save({ ...created, totalRows, errors });
+    });
+
+    void this.runImport(job.id);
+    return job;
+  }
+
+  /**
+   * Picks up a job whose worker is gone. Catalog imports continue from their
+   * staged rows; geography imports are not staged, so they are marked as
+   * failed instead of staying in progress forever.
+   */
+  async recoverImport(job: ImportJob): Promise<ImportJob> {
+    if (!this.importJobsService.isStale(job)) {
+      return job;
+    }
+    if (
+      this.definitions.some((definition) => definition.key === job.catalogKey)
+    ) {
+      void this.runImport(job.id);
+      return job;
+    }
+    await this.importJobsService.fail(
+      job.id,
+      'La importación se interrumpió antes de terminar',
+    );
+    return this.importJobsService.findOne(job.id);
+  }
+
+  async rollbackImport(id: string, actor?: CatalogActor): Promise<ImportJob> {
+    const job = await this.importJobsService.findOne(id);
+    const definition = this.definitions.find(
+      (candidate) => candidate.key === job.catalogKey,
+    );
+    if (!definition) {
+      return this.importJobsService.rollback(id, actor);
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      const locked = await this.importJobsService.lockForRollback(manager, id);
+      await this.importJobsService.assertLatestImport(manager, locked);
+      await this.revertImport(manager, definition, locked, actor);
+      await this.importJobsService.markRolledBack(manager, locked, actor);
+    });
+    return this.importJobsService.findOne(id);
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    try {
+      for (const job of await this.importJobsService.findStale()) {
+        await this.recoverImport(job);
+      }
+    } catch (error) {
+      this.logger.error('Interrupted import jobs could not be resumed', error);
+    }
+  }
+
+  /**
+   * Previews an import from the first rows of the streamed file: existing
+   * records are looked up only by the keys of that sample, and the records a
+   * replace would deactivate are listed only when the sample is the whole file.
+   */
+  async previewImport(
+    key: string,
+    file: ImportFile,
+    options: CatalogImportOptions = {},
+    mode: 'append' | 'replace' = 'append',
+  ): Promise<CatalogImportPreview> {
+    const definition = this.getDefinitionOrThrow(key);
+    const rows = await this.openImportFile(definition, file, options);
+    const sampleByKey = new Map<string, CatalogRecord>();
+    const errors: Array<{ row: number; message: string }> = [];
+    let sampledRows = 0;
+    let complete = true;
+    let duplicates = 0;
+
+    for await (const { rowNumber, record, error } of rows) {
+      if (sampledRows === IMPORT_PREVIEW_SAMPLE_SIZE) {
+        complete = false;
+        break;
+      }
+      sampledRows += 1;
+      if (error) {
+        errors.push({ row: rowNumber, message: error });
+        continue;
+      }
+      const uniqueKey = this.buildUniqueKey(record, definition.uniqueBy);
+      if (sampleByKey.has(uniqueKey)) {
+        duplicates += 1;
+      }
+      sampleByKey.set(uniqueKey, record);
+    }
+    if (duplicates > 0) {
+      errors.push({ row: 0, message: this.duplicateRowsMessage(duplicates) });
+    }
+
+    const repository = this.dataSource.getRepository<CatalogRecord>(
+      definition.entity,
+    );
+    const sample = Array.from(sampleByKey.values());
+    const existingByKey = new Map<string, CatalogRecord>();
+    for (let index = 0; index < sample.length; index += IMPORT_BATCH_SIZE) {
+      const where = sample
+        .slice(index, index + IMPORT_BATCH_SIZE)
+        .map((row) =>
+          Object.fromEntries(
+            definition.uniqueBy.map((field) => [field, row[field]]),
+          ),
+        );
+      const existingRows: CatalogRecord[] = await repository.find({ where });
+      existingRows.forEach((row) =>
+        existingByKey.set(this.buildUniqueKey(row, definition.uniqueBy), row),
+      );
+    }
+
+    const inserts: CatalogRecord[] = [];
+    const updates: CatalogImportPreview['updates'] = [];
+    let unchanged = 0;
+
+    sampleByKey.forEach((row, uniqueKey) => {
+      const existing = existingByKey.get(uniqueKey);
+      if (!existing) {
+        inserts.push(row);
+        return;
+      }
+      const changes = this.diffImportFields(definition, existing, {
+        ...row,
+        isActive: true,
+      });
+      if (changes.length > 0) {
+        updates.push({ id: String(existing.id), record: row, changes });
+      } else {
+        unchanged += 1;
+      }
+    });
+
+    const { removals, remove, referencedRows } =
+      mode === 'replace' && complete
+        ? await this.previewMissingRows(definition, new Set(sampleByKey.keys()))
+        : { removals: [], remove: 0, referencedRows: 0 };
+    if (referencedRows > 0) {
+      errors.push({
+        row: 0,
+        message: this.referencedRowsMessage(referencedRows),
+      });
+    }
+
+    return {
+      mode,
+      sample: { rows: sampledRows, complete },
+      summary: {
+        insert: inserts.length,
+        update: updates.length,
+        unchanged,
+        remove,
+        invalid: errors.filter((error) => error.row > 0).length,
+      },
+      inserts: inserts.slice(0, IMPORT_PREVIEW_LIMIT),
+      updates: updates.slice(0, IMPORT_PREVIEW_LIMIT),
+      removals,
+      errors,
+    };
+  }
+
+  async detectImportColumns(
+    key: string,
+    file: ImportFile,
+    options: ImportFileOptions = {},
+  ): Promise<CatalogImportColumns> {
+    const definition = this.getDefinitionOrThrow(key);
+    const saved = await this.findImportMapping(definition.key);
+    const preview = await this.tabularFileReader.inspect(file, {
+      ...options,
+      headerKeys: this.importHeaderKeys(definition, saved?.mapping),
+    });
+    const headers = (
+      preview.rows.find((row) => row.rowNumber === preview.headerRow)?.values ??
+      []
+    )
+      .map((header) => this.headerLabel(header))
+      .filter(Boolean);
+    const suggestedMapping = this.suggestColumnMapping(
+      definition,
+      headers,
+      saved?.mapping,
+    );
+
+    return {
+      sheets: preview.sheets,
+      sheet: preview.sheet,
+      headerRow: preview.headerRow,
+      previewRows: preview.rows,
+      headers,
+      fields: this.importFields(definition).map(
+        ({ name, label, required }) => ({
+          name,
+          label,
+          required,
+        }),
+      ),
+      suggestedMapping,
+      missingRequired: this.findMissingColumns(definition, suggestedMapping),
+      savedMapping: saved?.mapping ?? null,
+    };
+  }
+
+  async getImportMapping(key: string): Promise<CatalogImportMapping> {
+    const definition = this.getDefinitionOrThrow(key);
+    const saved = await this.findImportMapping(definition.key);
+    if (!saved) {
+      throw new NotFoundException(
+        `${definition.label} no tiene una asignación de columnas guardada`,
+      );
+    }
+    return saved;
+  }
+
+  async saveImportMapping(
+    key: string,
+    mapping: CatalogColumnMapping,
+    actor?: CatalogActor,
+  ): Promise<CatalogImportMapping> {
+    const definition = this.getDefinitionOrThrow(key);
+    this.assertColumnMapping(definition, mapping);
+    return this.dataSource.getRepository(CatalogImportMapping).save({
+      catalogKey: definition.key,
+      mapping: Object.fromEntries(
+        Object.entries(mapping).map(([field, header]) => [
+          field,
+          header || null,
+        ]),
+      ),
+      updatedBy: actor?.username ?? null,
+    });
+  }
+
+  async removeImportMapping(key: string): Promise<void> {
+    const definition = this.getDefinitionOrThrow(key);
+    const result = await this.dataSource
+      .getRepository(CatalogImportMapping)
+      .delete({ catalogKey: definition.key });
+    if (!result.affected) {
+      throw new NotFoundException(
+        `${definition.label} no tiene una asignación de columnas guardada`,
+      );
     }
+  }
+
+  /**
+   * Validates the file row by row and stages the valid rows of the job in
+   * chunks, so only one chunk is held in memory. A key repeated in the file
+   * keeps its first position but the values of its last appearance.
+   */
+  private async stageImportRows(
+    manager: EntityManager,
+    jobId: string,
+    definition: CatalogDefinition,
+    file: ImportFile,
+    options: CatalogImportOptions,
+  ): Promise<{
+    totalRows: number;
+    errors: Array<{ row: number; message: string }>;
+  }> {
+    const rows = await this.openImportFile(definition, file, options);
+    const errors: Array<{ row: number; message: string }> = [];
+    let chunk = new Map<string, StagedImportRow>();
+    let validRows = 0;
 
-    if (typeof value === 'object') {
-      if ('text' in value && typeof value.text === 'string') {
-        return value.text;
+    for await (const { rowNumber, record, error } of rows) {
+      if (error) {
+        errors.push({ row: rowNumber, message: error });
+        continue;
       }
 
-      if ('result' in value && value.result !== undefined) {
-        return value.result;
+      validRows += 1;
+      const importKey = this.buildUniqueKey(record, definition.uniqueBy);
+      chunk.set(importKey, {
+        position: chunk.get(importKey)?.position ?? validRows,
+        rowNumber,
+        importKey,
+        data: record,
+      });
+      if (chunk.size === IMPORT_BATCH_SIZE) {
+        await this.importJobsService.stageRows(manager, jobId, [
+          ...chunk.values(),
+        ]);
+        chunk = new Map();
+      }
+    }
+    await this.importJobsService.stageRows(manager, jobId, [...chunk.values()]);
+
+    const totalRows = await this.importJobsService.countRows(manager, jobId);
+    if (validRows > totalRows) {
+      errors.push({
+        row: 0,
+        message: this.duplicateRowsMessage(validRows - totalRows),
+      });
+    }
+
+    return { totalRows, errors };
+  }
+
+  private diffImportFields(
+    definition: CatalogDefinition,
+    existing: CatalogRecord,
+    incoming: CatalogRecord,
+  ): CatalogImportFieldChange[] {
+    const comparedFields = [
+      ...definition.fields.map((field) => field.name),
+      ...CATALOG_VALIDITY_FIELDS,
+      'isActive',
+    ].filter((field) => field in incoming);
+
+    return comparedFields
+      .filter(
+        (field) =>
+          JSON.stringify(existing[field] ?? null) !==
+          JSON.stringify(incoming[field] ?? null),
+      )
+      .map((field) => {
+        const before: unknown = existing[field] ?? null;
+        const after: unknown = incoming[field] ?? null;
+        return { field, before, after };
+      });
+  }
+
+  private validatePayload(
+    definition: CatalogDefinition,
+    payload: Record<string, any>,
+    partial = false,
+    referenceValues?: Map<string, Set<string>>,
+  ): CatalogRecord {
+    if (!payload || typeof payload !== 'object') {
+      throw new BadRequestException('El cuerpo debe ser un objeto JSON válido');
+    }
+
+    const allowedFields = new Set<string>([
+      ...definition.fields.map((field) => field.name),
+      ...CATALOG_VALIDITY_FIELDS,
+    ]);
+    const sanitized: CatalogRecord = {};
+
+    Object.keys(payload).forEach((key) => {
+      if (!allowedFields.has(key)) {
+        throw new BadRequestException(
+          `El campo "${key}" no es válido para este catálogo`,
+        );
       }
+    });
 
-      if ('richText' in value && Array.isArray(value.richText)) {
-        return value.richText
-          .map((segment: any) => segment?.text ?? '')
-          .join('')
-          .trim();
+    definition.fields.forEach((field) => {
+      const rawValue = payload[field.name];
+      if (rawValue === undefined || rawValue === null || rawValue === '') {
+        if (!partial && field.required) {
+          throw new BadRequestException(
+            `El campo "${field.name}" es obligatorio`,
+          );
+        }
+        return;
       }
 
-      if ('hyperlink' in value && 'text' in value) {
-        return String(value.text);
+      const value = this.parseFieldValue(field, rawValue);
+      this.assertFieldRules(field, value);
+      if (field.type === 'reference' && referenceValues) {
+        this.assertReferenceExists(field, value, referenceValues);
       }
+      sanitized[field.name] = value;
+    });
+
+    if (!partial) {
+      definition.fields
+        .filter((field) => field.required)
+        .forEach((field) => {
+          if (!(field.name in sanitized)) {
+            throw new BadRequestException(
+              `El campo "${field.name}" es obligatorio`,
+            );
+          }
+        });
+    }
 
-      if ('formula' in value && value.formula) {
-        return value.result ?? value.formula;
+    CATALOG_VALIDITY_FIELDS.forEach((field) => {
+      if (!(field in payload)) {
+        return;
       }
+      sanitized[field] = this.parseDateValue(field, payload[field]);
+    });
+    this.assertValidityRange(sanitized);
 
-      if (typeof value.toString === 'function') {
-        return value.toString();
+    return sanitized;
+  }
+
+  private parseDateValue(fieldName: string, rawValue: any): string | null {
+    if (rawValue === undefined || rawValue === null || rawValue === '') {
+      return null;
+    }
+
+    if (rawValue instanceof Date) {
+      if (Number.isNaN(rawValue.getTime())) {
+        throw new BadRequestException(
+          `El campo "${fieldName}" no es una fecha válida`,
+        );
       }
+      return rawValue.toISOString().slice(0, 10);
     }
 
+    const value = String(rawValue).trim().slice(0, 10);
+    if (
+      !ISO_DATE_PATTERN.test(value) ||
+      Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())
+    ) {
+      throw new BadRequestException(
+        `El campo "${fieldName}" debe tener el formato AAAA-MM-DD`,
+      );
+    }
     return value;
   }
 
-  private deduplicateRows(
-    rows: CatalogRecord[],
-    uniqueBy: string[],
-  ): { rows: CatalogRecord[]; duplicates: number } {
-    if (!uniqueBy.length) {
-      return { rows, duplicates: 0 };
+  private assertFieldRules(
+    field: CatalogFieldDefinition,
+    value: string | number,
+  ): void {
+    const violation = findFieldRuleViolation(
+      field.type === 'reference'
+        ? resolveReferencedField(field, this.definitions)
+        : field,
+      value,
+    );
+    if (violation) {
+      throw new BadRequestException(violation);
     }
+  }
 
-    const map = new Map<string, CatalogRecord>();
-    let duplicates = 0;
+  private assertValidityRange(record: CatalogRecord): void {
+    const { vigenteDesde, vigenteHasta } = record;
+    if (vigenteDesde && vigenteHasta && vigenteDesde > vigenteHasta) {
+      throw new BadRequestException(
+        'La fecha "vigenteDesde" no puede ser posterior a "vigenteHasta"',
+      );
+    }
+  }
 
-    rows.forEach((row) => {
-      const key = uniqueBy
-        .map((field) => JSON.stringify(row[field] ?? null))
-        .join('|');
-      if (map.has(key)) {
-        duplicates += 1;
+  private parseFieldValue(
+    field: CatalogFieldDefinition,
+    rawValue: any,
+  ): string | number {
+    if (field.type === 'reference') {
+      return this.parseFieldValue(
+        resolveReferencedField(field, this.definitions),
+        rawValue,
+      );
+    }
+
+    if (field.type === 'string') {
+      if (typeof rawValue !== 'string') {
+        rawValue = String(rawValue);
       }
-      map.set(key, row);
-    });
+      let value = rawValue.trim();
+      if (!value && field.required) {
+        throw new BadRequestException(
+          `El campo "${field.name}" no puede estar vacío`,
+        );
+      }
+      if (value && field.codeFormat) {
+        value = formatCatalogCode(field.codeFormat, value);
+        if (value === null) {
+          throw new BadRequestException(
+            `El campo "${field.name}" debe ser un código numérico`,
+          );
+        }
+      }
+      if (field.length && value.length > field.length) {
+        throw new BadRequestException(
+          `El campo "${field.name}" excede la longitud máxima de ${field.length}`,
+        );
+      }
+      return value;
+    }
 
-    return { rows: Array.from(map.values()), duplicates };
+    const numericValue = this.normaliseNumeric(rawValue);
+    if (field.type === 'int') {
+      if (!Number.isInteger(numericValue)) {
+        throw new BadRequestException(
+          `El campo "${field.name}" debe ser un entero`,
+        );
+      }
+      return numericValue;
+    }
+
+    return numericValue;
+  }
+
+  private async loadReferenceValues(
+    definition: CatalogDefinition,
+    payload?: Record<string, any>,
+  ): Promise<Map<string, Set<string>>> {
+    const referenceValues = new Map<string, Set<string>>();
+
+    for (const field of definition.fields) {
+      if (field.type !== 'reference' || !field.reference) {
+        continue;
+      }
+      const target = this.getDefinitionOrThrow(field.reference.catalog);
+      const targetField = field.reference.field;
+      const where: CatalogRecord = { isActive: true };
+
+      if (payload) {
+        const rawValue: unknown = payload[field.name];
+        if (rawValue === undefined || rawValue === null || rawValue === '') {
+          continue;
+        }
+        try {
+          where[targetField] = this.parseFieldValue(field, rawValue);
+        } catch {
+          continue;
+        }
+      }
+
+      const rows: Array<{ value: string | number }> = await this.dataSource
+        .getRepository<CatalogRecord>(target.entity)
+        .createQueryBuilder('item')
+        .select(`item.${targetField}`, 'value')
+        .where(where)
+        .getRawMany();
+      referenceValues.set(
+        field.name,
+        new Set(
+          rows.map((row) => String(this.parseFieldValue(field, row.value))),
+        ),
+      );
+    }
+
+    return referenceValues;
+  }
+
+  private assertReferenceExists(
+    field: CatalogFieldDefinition,
+    value: string | number,
+    referenceValues: Map<string, Set<string>>,
+  ): void {
+    if (
+      !field.reference ||
+      referenceValues.get(field.name)?.has(String(value))
+    ) {
+      return;
+    }
+    const target = this.getDefinitionOrThrow(field.reference.catalog);
+    throw new BadRequestException(
+      `El valor "${value}" del campo "${field.name}" no existe en ${target.label}`,
+    );
+  }
+
+  private findReferencingFields(
+    definition: CatalogDefinition,
+  ): Array<{ source: CatalogDefinition; field: CatalogFieldDefinition }> {
+    return this.definitions.flatMap((source) =>
+      source.fields
+        .filter((field) => field.reference?.catalog === definition.key)
+        .map((field) => ({ source, field })),
+    );
+  }
+
+  private async assertNotReferenced(
+    manager: EntityManager,
+    definition: CatalogDefinition,
+    entity: CatalogRecord,
+    changedFields?: string[],
+  ): Promise<void> {
+    for (const { source, field } of this.findReferencingFields(definition)) {
+      const targetField = field.reference.field;
+      if (changedFields && !changedFields.includes(targetField)) {
+        continue;
+      }
+      const value: unknown = entity[targetField];
+      if (value === undefined || value === null) {
+        continue;
+      }
+      const references = await manager
+        .getRepository<CatalogRecord>(source.entity)
+        .count({
+          where: { [field.name]: value, isActive: true },
+        });
+      if (references > 0) {
+        throw new ConflictException(
+          `El registro está referenciado por ${references} registros activos de ${source.label} (campo "${field.name}")`,
+        );
+      }
+    }
+  }
+
+  private async loadReferencedValues(
+    manager: EntityManager,
+    definition: CatalogDefinition,
+  ): Promise<Map<string, Set<string>>> {
+    const referencedValues = new Map<string, Set<string>>();
+
+    for (const { source, field } of this.findReferencingFields(definition)) {
+      const targetField = field.reference.field;
+      const rows: Array<{ value: string | number }> = await manager
+        .getRepository<CatalogRecord>(source.entity)
+        .createQueryBuilder('item')
+        .select(`item.${field.name}`, 'value')
+        .distinct(true)
+        .where('item.isActive = :isActive', { isActive: true })
+        .andWhere(`item.${field.name} IS NOT NULL`)
+        .getRawMany();
+      const values = referencedValues.get(targetField) ?? new Set<string>();
+      rows.forEach((row) =>
+        values.add(String(this.parseFieldValue(field, row.value))),
+      );
+      referencedValues.set(targetField, values);
+    }
+
+    return referencedValues;
+  }
+
+  private excludeReferencedRows(
+    rows: CatalogRecord[],
+    referencedValues: Map<string, Set<string>>,
+  ): CatalogRecord[] {
+    return rows.filter(
+      (row) =>
+        !Array.from(referencedValues.entries()).some(([field, values]) =>
+          values.has(String(row[field])),
+        ),
+    );
+  }
+
+  /**
+   * Pages through the active records to find the ones a replace import of
+   * the given keys would deactivate, keeping only the first ones in memory.
+   */
+  private async previewMissingRows(
+    definition: CatalogDefinition,
+    importedKeys: Set<string>,
+  ): Promise<{
+    removals: CatalogRecord[];
+    remove: number;
+    referencedRows: number;
+  }> {
+    const manager = this.dataSource.manager;
+    const repository = manager.getRepository<CatalogRecord>(definition.entity);
+    const referencedValues = await this.loadReferencedValues(
+      manager,
+      definition,
+    );
+    const removals: CatalogRecord[] = [];
+    let remove = 0;
+    let referencedRows = 0;
+    let lastId: string | null = null;
+
+    for (;;) {
+      const activeRows: CatalogRecord[] = await repository.find({
+        where: {
+          isActive: true,
+          ...(lastId ? { id: MoreThan(lastId) } : {}),
+        },
+        order: { id: 'ASC' },
+        take: IMPORT_BATCH_SIZE,
+      });
+      if (activeRows.length === 0) {
+        break;
+      }
+      lastId = activeRows[activeRows.length - 1].id as string;
+
+      const missingRows = activeRows.filter(
+        (row) =>
+          !importedKeys.has(this.buildUniqueKey(row, definition.uniqueBy)),
+      );
+      const staleRows = this.excludeReferencedRows(
+        missingRows,
+        referencedValues,
+      );
+      remove += staleRows.length;
+      referencedRows += missingRows.length - staleRows.length;
+      removals.push(
+        ...staleRows.slice(0, IMPORT_PREVIEW_LIMIT - removals.length),
+      );
+    }
+
+    return { removals, remove, referencedRows };
+  }
+
+  private duplicateRowsMessage(count: number): string {
+    return `${count} filas duplicadas fueron reemplazadas por la última aparición de la misma clave única`;
+  }
+
+  private referencedRowsMessage(count: number): string {
+    return `${count} registros ausentes del archivo no se desactivaron porque otros catálogos los referencian`;
+  }
+
+  private normaliseNumeric(value: any): number {
+    if (typeof value === 'number') {
+      if (Number.isNaN(value)) {
+        throw new BadRequestException('Valor numérico inválido');
+      }
+      return value;
+    }
+
+    if (value === null || value === undefined) {
+      throw new BadRequestException('Valor numérico requerido');
+    }
+
+    const stringValue = String(value).trim().replace(/,/g, '.');
+    if (!stringValue) {
+      throw new BadRequestException('Valor numérico requerido');
+    }
+
+    const parsed = Number(stringValue);
+    if (Number.isNaN(parsed)) {
+      throw new BadRequestException(`No se pudo convertir "${value}" a número`);
+    }
+
+    return parsed;
+  }
+
+  private buildSearchDocument(definition: CatalogDefinition): string | null {
+    const fields = definition.searchFields.filter((field) =>
+      definition.fields.some((candidate) => candidate.name === field),
+    );
+    if (fields.length === 0) {
+      return null;
+    }
+    return fields
+      .map((field) => `coalesce(CAST(item.${field} AS TEXT), '')`)
+      .join(` || ' ' || `);
+  }
+
+  private buildSearchTerms(search?: string): string | null {
+    const tokens = search?.match(/[\p{L}\p{N}]+/gu);
+    if (!tokens) {
+      return null;
+    }
+    return tokens.map((token) => `${token}:*`).join(' & ');
+  }
+
+  private async openImportFile(
+    definition: CatalogDefinition,
+    file: ImportFile,
+    options: CatalogImportOptions,
+  ): Promise<AsyncGenerator<CatalogImportRow>> {
+    const saved = await this.findImportMapping(definition.key);
+    const sheet = await this.tabularFileReader.stream(file, {
+      ...options,
+      headerKeys: this.importHeaderKeys(definition, saved?.mapping),
+    });
+    const headers = sheet.headers.map((header) => this.headerLabel(header));
+    const availableHeaders = headers.filter(Boolean);
+
+    if (options.columnMapping) {
+      this.assertColumnMapping(definition, options.columnMapping, headers);
+    }
+    const mapping: CatalogColumnMapping = {
+      ...this.suggestColumnMapping(
+        definition,
+        availableHeaders,
+        saved?.mapping,
+      ),
+      ...options.columnMapping,
+    };
+
+    const missingRequired = this.findMissingColumns(definition, mapping);
+    if (missingRequired.length > 0) {
+      throw new BadRequestException({
+        statusCode: HttpStatus.BAD_REQUEST,
+        error: 'Bad Request',
+        message: `Faltan columnas requeridas en el archivo: ${missingRequired.join(', ')}`,
+        missingRequired,
+        headers: availableHeaders,
+        suggestedMapping: mapping,
+      });
+    }
+
+    const columnFieldMap = new Map<number, CatalogFieldDefinition>();
+    const validityColumnMap = new Map<number, string>();
+
+    definition.fields.forEach((field) => {
+      const header = mapping[field.name];
+      if (header) {
+        columnFieldMap.set(headers.indexOf(header), field);
+      }
+    });
+    CATALOG_VALIDITY_FIELDS.forEach((fieldName) => {
+      const header = mapping[fieldName];
+      if (header) {
+        validityColumnMap.set(headers.indexOf(header), fieldName);
+      }
+    });
+
+    const referenceValues = await this.loadReferenceValues(definition);
+    return this.parseImportRows(
+      definition,
+      sheet.rows,
+      columnFieldMap,
+      validityColumnMap,
+      referenceValues,
+    );
+  }
+
+  private async *parseImportRows(
+    definition: CatalogDefinition,
+    rows: AsyncIterable<TabularRow>,
+    columnFieldMap: Map<number, CatalogFieldDefinition>,
+    validityColumnMap: Map<number, string>,
+    referenceValues: Map<string, Set<string>>,
+  ): AsyncGenerator<CatalogImportRow> {
+    for await (const { rowNumber, values } of rows) {
+      const rawRecord: CatalogRecord = {};
+      let hasValue = false;
+
+      columnFieldMap.forEach((field, column) => {
+        const value = values[column];
+        if (value !== null && value !== undefined && value !== '') {
+          rawRecord[field.name] = value;
+          hasValue = true;
+        }
+      });
+
+      if (!hasValue) {
+        continue;
+      }
+
+      validityColumnMap.forEach((fieldName, column) => {
+        const value = values[column];
+        if (value !== null && value !== undefined && value !== '') {
+          rawRecord[fieldName] = value;
+        }
+      });
+
+      let row: CatalogImportRow;
+      try {
+        row = {
+          rowNumber,
+          record: this.validatePayload(
+            definition,
+            rawRecord,
+            false,
+            referenceValues,
+          ),
+        };
+      } catch (error: any) {
+        row = { rowNumber, error: error.message ?? 'Fila inválida' };
+      }
+      yield row;
+    }
+  }
+
+  private async setActiveState(
+    key: string,
+    id: string,
+    isActive: boolean,
+    actor?: CatalogActor,
+  ): Promise<CatalogRecord> {
+    const definition = this.getDefinitionOrThrow(key);
+    return this.dataSource.transaction((manager) =>
+      this.changeActiveState(manager, definition, id, isActive, actor),
+    );
+  }
+
+  private async findRecordOrThrow(
+    manager: EntityManager,
+    definition: CatalogDefinition,
+    id: string,
+  ): Promise<CatalogRecord> {
+    const entity: CatalogRecord | null = await manager
+      .getRepository<CatalogRecord>(definition.entity)
+      .findOne({ where: { id } });
+    if (!entity) {
+      throw new NotFoundException(
+        `No se encontró un registro con id "${id}" en ${definition.label}`,
+      );
+    }
+    return entity;
+  }
+
+  private async insertRecord(
+    manager: EntityManager,
+    definition: CatalogDefinition,
+    validated: CatalogRecord,
+    actor?: CatalogActor,
+  ): Promise<CatalogRecord> {
+    const repository = manager.getRepository<CatalogRecord>(definition.entity);
+    const entity = repository.create(validated);
+    const saved: CatalogRecord = await repository.save(entity);
+    await this.auditService.record(manager, definition.key, 'create', actor, [
+      { recordId: saved.id, after: saved },
+    ]);
+    return saved;
+  }
+
+  private async updateRecord(
+    manager: EntityManager,
+    definition: CatalogDefinition,
+    id: string,
+    validated: CatalogRecord,
+    actor?: CatalogActor,
+  ): Promise<CatalogRecord> {
+    const repository = manager.getRepository<CatalogRecord>(definition.entity);
+    const entity = await this.findRecordOrThrow(manager, definition, id);
+    await this.assertNotReferenced(
+      manager,
+      definition,
+      entity,
+      Object.keys(validated).filter(
+        (field) =>
+          JSON.stringify(validated[field]) !== JSON.stringify(entity[field]),
+      ),
+    );
+    const before = { ...entity };
+    const merged: CatalogRecord = repository.merge(entity, validated);
+    this.assertValidityRange(merged);
+    const saved: CatalogRecord = await repository.save(merged);
+    await this.auditService.record(manager, definition.key, 'update', actor, [
+      { recordId: id, before, after: saved },
+    ]);
+    return saved;
+  }
+
+  private async changeActiveState(
+    manager: EntityManager,
+    definition: CatalogDefinition,
+    id: string,
+    isActive: boolean,
+    actor?: CatalogActor,
+  ): Promise<CatalogRecord> {
+    const entity = await this.findRecordOrThrow(manager, definition, id);
+    if (entity.isActive === isActive) {
+      return entity;
+    }
+    if (!isActive) {
+      await this.assertNotReferenced(manager, definition, entity);
+    }
+    const before = { ...entity };
+    const saved: CatalogRecord = await manager
+      .getRepository<CatalogRecord>(definition.entity)
+      .save({ ...entity, isActive });
+    await this.auditService.record(
+      manager,
+      definition.key,
+      isActive ? 'restore' : 'deactivate',
+      actor,
+      [{ recordId: id, before, after: saved }],
+    );
+    return saved;
+  }
+
+  private async runImport(jobId: string): Promise<void> {
+    try {
+      let status: ImportJobStatus | null;
+      do {
+        status = await this.processImportBatch(jobId);
+      } while (status === 'running');
+    } catch (error) {
+      this.logger.error(`Import job ${jobId} could not be updated`, error);
+    }
+  }
+
+  /**
+   * Writes the next batch of staged rows and the job progress in one
+   * transaction, so a batch is either applied and counted or not at all. The
+   * job row is locked with SKIP LOCKED: a second worker resuming the same job
+   * returns null instead of writing the batch twice.
+   */
+  private async processImportBatch(
+    jobId: string,
+  ): Promise<ImportJobStatus | null> {
+    try {
+      return await this.dataSource.transaction(async (manager) => {
+        const repository = manager.getRepository(ImportJob);
+        const job = await repository.findOne({
+          where: { id: jobId, status: In(['pending', 'running']) },
+          lock: { mode: 'pessimistic_write', onLocked: 'skip_locked' },
+        });
+        if (!job) {
+          return null;
+        }
+
+        const definition = this.getDefinitionOrThrow(job.catalogKey);
+        const actor: CatalogActor | undefined = job.userId
+          ? { id: job.userId, username: job.username ?? undefined }
+          : undefined;
+        const staged = await this.importJobsService.nextRows(
+          manager,
+          job.id,
+          job.resumePosition,
+          IMPORT_BATCH_SIZE,
+        );
+        const changes = await this.importBatch(
+          manager,
+          definition,
+          staged.map((row) => row.data),
+          job.id,
+          actor,
+        );
+        const inserted = changes.filter((change) => !change.before).length;
+
+        job.status = 'running';
+        job.startedAt ??= new Date();
+        job.processedRows += staged.length;
+        job.insertedRows += inserted;
+        job.updatedRows += changes.length - inserted;
+        job.unchangedRows += staged.length - changes.length;
+        job.resumePosition =
+          staged[staged.length - 1]?.position ?? job.resumePosition;
+
+        if (staged.length < IMPORT_BATCH_SIZE) {
+          if (job.mode === 'replace') {
+            const { deactivatedRows, referencedRows } =
+              await this.deactivateMissingRows(
+                manager,
+                definition,
+                await this.importJobsService.stagedKeys(manager, job.id),
+                job.id,
+                actor,
+              );
+            job.deactivatedRows = deactivatedRows;
+            if (referencedRows > 0) {
+              job.errors = [
+                ...job.errors,
+                { row: 0, message: this.referencedRowsMessage(referencedRows) },
+              ];
+            }
+          }
+          job.status = 'completed';
+          job.finishedAt = new Date();
+          await this.importJobsService.clearRows(manager, job.id);
+        }
+
+        await repository.save(job);
+        return job.status;
+      });
+    } catch (error) {
+      await this.importJobsService.fail(
+        jobId,
+        error instanceof Error ? error.message : 'Error inesperado al importar',
+      );
+      return 'failed';
+    }
+  }
+
+  private async importBatch(
+    manager: EntityManager,
+    definition: CatalogDefinition,
+    rows: CatalogRecord[],
+    jobId: string,
+    actor?: CatalogActor,
+  ): Promise<CatalogAuditChange[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const repository = manager.getRepository<CatalogRecord>(definition.entity);
+    const where = rows.map((row) =>
+      Object.fromEntries(
+        definition.uniqueBy.map((field) => [field, row[field]]),
+      ),
+    );
+
+    const previousRows: CatalogRecord[] = await repository.find({ where });
+    await repository.upsert(
+      rows.map((row) => ({ ...row, isActive: true })),
+      definition.uniqueBy,
+    );
+    const currentRows: CatalogRecord[] = await repository.find({ where });
+
+    const changes = this.diffImportedRows(
+      definition,
+      previousRows,
+      currentRows,
+    );
+    await this.auditService.record(
+      manager,
+      definition.key,
+      'import',
+      actor,
+      changes,
+      jobId,
+    );
+    return changes;
+  }
+
+  private async deactivateMissingRows(
+    manager: EntityManager,
+    definition: CatalogDefinition,
+    importedKeys: Set<string>,
+    jobId: string,
+    actor?: CatalogActor,
+  ): Promise<{ deactivatedRows: number; referencedRows: number }> {
+    const repository = manager.getRepository<CatalogRecord>(definition.entity);
+    const activeRows: CatalogRecord[] = await repository.find({
+      where: { isActive: true },
+    });
+    const missingRows = activeRows.filter(
+      (row) => !importedKeys.has(this.buildUniqueKey(row, definition.uniqueBy)),
+    );
+    const staleRows = this.excludeReferencedRows(
+      missingRows,
+      await this.loadReferencedValues(manager, definition),
+    );
+
+    for (let index = 0; index < staleRows.length; index += IMPORT_BATCH_SIZE) {
+      const ids = staleRows
+        .slice(index, index + IMPORT_BATCH_SIZE)
+        .map((row) => row.id as string);
+      await repository.update({ id: In(ids) }, { isActive: false });
+    }
+
+    await this.auditService.record(
+      manager,
+      definition.key,
+      'import',
+      actor,
+      staleRows.map((row) => ({
+        recordId: String(row.id),
+        before: row,
+        after: { ...row, isActive: false },
+      })),
+      jobId,
+    );
+    return {
+      deactivatedRows: staleRows.length,
+      referencedRows: missingRows.length - staleRows.length,
+    };
+  }
+
+  /**
+   * Reverts only the rows an import wrote, from the audit entries it left:
+   * rows it inserted are deactivated and rows it changed get their previous
+   * values back, each with a new updated_at and a 'rollback' audit entry.
+   * Rows edited after the import, or whose revert would orphan active
+   * references, make the whole rollback fail with a 409 listing them, so the
+   * caller's transaction never keeps a partial revert.
+   */
+  private async revertImport(
+    manager: EntityManager,
+    definition: CatalogDefinition,
+    job: ImportJob,
+    actor?: CatalogActor,
+  ): Promise<void> {
+    const repository = manager.getRepository<CatalogRecord>(definition.entity);
+    const auditRepository = manager.getRepository(CatalogAuditLog);
+    const auditedFields = [
+      ...definition.fields.map((field) => field.name),
+      ...CATALOG_VALIDITY_FIELDS,
+      'isActive',
+    ];
+    let found = false;
+    const conflicts: ImportRollbackConflict[] = [];
+    let conflictCount = 0;
+    const addConflict = (
+      row: CatalogRecord,
+      reason: ImportRollbackConflict['reason'],
+      message: string,
+    ) => {
+      conflictCount += 1;
+      if (conflicts.length < ROLLBACK_CONFLICTS_LIMIT) {
+        conflicts.push({
+          id: String(row.id),
+          key: Object.fromEntries(
+            definition.uniqueBy.map((field) => [field, row[field] ?? null]),
+          ),
+          reason,
+          message,
+        });
+      }
+    };
+    let lastRecordId: string | null = null;
+
+    for (;;) {
+      // An import writes each record once, so paging by record id never splits its entries
+      const entries: CatalogAuditLog[] = await auditRepository.find({
+        where: {
+          importJobId: job.id,
+          action: 'import',
+          ...(lastRecordId ? { recordId: MoreThan(lastRecordId) } : {}),
+        },
+        order: { recordId: 'ASC', createdAt: 'ASC' },
+        take: IMPORT_BATCH_SIZE,
+      });
+      if (entries.length === 0) {
+        break;
+      }
+      found = true;
+      lastRecordId = entries[entries.length - 1].recordId;
+
+      const importedById = new Map<string, CatalogAuditLog>();
+      entries.forEach((entry) => {
+        if (!importedById.has(entry.recordId)) {
+          importedById.set(entry.recordId, entry);
+        }
+      });
+      const recordIds = [...importedById.keys()];
+      const editedIds = await this.findEditedAfterImport(
+        manager,
+        definition,
+        job,
+        importedById,
+      );
+      const rows: CatalogRecord[] = await repository.find({
+        where: { id: In(recordIds) },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const changes: CatalogAuditChange[] = [];
+      for (const row of rows) {
+        if (editedIds.has(row.id as string)) {
+          addConflict(
+            row,
+            'edited',
+            'El registro se modificó después de la importación',
+          );
+          continue;
+        }
+        const { before } = importedById.get(row.id as string);
+        const target: CatalogRecord = before
+          ? Object.fromEntries(
+              auditedFields.map((field) => [field, before[field] ?? null]),
+            )
+          : { isActive: false };
+        const changedFields = Object.keys(target).filter(
+          (field) =>
+            JSON.stringify(target[field]) !==
+            JSON.stringify(row[field] ?? null),
+        );
+        if (changedFields.length === 0) {
+          continue;
+        }
+
+        try {
+          await this.assertNotReferenced(
+            manager,
+            definition,
+            row,
+            target.isActive === false && row.isActive
+              ? undefined
+              : changedFields,
+          );
+        } catch (error) {
+          if (error instanceof ConflictException) {
+            addConflict(row, 'referenced', error.message);
+            continue;
+          }
+          throw error;
+        }
+        // The rollback is going to fail, so only the remaining conflicts matter
+        if (conflictCount > 0) {
+          continue;
+        }
+
+        const saved: CatalogRecord = await repository.save({
+          ...row,
+          ...target,
+        });
+        changes.push({ recordId: row.id as string, before: row, after: saved });
+      }
+      await this.auditService.record(
+        manager,
+        definition.key,
+        'rollback',
+        actor,
+        changes,
+        job.id,
+      );
+    }
+
+    if (
+      !found &&
+      job.insertedRows + job.updatedRows + job.deactivatedRows > 0
+    ) {
+      throw new ConflictException(
+        'La importación no registró sus cambios por registro y no se puede revertir',
+      );
+    }
+
+    if (conflictCount > 0) {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'Conflict',
+        message: `La importación no se revirtió: ${conflictCount} registros se modificaron después de ella o están referenciados por registros activos de otros catálogos`,
+        conflicts,
+        conflictCount,
+      });
+    }
+  }
+
+  /**
+   * Records with audit entries newer than the import's own entry, other than
+   * those of imports that were rolled back since, were edited after it.
+   */
+  private async findEditedAfterImport(
+    manager: EntityManager,
+    definition: CatalogDefinition,
+    job: ImportJob,
+    importedById: Map<string, CatalogAuditLog>,
+  ): Promise<Set<string>> {
+    const later: Array<{ recordId: string; createdAt: Date }> = await manager
+      .getRepository(CatalogAuditLog)
+      .createQueryBuilder('entry')
+      .select('entry.recordId', 'recordId')
+      .addSelect('entry.createdAt', 'createdAt')
+      .where('entry.catalogKey = :catalogKey', { catalogKey: definition.key })
+      .andWhere('entry.recordId IN (:...recordIds)', {
+        recordIds: [...importedById.keys()],
+      })
+      .andWhere('entry.createdAt > :createdAt', { createdAt: job.createdAt })
+      .andWhere(
+        `(entry.importJobId IS NULL OR (entry.importJobId <> :jobId AND NOT EXISTS (
+          SELECT 1 FROM "import_jobs" "later" WHERE "later"."id" = entry.importJobId AND "later"."status" = 'rolled_back'
+        )))`,
+        { jobId: job.id },
+      )
+      .getRawMany();
+    return new Set(
+      later
+        .filter(
+          (entry) =>
+            new Date(entry.createdAt) >
+            importedById.get(entry.recordId).createdAt,
+        )
+        .map((entry) => entry.recordId),
+    );
+  }
+
+  private diffImportedRows(
+    definition: CatalogDefinition,
+    previousRows: CatalogRecord[],
+    currentRows: CatalogRecord[],
+  ): CatalogAuditChange[] {
+    const auditedFields = [
+      ...definition.fields.map((field) => field.name),
+      ...CATALOG_VALIDITY_FIELDS,
+      'isActive',
+    ];
+    const previousById = new Map(previousRows.map((row) => [row.id, row]));
+    const changed: CatalogAuditChange[] = [];
+
+    currentRows.forEach((row) => {
+      const before = previousById.get(row.id);
+      const unchanged =
+        before &&
+        auditedFields.every(
+          (field) =>
+            JSON.stringify(before[field] ?? null) ===
+            JSON.stringify(row[field] ?? null),
+        );
+      if (!unchanged) {
+        changed.push({ recordId: row.id, before: before ?? null, after: row });
+      }
+    });
+
+    return changed;
+  }
+
+  private buildUniqueKey(row: CatalogRecord, uniqueBy: string[]): string {
+    return uniqueBy
+      .map((field) => JSON.stringify(row[field] ?? null))
+      .join('|');
+  }
+
+  private importFields(definition: CatalogDefinition): CatalogImportField[] {
+    return [
+      ...definition.fields.map((field) => ({
+        name: field.name,
+        label: describeCatalogField(field, this.definitions).label,
+        required: Boolean(field.required),
+        keys: [field.name, field.label ?? '', ...(field.excelKeys ?? [])],
+      })),
+      ...CATALOG_VALIDITY_FIELDS.map((name) => ({
+        name,
+        label: validityLabels[name],
+        required: false,
+        keys: [name, validityLabels[name], ...validityExcelKeys[name]],
+      })),
+    ];
+  }
+
+  private importHeaderKeys(
+    definition: CatalogDefinition,
+    saved?: CatalogColumnMapping,
+  ): string[] {
+    return [
+      ...this.importFields(definition).flatMap((field) => field.keys),
+      ...Object.values(saved ?? {}).filter((header): header is string =>
+        Boolean(header),
+      ),
+    ];
+  }
+
+  private suggestColumnMapping(
+    definition: CatalogDefinition,
+    headers: string[],
+    saved?: CatalogColumnMapping,
+  ): CatalogColumnMapping {
+    const used = new Set<string>();
+    const mapping: CatalogColumnMapping = {};
+
+    this.importFields(definition).forEach((field) => {
+      const savedHeader = saved?.[field.name];
+      if (
+        savedHeader === null ||
+        (savedHeader && headers.includes(savedHeader))
+      ) {
+        mapping[field.name] = savedHeader;
+        if (savedHeader) {
+          used.add(savedHeader);
+        }
+        return;
+      }
+      const keys = field.keys
+        .map((key) => this.normaliseHeader(key))
+        .filter(Boolean);
+      const header =
+        headers.find(
+          (candidate) =>
+            !used.has(candidate) &&
+            keys.includes(this.normaliseHeader(candidate)),
+        ) ?? null;
+      mapping[field.name] = header;
+      if (header) {
+        used.add(header);
+      }
+    });
+
+    return mapping;
+  }
+
+  private findMissingColumns(
+    definition: CatalogDefinition,
+    mapping: CatalogColumnMapping,
+  ): string[] {
+    return definition.fields
+      .filter((field) => field.required && !mapping[field.name])
+      .map((field) => field.name);
+  }
+
+  private assertColumnMapping(
+    definition: CatalogDefinition,
+    mapping: CatalogColumnMapping,
+    headers?: string[],
+  ): void {
+    const fieldNames = this.importFields(definition).map((field) => field.name);
+    Object.entries(mapping).forEach(([field, header]) => {
+      if (!fieldNames.includes(field)) {
+        throw new BadRequestException(
+          `El campo "${field}" no existe en ${definition.label}`,
+        );
+      }
+      if (header !== null && typeof header !== 'string') {
+        throw new BadRequestException(
+          `La columna asignada a "${field}" debe ser texto o null`,
+        );
+      }
+      if (header && headers && !headers.includes(header)) {
+        throw new BadRequestException(
+          `La columna "${header}" asignada a "${field}" no existe en el archivo`,
+        );
+      }
+    });
+  }
+
+  private async findImportMapping(
+    catalogKey: string,
+  ): Promise<CatalogImportMapping | null> {
+    return this.dataSource
+      .getRepository(CatalogImportMapping)
+      .findOne({ where: { catalogKey } });
+  }
+
+  private headerLabel(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    return String(value as string).trim();
   }
 
   private normaliseHeader(value: any): string {
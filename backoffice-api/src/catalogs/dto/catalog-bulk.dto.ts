@@ -0,0 +1,47 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsObject,
+  IsUUID,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+
+export const CATALOG_BULK_ACTIONS = [
+  'create',
+  'update',
+  'delete',
+  'deactivate',
+] as const;
+
+export type CatalogBulkAction = (typeof CATALOG_BULK_ACTIONS)[number];
+
+export class CatalogBulkOperationDto {
+  @IsIn(CATALOG_BULK_ACTIONS, {
+    message: `op debe ser uno de: ${CATALOG_BULK_ACTIONS.join(', ')}`,
+  })
+  op!: CatalogBulkAction;
+
+  @ValidateIf((operation: CatalogBulkOperationDto) => operation.op !== 'create')
+  @IsUUID()
+  id?: string;
+
+  @ValidateIf(
+    (operation: CatalogBulkOperationDto) =>
+      operation.op === 'create' || operation.op === 'update',
+  )
+  @IsObject()
+  data?: Record<string, any>;
+}
+
+export class CatalogBulkDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(1000)
+  @ValidateNested({ each: true })
+  @Type(() => CatalogBulkOperationDto)
+  operations!: CatalogBulkOperationDto[];
+}
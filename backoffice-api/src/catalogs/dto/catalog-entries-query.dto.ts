@@ -0,0 +1,47 @@
+import { Transform } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsObject,
+  IsOptional,
+  Matches,
+} from 'class-validator';
+import { CatalogQueryDto } from './catalog-query.dto';
+
+export class CatalogEntriesQueryDto extends CatalogQueryDto {
+  @IsOptional()
+  @IsDateString({ strict: true })
+  asOf?: string;
+
+  @IsOptional()
+  @Transform(
+    ({ obj }: { obj: Record<string, unknown> }) =>
+      obj.includeInactive === true || obj.includeInactive === 'true',
+  )
+  @IsBoolean()
+  includeInactive?: boolean;
+
+  @IsOptional()
+  @Matches(/^\d{4}\.\d+$/, {
+    message: 'release debe tener el formato AAAA.N',
+  })
+  release?: string;
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    (Array.isArray(value) ? value : (value as string).split(','))
+      .map((item) => String(item).trim())
+      .filter(Boolean),
+  )
+  @IsArray()
+  @Matches(/^[a-zA-Z][a-zA-Z0-9]*(:(asc|desc))?$/i, {
+    each: true,
+    message: 'sort debe tener el formato campo:asc|desc',
+  })
+  sort?: string[];
+
+  @IsOptional()
+  @IsObject()
+  filter?: Record<string, unknown>;
+}
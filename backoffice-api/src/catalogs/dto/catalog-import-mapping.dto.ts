@@ -0,0 +1,28 @@
+import { Transform } from 'class-transformer';
+import { IsObject, IsOptional } from 'class-validator';
+import { ImportFileOptionsDto } from '../../imports/dto/import-file-options.dto';
+
+export type CatalogColumnMapping = Record<string, string | null>;
+
+export class CatalogImportOptionsDto extends ImportFileOptionsDto {
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      return value;
+    }
+  })
+  @IsObject({
+    message: 'columnMapping debe ser un objeto JSON de campo a columna',
+  })
+  columnMapping?: CatalogColumnMapping;
+}
+
+export class SaveCatalogImportMappingDto {
+  @IsObject({ message: 'mapping debe ser un objeto de campo a columna' })
+  mapping!: CatalogColumnMapping;
+}
@@ -0,0 +1,33 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDefined,
+  IsNotEmpty,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+
+export type CatalogLookupCode =
+  | string
+  | number
+  | Record<string, string | number>;
+
+export class CatalogLookupItemDto {
+  @IsString()
+  @IsNotEmpty()
+  catalogKey!: string;
+
+  @IsDefined()
+  code!: CatalogLookupCode;
+}
+
+export class CatalogLookupDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => CatalogLookupItemDto)
+  items!: CatalogLookupItemDto[];
+}
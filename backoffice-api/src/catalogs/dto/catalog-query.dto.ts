@@ -1,7 +1,8 @@
 import { Type } from 'class-transformer';
 import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { KeysetQueryDto } from '../../common/dto/keyset-query.dto';
 
-export class CatalogQueryDto {
+export class CatalogQueryDto extends KeysetQueryDto {
   @IsOptional()
   @Type(() => Number)
   @IsInt()
@@ -0,0 +1,43 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import type { ImportJobStatus } from '../import-job.entity';
+
+export const IMPORT_JOB_STATUSES: ImportJobStatus[] = [
+  'pending',
+  'running',
+  'completed',
+  'failed',
+  'rolled_back',
+];
+
+export class ImportJobQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(80)
+  catalogKey?: string;
+
+  @IsOptional()
+  @IsIn(IMPORT_JOB_STATUSES)
+  status?: ImportJobStatus;
+}
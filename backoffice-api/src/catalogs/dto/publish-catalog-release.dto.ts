@@ -0,0 +1,12 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class PublishCatalogReleaseDto {
+  @IsOptional()
+  @IsString()
+  catalogKey?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
@@ -0,0 +1,184 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import type { CatalogFieldType } from '../catalog.definitions';
+
+export const CATALOG_DEFINITION_KEY_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+export const CATALOG_FIELD_NAME_PATTERN = /^[a-z][a-zA-Z0-9]*$/;
+
+export class CatalogFieldReferenceDto {
+  @IsString()
+  @IsNotEmpty()
+  catalog!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  field!: string;
+}
+
+export class CatalogFieldValidationMessagesDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  pattern?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  min?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  max?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  allowedValues?: string;
+}
+
+export class CatalogFieldValidationDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  pattern?: string;
+
+  @IsOptional()
+  @IsNumber()
+  min?: number;
+
+  @IsOptional()
+  @IsNumber()
+  max?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  allowedValues?: Array<string | number>;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CatalogFieldValidationMessagesDto)
+  messages?: CatalogFieldValidationMessagesDto;
+}
+
+export class CatalogCodeFormatDto {
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  width!: number;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 1)
+  padding?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  numeric?: boolean;
+}
+
+export class CatalogFieldDefinitionDto {
+  @IsString()
+  @Matches(CATALOG_FIELD_NAME_PATTERN)
+  @MaxLength(50)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  label?: string;
+
+  @IsIn(['string', 'int', 'numeric', 'reference'])
+  type!: CatalogFieldType;
+
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10485760)
+  length?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  precision?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(1000)
+  scale?: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  excelKeys?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CatalogFieldReferenceDto)
+  reference?: CatalogFieldReferenceDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CatalogFieldValidationDto)
+  validation?: CatalogFieldValidationDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CatalogCodeFormatDto)
+  codeFormat?: CatalogCodeFormatDto;
+}
+
+export class SaveCatalogDefinitionDto {
+  @IsString()
+  @Matches(CATALOG_DEFINITION_KEY_PATTERN)
+  @MaxLength(60)
+  key!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  label!: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => CatalogFieldDefinitionDto)
+  fields!: CatalogFieldDefinitionDto[];
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  uniqueBy!: string[];
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  searchFields!: string[];
+}
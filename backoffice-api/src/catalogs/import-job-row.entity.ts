@@ -0,0 +1,37 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from 'typeorm';
+import { ImportJob } from './import-job.entity';
+
+/**
+ * Validated row of an import waiting to be written. Rows are staged when the
+ * file is uploaded and applied in batches, so a job can resume from
+ * `ImportJob.resumePosition` after the process that started it is gone.
+ */
+@Entity({ name: 'import_job_rows' })
+@Index('import_job_rows_job_key_uq', ['jobId', 'importKey'], { unique: true })
+export class ImportJobRow {
+  @PrimaryColumn({ name: 'job_id', type: 'uuid' })
+  jobId!: string;
+
+  @ManyToOne(() => ImportJob, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'job_id' })
+  job!: ImportJob;
+
+  @PrimaryColumn({ type: 'int' })
+  position!: number;
+
+  @Column({ name: 'row_number', type: 'int' })
+  rowNumber!: number;
+
+  @Column({ name: 'import_key', type: 'text' })
+  importKey!: string;
+
+  @Column({ type: 'jsonb' })
+  data!: Record<string, any>;
+}
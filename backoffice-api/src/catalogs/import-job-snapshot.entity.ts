@@ -0,0 +1,37 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { ImportJob } from './import-job.entity';
+
+@Entity({ name: 'import_job_snapshots' })
+@Index('import_job_snapshots_job_table_uq', ['jobId', 'tableName'], {
+  unique: true,
+})
+export class ImportJobSnapshot {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'job_id', type: 'uuid' })
+  jobId!: string;
+
+  @ManyToOne(() => ImportJob, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'job_id' })
+  job!: ImportJob;
+
+  @Column({ name: 'table_name', length: 63 })
+  tableName!: string;
+
+  @Column({ type: 'int' })
+  position!: number;
+
+  @Column({ name: 'row_count', type: 'int' })
+  rowCount!: number;
+
+  @Column({ type: 'jsonb', select: false })
+  data!: Record<string, unknown>[];
+}
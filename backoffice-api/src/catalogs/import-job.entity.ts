@@ -0,0 +1,93 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+export type ImportJobStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'rolled_back';
+
+@Entity({ name: 'import_jobs' })
+@Index('import_jobs_catalog_created_idx', ['catalogKey', 'createdAt'])
+@Index('import_jobs_created_idx', ['createdAt'])
+@Index('import_jobs_status_updated_idx', ['status', 'updatedAt'])
+export class ImportJob {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'catalog_key', length: 80 })
+  catalogKey!: string;
+
+  @Column({ length: 16 })
+  mode!: 'append' | 'replace';
+
+  @Column({ length: 16, default: 'pending' })
+  status!: ImportJobStatus;
+
+  @Column({ name: 'file_name', type: 'varchar', length: 255, nullable: true })
+  fileName!: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  checksum!: string | null;
+
+  @Column({ name: 'total_rows', type: 'int', default: 0 })
+  totalRows!: number;
+
+  @Column({ name: 'processed_rows', type: 'int', default: 0 })
+  processedRows!: number;
+
+  @Column({ name: 'inserted_rows', type: 'int', default: 0 })
+  insertedRows!: number;
+
+  @Column({ name: 'updated_rows', type: 'int', default: 0 })
+  updatedRows!: number;
+
+  @Column({ name: 'unchanged_rows', type: 'int', default: 0 })
+  unchangedRows!: number;
+
+  @Column({ name: 'deactivated_rows', type: 'int', default: 0 })
+  deactivatedRows!: number;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  errors!: Array<{ row: number; message: string }>;
+
+  /** Position of the last staged row already written to the catalog. */
+  @Column({ name: 'resume_position', type: 'int', default: 0 })
+  resumePosition!: number;
+
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  userId!: string | null;
+
+  @Column({ type: 'varchar', length: 120, nullable: true })
+  username!: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @Column({ name: 'started_at', type: 'timestamptz', nullable: true })
+  startedAt!: Date | null;
+
+  @Column({ name: 'finished_at', type: 'timestamptz', nullable: true })
+  finishedAt!: Date | null;
+
+  @Column({ name: 'rolled_back_at', type: 'timestamptz', nullable: true })
+  rolledBackAt!: Date | null;
+
+  @Column({
+    name: 'rolled_back_by',
+    type: 'varchar',
+    length: 120,
+    nullable: true,
+  })
+  rolledBackBy!: string | null;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
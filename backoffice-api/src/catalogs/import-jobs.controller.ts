@@ -0,0 +1,57 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { ImportJobsService } from './import-jobs.service';
+import { CatalogsService } from './catalogs.service';
+import { CatalogActor } from './catalog-audit.service';
+import { ImportJobQueryDto } from './dto/import-job-query.dto';
+import { CatalogDefinitionsRefreshInterceptor } from './catalog-definitions-refresh.interceptor';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { UserRole } from '../users/user.entity';
+
+@ApiTags('Catalogos - Importaciones')
+@ApiBearerAuth('JWT')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@UseInterceptors(CatalogDefinitionsRefreshInterceptor)
+@Controller('import-jobs')
+export class ImportJobsController {
+  constructor(
+    private readonly importJobsService: ImportJobsService,
+    private readonly catalogsService: CatalogsService,
+  ) {}
+
+  @Roles(UserRole.ADMIN)
+  @Get()
+  async list(@Query() query: ImportJobQueryDto) {
+    return this.importJobsService.list(query);
+  }
+
+  @Roles(UserRole.ADMIN)
+  @Get(':id')
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    // Polling resumes a job whose worker stopped, e.g. after a restart
+    return this.catalogsService.recoverImport(
+      await this.importJobsService.findOne(id),
+    );
+  }
+
+  @Roles(UserRole.ADMIN)
+  @Post(':id/rollback')
+  async rollback(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: { user: CatalogActor },
+  ) {
+    return this.catalogsService.rollbackImport(id, req.user);
+  }
+}
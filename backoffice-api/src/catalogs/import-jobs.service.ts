@@ -0,0 +1,391 @@
+import { createHash } from 'node:crypto';
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Brackets,
+  DataSource,
+  EntityManager,
+  In,
+  LessThan,
+  MoreThan,
+  Repository,
+} from 'typeorm';
+import { CatalogActor } from './catalog-audit.service';
+import { ImportJob } from './import-job.entity';
+import { ImportJobRow } from './import-job-row.entity';
+import { ImportJobSnapshot } from './import-job-snapshot.entity';
+import { ImportJobQueryDto } from './dto/import-job-query.dto';
+
+export type ImportJobChanges = Partial<
+  Pick<
+    ImportJob,
+    | 'status'
+    | 'processedRows'
+    | 'insertedRows'
+    | 'updatedRows'
+    | 'unchangedRows'
+    | 'deactivatedRows'
+    | 'startedAt'
+    | 'finishedAt'
+    | 'errors'
+  >
+>;
+
+export interface ImportJobListResult {
+  data: ImportJob[];
+  meta: {
+    total: number;
+    page: number;
+    limit: number;
+  };
+}
+
+export type StagedImportRow = Pick<
+  ImportJobRow,
+  'position' | 'rowNumber' | 'importKey' | 'data'
+>;
+
+/**
+ * Every batch updates its job, so a pending or running job without progress
+ * for this long has lost the process that was writing it.
+ */
+export const IMPORT_JOB_STALE_MS = 2 * 60 * 1000;
+
+/** Geography imports whose snapshots are kept; older ones can no longer be rolled back. */
+const IMPORT_SNAPSHOT_RETENTION = 5;
+
+export const importFileChecksum = (buffer: Buffer): string =>
+  createHash('sha256').update(buffer).digest('hex');
+
+@Injectable()
+export class ImportJobsService {
+  constructor(
+    @InjectRepository(ImportJob)
+    private readonly jobsRepository: Repository<ImportJob>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async create(
+    data: Pick<
+      ImportJob,
+      | 'catalogKey'
+      | 'mode'
+      | 'fileName'
+      | 'checksum'
+      | 'totalRows'
+      | 'errors'
+      | 'userId'
+      | 'username'
+    >,
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<ImportJob> {
+    const repository = manager.getRepository(ImportJob);
+    return repository.save(repository.create({ ...data, status: 'pending' }));
+  }
+
+  async list(query: ImportJobQueryDto): Promise<ImportJobListResult> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const [data, total] = await this.jobsRepository.findAndCount({
+      where: {
+        ...(query.catalogKey ? { catalogKey: query.catalogKey } : {}),
+        ...(query.status ? { status: query.status } : {}),
+      },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { data, meta: { total, page, limit } };
+  }
+
+  async findOne(id: string): Promise<ImportJob> {
+    const job = await this.jobsRepository.findOne({ where: { id } });
+    if (!job) {
+      throw new NotFoundException(
+        `No existe el trabajo de importación con id "${id}"`,
+      );
+    }
+    return job;
+  }
+
+  async update(id: string, changes: ImportJobChanges): Promise<void> {
+    await this.jobsRepository.update(id, changes);
+  }
+
+  async fail(id: string, message: string): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      const repository = manager.getRepository(ImportJob);
+      const job = await repository.findOne({
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!job) {
+        return;
+      }
+      // Batches commit one by one, so the rows written before the error stay until the job is rolled back
+      const partial =
+        job.processedRows > 0
+          ? `. Se escribieron ${job.processedRows} de ${job.totalRows} filas antes del error; revierta la importación para deshacerlas`
+          : '';
+      job.status = 'failed';
+      job.finishedAt = new Date();
+      job.errors = [...job.errors, { row: 0, message: `${message}${partial}` }];
+      await repository.save(job);
+      await this.clearRows(manager, id);
+    });
+  }
+
+  isStale(job: ImportJob): boolean {
+    return (
+      (job.status === 'pending' || job.status === 'running') &&
+      Date.now() - job.updatedAt.getTime() > IMPORT_JOB_STALE_MS
+    );
+  }
+
+  async findStale(): Promise<ImportJob[]> {
+    return this.jobsRepository.find({
+      where: {
+        status: In(['pending', 'running']),
+        updatedAt: LessThan(new Date(Date.now() - IMPORT_JOB_STALE_MS)),
+      },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Stages validated rows; a key staged again keeps its position and takes
+   * the later row, so the last appearance of a key in the file wins.
+   */
+  async stageRows(
+    manager: EntityManager,
+    jobId: string,
+    rows: StagedImportRow[],
+  ): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(ImportJobRow)
+      .values(rows.map((row) => ({ ...row, jobId })))
+      .orUpdate(['row_number', 'data'], ['job_id', 'import_key'])
+      .execute();
+  }
+
+  async countRows(manager: EntityManager, jobId: string): Promise<number> {
+    return manager.getRepository(ImportJobRow).count({ where: { jobId } });
+  }
+
+  async nextRows(
+    manager: EntityManager,
+    jobId: string,
+    afterPosition: number,
+    limit: number,
+  ): Promise<ImportJobRow[]> {
+    return manager.getRepository(ImportJobRow).find({
+      where: { jobId, position: MoreThan(afterPosition) },
+      order: { position: 'ASC' },
+      take: limit,
+    });
+  }
+
+  async stagedKeys(
+    manager: EntityManager,
+    jobId: string,
+  ): Promise<Set<string>> {
+    const rows = await manager
+      .getRepository(ImportJobRow)
+      .createQueryBuilder('row')
+      .select('row.importKey', 'importKey')
+      .where('row.jobId = :jobId', { jobId })
+      .getRawMany<{ importKey: string }>();
+    return new Set(rows.map((row) => row.importKey));
+  }
+
+  async clearRows(manager: EntityManager, jobId: string): Promise<void> {
+    await manager.getRepository(ImportJobRow).delete({ jobId });
+  }
+
+  /**
+   * Saves the tables a geography import replaces. Catalog imports are rolled
+   * back from their audit entries instead, so only geography jobs call this;
+   * older snapshots are pruned because only the latest imports can be rolled
+   * back anyway.
+   */
+  async snapshot(id: string, tableNames: string[]): Promise<void> {
+    await this.dataSource.transaction('REPEATABLE READ', async (manager) => {
+      for (const [position, tableName] of tableNames.entries()) {
+        await manager.query(
+          `INSERT INTO "import_job_snapshots" ("job_id", "table_name", "position", "row_count", "data")
+           SELECT $1, $2, $3, COUNT(*)::int, COALESCE(jsonb_agg(to_jsonb(t)), '[]'::jsonb) FROM "${tableName}" t`,
+          [id, tableName, position],
+        );
+      }
+      await manager.query(
+        `DELETE FROM "import_job_snapshots" WHERE "job_id" IN (
+           SELECT "id" FROM "import_jobs"
+           WHERE "id" IN (SELECT "job_id" FROM "import_job_snapshots")
+           ORDER BY "created_at" DESC OFFSET $1
+         )`,
+        [IMPORT_SNAPSHOT_RETENTION],
+      );
+    });
+  }
+
+  /** Locks a finished job so only one rollback of it can run at a time. */
+  async lockForRollback(
+    manager: EntityManager,
+    id: string,
+  ): Promise<ImportJob> {
+    const job = await manager.getRepository(ImportJob).findOne({
+      where: { id },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!job) {
+      throw new NotFoundException(
+        `No existe el trabajo de importación con id "${id}"`,
+      );
+    }
+    if (job.status !== 'completed' && job.status !== 'failed') {
+      throw new ConflictException(
+        `La importación está en estado "${job.status}" y no se puede revertir`,
+      );
+    }
+    return job;
+  }
+
+  /**
+   * Imports are undone newest first: a later import of the same catalog, or
+   * one whose snapshot covers the same tables, has to be rolled back before.
+   */
+  async assertLatestImport(
+    manager: EntityManager,
+    job: ImportJob,
+  ): Promise<void> {
+    const tableNames = (
+      await manager.getRepository(ImportJobSnapshot).find({
+        select: { tableName: true },
+        where: { jobId: job.id },
+      })
+    ).map((snapshot) => snapshot.tableName);
+    const later = await manager
+      .getRepository(ImportJob)
+      .createQueryBuilder('job')
+      .where('job.createdAt > :createdAt', { createdAt: job.createdAt })
+      .andWhere('job.status <> :rolledBack', { rolledBack: 'rolled_back' })
+      .andWhere(
+        new Brackets((where) => {
+          where.where('job.catalogKey = :catalogKey', {
+            catalogKey: job.catalogKey,
+          });
+          if (tableNames.length > 0) {
+            where.orWhere(
+              'EXISTS (SELECT 1 FROM "import_job_snapshots" "snapshot" WHERE "snapshot"."job_id" = job.id AND "snapshot"."table_name" IN (:...tableNames))',
+              { tableNames },
+            );
+          }
+        }),
+      )
+      .orderBy('job.createdAt', 'ASC')
+      .getOne();
+    if (later) {
+      throw new ConflictException(
+        `La importación "${later.fileName ?? later.id}" del ${later.createdAt.toISOString()} modificó después los mismos datos; reviértala primero`,
+      );
+    }
+  }
+
+  async markRolledBack(
+    manager: EntityManager,
+    job: ImportJob,
+    actor?: CatalogActor,
+  ): Promise<void> {
+    await manager.getRepository(ImportJob).update(job.id, {
+      status: 'rolled_back',
+      rolledBackAt: new Date(),
+      rolledBackBy: actor?.username ?? null,
+    });
+  }
+
+  /**
+   * Restores the snapshot of a geography import. Geography tables have no
+   * audit trail, so the rollback is refused when any of their rows changed
+   * after the import instead of silently discarding those edits.
+   */
+  async rollback(id: string, actor?: CatalogActor): Promise<ImportJob> {
+    await this.dataSource.transaction(async (manager) => {
+      const job = await this.lockForRollback(manager, id);
+      const snapshots = await manager.getRepository(ImportJobSnapshot).find({
+        where: { jobId: id },
+        order: { position: 'ASC' },
+      });
+      if (!snapshots.length) {
+        throw new ConflictException(
+          'La importación ya no conserva el estado previo de las tablas y no se puede revertir',
+        );
+      }
+      await this.assertLatestImport(manager, job);
+
+      const tables = snapshots.map((snapshot) => `"${snapshot.tableName}"`);
+      await manager.query(`LOCK TABLE ${tables.join(', ')} IN EXCLUSIVE MODE`);
+      for (const snapshot of snapshots) {
+        // Rolling back a later import also rewrites updated_at, so edits only count after that
+        const [{ edited }] = await manager.query<Array<{ edited: boolean }>>(
+          `SELECT EXISTS (
+             SELECT 1 FROM "${snapshot.tableName}" WHERE "updated_at" > (
+               SELECT GREATEST($1::timestamptz, MAX("later"."rolled_back_at"))
+               FROM "import_job_snapshots" "snapshot"
+               JOIN "import_jobs" "later" ON "later"."id" = "snapshot"."job_id"
+               WHERE "snapshot"."table_name" = $2 AND "later"."status" = 'rolled_back' AND "later"."created_at" > $3
+             )
+           ) AS "edited"`,
+          [job.finishedAt ?? job.createdAt, snapshot.tableName, job.createdAt],
+        );
+        if (edited) {
+          throw new ConflictException(
+            `La tabla "${snapshot.tableName}" tiene cambios posteriores a la importación; revertirla los descartaría`,
+          );
+        }
+      }
+
+      await this.restoreSnapshots(manager, snapshots);
+      await this.markRolledBack(manager, job, actor);
+    });
+    return this.findOne(id);
+  }
+
+  private async restoreSnapshots(
+    manager: EntityManager,
+    snapshots: ImportJobSnapshot[],
+  ): Promise<void> {
+    const tables = snapshots.map((snapshot) => `"${snapshot.tableName}"`);
+    // Children first so cascading foreign keys never touch rows that are restored later
+    for (const table of [...tables].reverse()) {
+      await manager.query(`DELETE FROM ${table}`);
+    }
+    for (const snapshot of snapshots) {
+      const rows = await manager.query<Array<{ column_name: string }>>(
+        `SELECT column_name FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = $1 AND is_generated = 'NEVER'
+         ORDER BY ordinal_position`,
+        [snapshot.tableName],
+      );
+      const columns = rows.map(({ column_name }) => `"${column_name}"`);
+      // Restored rows count as changed now, so clients syncing by updated_at pick them up
+      const values = columns.map((column) =>
+        column === '"updated_at"' ? 'NOW()' : column,
+      );
+      await manager.query(
+        `INSERT INTO "${snapshot.tableName}" (${columns.join(', ')})
+         SELECT ${values.join(', ')} FROM jsonb_populate_recordset(NULL::"${snapshot.tableName}",
+           (SELECT "data" FROM "import_job_snapshots" WHERE "id" = $1))`,
+        [snapshot.id],
+      );
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpStatus,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { createHash } from 'node:crypto';
+import { Observable, map } from 'rxjs';
+
+interface ConditionalRequest {
+  headers: Record<string, string | string[] | undefined>;
+}
+
+interface ConditionalResponse {
+  setHeader(name: string, value: string): void;
+  status(code: number): void;
+}
+
+@Injectable()
+export class ConditionalGetInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<ConditionalRequest>();
+    const response = http.getResponse<ConditionalResponse>();
+
+    return next.handle().pipe(
+      map((body: unknown) => {
+        const etag = `"${createHash('sha1')
+          .update(JSON.stringify(body) ?? '')
+          .digest('base64url')}"`;
+        response.setHeader('ETag', etag);
+
+        const lastModified = this.resolveLastModified(body);
+        if (lastModified) {
+          response.setHeader('Last-Modified', lastModified.toUTCString());
+        }
+
+        if (this.matchesEtag(request.headers['if-none-match'], etag)) {
+          response.status(HttpStatus.NOT_MODIFIED);
+          return undefined;
+        }
+        return body;
+      }),
+    );
+  }
+
+  private matchesEtag(
+    header: string | string[] | undefined,
+    etag: string,
+  ): boolean {
+    if (!header) {
+      return false;
+    }
+
+    const candidates = (Array.isArray(header) ? header.join(',') : header)
+      .split(',')
+      .map((value) => value.trim().replace(/^W\//, ''));
+    return candidates.includes('*') || candidates.includes(etag);
+  }
+
+  private resolveLastModified(body: unknown): Date | null {
+    if (!body || typeof body !== 'object') {
+      return null;
+    }
+
+    const { data } = body as { data?: unknown };
+    const records: unknown[] = Array.isArray(data) ? data : [body];
+    const timestamps = records
+      .map((record) => (record as { updatedAt?: unknown } | null)?.updatedAt)
+      .filter(
+        (value): value is string | Date =>
+          typeof value === 'string' || value instanceof Date,
+      )
+      .map((value) => new Date(value).getTime())
+      .filter((value) => !Number.isNaN(value));
+
+    return timestamps.length > 0 ? new Date(Math.max(...timestamps)) : null;
+  }
+}
@@ -0,0 +1,27 @@
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class KeysetQueryDto {
+  @IsOptional()
+  @IsIn(['offset', 'cursor'])
+  pagination?: 'offset' | 'cursor';
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(4000)
+  cursor?: string;
+
+  @IsOptional()
+  @Transform(
+    ({ obj }: { obj: Record<string, unknown> }) =>
+      obj.includeTotal === true || obj.includeTotal === 'true',
+  )
+  @IsBoolean()
+  includeTotal?: boolean;
+}
@@ -0,0 +1,186 @@
+import { BadRequestException } from '@nestjs/common';
+import { DataSource, ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { paginateByKeyset } from './keyset-pagination';
+import { KeysetQueryDto } from './dto/keyset-query.dto';
+
+interface Row {
+  id: string;
+  keys: Array<string | null>;
+}
+
+// Builds SQL only; the rows a page would read are supplied by each test
+const dataSource = new DataSource({ type: 'postgres' });
+
+const itemsQuery = (
+  ...orders: Array<[string, 'ASC' | 'DESC']>
+): SelectQueryBuilder<ObjectLiteral> => {
+  const qb = dataSource
+    .createQueryBuilder()
+    .select('item')
+    .from('items', 'item');
+  orders.forEach(([expression, direction]) =>
+    qb.addOrderBy(expression, direction),
+  );
+  return qb;
+};
+
+const paginate = async (
+  qb: SelectQueryBuilder<ObjectLiteral>,
+  query: KeysetQueryDto,
+  limit: number,
+  rows: Row[] = [],
+) => {
+  jest.spyOn(qb, 'getRawAndEntities').mockResolvedValue({
+    entities: rows.map(({ id }) => ({ id })),
+    raw: rows.map(({ keys }) => ({ keyset_cursor: keys })),
+  });
+  const page = await paginateByKeyset(qb, query, limit);
+  const [sql, parameters] = qb.getQueryAndParameters();
+  return { page, sql, parameters };
+};
+
+const cursorOf = (payload: unknown): string =>
+  Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+describe('paginateByKeyset', () => {
+  describe('first page', () => {
+    it('adds the id as a tie-breaker and reads one row past the limit', async () => {
+      const { sql } = await paginate(itemsQuery(['item.name', 'ASC']), {}, 2);
+
+      expect(sql).toContain(
+        'ORDER BY item.name ASC NULLS LAST, item.id ASC NULLS LAST',
+      );
+      expect(sql).toContain(
+        'ARRAY[(item.name)::text, (item.id)::text] AS "keyset_cursor"',
+      );
+      expect(sql).toContain('LIMIT 3');
+    });
+
+    it('does not repeat an id order the query already has', async () => {
+      const { sql } = await paginate(
+        itemsQuery(['item.name', 'ASC'], ['item.id', 'DESC']),
+        {},
+        2,
+      );
+
+      expect(sql).toContain(
+        'ORDER BY item.name ASC NULLS LAST, item.id DESC NULLS LAST',
+      );
+    });
+
+    it('returns no cursors when everything fits in one page', async () => {
+      const { page } = await paginate(itemsQuery(['item.name', 'ASC']), {}, 2, [
+        { id: 'a', keys: ['Alfa', 'a'] },
+      ]);
+
+      expect(page.data).toEqual([{ id: 'a' }]);
+      expect(page.meta).toEqual({
+        limit: 2,
+        nextCursor: null,
+        prevCursor: null,
+      });
+    });
+
+    it('drops the extra row and points the next cursor at the last row shown', async () => {
+      const { page } = await paginate(itemsQuery(['item.name', 'ASC']), {}, 2, [
+        { id: 'a', keys: ['Alfa', 'a'] },
+        { id: 'b', keys: ['Beta', 'b'] },
+        { id: 'c', keys: ['Gama', 'c'] },
+      ]);
+
+      expect(page.data).toEqual([{ id: 'a' }, { id: 'b' }]);
+      expect(page.meta.prevCursor).toBeNull();
+      expect(page.meta.nextCursor).toBe(cursorOf(['next', 'Beta', 'b']));
+    });
+  });
+
+  describe('following a cursor', () => {
+    it('continues after the cursor row, breaking ties by id', async () => {
+      const { page, sql, parameters } = await paginate(
+        itemsQuery(['item.name', 'ASC']),
+        { cursor: cursorOf(['next', 'Beta', 'b']) },
+        2,
+        [{ id: 'c', keys: ['Beta', 'c'] }],
+      );
+
+      expect(sql).toContain(
+        '((item.name > $1 OR item.name IS NULL)) OR (item.name = $1 AND (item.id > $2 OR item.id IS NULL))',
+      );
+      expect(parameters).toEqual(['Beta', 'b']);
+      expect(page.meta.prevCursor).toBe(cursorOf(['prev', 'Beta', 'c']));
+      expect(page.meta.nextCursor).toBeNull();
+    });
+
+    it('compares downwards for descending columns', async () => {
+      const { sql } = await paginate(
+        itemsQuery(['item.updatedAt', 'DESC']),
+        { cursor: cursorOf(['next', '2024-05-01', 'b']) },
+        2,
+      );
+
+      expect(sql).toContain('(item.updatedAt < $1 OR item.updatedAt IS NULL)');
+      expect(sql).toContain('item.updatedAt = $1 AND (item.id > $2');
+    });
+
+    it('continues past rows whose sort value is null', async () => {
+      const { sql, parameters } = await paginate(
+        itemsQuery(['item.name', 'ASC']),
+        { cursor: cursorOf(['next', null, 'b']) },
+        2,
+      );
+
+      expect(sql).toContain(
+        '(FALSE) OR (item.name IS NULL AND (item.id > $1 OR item.id IS NULL))',
+      );
+      expect(parameters).toEqual(['b']);
+    });
+
+    it('reads backwards for a previous cursor and restores the display order', async () => {
+      const { page, sql } = await paginate(
+        itemsQuery(['item.name', 'ASC']),
+        { cursor: cursorOf(['prev', 'Gama', 'c']) },
+        2,
+        [
+          { id: 'b', keys: ['Beta', 'b'] },
+          { id: 'a', keys: ['Alfa', 'a'] },
+        ],
+      );
+
+      expect(sql).toContain(
+        'ORDER BY item.name DESC NULLS FIRST, item.id DESC NULLS FIRST',
+      );
+      expect(sql).toContain(
+        '(item.name < $1) OR (item.name = $1 AND item.id < $2)',
+      );
+      expect(page.data).toEqual([{ id: 'a' }, { id: 'b' }]);
+      expect(page.meta.prevCursor).toBeNull();
+      expect(page.meta.nextCursor).toBe(cursorOf(['next', 'Beta', 'b']));
+    });
+  });
+
+  describe('invalid cursors', () => {
+    const rejects = (cursor: string) =>
+      expect(
+        paginate(itemsQuery(['item.name', 'ASC']), { cursor }, 2),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'El cursor no es válido para este listado; vuelva a la primera página',
+        ),
+      );
+
+    it('rejects a value that is not an encoded cursor', () =>
+      rejects('no-es-un-cursor'));
+
+    it('rejects a cursor from a listing with another order', () =>
+      rejects(cursorOf(['next', 'b'])));
+
+    it('rejects an unknown direction', () =>
+      rejects(cursorOf(['back', 'Beta', 'b'])));
+
+    it('rejects values that are not text', () =>
+      rejects(cursorOf(['next', { $gt: '' }, 'b'])));
+
+    it('rejects a cursor that is not a list', () =>
+      rejects(cursorOf({ direction: 'next', values: ['Beta', 'b'] })));
+  });
+});
@@ -0,0 +1,190 @@
+import { BadRequestException } from '@nestjs/common';
+import { Brackets, ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { KeysetQueryDto } from './dto/keyset-query.dto';
+
+type KeysetDirection = 'ASC' | 'DESC';
+
+interface KeysetOrder {
+  expression: string;
+  direction: KeysetDirection;
+}
+
+interface KeysetCursor {
+  direction: 'next' | 'prev';
+  values: Array<string | null>;
+}
+
+export interface KeysetPageMeta {
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  total?: number;
+}
+
+export interface KeysetPage<T> {
+  data: T[];
+  meta: KeysetPageMeta;
+}
+
+export function isKeysetQuery(query: KeysetQueryDto): boolean {
+  return query.pagination === 'cursor' || Boolean(query.cursor);
+}
+
+export async function paginateByKeyset<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  query: KeysetQueryDto,
+  limit: number,
+): Promise<KeysetPage<T>> {
+  const order = resolveKeysetOrder(qb);
+  const cursor = query.cursor
+    ? decodeKeysetCursor(query.cursor, order.length)
+    : null;
+  const backwards = cursor?.direction === 'prev';
+  const total = query.includeTotal ? await qb.clone().getCount() : undefined;
+
+  qb.orderBy();
+  order.forEach(({ expression, direction }) => {
+    const effective = backwards ? reverse(direction) : direction;
+    qb.addOrderBy(
+      expression,
+      effective,
+      backwards ? 'NULLS FIRST' : 'NULLS LAST',
+    );
+  });
+  qb.addSelect(
+    `ARRAY[${order.map(({ expression }) => `(${expression})::text`).join(', ')}]`,
+    'keyset_cursor',
+  );
+  if (cursor) {
+    qb.andWhere(buildKeysetCondition(order, cursor));
+  }
+  qb.limit(limit + 1);
+
+  const { entities, raw } = await qb.getRawAndEntities<{
+    keyset_cursor: Array<string | null>;
+  }>();
+  const hasMore = entities.length > limit;
+  const data = entities.slice(0, limit);
+  const keys = raw.slice(0, limit).map((row) => row.keyset_cursor);
+  if (backwards) {
+    data.reverse();
+    keys.reverse();
+  }
+
+  const hasNext = backwards || hasMore;
+  const hasPrev = backwards ? hasMore : Boolean(cursor);
+  return {
+    data,
+    meta: {
+      limit,
+      nextCursor:
+        hasNext && keys.length
+          ? encodeKeysetCursor({
+              direction: 'next',
+              values: keys[keys.length - 1],
+            })
+          : null,
+      prevCursor:
+        hasPrev && keys.length
+          ? encodeKeysetCursor({ direction: 'prev', values: keys[0] })
+          : null,
+      ...(total !== undefined ? { total } : {}),
+    },
+  };
+}
+
+function resolveKeysetOrder<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+): KeysetOrder[] {
+  const order = Object.entries(qb.expressionMap.orderBys).map(
+    ([expression, value]) => ({
+      expression,
+      direction: typeof value === 'string' ? value : value.order,
+    }),
+  );
+  const idExpression = `${qb.alias}.id`;
+  if (!order.some(({ expression }) => expression === idExpression)) {
+    order.push({ expression: idExpression, direction: 'ASC' });
+  }
+  return order;
+}
+
+function buildKeysetCondition(
+  order: KeysetOrder[],
+  cursor: KeysetCursor,
+): Brackets {
+  const backwards = cursor.direction === 'prev';
+  return new Brackets((where) => {
+    order.forEach((_, index) => {
+      where.orWhere(
+        new Brackets((branch) => {
+          order
+            .slice(0, index + 1)
+            .forEach(({ expression, direction }, position) => {
+              const param = `keyset_${position}`;
+              const value = cursor.values[position];
+              const parameters = { [param]: value };
+              if (position < index) {
+                branch.andWhere(
+                  value === null
+                    ? `${expression} IS NULL`
+                    : `${expression} = :${param}`,
+                  parameters,
+                );
+                return;
+              }
+              const ascending = (direction === 'ASC') !== backwards;
+              if (value === null) {
+                branch.andWhere(
+                  backwards ? `${expression} IS NOT NULL` : 'FALSE',
+                );
+              } else if (backwards) {
+                branch.andWhere(
+                  `${expression} ${ascending ? '>' : '<'} :${param}`,
+                  parameters,
+                );
+              } else {
+                branch.andWhere(
+                  `(${expression} ${ascending ? '>' : '<'} :${param} OR ${expression} IS NULL)`,
+                  parameters,
+                );
+              }
+            });
+        }),
+      );
+    });
+  });
+}
+
+function reverse(direction: KeysetDirection): KeysetDirection {
+  return direction === 'ASC' ? 'DESC' : 'ASC';
+}
+
+function encodeKeysetCursor(cursor: KeysetCursor): string {
+  return Buffer.from(
+    JSON.stringify([cursor.direction, ...cursor.values]),
+  ).toString('base64url');
+}
+
+function decodeKeysetCursor(value: string, size: number): KeysetCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    decoded = null;
+  }
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== size + 1 ||
+    (decoded[0] !== 'next' && decoded[0] !== 'prev') ||
+    decoded.slice(1).some((item) => item !== null && typeof item !== 'string')
+  ) {
+    throw new BadRequestException(
+      'El cursor no es válido para este listado; vuelva a la primera página',
+    );
+  }
+  return {
+    direction: decoded[0] as KeysetCursor['direction'],
+    values: decoded.slice(1) as Array<string | null>,
+  };
+}
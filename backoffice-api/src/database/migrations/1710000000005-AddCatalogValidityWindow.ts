@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCatalogValidityWindow1710000000005
+  implements MigrationInterface
+{
+  name = 'AddCatalogValidityWindow1710000000005';
+
+  private readonly tables: string[] = [
+    'tipos_documento',
+    'situaciones_presentacion',
+    'actividades_economicas',
+    'condiciones_venta',
+    'tipos_identificacion',
+    'formas_farmaceuticas',
+    'tipos_codigo_ps',
+    'unidades_medida',
+    'tipos_transaccion',
+    'tipos_descuento',
+    'tipos_impuestos',
+    'tarifas_iva',
+    'tipos_documento_exoneracion',
+    'instituciones_exoneracion',
+    'tipos_otros_cargos',
+    'codigos_moneda',
+    'medios_pago',
+    'tipos_documento_referencia',
+    'codigos_referencia',
+    'mensajes_recepcion',
+    'condiciones_impuesto',
+    'cabys',
+  ];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const table of this.tables) {
+      await queryRunner.query(
+        `ALTER TABLE "${table}" ADD COLUMN IF NOT EXISTS "vigente_desde" date`,
+      );
+      await queryRunner.query(
+        `ALTER TABLE "${table}" ADD COLUMN IF NOT EXISTS "vigente_hasta" date`,
+      );
+      await queryRunner.query(
+        `ALTER TABLE "${table}" ADD CONSTRAINT "${table}_vigencia_chk" CHECK (vigente_desde IS NULL OR vigente_hasta IS NULL OR vigente_desde <= vigente_hasta)`,
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const table of this.tables) {
+      await queryRunner.query(
+        `ALTER TABLE "${table}" DROP CONSTRAINT IF EXISTS "${table}_vigencia_chk"`,
+      );
+      await queryRunner.query(
+        `ALTER TABLE "${table}" DROP COLUMN IF EXISTS "vigente_hasta"`,
+      );
+      await queryRunner.query(
+        `ALTER TABLE "${table}" DROP COLUMN IF EXISTS "vigente_desde"`,
+      );
+    }
+  }
+}
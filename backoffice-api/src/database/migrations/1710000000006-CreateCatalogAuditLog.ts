@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCatalogAuditLog1710000000006 implements MigrationInterface {
+  name = 'CreateCatalogAuditLog1710000000006';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "catalog_audit_log" (
+        "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        "catalog_key" varchar(80) NOT NULL,
+        "record_id" uuid NOT NULL,
+        "action" varchar(16) NOT NULL,
+        "user_id" uuid,
+        "username" varchar(120),
+        "before_data" jsonb,
+        "after_data" jsonb,
+        "created_at" timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      'CREATE INDEX IF NOT EXISTS "catalog_audit_log_record_idx" ON "catalog_audit_log" ("catalog_key", "record_id", "created_at")',
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      'DROP INDEX IF EXISTS "catalog_audit_log_record_idx"',
+    );
+    await queryRunner.query('DROP TABLE IF EXISTS "catalog_audit_log"');
+  }
+}
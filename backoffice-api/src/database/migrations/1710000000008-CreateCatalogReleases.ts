@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCatalogReleases1710000000008 implements MigrationInterface {
+  name = 'CreateCatalogReleases1710000000008';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "catalog_releases" (
+        "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        "version" varchar(20) NOT NULL,
+        "checksum" varchar(64) NOT NULL,
+        "notes" varchar(500),
+        "published_by_id" uuid,
+        "published_by" varchar(120),
+        "created_at" timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      'CREATE UNIQUE INDEX IF NOT EXISTS "catalog_releases_version_uq" ON "catalog_releases" ("version")',
+    );
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "catalog_release_snapshots" (
+        "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        "release_id" uuid NOT NULL REFERENCES "catalog_releases" ("id") ON DELETE CASCADE,
+        "catalog_key" varchar(80) NOT NULL,
+        "checksum" varchar(64) NOT NULL,
+        "entry_count" integer NOT NULL,
+        "data" jsonb NOT NULL
+      )
+    `);
+    await queryRunner.query(
+      'CREATE UNIQUE INDEX IF NOT EXISTS "catalog_release_snapshots_release_catalog_uq" ON "catalog_release_snapshots" ("release_id", "catalog_key")',
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS "catalog_release_snapshots"');
+    await queryRunner.query('DROP TABLE IF EXISTS "catalog_releases"');
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateImportJobs1710000000009 implements MigrationInterface {
+  name = 'CreateImportJobs1710000000009';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "import_jobs" (
+        "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        "catalog_key" varchar(80) NOT NULL,
+        "mode" varchar(16) NOT NULL,
+        "status" varchar(16) NOT NULL DEFAULT 'pending',
+        "file_name" varchar(255),
+        "total_rows" integer NOT NULL DEFAULT 0,
+        "processed_rows" integer NOT NULL DEFAULT 0,
+        "inserted_rows" integer NOT NULL DEFAULT 0,
+        "updated_rows" integer NOT NULL DEFAULT 0,
+        "unchanged_rows" integer NOT NULL DEFAULT 0,
+        "deactivated_rows" integer NOT NULL DEFAULT 0,
+        "errors" jsonb NOT NULL DEFAULT '[]',
+        "user_id" uuid,
+        "username" varchar(120),
+        "created_at" timestamptz NOT NULL DEFAULT now(),
+        "started_at" timestamptz,
+        "finished_at" timestamptz,
+        "updated_at" timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      'CREATE INDEX IF NOT EXISTS "import_jobs_catalog_created_idx" ON "import_jobs" ("catalog_key", "created_at")',
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS "import_jobs"');
+  }
+}
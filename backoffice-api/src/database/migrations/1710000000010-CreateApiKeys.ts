@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateApiKeys1710000000010 implements MigrationInterface {
+  name = 'CreateApiKeys1710000000010';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "api_keys" (
+        "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        "name" varchar(120) NOT NULL,
+        "key_prefix" varchar(16) NOT NULL,
+        "key_hash" varchar(64) NOT NULL,
+        "expires_at" timestamptz,
+        "last_used_at" timestamptz,
+        "revoked_at" timestamptz,
+        "created_by" varchar(120),
+        "created_at" timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      'CREATE UNIQUE INDEX IF NOT EXISTS "api_keys_key_hash_uq" ON "api_keys" ("key_hash")',
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS "api_keys"');
+  }
+}
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCatalogUpdatedAtIndex1710000000011
+  implements MigrationInterface
+{
+  name = 'AddCatalogUpdatedAtIndex1710000000011';
+
+  private readonly tables: string[] = [
+    'tipos_documento',
+    'situaciones_presentacion',
+    'actividades_economicas',
+    'condiciones_venta',
+    'tipos_identificacion',
+    'formas_farmaceuticas',
+    'tipos_codigo_ps',
+    'unidades_medida',
+    'tipos_transaccion',
+    'tipos_descuento',
+    'tipos_impuestos',
+    'tarifas_iva',
+    'tipos_documento_exoneracion',
+    'instituciones_exoneracion',
+    'tipos_otros_cargos',
+    'codigos_moneda',
+    'medios_pago',
+    'tipos_documento_referencia',
+    'codigos_referencia',
+    'mensajes_recepcion',
+    'condiciones_impuesto',
+    'cabys',
+  ];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const table of this.tables) {
+      await queryRunner.query(
+        `CREATE INDEX IF NOT EXISTS "${table}_updated_at_idx" ON "${table}" ("updated_at", "id")`,
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const table of this.tables) {
+      await queryRunner.query(`DROP INDEX IF EXISTS "${table}_updated_at_idx"`);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCatalogSearchIndex1710000000012 implements MigrationInterface {
+  name = 'AddCatalogSearchIndex1710000000012';
+
+  private readonly searchColumns: Record<string, string[]> = {
+    tipos_documento: ['descripcion', 'codigo'],
+    situaciones_presentacion: ['descripcion', 'codigo'],
+    actividades_economicas: ['nombre', 'codigo'],
+    condiciones_venta: ['descripcion', 'codigo'],
+    tipos_identificacion: ['descripcion', 'codigo'],
+    formas_farmaceuticas: ['descripcion', 'codigo'],
+    tipos_codigo_ps: ['descripcion', 'codigo'],
+    unidades_medida: ['unidad', 'simbolo', 'tipo_unidad'],
+    tipos_transaccion: ['descripcion', 'codigo'],
+    tipos_descuento: ['descripcion', 'codigo'],
+    tipos_impuestos: ['descripcion', 'codigo'],
+    tarifas_iva: ['descripcion', 'codigo'],
+    tipos_documento_exoneracion: ['descripcion', 'codigo'],
+    instituciones_exoneracion: ['descripcion', 'codigo'],
+    tipos_otros_cargos: ['descripcion', 'codigo'],
+    codigos_moneda: ['pais', 'moneda', 'codigo'],
+    medios_pago: ['descripcion', 'codigo'],
+    tipos_documento_referencia: ['descripcion', 'codigo'],
+    codigos_referencia: ['descripcion', 'codigo'],
+    mensajes_recepcion: ['descripcion', 'codigo'],
+    condiciones_impuesto: ['descripcion', 'codigo'],
+    cabys: ['categoria', 'descripcion'],
+  };
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('CREATE EXTENSION IF NOT EXISTS unaccent');
+    await queryRunner.query(`
+      CREATE OR REPLACE FUNCTION catalog_search_vector(document text)
+      RETURNS tsvector LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT AS $$
+        SELECT to_tsvector('simple'::regconfig, public.unaccent('public.unaccent'::regdictionary, document))
+      $$
+    `);
+    await queryRunner.query(`
+      CREATE OR REPLACE FUNCTION catalog_search_query(terms text)
+      RETURNS tsquery LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT AS $$
+        SELECT to_tsquery('simple'::regconfig, public.unaccent('public.unaccent'::regdictionary, terms))
+      $$
+    `);
+
+    for (const [table, columns] of Object.entries(this.searchColumns)) {
+      const document = columns
+        .map((column) => `coalesce(CAST("${column}" AS TEXT), '')`)
+        .join(` || ' ' || `);
+      await queryRunner.query(
+        `CREATE INDEX IF NOT EXISTS "${table}_search_idx" ON "${table}" USING gin (catalog_search_vector(${document}))`,
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const table of Object.keys(this.searchColumns)) {
+      await queryRunner.query(`DROP INDEX IF EXISTS "${table}_search_idx"`);
+    }
+    await queryRunner.query(
+      'DROP FUNCTION IF EXISTS catalog_search_query(text)',
+    );
+    await queryRunner.query(
+      'DROP FUNCTION IF EXISTS catalog_search_vector(text)',
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCatalogDefinitions1710000000013
+  implements MigrationInterface
+{
+  name = 'CreateCatalogDefinitions1710000000013';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "catalog_definitions" (
+        "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        "key" varchar(80) NOT NULL UNIQUE,
+        "label" varchar(200) NOT NULL,
+        "table_name" varchar(63) NOT NULL UNIQUE,
+        "fields" jsonb NOT NULL DEFAULT '[]',
+        "unique_by" jsonb NOT NULL DEFAULT '[]',
+        "search_fields" jsonb NOT NULL DEFAULT '[]',
+        "updated_by" varchar(120),
+        "created_at" timestamptz NOT NULL DEFAULT now(),
+        "updated_at" timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS "catalog_definitions"');
+  }
+}
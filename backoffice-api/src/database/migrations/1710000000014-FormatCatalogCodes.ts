@@ -0,0 +1,205 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+interface StoredField {
+  name: string;
+  type: string;
+  reference?: { catalog: string; field: string };
+}
+
+interface CodeColumn {
+  key: string;
+  table: string;
+  width: number;
+  previousType: string;
+}
+
+export class FormatCatalogCodes1710000000014 implements MigrationInterface {
+  name = 'FormatCatalogCodes1710000000014';
+
+  private readonly targets: CodeColumn[] = [
+    {
+      key: 'tipos-documento',
+      table: 'tipos_documento',
+      width: 2,
+      previousType: 'int',
+    },
+    {
+      key: 'situaciones-presentacion',
+      table: 'situaciones_presentacion',
+      width: 1,
+      previousType: 'numeric(12,4)',
+    },
+    {
+      key: 'actividades-economicas',
+      table: 'actividades_economicas',
+      width: 6,
+      previousType: 'numeric(12,4)',
+    },
+    {
+      key: 'condiciones-venta',
+      table: 'condiciones_venta',
+      width: 2,
+      previousType: 'numeric(12,4)',
+    },
+    {
+      key: 'tipos-identificacion',
+      table: 'tipos_identificacion',
+      width: 2,
+      previousType: 'numeric(12,4)',
+    },
+    {
+      key: 'formas-farmaceuticas',
+      table: 'formas_farmaceuticas',
+      width: 2,
+      previousType: 'int',
+    },
+    {
+      key: 'tipos-codigo-ps',
+      table: 'tipos_codigo_ps',
+      width: 2,
+      previousType: 'numeric(12,4)',
+    },
+    {
+      key: 'tipos-transaccion',
+      table: 'tipos_transaccion',
+      width: 2,
+      previousType: 'numeric(12,4)',
+    },
+    {
+      key: 'tipos-descuento',
+      table: 'tipos_descuento',
+      width: 2,
+      previousType: 'int',
+    },
+    {
+      key: 'tipos-impuestos',
+      table: 'tipos_impuestos',
+      width: 2,
+      previousType: 'numeric(12,4)',
+    },
+    { key: 'tarifas-iva', table: 'tarifas_iva', width: 2, previousType: 'int' },
+    {
+      key: 'tipos-documento-exoneracion',
+      table: 'tipos_documento_exoneracion',
+      width: 2,
+      previousType: 'numeric(12,4)',
+    },
+    {
+      key: 'instituciones-exoneracion',
+      table: 'instituciones_exoneracion',
+      width: 2,
+      previousType: 'int',
+    },
+    {
+      key: 'tipos-otros-cargos',
+      table: 'tipos_otros_cargos',
+      width: 2,
+      previousType: 'int',
+    },
+    {
+      key: 'medios-pago',
+      table: 'medios_pago',
+      width: 2,
+      previousType: 'numeric(12,4)',
+    },
+    {
+      key: 'tipos-documento-referencia',
+      table: 'tipos_documento_referencia',
+      width: 2,
+      previousType: 'numeric(12,4)',
+    },
+    {
+      key: 'codigos-referencia',
+      table: 'codigos_referencia',
+      width: 2,
+      previousType: 'numeric(12,4)',
+    },
+    {
+      key: 'mensajes-recepcion',
+      table: 'mensajes_recepcion',
+      width: 1,
+      previousType: 'numeric(12,4)',
+    },
+    {
+      key: 'condiciones-impuesto',
+      table: 'condiciones_impuesto',
+      width: 2,
+      previousType: 'numeric(12,4)',
+    },
+  ];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const columns = [
+      ...this.targets.map((target) => ({ ...target, column: 'codigo' })),
+      ...(await this.findReferenceColumns(queryRunner)),
+    ];
+
+    for (const { table, column } of columns) {
+      const [{ count }] = (await queryRunner.query(
+        `SELECT COUNT(*)::int AS count FROM "${table}" WHERE "${column}"::numeric <> trunc("${column}"::numeric) OR "${column}" < 0`,
+      )) as Array<{ count: number }>;
+      if (count > 0) {
+        throw new Error(
+          `La columna "${table}"."${column}" tiene ${count} códigos no enteros o negativos; corríjalos antes de migrar`,
+        );
+      }
+    }
+
+    for (const { table, column, width } of columns) {
+      const text = `trunc("${column}"::numeric)::bigint::text`;
+      await queryRunner.query(
+        `ALTER TABLE "${table}" ALTER COLUMN "${column}" TYPE varchar(20) USING lpad(${text}, greatest(length(${text}), ${width}), '0')`,
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const columns = [
+      ...this.targets.map((target) => ({ ...target, column: 'codigo' })),
+      ...(await this.findReferenceColumns(queryRunner)),
+    ];
+
+    for (const { table, column, previousType } of columns) {
+      await queryRunner.query(
+        `ALTER TABLE "${table}" ALTER COLUMN "${column}" TYPE ${previousType} USING "${column}"::${previousType}`,
+      );
+    }
+  }
+
+  private async findReferenceColumns(
+    queryRunner: QueryRunner,
+  ): Promise<Array<CodeColumn & { column: string }>> {
+    const hasDefinitions = await queryRunner.hasTable('catalog_definitions');
+    if (!hasDefinitions) {
+      return [];
+    }
+
+    const rows = (await queryRunner.query(
+      'SELECT "table_name", "fields" FROM "catalog_definitions"',
+    )) as Array<{ table_name: string; fields: StoredField[] }>;
+    return rows.flatMap((row) =>
+      row.fields
+        .filter(
+          (field) =>
+            field.type === 'reference' && field.reference?.field === 'codigo',
+        )
+        .flatMap((field) => {
+          const target = this.targets.find(
+            (candidate) => candidate.key === field.reference?.catalog,
+          );
+          return target
+            ? [
+                {
+                  ...target,
+                  table: row.table_name,
+                  column: field.name.replace(
+                    /[A-Z]/g,
+                    (letter: string) => `_${letter.toLowerCase()}`,
+                  ),
+                },
+              ]
+            : [];
+        }),
+    );
+  }
+}
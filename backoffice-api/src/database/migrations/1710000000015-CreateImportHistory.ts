@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateImportHistory1710000000015 implements MigrationInterface {
+  name = 'CreateImportHistory1710000000015';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "import_jobs"
+        ADD COLUMN IF NOT EXISTS "checksum" varchar(64),
+        ADD COLUMN IF NOT EXISTS "rolled_back_at" timestamptz,
+        ADD COLUMN IF NOT EXISTS "rolled_back_by" varchar(120)
+    `);
+    await queryRunner.query(
+      'CREATE INDEX IF NOT EXISTS "import_jobs_created_idx" ON "import_jobs" ("created_at")',
+    );
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "import_job_snapshots" (
+        "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        "job_id" uuid NOT NULL REFERENCES "import_jobs" ("id") ON DELETE CASCADE,
+        "table_name" varchar(63) NOT NULL,
+        "position" integer NOT NULL,
+        "row_count" integer NOT NULL,
+        "data" jsonb NOT NULL
+      )
+    `);
+    await queryRunner.query(
+      'CREATE UNIQUE INDEX IF NOT EXISTS "import_job_snapshots_job_table_uq" ON "import_job_snapshots" ("job_id", "table_name")',
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS "import_job_snapshots"');
+    await queryRunner.query('DROP INDEX IF EXISTS "import_jobs_created_idx"');
+    await queryRunner.query(`
+      ALTER TABLE "import_jobs"
+        DROP COLUMN IF EXISTS "checksum",
+        DROP COLUMN IF EXISTS "rolled_back_at",
+        DROP COLUMN IF EXISTS "rolled_back_by"
+    `);
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCatalogImportMappings1710000000016
+  implements MigrationInterface
+{
+  name = 'CreateCatalogImportMappings1710000000016';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "catalog_import_mappings" (
+        "catalog_key" varchar(80) PRIMARY KEY,
+        "mapping" jsonb NOT NULL DEFAULT '{}',
+        "updated_by" varchar(120),
+        "updated_at" timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS "catalog_import_mappings"');
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateImportJobRows1710000000017 implements MigrationInterface {
+  name = 'CreateImportJobRows1710000000017';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "import_job_rows" (
+        "job_id" uuid NOT NULL REFERENCES "import_jobs" ("id") ON DELETE CASCADE,
+        "position" integer NOT NULL,
+        "row_number" integer NOT NULL,
+        "import_key" text NOT NULL,
+        "data" jsonb NOT NULL,
+        PRIMARY KEY ("job_id", "position")
+      )
+    `);
+    await queryRunner.query(
+      'CREATE UNIQUE INDEX IF NOT EXISTS "import_job_rows_job_key_uq" ON "import_job_rows" ("job_id", "import_key")',
+    );
+    await queryRunner.query(
+      'ALTER TABLE "import_jobs" ADD COLUMN IF NOT EXISTS "resume_position" integer NOT NULL DEFAULT 0',
+    );
+    // Jobs left running by a process that no longer exists are found by status and last progress
+    await queryRunner.query(
+      'CREATE INDEX IF NOT EXISTS "import_jobs_status_updated_idx" ON "import_jobs" ("status", "updated_at")',
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      'DROP INDEX IF EXISTS "import_jobs_status_updated_idx"',
+    );
+    await queryRunner.query(
+      'ALTER TABLE "import_jobs" DROP COLUMN IF EXISTS "resume_position"',
+    );
+    await queryRunner.query('DROP TABLE IF EXISTS "import_job_rows"');
+  }
+}
@@ -0,0 +1,63 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+interface RuleCheck {
+  table: string;
+  column: string;
+  rule: string;
+  violation: string;
+}
+
+export class CheckCatalogFieldRules1710000000018 implements MigrationInterface {
+  name = 'CheckCatalogFieldRules1710000000018';
+
+  // Mirrors the validation rules declared for the built-in catalogs
+  private readonly checks: RuleCheck[] = [
+    {
+      table: 'codigos_moneda',
+      column: 'codigo',
+      rule: 'un código ISO 4217 de tres letras mayúsculas',
+      violation: `"codigo" !~ '^[A-Z]{3}$'`,
+    },
+    {
+      table: 'cabys',
+      column: 'categoria',
+      rule: 'un código CABYS de 13 dígitos o uno de sus niveles jerárquicos',
+      violation: `"categoria" !~ '^(\\d{1,5}|\\d{7}|\\d{9}|\\d{11}|\\d{13})$'`,
+    },
+    {
+      table: 'cabys',
+      column: 'impuesto',
+      rule: 'un porcentaje entre 0 y 13',
+      violation: '"impuesto" < 0 OR "impuesto" > 13',
+    },
+  ];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const problems: string[] = [];
+    for (const { table, column, rule, violation } of this.checks) {
+      if (!(await queryRunner.hasTable(table))) {
+        continue;
+      }
+      const rows = (await queryRunner.query(
+        `SELECT "${column}" AS value FROM "${table}" WHERE ${violation} ORDER BY 1 LIMIT 5`,
+      )) as Array<{ value: string | number }>;
+      if (rows.length > 0) {
+        const [{ count }] = (await queryRunner.query(
+          `SELECT COUNT(*)::int AS count FROM "${table}" WHERE ${violation}`,
+        )) as Array<{ count: number }>;
+        problems.push(
+          `"${table}"."${column}" tiene ${count} valores que no son ${rule} (por ejemplo: ${rows.map((row) => row.value).join(', ')})`,
+        );
+      }
+    }
+    if (problems.length > 0) {
+      throw new Error(
+        `Los catálogos tienen datos que no cumplen sus reglas de validación; corríjalos antes de migrar: ${problems.join('; ')}`,
+      );
+    }
+  }
+
+  public async down(): Promise<void> {
+    // Only checks existing data; there is nothing to undo
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddImportJobToAuditLog1710000000019 implements MigrationInterface {
+  name = 'AddImportJobToAuditLog1710000000019';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      'ALTER TABLE "catalog_audit_log" ADD COLUMN IF NOT EXISTS "import_job_id" uuid',
+    );
+    await queryRunner.query(
+      'CREATE INDEX IF NOT EXISTS "catalog_audit_log_import_job_idx" ON "catalog_audit_log" ("import_job_id", "record_id")',
+    );
+    // Catalog imports are rolled back from their audit entries; only geography imports keep table snapshots
+    await queryRunner.query(`
+      DELETE FROM "import_job_snapshots" "snapshot"
+      USING "import_jobs" "job"
+      WHERE "snapshot"."job_id" = "job"."id" AND "job"."catalog_key" NOT LIKE 'geography/%'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      'DROP INDEX IF EXISTS "catalog_audit_log_import_job_idx"',
+    );
+    await queryRunner.query(
+      'ALTER TABLE "catalog_audit_log" DROP COLUMN IF EXISTS "import_job_id"',
+    );
+  }
+}
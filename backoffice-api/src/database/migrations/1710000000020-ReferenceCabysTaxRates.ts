@@ -0,0 +1,94 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+interface TaxRate {
+  percentage: number;
+  code: string;
+  description: string;
+}
+
+export class ReferenceCabysTaxRates1710000000020 implements MigrationInterface {
+  name = 'ReferenceCabysTaxRates1710000000020';
+
+  // Hacienda code of the tarifas-iva entry for each percentage CABYS publishes
+  private readonly rates: TaxRate[] = [
+    { percentage: 0, code: '01', description: 'Tarifa 0% (Exento)' },
+    { percentage: 1, code: '02', description: 'Tarifa reducida 1%' },
+    { percentage: 2, code: '03', description: 'Tarifa reducida 2%' },
+    { percentage: 4, code: '04', description: 'Tarifa reducida 4%' },
+    { percentage: 8, code: '07', description: 'Tarifa transitoria 8%' },
+    { percentage: 13, code: '08', description: 'Tarifa general 13%' },
+  ];
+
+  // Percentage of every code, including the ones no CABYS percentage maps to
+  private readonly percentagesByCode: Record<string, number> = {
+    '01': 0,
+    '02': 1,
+    '03': 2,
+    '04': 4,
+    '05': 0,
+    '06': 4,
+    '07': 8,
+    '08': 13,
+    '10': 0,
+    '11': 0,
+  };
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (
+      !(await queryRunner.hasTable('cabys')) ||
+      !(await queryRunner.hasTable('tarifas_iva'))
+    ) {
+      return;
+    }
+
+    const percentages = this.rates.map((rate) => rate.percentage);
+    const unmapped = (await queryRunner.query(
+      `SELECT DISTINCT "impuesto" AS value FROM "cabys"
+       WHERE "impuesto" IS NOT NULL AND "impuesto" <> ALL($1::numeric[])
+       ORDER BY 1 LIMIT 5`,
+      [percentages],
+    )) as Array<{ value: string }>;
+    if (unmapped.length > 0) {
+      throw new Error(
+        `"cabys"."impuesto" tiene porcentajes sin una tarifa de IVA equivalente (por ejemplo: ${unmapped.map((row) => row.value).join(', ')}); corríjalos antes de migrar`,
+      );
+    }
+
+    // The rates CABYS uses must exist in tarifas-iva before its entries can reference them
+    await queryRunner.query(
+      `INSERT INTO "tarifas_iva" ("descripcion", "codigo")
+       SELECT "rate"."description", "rate"."code"
+       FROM jsonb_to_recordset($1::jsonb) AS "rate"("percentage" numeric, "code" varchar, "description" varchar)
+       WHERE EXISTS (SELECT 1 FROM "cabys" WHERE "impuesto" = "rate"."percentage")
+         AND NOT EXISTS (SELECT 1 FROM "tarifas_iva" WHERE "codigo" = "rate"."code")`,
+      [JSON.stringify(this.rates)],
+    );
+
+    const toCode = this.rates
+      .map((rate) => `WHEN ${rate.percentage} THEN '${rate.code}'`)
+      .join(' ');
+    await queryRunner.query(
+      `ALTER TABLE "cabys" ALTER COLUMN "impuesto" TYPE varchar(20) USING CASE "impuesto" ${toCode} END`,
+    );
+    // The stored value changed, so clients syncing by updated_at pick the entries up again
+    await queryRunner.query(
+      'UPDATE "cabys" SET "updated_at" = NOW() WHERE "impuesto" IS NOT NULL',
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('cabys'))) {
+      return;
+    }
+
+    const toPercentage = Object.entries(this.percentagesByCode)
+      .map(([code, percentage]) => `WHEN '${code}' THEN ${percentage}`)
+      .join(' ');
+    await queryRunner.query(
+      `ALTER TABLE "cabys" ALTER COLUMN "impuesto" TYPE numeric(2,0) USING CASE "impuesto" ${toPercentage} END`,
+    );
+    await queryRunner.query(
+      'UPDATE "cabys" SET "updated_at" = NOW() WHERE "impuesto" IS NOT NULL',
+    );
+  }
+}
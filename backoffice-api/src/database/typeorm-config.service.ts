@@ -6,12 +6,21 @@ import {
   TypeOrmOptionsFactory,
 } from '@nestjs/typeorm';
 import { catalogEntitySchemas } from '../catalogs/catalog.definitions';
+import { CatalogAuditLog } from '../catalogs/catalog-audit-log.entity';
+import { CatalogRelease } from '../catalogs/catalog-release.entity';
+import { CatalogReleaseSnapshot } from '../catalogs/catalog-release-snapshot.entity';
+import { ImportJob } from '../catalogs/import-job.entity';
+import { ImportJobSnapshot } from '../catalogs/import-job-snapshot.entity';
+import { ImportJobRow } from '../catalogs/import-job-row.entity';
+import { CatalogDefinitionRecord } from '../catalogs/catalog-definition.entity';
+import { CatalogImportMapping } from '../catalogs/catalog-import-mapping.entity';
 import { Barrio } from '../geography/entities/barrio.entity';
 import { Canton } from '../geography/entities/canton.entity';
 import { District } from '../geography/entities/district.entity';
 import { Province } from '../geography/entities/province.entity';
 import { User } from '../users/user.entity';
 import { ApiDocument } from '../api-docs/api-document.entity';
+import { ApiKey } from '../api-keys/api-key.entity';
 
 @Injectable()
 export class TypeOrmConfigService implements TypeOrmOptionsFactory {
@@ -30,12 +39,21 @@ export class TypeOrmConfigService implements TypeOrmOptionsFactory {
         url: databaseUrl,
         entities: [
           ...catalogEntitySchemas,
+          CatalogAuditLog,
+          CatalogRelease,
+          CatalogReleaseSnapshot,
+          ImportJob,
+          ImportJobSnapshot,
+          ImportJobRow,
+          CatalogDefinitionRecord,
+          CatalogImportMapping,
           User,
           Province,
           Canton,
           District,
           Barrio,
           ApiDocument,
+          ApiKey,
         ],
         synchronize:
           this.configService.get<string>('TYPEORM_SYNCHRONIZE', 'false') ===
@@ -60,12 +78,21 @@ export class TypeOrmConfigService implements TypeOrmOptionsFactory {
       database: this.configService.get<string>('DATABASE_NAME', 'backoffice'),
       entities: [
         ...catalogEntitySchemas,
+        CatalogAuditLog,
+        CatalogRelease,
+        CatalogReleaseSnapshot,
+        ImportJob,
+        ImportJobSnapshot,
+        ImportJobRow,
+        CatalogDefinitionRecord,
+        CatalogImportMapping,
         User,
         Province,
         Canton,
         District,
         Barrio,
         ApiDocument,
+        ApiKey,
       ],
       synchronize:
         this.configService.get<string>('TYPEORM_SYNCHRONIZE', 'false') ===
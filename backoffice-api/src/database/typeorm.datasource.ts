@@ -3,12 +3,21 @@ import { join } from 'path';
 import { DataSource } from 'typeorm';
 import { config } from 'dotenv';
 import { catalogEntitySchemas } from '../catalogs/catalog.definitions';
+import { CatalogAuditLog } from '../catalogs/catalog-audit-log.entity';
+import { CatalogRelease } from '../catalogs/catalog-release.entity';
+import { CatalogReleaseSnapshot } from '../catalogs/catalog-release-snapshot.entity';
+import { ImportJob } from '../catalogs/import-job.entity';
+import { ImportJobSnapshot } from '../catalogs/import-job-snapshot.entity';
+import { ImportJobRow } from '../catalogs/import-job-row.entity';
+import { CatalogDefinitionRecord } from '../catalogs/catalog-definition.entity';
+import { CatalogImportMapping } from '../catalogs/catalog-import-mapping.entity';
 import { User } from '../users/user.entity';
 import { Province } from '../geography/entities/province.entity';
 import { Canton } from '../geography/entities/canton.entity';
 import { District } from '../geography/entities/district.entity';
 import { Barrio } from '../geography/entities/barrio.entity';
 import { ApiDocument } from '../api-docs/api-document.entity';
+import { ApiKey } from '../api-keys/api-key.entity';
 
 config({ path: '.env' });
 
@@ -29,12 +38,21 @@ export const AppDataSource = new DataSource({
   database: process.env.DATABASE_NAME ?? 'backoffice',
   entities: [
     ...catalogEntitySchemas,
+    CatalogAuditLog,
+    CatalogRelease,
+    CatalogReleaseSnapshot,
+    ImportJob,
+    ImportJobSnapshot,
+    ImportJobRow,
+    CatalogDefinitionRecord,
+    CatalogImportMapping,
     User,
     Province,
     Canton,
     District,
     Barrio,
     ApiDocument,
+    ApiKey,
   ],
   migrations: [join(__dirname, 'migrations/*{.ts,.js}')],
   synchronize: false,
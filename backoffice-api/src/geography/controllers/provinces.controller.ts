@@ -2,13 +2,17 @@ import {
   BadRequestException,
   Body,
   Controller,
+  DefaultValuePipe,
   Delete,
   Get,
   Param,
+  ParseEnumPipe,
   ParseUUIDPipe,
   Post,
   Put,
   Query,
+  Req,
+  StreamableFile,
   UploadedFile,
   UseGuards,
   UseInterceptors,
@@ -17,6 +21,8 @@ import {
   ApiBearerAuth,
   ApiBody,
   ApiConsumes,
+  ApiQuery,
+  ApiSecurity,
   ApiTags,
 } from '@nestjs/swagger';
 import { FileInterceptor } from '@nestjs/platform-express';
@@ -27,10 +33,18 @@ import { UpdateProvinceDto } from '../dto/update-province.dto';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../../auth/guards/roles.guard';
 import { Roles } from '../../auth/roles.decorator';
+import { AllowApiKey } from '../../auth/api-key-access.decorator';
 import { UserRole } from '../../users/user.entity';
+import { CatalogActor } from '../../catalogs/catalog-audit.service';
+import { ImportFileOptionsDto } from '../../imports/dto/import-file-options.dto';
+import { importFileApiBody } from '../../imports/import-file-api-body';
+import { IMPORT_MAX_FILE_SIZE } from '../../imports/tabular-file.reader';
+import { ExportFormat } from '../../imports/tabular-file.writer';
 
 @ApiTags('Geografia - Provincias')
 @ApiBearerAuth('JWT')
+@ApiSecurity('ApiKey')
+@AllowApiKey()
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('geography/provinces')
 export class ProvincesController {
@@ -41,6 +55,24 @@ export class ProvincesController {
     return this.geographyService.listProvinces(query);
   }
 
+  @Get('export')
+  @ApiQuery({ name: 'format', enum: ExportFormat, required: false })
+  async export(
+    @Query() query: CatalogQueryDto,
+    @Query(
+      'format',
+      new DefaultValuePipe(ExportFormat.XLSX),
+      new ParseEnumPipe(ExportFormat),
+    )
+    format: ExportFormat,
+  ) {
+    const file = await this.geographyService.exportProvinces(query, format);
+    return new StreamableFile(file.buffer, {
+      type: file.contentType,
+      disposition: `attachment; filename="provincias.${file.extension}"`,
+    });
+  }
+
   @Get(':id')
   findOne(@Param('id', ParseUUIDPipe) id: string) {
     return this.geographyService.getProvince(id);
@@ -71,33 +103,27 @@ export class ProvincesController {
   @Roles(UserRole.ADMIN)
   @Post('import')
   @ApiConsumes('multipart/form-data')
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        file: { type: 'string', format: 'binary' },
-        mode: {
-          type: 'string',
-          enum: ['append', 'replace'],
-          default: 'append',
-        },
-      },
-    },
-  })
+  @ApiBody(importFileApiBody)
   @UseInterceptors(
-    FileInterceptor('file', { limits: { fileSize: 5 * 1024 * 1024 } }),
+    FileInterceptor('file', {
+      limits: { fileSize: IMPORT_MAX_FILE_SIZE },
+    }),
   )
-  importFromExcel(
+  importFromFile(
     @UploadedFile() file: Express.Multer.File,
-    @Query('mode') mode: 'append' | 'replace' = 'append',
+    @Req() req: { user: CatalogActor },
+    @Query() query: ImportFileOptionsDto,
+    @Body() body: ImportFileOptionsDto,
   ): Promise<GeoImportResult<CreateProvinceDto>> {
     if (!file) {
-      throw new BadRequestException('Se requiere un archivo Excel');
+      throw new BadRequestException('Se requiere un archivo para importar');
     }
-    const importMode = mode === 'replace' ? 'replace' : 'append';
-    return this.geographyService.importProvincesFromExcel(
-      file.buffer,
-      importMode,
+    const options = { ...body, ...query };
+    return this.geographyService.importProvincesFromFile(
+      file,
+      options,
+      options.mode === 'replace' ? 'replace' : 'append',
+      req.user,
     );
   }
 }
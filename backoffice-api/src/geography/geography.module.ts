@@ -1,6 +1,8 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthModule } from '../auth/auth.module';
+import { ImportsModule } from '../imports/imports.module';
+import { CatalogsModule } from '../catalogs/catalogs.module';
 import { GeographyService } from './geography.service';
 import { Province } from './entities/province.entity';
 import { Canton } from './entities/canton.entity';
@@ -15,6 +17,8 @@ import { BarriosController } from './controllers/barrios.controller';
   imports: [
     TypeOrmModule.forFeature([Province, Canton, District, Barrio]),
     AuthModule,
+    ImportsModule,
+    CatalogsModule,
   ],
   controllers: [
     ProvincesController,
@@ -1,12 +1,15 @@
-import { Buffer } from 'node:buffer';
 import {
   BadRequestException,
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Workbook } from 'exceljs';
-import { Brackets, ObjectLiteral, Repository } from 'typeorm';
+import {
+  Brackets,
+  ObjectLiteral,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
 import { CatalogQueryDto } from '../catalogs/dto/catalog-query.dto';
 import { Barrio } from './entities/barrio.entity';
 import { Canton } from './entities/canton.entity';
@@ -23,6 +26,27 @@ import { UpdateProvinceDto } from './dto/update-province.dto';
 import { CantonQueryDto } from './dto/canton-query.dto';
 import { DistrictQueryDto } from './dto/district-query.dto';
 import { BarrioQueryDto } from './dto/barrio-query.dto';
+import {
+  ImportFile,
+  ImportFileOptions,
+  TabularFileReader,
+  TabularSheet,
+} from '../imports/tabular-file.reader';
+import {
+  ExportFormat,
+  TabularExport,
+  TabularFileWriter,
+} from '../imports/tabular-file.writer';
+import {
+  KeysetPageMeta,
+  isKeysetQuery,
+  paginateByKeyset,
+} from '../common/keyset-pagination';
+import { CatalogActor } from '../catalogs/catalog-audit.service';
+import {
+  ImportJobsService,
+  importFileChecksum,
+} from '../catalogs/import-jobs.service';
 
 interface PaginationMeta {
   total: number;
@@ -32,11 +56,25 @@ interface PaginationMeta {
 
 export interface PaginatedResult<T> {
   data: T[];
-  meta: PaginationMeta;
+  meta: PaginationMeta | KeysetPageMeta;
 }
 
 type ImportMode = 'append' | 'replace';
 
+type GeoImportTarget = 'provinces' | 'cantons' | 'districts' | 'barrios';
+
+interface GeoImportRun {
+  target: GeoImportTarget;
+  repository: Repository<ObjectLiteral>;
+  file: ImportFile;
+  mode: ImportMode;
+  actor?: CatalogActor;
+  totalRows: number;
+  processedRows: number;
+  errors: Array<{ row: number; message: string }>;
+  apply: () => Promise<void>;
+}
+
 type GeoFieldType = 'string' | 'int';
 
 interface GeoFieldDefinition {
@@ -44,14 +82,16 @@ interface GeoFieldDefinition {
   type: GeoFieldType;
   required?: boolean;
   excelKeys: string[];
+  property?: string;
 }
 
-interface ExcelParseResult<T> {
+interface ImportParseResult<T> {
   rows: Array<{ data: T; rowNumber: number }>;
   errors: Array<{ row: number; message: string }>;
 }
 
 export interface GeoImportResult<T> {
+  jobId: string;
   imported: number;
   rows: T[];
   errors: Array<{ row: number; message: string }>;
@@ -60,6 +100,146 @@ export interface GeoImportResult<T> {
 const DEFAULT_PAGE_SIZE = 50;
 const MAX_PAGE_SIZE = 200;
 
+// Foreign keys cascade from each level to the ones below it, so a rollback has to restore them together
+const GEO_IMPORT_TABLES: Record<GeoImportTarget, string[]> = {
+  provinces: ['provincias', 'cantones', 'distritos', 'barrios'],
+  cantons: ['cantones', 'distritos', 'barrios'],
+  districts: ['distritos', 'barrios'],
+  barrios: ['barrios'],
+};
+
+const PROVINCE_FIELDS: GeoFieldDefinition[] = [
+  {
+    name: 'nombre',
+    type: 'string',
+    required: true,
+    excelKeys: ['provincia', 'nombre'],
+  },
+  {
+    name: 'codigo',
+    type: 'int',
+    required: true,
+    excelKeys: ['codigo'],
+  },
+];
+
+const CANTON_FIELDS: GeoFieldDefinition[] = [
+  {
+    name: 'provincia',
+    type: 'string',
+    required: true,
+    excelKeys: ['provincia'],
+  },
+  {
+    name: 'provinceCode',
+    type: 'int',
+    required: true,
+    excelKeys: ['codigo', 'codigoprovincia'],
+    property: 'codigoProvincia',
+  },
+  {
+    name: 'nombre',
+    type: 'string',
+    required: true,
+    excelKeys: ['canton', 'nombre'],
+    property: 'canton',
+  },
+  {
+    name: 'codigo',
+    type: 'int',
+    required: true,
+    excelKeys: ['codigo1', 'codigocanton'],
+    property: 'codigoCanton',
+  },
+];
+
+const DISTRICT_FIELDS: GeoFieldDefinition[] = [
+  {
+    name: 'provincia',
+    type: 'string',
+    required: true,
+    excelKeys: ['provincia'],
+  },
+  {
+    name: 'provinceCode',
+    type: 'int',
+    required: true,
+    excelKeys: ['codigo', 'codigoprovincia'],
+    property: 'codigoProvincia',
+  },
+  {
+    name: 'canton',
+    type: 'string',
+    required: true,
+    excelKeys: ['canton'],
+    property: 'cantonName',
+  },
+  {
+    name: 'cantonCode',
+    type: 'int',
+    required: true,
+    excelKeys: ['codigo1', 'codigocanton'],
+    property: 'codigoCanton',
+  },
+  {
+    name: 'nombre',
+    type: 'string',
+    required: true,
+    excelKeys: ['distrito'],
+    property: 'distritoName',
+  },
+  {
+    name: 'codigo',
+    type: 'int',
+    required: true,
+    excelKeys: ['codigo2', 'codigodistrito'],
+    property: 'codigoDistrito',
+  },
+];
+
+const BARRIO_FIELDS: GeoFieldDefinition[] = [
+  {
+    name: 'provincia',
+    type: 'string',
+    required: true,
+    excelKeys: ['provincia'],
+  },
+  {
+    name: 'provinceCode',
+    type: 'int',
+    required: true,
+    excelKeys: ['codigo', 'codigoprovincia'],
+    property: 'codigoProvincia',
+  },
+  {
+    name: 'canton',
+    type: 'string',
+    required: true,
+    excelKeys: ['canton'],
+    property: 'cantonName',
+  },
+  {
+    name: 'cantonCode',
+    type: 'int',
+    required: true,
+    excelKeys: ['codigo1', 'codigocanton'],
+    property: 'codigoCanton',
+  },
+  {
+    name: 'distrito',
+    type: 'string',
+    required: true,
+    excelKeys: ['distrito'],
+    property: 'distritoName',
+  },
+  {
+    name: 'barrio',
+    type: 'string',
+    required: true,
+    excelKeys: ['barrio', 'nombre'],
+  },
+];
+
 @Injectable()
 export class GeographyService {
   constructor(
@@ -71,21 +251,32 @@ export class GeographyService {
     private readonly districtsRepository: Repository<District>,
     @InjectRepository(Barrio)
     private readonly barriosRepository: Repository<Barrio>,
+    private readonly tabularFileReader: TabularFileReader,
+    private readonly tabularFileWriter: TabularFileWriter,
+    private readonly importJobsService: ImportJobsService,
   ) {}
 
   async listProvinces(
     query: CatalogQueryDto,
   ): Promise<PaginatedResult<Province>> {
     const [data, meta] = await this.buildPagedQuery(
-      this.provincesRepository,
-      'province',
+      this.buildProvincesQuery(query),
       query,
-      ['nombre', 'codigo'],
-      (qb) => qb.orderBy('province.codigo', 'ASC'),
     );
     return { data, meta };
   }
 
+  async exportProvinces(
+    query: CatalogQueryDto,
+    format: ExportFormat,
+  ): Promise<TabularExport> {
+    return this.exportRecords(
+      this.buildProvincesQuery(query),
+      PROVINCE_FIELDS,
+      format,
+    );
+  }
+
   async getProvince(id: string): Promise<Province> {
     const province = await this.provincesRepository.findOne({
       where: { id },
@@ -117,24 +308,14 @@ export class GeographyService {
     }
   }
 
-  async importProvincesFromExcel(
-    buffer: Buffer,
+  async importProvincesFromFile(
+    file: ImportFile,
+    options: ImportFileOptions,
     mode: ImportMode,
+    actor?: CatalogActor,
   ): Promise<GeoImportResult<CreateProvinceDto>> {
-    const parsed = await this.parseExcel<CreateProvinceDto>(buffer, [
-      {
-        name: 'nombre',
-        type: 'string',
-        required: true,
-        excelKeys: ['provincia', 'nombre'],
-      },
-      {
-        name: 'codigo',
-        type: 'int',
-        required: true,
-        excelKeys: ['codigo'],
-      },
-    ]);
+    const sheet = await this.readSheet(file, options, PROVINCE_FIELDS);
+    const parsed = this.parseSheet<CreateProvinceDto>(sheet, PROVINCE_FIELDS);
 
     const errors = [...parsed.errors];
     const deduped = this.deduplicateRecords(parsed.rows, ['codigo']);
@@ -149,14 +330,30 @@ export class GeographyService {
 
     const values = deduped.records;
 
-    if (values.length > 0) {
-      if (mode === 'replace') {
-        await this.provincesRepository.createQueryBuilder().delete().execute();
-      }
-      await this.provincesRepository.upsert(values, ['codigo']);
-    }
+    const jobId = await this.recordImport({
+      target: 'provinces',
+      repository: this.provincesRepository,
+      file,
+      mode,
+      actor,
+      totalRows: parsed.rows.length,
+      processedRows: values.length,
+      errors,
+      apply: async () => {
+        if (values.length > 0) {
+          if (mode === 'replace') {
+            await this.provincesRepository
+              .createQueryBuilder()
+              .delete()
+              .execute();
+          }
+          await this.provincesRepository.upsert(values, ['codigo']);
+        }
+      },
+    });
 
     return {
+      jobId,
       imported: values.length,
       rows: values,
       errors,
@@ -165,25 +362,23 @@ export class GeographyService {
 
   async listCantons(query: CantonQueryDto): Promise<PaginatedResult<Canton>> {
     const [data, meta] = await this.buildPagedQuery(
-      this.cantonsRepository,
-      'canton',
+      this.buildCantonsQuery(query),
       query,
-      ['nombre', 'provincia', 'codigoCanton', 'codigoProvincia'],
-      (qb) => {
-        if (query.codigoProvincia) {
-          qb.andWhere('canton.codigoProvincia = :codigoProvincia', {
-            codigoProvincia: query.codigoProvincia,
-          });
-        }
-        qb.orderBy('canton.codigoProvincia', 'ASC').addOrderBy(
-          'canton.codigo',
-          'ASC',
-        );
-      },
     );
     return { data, meta };
   }
 
+  async exportCantons(
+    query: CantonQueryDto,
+    format: ExportFormat,
+  ): Promise<TabularExport> {
+    return this.exportRecords(
+      this.buildCantonsQuery(query),
+      CANTON_FIELDS,
+      format,
+    );
+  }
+
   async getCanton(id: string): Promise<Canton> {
     const canton = await this.cantonsRepository.findOne({ where: { id } });
     if (!canton) {
@@ -231,36 +426,14 @@ export class GeographyService {
     }
   }
 
-  async importCantonsFromExcel(
-    buffer: Buffer,
+  async importCantonsFromFile(
+    file: ImportFile,
+    options: ImportFileOptions,
     mode: ImportMode,
+    actor?: CatalogActor,
   ): Promise<GeoImportResult<CreateCantonDto>> {
-    const parsed = await this.parseExcel<CreateCantonDto>(buffer, [
-      {
-        name: 'provincia',
-        type: 'string',
-        required: true,
-        excelKeys: ['provincia'],
-      },
-      {
-        name: 'provinceCode',
-        type: 'int',
-        required: true,
-        excelKeys: ['codigo', 'codigoprovincia'],
-      },
-      {
-        name: 'nombre',
-        type: 'string',
-        required: true,
-        excelKeys: ['canton', 'nombre'],
-      },
-      {
-        name: 'codigo',
-        type: 'int',
-        required: true,
-        excelKeys: ['codigo1', 'codigocanton'],
-      },
-    ]);
+    const sheet = await this.readSheet(file, options, CANTON_FIELDS);
+    const parsed = this.parseSheet<CreateCantonDto>(sheet, CANTON_FIELDS);
 
     const errors = [...parsed.errors];
     const validRows: Array<{ data: CreateCantonDto; rowNumber: number }> = [];
@@ -298,14 +471,33 @@ export class GeographyService {
 
     const values = deduped.records;
 
-    if (values.length > 0) {
-      if (mode === 'replace') {
-        await this.cantonsRepository.createQueryBuilder().delete().execute();
-      }
-      await this.cantonsRepository.upsert(values, ['codigoProvincia', 'codigoCanton']);
-    }
+    const jobId = await this.recordImport({
+      target: 'cantons',
+      repository: this.cantonsRepository,
+      file,
+      mode,
+      actor,
+      totalRows: parsed.rows.length,
+      processedRows: values.length,
+      errors,
+      apply: async () => {
+        if (values.length > 0) {
+          if (mode === 'replace') {
+            await this.cantonsRepository
+              .createQueryBuilder()
+              .delete()
+              .execute();
+          }
+          await this.cantonsRepository.upsert(values, [
+            'codigoProvincia',
+            'codigoCanton',
+          ]);
+        }
+      },
+    });
 
     return {
+      jobId,
       imported: values.length,
       rows: values,
       errors,
@@ -316,30 +508,23 @@ export class GeographyService {
     query: DistrictQueryDto,
   ): Promise<PaginatedResult<District>> {
     const [data, meta] = await this.buildPagedQuery(
-      this.districtsRepository,
-      'district',
+      this.buildDistrictsQuery(query),
       query,
-      ['nombre', 'canton', 'provincia', 'codigoDistrito', 'codigoProvincia', 'codigoCanton'],
-      (qb) => {
-        if (query.codigoProvincia) {
-          qb.andWhere('district.codigoProvincia = :codigoProvincia', {
-            codigoProvincia: query.codigoProvincia,
-          });
-        }
-        if (query.codigoCanton) {
-          qb.andWhere('district.codigoCanton = :codigoCanton', {
-            codigoCanton: query.codigoCanton,
-          });
-        }
-        qb
-          .orderBy('district.codigoProvincia', 'ASC')
-          .addOrderBy('district.codigoCanton', 'ASC')
-          .addOrderBy('district.codigoDistrito', 'ASC');
-      },
     );
     return { data, meta };
   }
 
+  async exportDistricts(
+    query: DistrictQueryDto,
+    format: ExportFormat,
+  ): Promise<TabularExport> {
+    return this.exportRecords(
+      this.buildDistrictsQuery(query),
+      DISTRICT_FIELDS,
+      format,
+    );
+  }
+
   async getDistrict(id: string): Promise<District> {
     const district = await this.districtsRepository.findOne({ where: { id } });
     if (!district) {
@@ -411,48 +596,14 @@ export class GeographyService {
     }
   }
 
-  async importDistrictsFromExcel(
-    buffer: Buffer,
+  async importDistrictsFromFile(
+    file: ImportFile,
+    options: ImportFileOptions,
     mode: ImportMode,
+    actor?: CatalogActor,
   ): Promise<GeoImportResult<CreateDistrictDto>> {
-    const parsed = await this.parseExcel<CreateDistrictDto>(buffer, [
-      {
-        name: 'provincia',
-        type: 'string',
-        required: true,
-        excelKeys: ['provincia'],
-      },
-      {
-        name: 'provinceCode',
-        type: 'int',
-        required: true,
-        excelKeys: ['codigo', 'codigoprovincia'],
-      },
-      {
-        name: 'canton',
-        type: 'string',
-        required: true,
-        excelKeys: ['canton'],
-      },
-      {
-        name: 'cantonCode',
-        type: 'int',
-        required: true,
-        excelKeys: ['codigo1', 'codigocanton'],
-      },
-      {
-        name: 'nombre',
-        type: 'string',
-        required: true,
-        excelKeys: ['distrito'],
-      },
-      {
-        name: 'codigo',
-        type: 'int',
-        required: true,
-        excelKeys: ['codigo2', 'codigodistrito'],
-      },
-    ]);
+    const sheet = await this.readSheet(file, options, DISTRICT_FIELDS);
+    const parsed = this.parseSheet<CreateDistrictDto>(sheet, DISTRICT_FIELDS);
 
     const errors = [...parsed.errors];
     const validRows: Array<{ data: CreateDistrictDto; rowNumber: number }> = [];
@@ -502,16 +653,31 @@ export class GeographyService {
       distritoName: record.distrito,
     }));
 
-    if (values.length > 0) {
-      if (mode === 'replace') {
-        await this.districtsRepository.createQueryBuilder().delete().execute();
-      }
-      await this.districtsRepository.upsert(values, [
-        'codigoProvincia',
-        'codigoCanton',
-        'codigoDistrito',
-      ]);
-    }
+    const jobId = await this.recordImport({
+      target: 'districts',
+      repository: this.districtsRepository,
+      file,
+      mode,
+      actor,
+      totalRows: parsed.rows.length,
+      processedRows: values.length,
+      errors,
+      apply: async () => {
+        if (values.length > 0) {
+          if (mode === 'replace') {
+            await this.districtsRepository
+              .createQueryBuilder()
+              .delete()
+              .execute();
+          }
+          await this.districtsRepository.upsert(values, [
+            'codigoProvincia',
+            'codigoCanton',
+            'codigoDistrito',
+          ]);
+        }
+      },
+    });
 
     const responseRows = values.map(value => ({
       codigoProvincia: value.codigoProvincia,
@@ -523,6 +689,7 @@ export class GeographyService {
     }));
 
     return {
+      jobId,
       imported: values.length,
       rows: responseRows,
       errors,
@@ -533,49 +700,23 @@ export class GeographyService {
     query: BarrioQueryDto,
   ): Promise<PaginatedResult<Barrio>> {
     const [data, meta] = await this.buildPagedQuery(
-      this.barriosRepository,
-      'barrio',
+      this.buildBarriosQuery(query),
       query,
-      [
-        'barrio',
-        'distrito',
-        'provincia',
-        'cantonName',
-        'codigoProvincia',
-        'codigoCanton',
-        'codigoDistrito',
-      ],
-      (qb) => {
-        if (query.codigoProvincia) {
-          qb.andWhere('barrio.codigoProvincia = :codigoProvincia', {
-            codigoProvincia: query.codigoProvincia,
-          });
-        }
-        if (query.codigoCanton) {
-          qb.andWhere('barrio.codigoCanton = :codigoCanton', {
-            codigoCanton: query.codigoCanton,
-          });
-        }
-        if (query.distrito) {
-          qb.andWhere('LOWER(barrio.distritoName) = :distrito', {
-            distrito: this.normaliseSearch(query.distrito),
-          });
-        }
-        if (query.provinceKey) {
-          qb.andWhere('barrio.provinceKey = :provinceKey', {
-            provinceKey: query.provinceKey,
-          });
-        }
-        qb
-          .orderBy('barrio.codigoProvincia', 'ASC')
-          .addOrderBy('barrio.codigoCanton', 'ASC')
-          .addOrderBy('barrio.districtName', 'ASC')
-          .addOrderBy('barrio.nombre', 'ASC');
-      },
     );
     return { data, meta };
   }
 
+  async exportBarrios(
+    query: BarrioQueryDto,
+    format: ExportFormat,
+  ): Promise<TabularExport> {
+    return this.exportRecords(
+      this.buildBarriosQuery(query),
+      BARRIO_FIELDS,
+      format,
+    );
+  }
+
   async getBarrio(id: string): Promise<Barrio> {
     const barrio = await this.barriosRepository.findOne({ where: { id } });
     if (!barrio) {
@@ -636,48 +777,14 @@ export class GeographyService {
     }
   }
 
-  async importBarriosFromExcel(
-    buffer: Buffer,
+  async importBarriosFromFile(
+    file: ImportFile,
+    options: ImportFileOptions,
     mode: ImportMode,
+    actor?: CatalogActor,
   ): Promise<GeoImportResult<CreateBarrioDto>> {
-    const parsed = await this.parseExcel<CreateBarrioDto>(buffer, [
-      {
-        name: 'provincia',
-        type: 'string',
-        required: true,
-        excelKeys: ['provincia'],
-      },
-      {
-        name: 'provinceCode',
-        type: 'int',
-        required: true,
-        excelKeys: ['codigo', 'codigoprovincia'],
-      },
-      {
-        name: 'canton',
-        type: 'string',
-        required: true,
-        excelKeys: ['canton'],
-      },
-      {
-        name: 'cantonCode',
-        type: 'int',
-        required: true,
-        excelKeys: ['codigo1', 'codigocanton'],
-      },
-      {
-        name: 'distrito',
-        type: 'string',
-        required: true,
-        excelKeys: ['distrito'],
-      },
-      {
-        name: 'barrio',
-        type: 'string',
-        required: true,
-        excelKeys: ['barrio', 'nombre'],
-      },
-    ]);
+    const sheet = await this.readSheet(file, options, BARRIO_FIELDS);
+    const parsed = this.parseSheet<CreateBarrioDto>(sheet, BARRIO_FIELDS);
 
     const errors = [...parsed.errors];
     const validRows: Array<{
@@ -726,17 +833,32 @@ export class GeographyService {
       provinceKey: record.provinceKey,
     }));
 
-    if (values.length > 0) {
-      if (mode === 'replace') {
-        await this.barriosRepository.createQueryBuilder().delete().execute();
-      }
-      await this.barriosRepository.upsert(values, [
-        'codigoProvincia',
-        'codigoCanton',
-        'codigoDistrito',
-        'barrio',
-      ]);
-    }
+    const jobId = await this.recordImport({
+      target: 'barrios',
+      repository: this.barriosRepository,
+      file,
+      mode,
+      actor,
+      totalRows: parsed.rows.length,
+      processedRows: values.length,
+      errors,
+      apply: async () => {
+        if (values.length > 0) {
+          if (mode === 'replace') {
+            await this.barriosRepository
+              .createQueryBuilder()
+              .delete()
+              .execute();
+          }
+          await this.barriosRepository.upsert(values, [
+            'codigoProvincia',
+            'codigoCanton',
+            'codigoDistrito',
+            'barrio',
+          ]);
+        }
+      },
+    });
 
     const responseRows = values.map(value => ({
       codigoProvincia: value.codigoProvincia,
@@ -749,12 +871,58 @@ export class GeographyService {
     }));
 
     return {
+      jobId,
       imported: values.length,
       rows: responseRows,
       errors,
     };
   }
 
+  private async recordImport(run: GeoImportRun): Promise<string> {
+    const job = await this.importJobsService.create({
+      catalogKey: `geography/${run.target}`,
+      mode: run.mode,
+      fileName: run.file.originalname ?? null,
+      checksum: importFileChecksum(run.file.buffer),
+      totalRows: run.totalRows,
+      errors: run.errors,
+      userId: run.actor?.id ?? null,
+      username: run.actor?.username ?? null,
+    });
+
+    try {
+      await this.importJobsService.snapshot(
+        job.id,
+        GEO_IMPORT_TABLES[run.target],
+      );
+      await this.importJobsService.update(job.id, {
+        status: 'running',
+        startedAt: new Date(),
+      });
+      const previousRows = await run.repository.count();
+      await run.apply();
+      const insertedRows =
+        run.mode === 'replace'
+          ? run.processedRows
+          : (await run.repository.count()) - previousRows;
+      await this.importJobsService.update(job.id, {
+        status: 'completed',
+        processedRows: run.processedRows,
+        insertedRows,
+        updatedRows: run.processedRows - insertedRows,
+        finishedAt: new Date(),
+      });
+    } catch (error) {
+      await this.importJobsService.fail(
+        job.id,
+        error instanceof Error ? error.message : 'Error inesperado al importar',
+      );
+      throw error;
+    }
+
+    return job.id;
+  }
+
   private async enrichBarrioPayload(
     dto: CreateBarrioDto,
   ): Promise<CreateBarrioDto & { provinceKey: string }> {
@@ -858,15 +1026,116 @@ export class GeographyService {
       .replace(/^-+|-+$/g, '');
   }
 
-  private async buildPagedQuery<T extends ObjectLiteral>(
+  private buildProvincesQuery(
+    query: CatalogQueryDto,
+  ): SelectQueryBuilder<Province> {
+    return this.buildFilteredQuery(
+      this.provincesRepository,
+      'province',
+      query,
+      ['nombre', 'codigo'],
+      (qb) => qb.orderBy('province.codigo', 'ASC'),
+    );
+  }
+
+  private buildCantonsQuery(query: CantonQueryDto): SelectQueryBuilder<Canton> {
+    return this.buildFilteredQuery(
+      this.cantonsRepository,
+      'canton',
+      query,
+      ['nombre', 'provincia', 'codigoCanton', 'codigoProvincia'],
+      (qb) => {
+        if (query.codigoProvincia) {
+          qb.andWhere('canton.codigoProvincia = :codigoProvincia', {
+            codigoProvincia: query.codigoProvincia,
+          });
+        }
+        qb.orderBy('canton.codigoProvincia', 'ASC').addOrderBy(
+          'canton.codigo',
+          'ASC',
+        );
+      },
+    );
+  }
+
+  private buildDistrictsQuery(
+    query: DistrictQueryDto,
+  ): SelectQueryBuilder<District> {
+    return this.buildFilteredQuery(
+      this.districtsRepository,
+      'district',
+      query,
+      ['nombre', 'canton', 'provincia', 'codigoDistrito', 'codigoProvincia', 'codigoCanton'],
+      (qb) => {
+        if (query.codigoProvincia) {
+          qb.andWhere('district.codigoProvincia = :codigoProvincia', {
+            codigoProvincia: query.codigoProvincia,
+          });
+        }
+        if (query.codigoCanton) {
+          qb.andWhere('district.codigoCanton = :codigoCanton', {
+            codigoCanton: query.codigoCanton,
+          });
+        }
+        qb
+          .orderBy('district.codigoProvincia', 'ASC')
+          .addOrderBy('district.codigoCanton', 'ASC')
+          .addOrderBy('district.codigoDistrito', 'ASC');
+      },
+    );
+  }
+
+  private buildBarriosQuery(query: BarrioQueryDto): SelectQueryBuilder<Barrio> {
+    return this.buildFilteredQuery(
+      this.barriosRepository,
+      'barrio',
+      query,
+      [
+        'barrio',
+        'distrito',
+        'provincia',
+        'cantonName',
+        'codigoProvincia',
+        'codigoCanton',
+        'codigoDistrito',
+      ],
+      (qb) => {
+        if (query.codigoProvincia) {
+          qb.andWhere('barrio.codigoProvincia = :codigoProvincia', {
+            codigoProvincia: query.codigoProvincia,
+          });
+        }
+        if (query.codigoCanton) {
+          qb.andWhere('barrio.codigoCanton = :codigoCanton', {
+            codigoCanton: query.codigoCanton,
+          });
+        }
+        if (query.distrito) {
+          qb.andWhere('LOWER(barrio.distritoName) = :distrito', {
+            distrito: this.normaliseSearch(query.distrito),
+          });
+        }
+        if (query.provinceKey) {
+          qb.andWhere('barrio.provinceKey = :provinceKey', {
+            provinceKey: query.provinceKey,
+          });
+        }
+        qb
+          .orderBy('barrio.codigoProvincia', 'ASC')
+          .addOrderBy('barrio.codigoCanton', 'ASC')
+          .addOrderBy('barrio.districtName', 'ASC')
+          .addOrderBy('barrio.nombre', 'ASC');
+      },
+    );
+  }
+
+  private buildFilteredQuery<T extends ObjectLiteral>(
     repository: Repository<T>,
     alias: string,
     query: CatalogQueryDto,
     searchFields: string[],
     configure?: (qb: any) => void,
-  ): Promise<[T[], PaginationMeta]> {
-    const page = query.page ?? 1;
-    const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  ): SelectQueryBuilder<T> {
     const qb = repository.createQueryBuilder(alias);
 
     if (query.search && searchFields.length > 0) {
@@ -892,6 +1161,21 @@ export class GeographyService {
       configure(qb);
     }
 
+    return qb;
+  }
+
+  private async buildPagedQuery<T extends ObjectLiteral>(
+    qb: SelectQueryBuilder<T>,
+    query: CatalogQueryDto,
+  ): Promise<[T[], PaginationMeta | KeysetPageMeta]> {
+    const page = query.page ?? 1;
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    if (isKeysetQuery(query)) {
+      const { data, meta } = await paginateByKeyset(qb, query, limit);
+      return [data, meta];
+    }
+
     qb.skip((page - 1) * limit).take(limit);
 
     const [data, total] = await qb.getManyAndCount();
@@ -905,6 +1189,21 @@ export class GeographyService {
     ];
   }
 
+  private async exportRecords<T extends ObjectLiteral>(
+    qb: SelectQueryBuilder<T>,
+    fields: GeoFieldDefinition[],
+    format: ExportFormat,
+  ): Promise<TabularExport> {
+    const records = await qb.getMany();
+    return this.tabularFileWriter.write(
+      format,
+      fields.map((field) => field.excelKeys[0]),
+      records.map((record) =>
+        fields.map((field) => record[field.property ?? field.name] as unknown),
+      ),
+    );
+  }
+
   private normaliseSearch(search: string): string {
     return search.trim().toLowerCase();
   }
@@ -939,27 +1238,21 @@ export class GeographyService {
     return { records: Array.from(map.values()), duplicates };
   }
 
-  private async parseExcel<T extends Record<string, any>>(
-    buffer: Buffer,
+  private readSheet(
+    file: ImportFile,
+    options: ImportFileOptions,
     fields: GeoFieldDefinition[],
-  ): Promise<ExcelParseResult<T>> {
-    const workbook = new Workbook();
-    await workbook.xlsx.load(Buffer.from(buffer) as any);
-    const worksheet = workbook.worksheets[0];
-
-    if (!worksheet) {
-      throw new BadRequestException(
-        'El archivo Excel no contiene hojas de trabajo',
-      );
-    }
-
-    const headerRow = worksheet.getRow(1);
-    if (!headerRow || headerRow.cellCount === 0) {
-      throw new BadRequestException(
-        'La primera fila debe contener encabezados',
-      );
-    }
+  ): Promise<TabularSheet> {
+    return this.tabularFileReader.read(file, {
+      ...options,
+      headerKeys: fields.flatMap((field) => [field.name, ...field.excelKeys]),
+    });
+  }
 
+  private parseSheet<T extends Record<string, any>>(
+    sheet: TabularSheet,
+    fields: GeoFieldDefinition[],
+  ): ImportParseResult<T> {
     const columnMap = new Map<number, GeoFieldDefinition>();
     const fieldLookup = fields.reduce<Record<string, GeoFieldDefinition>>(
       (acc, field) => {
@@ -978,8 +1271,8 @@ export class GeographyService {
       {},
     );
 
-    headerRow.eachCell({ includeEmpty: false }, (cell, column) => {
-      const headerKey = this.normaliseHeader(cell.value);
+    sheet.headers.forEach((header, column) => {
+      const headerKey = this.normaliseHeader(header);
       if (!headerKey) {
         return;
       }
@@ -1006,16 +1299,12 @@ export class GeographyService {
     const rows: Array<{ data: T; rowNumber: number }> = [];
     const errors: Array<{ row: number; message: string }> = [];
 
-    worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
-      if (rowNumber === 1) {
-        return;
-      }
-
+    sheet.rows.forEach(({ rowNumber, values }) => {
       const record: Record<string, any> = {};
       let hasValue = false;
 
       columnMap.forEach((field, column) => {
-        const cellValue = this.extractCellValue(row.getCell(column).value);
+        const cellValue = values[column];
         if (
           cellValue !== null &&
           cellValue !== undefined &&
@@ -1094,43 +1383,6 @@ export class GeographyService {
     return validated;
   }
 
-  private extractCellValue(value: any): any {
-    if (value === null || value === undefined) {
-      return null;
-    }
-
-    if (typeof value === 'object') {
-      if ('text' in value && typeof (value as any).text === 'string') {
-        return (value as any).text;
-      }
-
-      if ('result' in value && (value as any).result !== undefined) {
-        return (value as any).result;
-      }
-
-      if (Array.isArray((value as any).richText)) {
-        return (value as any).richText
-          .map((segment: any) => segment?.text ?? '')
-          .join('')
-          .trim();
-      }
-
-      if ('hyperlink' in value && 'text' in value) {
-        return String((value as any).text);
-      }
-
-      if ('formula' in value && (value as any).formula) {
-        return (value as any).result ?? (value as any).formula;
-      }
-
-      if (typeof value.toString === 'function') {
-        return value.toString();
-      }
-    }
-
-    return value;
-  }
-
   private normaliseHeader(value: any): string {
     if (value === null || value === undefined) {
       return '';
@@ -0,0 +1,48 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  IMPORT_DELIMITERS,
+  IMPORT_ENCODINGS,
+  IMPORT_FORMATS,
+} from '../tabular-file.reader';
+import type {
+  ImportDelimiter,
+  ImportEncoding,
+  ImportFormat,
+} from '../tabular-file.reader';
+
+export class ImportFileOptionsDto {
+  @IsOptional()
+  @IsIn(['append', 'replace'])
+  mode?: 'append' | 'replace';
+
+  @IsOptional()
+  @IsIn(IMPORT_FORMATS)
+  format?: ImportFormat;
+
+  @IsOptional()
+  @IsIn(IMPORT_DELIMITERS)
+  delimiter?: ImportDelimiter;
+
+  @IsOptional()
+  @IsIn(IMPORT_ENCODINGS)
+  encoding?: ImportEncoding;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(31)
+  sheet?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  headerRow?: number;
+}
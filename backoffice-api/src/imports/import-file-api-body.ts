@@ -0,0 +1,64 @@
+import { ApiBodyOptions } from '@nestjs/swagger';
+import {
+  IMPORT_DELIMITERS,
+  IMPORT_ENCODINGS,
+  IMPORT_FORMATS,
+} from './tabular-file.reader';
+
+const importFileProperties = {
+  file: {
+    type: 'string',
+    format: 'binary',
+  },
+  mode: {
+    type: 'string',
+    enum: ['append', 'replace'],
+    default: 'append',
+  },
+  format: {
+    type: 'string',
+    enum: [...IMPORT_FORMATS],
+    description: 'Se detecta por extensión o contenido si se omite',
+  },
+  delimiter: {
+    type: 'string',
+    enum: [...IMPORT_DELIMITERS],
+    description: 'Separador de CSV; se detecta si se omite',
+  },
+  encoding: {
+    type: 'string',
+    enum: [...IMPORT_ENCODINGS],
+    description: 'Codificación de CSV/JSON; UTF-8 con respaldo a Latin-1',
+  },
+  sheet: {
+    type: 'string',
+    description: 'Hoja del libro de Excel; por defecto la primera',
+  },
+  headerRow: {
+    type: 'integer',
+    minimum: 1,
+    description:
+      'Fila de encabezados; si se omite se detecta por los nombres de columna conocidos',
+  },
+};
+
+export const importFileApiBody: ApiBodyOptions = {
+  schema: {
+    type: 'object',
+    properties: importFileProperties,
+  },
+};
+
+export const catalogImportApiBody: ApiBodyOptions = {
+  schema: {
+    type: 'object',
+    properties: {
+      ...importFileProperties,
+      columnMapping: {
+        type: 'string',
+        description:
+          'JSON de campo a encabezado del archivo; null omite el campo. Si se omite se usa la asignación guardada o la sugerida',
+      },
+    },
+  },
+};
@@ -0,0 +1,50 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiBody, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ImportFileOptionsDto } from './dto/import-file-options.dto';
+import { importFileApiBody } from './import-file-api-body';
+import { IMPORT_MAX_FILE_SIZE, TabularFileReader } from './tabular-file.reader';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { UserRole } from '../users/user.entity';
+
+@ApiTags('Importaciones')
+@ApiBearerAuth('JWT')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('imports')
+export class ImportsController {
+  constructor(private readonly tabularFileReader: TabularFileReader) {}
+
+  @Roles(UserRole.ADMIN)
+  @Post('inspect')
+  @HttpCode(HttpStatus.OK)
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(importFileApiBody)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: IMPORT_MAX_FILE_SIZE },
+    }),
+  )
+  async inspect(
+    @UploadedFile() file: Express.Multer.File,
+    @Query() query: ImportFileOptionsDto,
+    @Body() body: ImportFileOptionsDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Se requiere un archivo para importar');
+    }
+    return this.tabularFileReader.inspect(file, { ...body, ...query });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { ImportsController } from './imports.controller';
+import { TabularFileReader } from './tabular-file.reader';
+import { TabularFileWriter } from './tabular-file.writer';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [ImportsController],
+  providers: [TabularFileReader, TabularFileWriter],
+  exports: [TabularFileReader, TabularFileWriter],
+})
+export class ImportsModule {}
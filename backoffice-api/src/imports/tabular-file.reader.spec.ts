@@ -0,0 +1,237 @@
+import { BadRequestException } from '@nestjs/common';
+import { Workbook } from 'exceljs';
+import { ImportFile, TabularFileReader } from './tabular-file.reader';
+
+const csvFile = (
+  content: string | Buffer,
+  originalname = 'catalogo.csv',
+): ImportFile => ({
+  buffer: typeof content === 'string' ? Buffer.from(content) : content,
+  originalname,
+});
+
+describe('TabularFileReader', () => {
+  let reader: TabularFileReader;
+
+  beforeEach(() => {
+    reader = new TabularFileReader();
+  });
+
+  describe('delimited files', () => {
+    it('keeps delimiters, escaped quotes and line breaks inside quoted values', async () => {
+      const sheet = await reader.read(
+        csvFile(
+          'codigo,descripcion\n01,"Venta, al contado"\n02,"Dice ""hola"""\n03,"Primera línea\nSegunda línea"\n',
+        ),
+      );
+
+      expect(sheet.headers).toEqual(['codigo', 'descripcion']);
+      expect(sheet.rows).toEqual([
+        { rowNumber: 2, values: ['01', 'Venta, al contado'] },
+        { rowNumber: 3, values: ['02', 'Dice "hola"'] },
+        { rowNumber: 4, values: ['03', 'Primera línea\nSegunda línea'] },
+      ]);
+    });
+
+    it('numbers rows by the line where each record starts', async () => {
+      const sheet = await reader.read(
+        csvFile('codigo,descripcion\r\n01,"a\r\nb"\r\n\r\n02,c'),
+      );
+
+      expect(sheet.rows.map((row) => row.rowNumber)).toEqual([2, 5]);
+      expect(sheet.rows[1].values).toEqual(['02', 'c']);
+    });
+
+    it('keeps leading zeros as text', async () => {
+      const sheet = await reader.read(csvFile('codigo\n007\n'));
+
+      expect(sheet.rows[0].values).toEqual(['007']);
+    });
+
+    it('rejects a quoted value that is never closed', async () => {
+      await expect(
+        reader.read(csvFile('codigo,descripcion\n01,"sin cerrar\n')),
+      ).rejects.toThrow('Comillas sin cerrar a partir de la fila 2');
+    });
+
+    it('detects the delimiter from the first lines', async () => {
+      const sheet = await reader.read(
+        csvFile('codigo;descripcion\n01;Uno, con coma\n'),
+      );
+
+      expect(sheet.headers).toEqual(['codigo', 'descripcion']);
+      expect(sheet.rows[0].values).toEqual(['01', 'Uno, con coma']);
+    });
+
+    it('uses the requested delimiter and tabs for TSV files', async () => {
+      const piped = await reader.read(csvFile('codigo|descripcion\n01|a;b\n'), {
+        delimiter: '|',
+      });
+      const tsv = await reader.read(
+        csvFile('codigo\tdescripcion\n01\ta,b\n', 'catalogo.tsv'),
+      );
+
+      expect(piped.rows[0].values).toEqual(['01', 'a;b']);
+      expect(tsv.format).toBe('tsv');
+      expect(tsv.rows[0].values).toEqual(['01', 'a,b']);
+    });
+  });
+
+  describe('encodings', () => {
+    it('drops the UTF-8 byte order mark from the first header', async () => {
+      const sheet = await reader.read(
+        csvFile(
+          Buffer.concat([
+            Buffer.from([0xef, 0xbb, 0xbf]),
+            Buffer.from('codigo,descripción\n01,Café\n'),
+          ]),
+        ),
+      );
+
+      expect(sheet.headers).toEqual(['codigo', 'descripción']);
+      expect(sheet.rows[0].values).toEqual(['01', 'Café']);
+    });
+
+    it('falls back to Windows-1252 when the file is not valid UTF-8', async () => {
+      const sheet = await reader.read(
+        csvFile(Buffer.from('codigo,descripcion\n01,Café\n', 'latin1')),
+      );
+
+      expect(sheet.rows[0].values).toEqual(['01', 'Café']);
+    });
+
+    it('decodes with the requested encoding', async () => {
+      const sheet = await reader.read(
+        csvFile(Buffer.from('codigo,descripcion\n01,Año\n', 'latin1')),
+        { encoding: 'latin1' },
+      );
+
+      expect(sheet.rows[0].values).toEqual(['01', 'Año']);
+    });
+
+    it('rejects invalid UTF-8 when UTF-8 is requested explicitly', async () => {
+      await expect(
+        reader.read(csvFile(Buffer.from('codigo\nCafé\n', 'latin1')), {
+          encoding: 'utf-8',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('header detection', () => {
+    const titled =
+      'Catálogo de unidades de medida\n' +
+      'Versión 4.4,,\n' +
+      'Código,Descripción,Símbolo\n' +
+      '01,Metro,m\n';
+
+    it('skips a title block above the row with the known column names', async () => {
+      const sheet = await reader.read(csvFile(titled), {
+        headerKeys: ['codigo', 'descripcion'],
+      });
+
+      expect(sheet.headerRow).toBe(3);
+      expect(sheet.headers).toEqual(['Código', 'Descripción', 'Símbolo']);
+      expect(sheet.rows).toEqual([
+        { rowNumber: 4, values: ['01', 'Metro', 'm'] },
+      ]);
+    });
+
+    it('prefers the row with most text cells when no column is known', async () => {
+      const sheet = await reader.read(csvFile(titled));
+
+      expect(sheet.headerRow).toBe(3);
+    });
+
+    it('uses the requested header row', async () => {
+      const sheet = await reader.read(csvFile(titled), { headerRow: 2 });
+
+      expect(sheet.headers).toEqual(['Versión 4.4', '', '']);
+      expect(sheet.rows.map((row) => row.rowNumber)).toEqual([3, 4]);
+    });
+
+    it('rejects a header row that does not exist', async () => {
+      await expect(
+        reader.read(csvFile(titled), { headerRow: 9 }),
+      ).rejects.toThrow('La fila 9 no existe o está vacía');
+    });
+
+    it('rejects an empty file', async () => {
+      await expect(reader.read(csvFile(''))).rejects.toThrow(
+        'El archivo no contiene una fila de encabezados',
+      );
+    });
+  });
+
+  describe('JSON files', () => {
+    it('reads an array of objects with the union of their keys as headers', async () => {
+      const sheet = await reader.read(
+        csvFile(
+          JSON.stringify([
+            { codigo: '01', descripcion: 'Uno' },
+            { codigo: '02', simbolo: 'x' },
+          ]),
+          'catalogo.json',
+        ),
+      );
+
+      expect(sheet.headers).toEqual(['codigo', 'descripcion', 'simbolo']);
+      expect(sheet.rows).toEqual([
+        { rowNumber: 2, values: ['01', 'Uno', undefined] },
+        { rowNumber: 3, values: ['02', undefined, 'x'] },
+      ]);
+    });
+
+    it('rejects JSON that is not an array of objects', async () => {
+      await expect(
+        reader.read(csvFile('{"data": [1, 2]}', 'catalogo.json')),
+      ).rejects.toThrow('El archivo JSON debe contener un arreglo de objetos');
+    });
+  });
+
+  describe('Excel workbooks', () => {
+    const workbookFile = async (): Promise<ImportFile> => {
+      const workbook = new Workbook();
+      workbook.addWorksheet('Portada').addRow(['Catálogo CABYS']);
+      const data = workbook.addWorksheet('Datos');
+      data.addRow(['categoria', 'descripcion']);
+      data.addRow(['0111100000100', 'Trigo']);
+      data.addRow(['0111100000200', 'Maíz']);
+      return {
+        buffer: Buffer.from(await workbook.xlsx.writeBuffer()),
+        originalname: 'cabys.xlsx',
+      };
+    };
+
+    it('reads the requested sheet regardless of case', async () => {
+      const sheet = await reader.read(await workbookFile(), { sheet: 'datos' });
+
+      expect(sheet.sheet).toBe('Datos');
+      expect(sheet.headers).toEqual(['categoria', 'descripcion']);
+      expect(sheet.rows.map((row) => row.values)).toEqual([
+        ['0111100000100', 'Trigo'],
+        ['0111100000200', 'Maíz'],
+      ]);
+    });
+
+    it('lists every sheet with its row count when inspecting', async () => {
+      const preview = await reader.inspect(await workbookFile(), {
+        sheet: 'Datos',
+      });
+
+      expect(preview.sheets).toEqual([
+        { name: 'Portada', rowCount: 1 },
+        { name: 'Datos', rowCount: 3 },
+      ]);
+      expect(preview.headerRow).toBe(1);
+    });
+
+    it('rejects a sheet that is not in the workbook', async () => {
+      await expect(
+        reader.read(await workbookFile(), { sheet: 'Resumen' }),
+      ).rejects.toThrow(
+        'La hoja "Resumen" no existe en el archivo. Hojas disponibles: Portada, Datos',
+      );
+    });
+  });
+});
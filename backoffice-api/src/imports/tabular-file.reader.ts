@@ -0,0 +1,649 @@
+import { Buffer } from 'node:buffer';
+import { extname } from 'node:path';
+import { Readable } from 'node:stream';
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { CellValue, stream } from 'exceljs';
+
+/**
+ * Upload limit of the Nest backoffice when it runs on its own server. The
+ * Vercel deployment (`api/api.ts`) never receives more than the 4.5 MB
+ * request body the platform accepts, whatever this value is.
+ */
+export const IMPORT_MAX_FILE_SIZE = 50 * 1024 * 1024;
+export const IMPORT_FORMATS = ['xlsx', 'csv', 'tsv', 'json'] as const;
+export const IMPORT_DELIMITERS = [',', ';', '|', '\t', 'tab'] as const;
+export const IMPORT_ENCODINGS = [
+  'utf-8',
+  'latin1',
+  'iso-8859-1',
+  'windows-1252',
+] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+export type ImportDelimiter = (typeof IMPORT_DELIMITERS)[number];
+export type ImportEncoding = (typeof IMPORT_ENCODINGS)[number];
+
+export interface ImportFile {
+  buffer: Buffer;
+  originalname?: string;
+  mimetype?: string;
+}
+
+export interface ImportFileOptions {
+  format?: ImportFormat;
+  delimiter?: ImportDelimiter;
+  encoding?: ImportEncoding;
+  sheet?: string;
+  headerRow?: number;
+  headerKeys?: string[];
+}
+
+export interface TabularRow {
+  rowNumber: number;
+  values: unknown[];
+}
+
+export interface TabularSheet {
+  format: ImportFormat;
+  sheet: string | null;
+  headerRow: number;
+  headers: unknown[];
+  rows: TabularRow[];
+}
+
+export interface TabularStream {
+  format: ImportFormat;
+  sheet: string | null;
+  headerRow: number;
+  headers: unknown[];
+  rows: AsyncIterable<TabularRow>;
+}
+
+export interface TabularFilePreview {
+  format: ImportFormat;
+  sheets: Array<{ name: string; rowCount: number }>;
+  sheet: string | null;
+  headerRow: number;
+  rows: TabularRow[];
+}
+
+interface TabularRecords {
+  sheet: string | null;
+  records: AsyncIterator<TabularRow, void> | Iterator<TabularRow, void>;
+}
+
+interface TabularHead {
+  sheets: Array<{ name: string; rowCount: number }>;
+  sheet: string | null;
+  head: TabularRow[];
+}
+
+type WorksheetReader = stream.xlsx.WorksheetReader & { name: string };
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const HEADER_SCAN_ROWS = 20;
+const PREVIEW_ROWS = 10;
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  '.xlsx': 'xlsx',
+  '.csv': 'csv',
+  '.txt': 'csv',
+  '.tsv': 'tsv',
+  '.json': 'json',
+};
+
+const MIME_FORMATS: Record<string, ImportFormat> = {
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'tsv',
+  'application/json': 'json',
+};
+
+@Injectable()
+export class TabularFileReader {
+  async read(
+    file: ImportFile,
+    options: ImportFileOptions = {},
+  ): Promise<TabularSheet> {
+    const { rows, ...sheet } = await this.stream(file, options);
+    const collected: TabularRow[] = [];
+    for await (const row of rows) {
+      collected.push(row);
+    }
+    return { ...sheet, rows: collected };
+  }
+
+  /**
+   * Resolves the header row and returns the data rows as they are parsed, so
+   * large workbooks never have to be held in memory as a whole.
+   */
+  async stream(
+    file: ImportFile,
+    options: ImportFileOptions = {},
+  ): Promise<TabularStream> {
+    const format = options.format ?? this.detectFormat(file);
+    if (format === 'json') {
+      const { rows, ...sheet } = this.readJson(
+        this.decode(file.buffer, options.encoding),
+      );
+      return { ...sheet, rows: this.remainingRows([], rows.values()) };
+    }
+
+    const { sheet, records } = await this.openRecords(file, format, options);
+    const head: TabularRow[] = [];
+    for (
+      let next = await records.next();
+      next.done !== true;
+      next = await records.next()
+    ) {
+      head.push(next.value);
+      if (
+        options.headerRow
+          ? next.value.rowNumber >= options.headerRow
+          : head.length >= HEADER_SCAN_ROWS
+      ) {
+        break;
+      }
+    }
+    const headerIndex = this.findHeaderIndex(head, options);
+    const header = head[headerIndex];
+
+    return {
+      format,
+      sheet,
+      headerRow: header.rowNumber,
+      headers: header.values,
+      rows: this.remainingRows(head.slice(headerIndex + 1), records),
+    };
+  }
+
+  async inspect(
+    file: ImportFile,
+    options: ImportFileOptions = {},
+  ): Promise<TabularFilePreview> {
+    const format = options.format ?? this.detectFormat(file);
+    if (format === 'json') {
+      const sheet = this.readJson(this.decode(file.buffer, options.encoding));
+      return {
+        format,
+        sheets: [],
+        sheet: null,
+        headerRow: 1,
+        rows: [
+          { rowNumber: 1, values: sheet.headers },
+          ...sheet.rows.slice(0, PREVIEW_ROWS - 1),
+        ],
+      };
+    }
+
+    const { sheets, sheet, head } =
+      format === 'xlsx'
+        ? await this.scanWorkbook(file.buffer, options)
+        : await this.scanDelimited(file, format, options);
+    const headerIndex = this.findHeaderIndex(head, options);
+
+    return {
+      format,
+      sheets,
+      sheet,
+      headerRow: head[headerIndex].rowNumber,
+      rows: head.slice(0, Math.max(PREVIEW_ROWS, headerIndex + 4)),
+    };
+  }
+
+  private async openRecords(
+    file: ImportFile,
+    format: ImportFormat,
+    options: ImportFileOptions,
+  ): Promise<TabularRecords> {
+    if (format === 'xlsx') {
+      return this.openWorksheet(file.buffer, options.sheet);
+    }
+
+    const text = this.decode(file.buffer, options.encoding);
+    const delimiter =
+      format === 'tsv' || options.delimiter === 'tab'
+        ? '\t'
+        : (options.delimiter ?? this.detectDelimiter(text));
+    return { sheet: null, records: this.parseDelimited(text, delimiter) };
+  }
+
+  private async *remainingRows(
+    head: TabularRow[],
+    records: AsyncIterator<TabularRow, void> | Iterator<TabularRow, void>,
+  ): AsyncGenerator<TabularRow, void> {
+    yield* head;
+    for (
+      let next = await records.next();
+      next.done !== true;
+      next = await records.next()
+    ) {
+      yield next.value;
+    }
+  }
+
+  private isPreviewRecord(
+    head: TabularRow[],
+    record: TabularRow,
+    options: ImportFileOptions,
+  ): boolean {
+    return (
+      head.length < HEADER_SCAN_ROWS + 3 ||
+      (options.headerRow !== undefined &&
+        record.rowNumber <= options.headerRow + 3)
+    );
+  }
+
+  private findHeaderIndex(
+    records: TabularRow[],
+    options: ImportFileOptions,
+  ): number {
+    if (options.headerRow) {
+      const index = records.findIndex(
+        (record) => record.rowNumber === options.headerRow,
+      );
+      if (index < 0) {
+        throw new BadRequestException(
+          `La fila ${options.headerRow} no existe o está vacía`,
+        );
+      }
+      return index;
+    }
+
+    if (records.length === 0) {
+      throw new BadRequestException(
+        'El archivo no contiene una fila de encabezados',
+      );
+    }
+
+    const keys = new Set(
+      (options.headerKeys ?? [])
+        .map((key) => this.normaliseHeader(key))
+        .filter(Boolean),
+    );
+    const scores = records.slice(0, HEADER_SCAN_ROWS).map((record) => {
+      const cells = record.values.map((value) => this.normaliseHeader(value));
+      return {
+        matches: cells.filter((cell) => keys.has(cell)).length,
+        filled: new Set(cells.filter((cell) => cell && !/^\d+$/.test(cell)))
+          .size,
+      };
+    });
+    const best = scores.reduce(
+      (winner, score, index) =>
+        score.matches > scores[winner].matches ||
+        (score.matches === scores[winner].matches &&
+          score.filled > scores[winner].filled)
+          ? index
+          : winner,
+      0,
+    );
+    return best;
+  }
+
+  private detectFormat(file: ImportFile): ImportFormat {
+    const byExtension =
+      EXTENSION_FORMATS[extname(file.originalname ?? '').toLowerCase()];
+    if (byExtension) {
+      return byExtension;
+    }
+
+    const byMime = MIME_FORMATS[file.mimetype ?? ''];
+    if (byMime) {
+      return byMime;
+    }
+
+    if (file.buffer.subarray(0, 2).toString('latin1') === 'PK') {
+      return 'xlsx';
+    }
+    const firstChar = this.decode(file.buffer.subarray(0, 64)).trimStart()[0];
+    return firstChar === '[' || firstChar === '{' ? 'json' : 'csv';
+  }
+
+  private decode(buffer: Buffer, encoding?: ImportEncoding): string {
+    if (encoding && encoding !== 'utf-8') {
+      return new TextDecoder(encoding).decode(buffer);
+    }
+
+    try {
+      return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(
+        buffer,
+      );
+    } catch {
+      if (encoding) {
+        throw new BadRequestException('El archivo no está codificado en UTF-8');
+      }
+      return new TextDecoder('windows-1252').decode(buffer);
+    }
+  }
+
+  private openWorkbook(buffer: Buffer): stream.xlsx.WorkbookReader {
+    return new stream.xlsx.WorkbookReader(Readable.from(buffer), {
+      worksheets: 'emit',
+      sharedStrings: 'cache',
+      styles: 'cache',
+      hyperlinks: 'ignore',
+    });
+  }
+
+  private async openWorksheet(
+    buffer: Buffer,
+    sheetName?: string,
+  ): Promise<TabularRecords> {
+    const workbook = this.openWorkbook(buffer);
+    const worksheets = workbook[Symbol.asyncIterator]();
+    let target: string | undefined;
+
+    for (
+      let next = await worksheets.next();
+      next.done !== true;
+      next = await worksheets.next()
+    ) {
+      const worksheet = next.value as WorksheetReader;
+      target ??= this.resolveSheetName(
+        this.sheetNames(workbook, worksheet),
+        sheetName,
+      );
+      if (worksheet.name === target) {
+        return { sheet: target, records: this.readWorksheet(worksheet) };
+      }
+    }
+
+    throw new BadRequestException(
+      'El archivo Excel no contiene hojas de trabajo',
+    );
+  }
+
+  private async scanWorkbook(
+    buffer: Buffer,
+    options: ImportFileOptions,
+  ): Promise<TabularHead> {
+    const workbook = this.openWorkbook(buffer);
+    const rowCounts = new Map<string, number>();
+    const head: TabularRow[] = [];
+    let names: string[] = [];
+    let target: string | undefined;
+
+    for await (const emitted of workbook) {
+      const worksheet = emitted as WorksheetReader;
+      if (!target) {
+        names = this.sheetNames(workbook, worksheet);
+        target = this.resolveSheetName(names, options.sheet);
+      }
+
+      let rowCount = 0;
+      for await (const record of this.readWorksheet(worksheet)) {
+        rowCount += 1;
+        if (
+          worksheet.name === target &&
+          this.isPreviewRecord(head, record, options)
+        ) {
+          head.push(record);
+        }
+      }
+      rowCounts.set(worksheet.name, rowCount);
+    }
+
+    if (!target) {
+      throw new BadRequestException(
+        'El archivo Excel no contiene hojas de trabajo',
+      );
+    }
+
+    return {
+      sheets: names.map((name) => ({
+        name,
+        rowCount: rowCounts.get(name) ?? 0,
+      })),
+      sheet: target,
+      head,
+    };
+  }
+
+  private async scanDelimited(
+    file: ImportFile,
+    format: ImportFormat,
+    options: ImportFileOptions,
+  ): Promise<TabularHead> {
+    const { records } = await this.openRecords(file, format, options);
+    const head: TabularRow[] = [];
+    for (
+      let next = await records.next();
+      next.done !== true && this.isPreviewRecord(head, next.value, options);
+      next = await records.next()
+    ) {
+      head.push(next.value);
+    }
+    return { sheets: [], sheet: null, head };
+  }
+
+  private sheetNames(
+    workbook: stream.xlsx.WorkbookReader,
+    worksheet: WorksheetReader,
+  ): string[] {
+    const names = (workbook.model?.sheets ?? []).map((sheet) => sheet.name);
+    return names.length > 0 ? names : [worksheet.name];
+  }
+
+  private resolveSheetName(names: string[], sheetName?: string): string {
+    if (!sheetName) {
+      return names[0];
+    }
+
+    const name =
+      names.find((candidate) => candidate === sheetName) ??
+      names.find(
+        (candidate) =>
+          candidate.trim().toLowerCase() === sheetName.trim().toLowerCase(),
+      );
+    if (!name) {
+      throw new BadRequestException(
+        `La hoja "${sheetName}" no existe en el archivo. Hojas disponibles: ${names.join(', ')}`,
+      );
+    }
+    return name;
+  }
+
+  private async *readWorksheet(
+    worksheet: WorksheetReader,
+  ): AsyncGenerator<TabularRow, void> {
+    for await (const row of worksheet) {
+      const values: unknown[] = [];
+      for (let column = 1; column <= row.cellCount; column += 1) {
+        values.push(this.extractCellValue(row.getCell(column).value));
+      }
+      if (values.some((value) => value !== null && value !== '')) {
+        yield { rowNumber: row.number, values };
+      }
+    }
+  }
+
+  private readJson(text: string): TabularSheet {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new BadRequestException('El archivo JSON no es válido');
+    }
+
+    const records =
+      parsed && !Array.isArray(parsed) && typeof parsed === 'object'
+        ? (parsed as Record<string, unknown>).data
+        : parsed;
+    if (
+      !Array.isArray(records) ||
+      records.some(
+        (record) =>
+          !record || typeof record !== 'object' || Array.isArray(record),
+      )
+    ) {
+      throw new BadRequestException(
+        'El archivo JSON debe contener un arreglo de objetos',
+      );
+    }
+
+    const headers: string[] = [];
+    (records as Record<string, unknown>[]).forEach((record) => {
+      Object.keys(record).forEach((key) => {
+        if (!headers.includes(key)) {
+          headers.push(key);
+        }
+      });
+    });
+
+    if (headers.length === 0) {
+      throw new BadRequestException(
+        'El archivo JSON no contiene registros con columnas',
+      );
+    }
+
+    return {
+      format: 'json',
+      sheet: null,
+      headerRow: 1,
+      headers,
+      rows: (records as Record<string, unknown>[]).map((record, index) => ({
+        rowNumber: index + 2,
+        values: headers.map((header) => {
+          const value = record[header];
+          return value !== null && typeof value === 'object'
+            ? JSON.stringify(value)
+            : value;
+        }),
+      })),
+    };
+  }
+
+  private *parseDelimited(
+    text: string,
+    delimiter: string,
+  ): Generator<TabularRow, void> {
+    let values: string[] = [];
+    let value = '';
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const takeRecord = (): TabularRow | null => {
+      values.push(value);
+      const record = values.some((cell) => cell.trim() !== '')
+        ? { rowNumber: recordLine, values }
+        : null;
+      values = [];
+      value = '';
+      return record;
+    };
+
+    for (let index = 0; index < text.length; index += 1) {
+      const char = text[index];
+
+      if (inQuotes) {
+        if (char === '"' && text[index + 1] === '"') {
+          value += '"';
+          index += 1;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          if (char === '\n') {
+            line += 1;
+          }
+          value += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && value === '') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        values.push(value);
+        value = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[index + 1] === '\n') {
+          index += 1;
+        }
+        const record = takeRecord();
+        if (record) {
+          yield record;
+        }
+        line += 1;
+        recordLine = line;
+      } else {
+        value += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new BadRequestException(
+        `Comillas sin cerrar a partir de la fila ${recordLine}`,
+      );
+    }
+    if (value !== '' || values.length > 0) {
+      const record = takeRecord();
+      if (record) {
+        yield record;
+      }
+    }
+  }
+
+  private detectDelimiter(text: string): string {
+    const lines = text.split(/\r?\n/, HEADER_SCAN_ROWS);
+    const counts = DELIMITER_CANDIDATES.map((candidate) => ({
+      candidate,
+      count: lines.reduce(
+        (total, line) => total + line.split(candidate).length - 1,
+        0,
+      ),
+    }));
+    const best = counts.reduce((winner, current) =>
+      current.count > winner.count ? current : winner,
+    );
+    return best.count > 0 ? best.candidate : ',';
+  }
+
+  private normaliseHeader(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    return String(value as string)
+      .trim()
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]/g, '');
+  }
+
+  private extractCellValue(value: CellValue): unknown {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    if (typeof value !== 'object' || value instanceof Date) {
+      return value;
+    }
+
+    if ('richText' in value) {
+      return value.richText
+        .map((segment) => segment.text ?? '')
+        .join('')
+        .trim();
+    }
+
+    if ('text' in value) {
+      return String(value.text);
+    }
+
+    if ('result' in value && value.result !== undefined) {
+      return value.result;
+    }
+
+    if ('formula' in value) {
+      return value.formula;
+    }
+
+    if ('error' in value) {
+      return value.error;
+    }
+
+    return null;
+  }
+}
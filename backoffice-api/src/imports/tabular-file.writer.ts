@@ -0,0 +1,87 @@
+import { Buffer } from 'node:buffer';
+import { Injectable } from '@nestjs/common';
+import { Workbook } from 'exceljs';
+
+export enum ExportFormat {
+  XLSX = 'xlsx',
+  CSV = 'csv',
+  JSON = 'json',
+}
+
+export interface TabularExport {
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.XLSX]:
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormat.JSON]: 'application/json; charset=utf-8',
+};
+
+@Injectable()
+export class TabularFileWriter {
+  async write(
+    format: ExportFormat,
+    headers: string[],
+    rows: unknown[][],
+  ): Promise<TabularExport> {
+    let buffer: Buffer;
+    if (format === ExportFormat.XLSX) {
+      buffer = await this.writeWorkbook(headers, rows);
+    } else if (format === ExportFormat.CSV) {
+      buffer = this.writeCsv(headers, rows);
+    } else {
+      buffer = this.writeJson(headers, rows);
+    }
+
+    return { buffer, contentType: CONTENT_TYPES[format], extension: format };
+  }
+
+  private async writeWorkbook(
+    headers: string[],
+    rows: unknown[][],
+  ): Promise<Buffer> {
+    const workbook = new Workbook();
+    const worksheet = workbook.addWorksheet('Datos');
+    worksheet.addRow(headers).font = { bold: true };
+    rows.forEach((values) => {
+      worksheet.addRow(values.map((value) => value ?? null));
+    });
+
+    const output = await workbook.xlsx.writeBuffer();
+    return Buffer.from(output as ArrayBuffer);
+  }
+
+  private writeCsv(headers: string[], rows: unknown[][]): Buffer {
+    const lines = [headers, ...rows].map((values) =>
+      values.map((value) => this.escapeCsvValue(value)).join(','),
+    );
+    return Buffer.from(`\uFEFF${lines.join('\r\n')}\r\n`, 'utf-8');
+  }
+
+  private writeJson(headers: string[], rows: unknown[][]): Buffer {
+    const records = rows.map((values) =>
+      Object.fromEntries(
+        headers.map((header, index) => [header, values[index] ?? null]),
+      ),
+    );
+    return Buffer.from(JSON.stringify(records, null, 2), 'utf-8');
+  }
+
+  private escapeCsvValue(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    const text =
+      value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value as string | number | boolean);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
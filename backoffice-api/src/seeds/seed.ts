@@ -354,7 +354,7 @@ requests.delete(
             path: '/api/catalogs/{catalogKey}/import',
             summary: 'Importar registros desde Excel.',
             description:
-              'Acepta archivos .xlsx de hasta 5MB. El modo "append" agrega registros; "replace" limpia antes de importar.',
+              'Acepta archivos .xlsx de hasta 50MB. El modo "append" agrega registros; "replace" limpia antes de importar.',
             authentication: 'bearer',
             parameters: [
               {
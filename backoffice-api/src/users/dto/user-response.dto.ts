@@ -1,4 +1,5 @@
 import { UserRole } from '../user.entity';
+import { KeysetPageMeta } from '../../common/keyset-pagination';
 
 export class UserResponseDto {
   id!: string;
@@ -11,9 +12,11 @@ export class UserResponseDto {
 
 export class UserListResponseDto {
   data!: UserResponseDto[];
-  meta!: {
-    total: number;
-    page: number;
-    limit: number;
-  };
+  meta!:
+    | {
+        total: number;
+        page: number;
+        limit: number;
+      }
+    | KeysetPageMeta;
 }
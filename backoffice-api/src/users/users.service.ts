@@ -15,6 +15,7 @@ import {
   UserListResponseDto,
   UserResponseDto,
 } from './dto/user-response.dto';
+import { isKeysetQuery, paginateByKeyset } from '../common/keyset-pagination';
 
 const DEFAULT_LIMIT = 20;
 const MAX_LIMIT = 100;
@@ -62,11 +63,14 @@ export class UsersService {
       qb.where('LOWER(user.username) LIKE :search', { search: `%${term}%` });
     }
 
-    qb
-      .orderBy('user.createdAt', 'DESC')
-      .addOrderBy('user.id', 'DESC')
-      .skip((page - 1) * limit)
-      .take(limit);
+    qb.orderBy('user.createdAt', 'DESC').addOrderBy('user.id', 'DESC');
+
+    if (isKeysetQuery(query)) {
+      const { data, meta } = await paginateByKeyset(qb, query, limit);
+      return { data: data.map((user) => this.toResponse(user)), meta };
+    }
+
+    qb.skip((page - 1) * limit).take(limit);
 
     const [users, total] = await qb.getManyAndCount();
 